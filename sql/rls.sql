@@ -14,35 +14,74 @@ END
 $$;
 
 GRANT USAGE ON SCHEMA public TO vfs_app;
-GRANT ALL ON vfs_sessions, vfs_nodes TO vfs_app;
+GRANT ALL ON vfs_sessions, vfs_nodes, vfs_revisions, vfs_snapshots, vfs_snapshot_nodes,
+    vfs_trash, vfs_trash_nodes, vfs_locks, vfs_embeddings TO vfs_app;
 GRANT USAGE ON ALL SEQUENCES IN SCHEMA public TO vfs_app;
 
--- 2. Enable RLS on both tables
+-- 2. Enable RLS on all tables
 ALTER TABLE vfs_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE vfs_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_snapshot_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_trash ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_trash_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_embeddings ENABLE ROW LEVEL SECURITY;
 
--- 3. Policies: access own session rows + all persistent store rows
+-- 3. Policies: access own session rows + persistent store rows of the same tenant
+--    app.vfs_tenant_id is '' (or unset) for single-tenant / unauthenticated use
 
 -- Drop existing policies if re-running
 DROP POLICY IF EXISTS vfs_sessions_isolation ON vfs_sessions;
 DROP POLICY IF EXISTS vfs_nodes_isolation ON vfs_nodes;
+DROP POLICY IF EXISTS vfs_revisions_isolation ON vfs_revisions;
+DROP POLICY IF EXISTS vfs_snapshots_isolation ON vfs_snapshots;
+DROP POLICY IF EXISTS vfs_snapshot_nodes_isolation ON vfs_snapshot_nodes;
+DROP POLICY IF EXISTS vfs_trash_isolation ON vfs_trash;
+DROP POLICY IF EXISTS vfs_trash_nodes_isolation ON vfs_trash_nodes;
+DROP POLICY IF EXISTS vfs_locks_isolation ON vfs_locks;
+DROP POLICY IF EXISTS vfs_embeddings_isolation ON vfs_embeddings;
 
 CREATE POLICY vfs_sessions_isolation ON vfs_sessions
     USING (
-        id = current_setting('app.vfs_session_id', true)
-        OR is_persistent = true
+        tenant_id IS NOT DISTINCT FROM NULLIF(current_setting('app.vfs_tenant_id', true), '')
+        AND (id = current_setting('app.vfs_session_id', true) OR is_persistent = true)
     )
     WITH CHECK (
-        id = current_setting('app.vfs_session_id', true)
-        OR is_persistent = true
+        tenant_id IS NOT DISTINCT FROM NULLIF(current_setting('app.vfs_tenant_id', true), '')
+        AND (id = current_setting('app.vfs_session_id', true) OR is_persistent = true)
     );
 
+-- Nodes, revisions, snapshots, trash, locks and embeddings follow their namespace (the subquery is itself filtered by the policy above)
 CREATE POLICY vfs_nodes_isolation ON vfs_nodes
-    USING (
-        session_id = current_setting('app.vfs_session_id', true)
-        OR session_id IN (SELECT id FROM vfs_sessions WHERE is_persistent = true)
-    )
-    WITH CHECK (
-        session_id = current_setting('app.vfs_session_id', true)
-        OR session_id IN (SELECT id FROM vfs_sessions WHERE is_persistent = true)
-    );
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_revisions_isolation ON vfs_revisions
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_snapshots_isolation ON vfs_snapshots
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_snapshot_nodes_isolation ON vfs_snapshot_nodes
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_trash_isolation ON vfs_trash
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_trash_nodes_isolation ON vfs_trash_nodes
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_locks_isolation ON vfs_locks
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_embeddings_isolation ON vfs_embeddings
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
@@ -6,6 +6,10 @@
 CREATE TABLE IF NOT EXISTS vfs_sessions (
     id TEXT PRIMARY KEY,
     is_persistent BOOLEAN NOT NULL DEFAULT false,
+    tenant_id TEXT,
+    acl JSONB,
+    history_max_versions INTEGER,
+    history_max_age_days INTEGER,
     created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
@@ -16,11 +20,121 @@ CREATE TABLE IF NOT EXISTS vfs_nodes (
     path TEXT NOT NULL,
     node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
     content TEXT,
+    content_key TEXT,
     created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
     updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
     UNIQUE (session_id, path)
 );
 
+-- File revision history: one row per change to a file, newest = highest id
+CREATE TABLE IF NOT EXISTS vfs_revisions (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    op TEXT NOT NULL CHECK (op IN ('write', 'append', 'delete', 'move')),
+    content TEXT,
+    content_key TEXT,
+    size INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Namespace snapshots: a named, point-in-time copy of every node
+CREATE TABLE IF NOT EXISTS vfs_snapshots (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (session_id, name)
+);
+
+-- Nodes captured by a snapshot (offloaded contents share the node's object key)
+CREATE TABLE IF NOT EXISTS vfs_snapshot_nodes (
+    snapshot_id BIGINT NOT NULL REFERENCES vfs_snapshots(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    content TEXT,
+    content_key TEXT,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (snapshot_id, path)
+);
+
+-- Trash: subtrees removed by rm while trash is enabled
+CREATE TABLE IF NOT EXISTS vfs_trash (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    deleted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Nodes of a trashed subtree, at their original paths
+CREATE TABLE IF NOT EXISTS vfs_trash_nodes (
+    trash_id BIGINT NOT NULL REFERENCES vfs_trash(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    content TEXT,
+    content_key TEXT,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (trash_id, path)
+);
+
+-- Embeddings of file chunks for semantic search, dropped with their node.
+-- etag is the content they were computed from; stale rows are recomputed.
+CREATE TABLE IF NOT EXISTS vfs_embeddings (
+    node_id BIGINT NOT NULL REFERENCES vfs_nodes(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    chunk INTEGER NOT NULL,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    model TEXT NOT NULL,
+    etag TEXT NOT NULL,
+    embedding REAL[] NOT NULL,
+    PRIMARY KEY (node_id, chunk)
+);
+
+-- Path locks held by a session until they expire
+CREATE TABLE IF NOT EXISTS vfs_locks (
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    mandatory BOOLEAN NOT NULL DEFAULT false,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (session_id, path)
+);
+
+-- Columns added after the initial release (no-ops on fresh databases)
+-- content_key: object-store key when content is offloaded (content is then NULL)
+ALTER TABLE vfs_nodes ADD COLUMN IF NOT EXISTS content_key TEXT;
+-- tenant_id: owning tenant (NULL = single-tenant / unauthenticated)
+ALTER TABLE vfs_sessions ADD COLUMN IF NOT EXISTS tenant_id TEXT;
+-- acl: store access control list {owner, readers, writers} (NULL = unrestricted)
+ALTER TABLE vfs_sessions ADD COLUMN IF NOT EXISTS acl JSONB;
+-- history_*: per-namespace revision retention (NULL = server default)
+ALTER TABLE vfs_sessions ADD COLUMN IF NOT EXISTS history_max_versions INTEGER;
+ALTER TABLE vfs_sessions ADD COLUMN IF NOT EXISTS history_max_age_days INTEGER;
+-- search_vector: full-text index of inline file contents, for the search tool
+ALTER TABLE vfs_nodes ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('english', left(COALESCE(content, ''), 100000))
+    ) STORED;
+
+-- Store listing per tenant
+CREATE INDEX IF NOT EXISTS idx_vfs_sessions_tenant
+    ON vfs_sessions (tenant_id) WHERE is_persistent;
+
+-- Embeddings searched within a namespace
+CREATE INDEX IF NOT EXISTS idx_vfs_embeddings_session
+    ON vfs_embeddings (session_id, model);
+
+-- Revisions of one file, newest first
+CREATE INDEX IF NOT EXISTS idx_vfs_revisions_path
+    ON vfs_revisions (session_id, path, id DESC);
+
 -- Prefix index for ls/rm (LIKE 'prefix%' queries)
 CREATE INDEX IF NOT EXISTS idx_vfs_nodes_path_prefix
     ON vfs_nodes (session_id, path text_pattern_ops);
@@ -30,3 +144,8 @@ CREATE EXTENSION IF NOT EXISTS pg_trgm;
 CREATE INDEX IF NOT EXISTS idx_vfs_nodes_content_trgm
     ON vfs_nodes USING gin (content gin_trgm_ops)
     WHERE node_type = 'file' AND content IS NOT NULL;
+
+-- Full-text index for search
+CREATE INDEX IF NOT EXISTS idx_vfs_nodes_search
+    ON vfs_nodes USING gin (search_vector)
+    WHERE node_type = 'file';
@@ -0,0 +1,81 @@
+import crypto from "node:crypto";
+import { isValidTenantId } from "./storage/namespace.js";
+
+/** Who a request is authenticated as. */
+export interface AuthIdentity {
+  /** Tenant whose sessions and stores the caller works in. */
+  tenant: string;
+  /** Caller identity within the tenant, matched against store ACLs. */
+  principal: string;
+}
+
+function digest(token: string): Buffer {
+  return crypto.createHash("sha256").update(token).digest();
+}
+
+/**
+ * Static bearer-token authentication: each API token maps to one tenant
+ * (and a principal within it). Tokens are kept only as SHA-256 digests
+ * and compared in constant time.
+ */
+export class TokenAuth {
+  private tokens: { digest: Buffer; identity: AuthIdentity }[] = [];
+
+  /** @param tokens Map of tenant ID → API token; the principal is the tenant ID. */
+  constructor(tokens: Record<string, string>) {
+    for (const [tenant, token] of Object.entries(tokens)) {
+      this.add({ tenant, principal: tenant }, token);
+    }
+  }
+
+  private add(identity: AuthIdentity, token: string): void {
+    if (!isValidTenantId(identity.tenant)) {
+      throw new Error(`Invalid tenant ID: ${identity.tenant}`);
+    }
+    if (!isValidTenantId(identity.principal)) {
+      throw new Error(`Invalid principal: ${identity.principal}`);
+    }
+    if (!token) {
+      throw new Error(`Empty API token for tenant: ${identity.tenant}`);
+    }
+    this.tokens.push({ digest: digest(token), identity });
+  }
+
+  /**
+   * Parse `tenant=token` or `tenant:principal=token` entries separated by commas,
+   * e.g. `acme:ci=s3cret,acme:reviewer=hunter2,globex=t0ken`. A bare tenant is
+   * also its principal. An identity may appear more than once to hold several tokens.
+   */
+  static parse(spec: string): TokenAuth {
+    const auth = new TokenAuth({});
+    for (const entry of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+      const eq = entry.indexOf("=");
+      if (eq <= 0) {
+        throw new Error(`Malformed token entry (expected tenant=token): ${entry.slice(0, 16)}`);
+      }
+      const name = entry.slice(0, eq);
+      const colon = name.indexOf(":");
+      const tenant = colon < 0 ? name : name.slice(0, colon);
+      auth.add({ tenant, principal: name.slice(colon + 1) }, entry.slice(eq + 1));
+    }
+    if (auth.tokens.length === 0) {
+      throw new Error("No API tokens configured");
+    }
+    return auth;
+  }
+
+  /** Resolve an `Authorization: Bearer <token>` header to its identity, or null. */
+  authenticate(authorization: string | undefined): AuthIdentity | null {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization ?? "");
+    if (!match) return null;
+    const presented = digest(match[1]);
+    let identity: AuthIdentity | null = null;
+    // Check every entry so timing doesn't reveal which token matched
+    for (const entry of this.tokens) {
+      if (crypto.timingSafeEqual(entry.digest, presented)) {
+        identity = entry.identity;
+      }
+    }
+    return identity;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Exact-string text edits, applied in memory before a file is written back.
+ */
+
+import { VfsError } from "./errors.js";
+
+/** Replace `oldString` with `newString` — its only occurrence, or every one with `replaceAll`. */
+export interface TextEdit {
+  oldString: string;
+  newString: string;
+  replaceAll?: boolean;
+}
+
+/** Start offsets of the non-overlapping occurrences of `needle`, left to right. */
+function occurrences(haystack: string, needle: string): number[] {
+  const found: number[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+    found.push(i);
+  }
+  return found;
+}
+
+/**
+ * Apply `edits` to `content` in order, each to the result of the previous one.
+ * Throws EINVAL if an edit's old string is empty, unchanged, missing, or occurs
+ * more than once without `replaceAll` — so nothing is changed by guesswork.
+ */
+export function applyEdits(
+  path: string,
+  content: string,
+  edits: TextEdit[],
+): { content: string; replacements: number } {
+  let result = content;
+  let replacements = 0;
+  for (const [i, edit] of edits.entries()) {
+    const which = edits.length > 1 ? ` (edit ${i + 1})` : "";
+    if (edit.oldString === "") {
+      throw new VfsError("EINVAL", `old_string must not be empty${which}`);
+    }
+    if (edit.oldString === edit.newString) {
+      throw new VfsError("EINVAL", `old_string and new_string are identical${which}`);
+    }
+    const found = occurrences(result, edit.oldString);
+    if (found.length === 0) {
+      throw new VfsError("EINVAL", `old_string not found in ${path}${which}`);
+    }
+    if (found.length > 1 && !edit.replaceAll) {
+      throw new VfsError(
+        "EINVAL",
+        `old_string occurs ${found.length} times in ${path}${which} — include more context to make it unique, or set replace_all`,
+      );
+    }
+    result = result.split(edit.oldString).join(edit.newString);
+    replacements += found.length;
+  }
+  return { content: result, replacements };
+}
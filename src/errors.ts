@@ -0,0 +1,10 @@
+/** Filesystem error with a POSIX-style error code. */
+export class VfsError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "VfsError";
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Glob patterns over absolute VFS paths, with picomatch semantics (as the
+ * glob tool uses). Backends can't evaluate them, so callers narrow the paths
+ * to the directory a pattern is anchored under and a regex translated from
+ * it, then match exactly.
+ */
+
+import picomatch from "picomatch";
+import { normalizePath, parentPath } from "./paths.js";
+
+/**
+ * Directory that every path matching `pattern` lies under: its leading
+ * literal segments, e.g. `/src` for `/src/**\/*.ts`. `/` for patterns that
+ * start with a wildcard, are relative, or are negated.
+ */
+export function globBase(pattern: string): string {
+  const scan = picomatch.scan(pattern);
+  if (scan.negated || !scan.base.startsWith("/")) return "/";
+  return scan.isGlob ? normalizePath(scan.base) : parentPath(scan.base);
+}
+
+/**
+ * A regex accepting every path `pattern` matches, for backends to filter on
+ * before picomatch decides exactly. It only uses syntax JS and PostgreSQL
+ * regexes share, and may accept more (dotfiles, say). Null when the pattern
+ * can't be translated — negations, extglobs, POSIX classes, brace ranges.
+ */
+export function globRegex(pattern: string): string | null {
+  if (pattern.startsWith("!")) return null;
+  let out = "";
+  // Whether each open brace group has seen a comma yet
+  const braces: boolean[] = [];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      if (i + 1 === pattern.length) return null;
+      out += escapeRegex(pattern[++i]);
+    } else if (ch === "*") {
+      let end = i;
+      while (pattern[end + 1] === "*") end++;
+      const atStart = i === 0 || pattern[i - 1] === "/";
+      const atEnd = end + 1 === pattern.length || pattern[end + 1] === "/";
+      if (end === i || !atStart || !atEnd) {
+        out += "[^/]*";
+      } else if (end + 1 === pattern.length) {
+        // `/src/**` also matches `/src` itself
+        out = out.endsWith("/") ? out.slice(0, -1) + "(/.*)?" : out + ".*";
+      } else {
+        out += "(.*/)?";
+        end++;
+      }
+      i = end;
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else if (ch === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      if (close === -1) {
+        out += "\\[";
+        continue;
+      }
+      // picomatch's reading of negated and other unusual classes is its own
+      const body = pattern.slice(i + 1, close);
+      if (body === "" || /^[!^]|[[\\]/.test(body)) return null;
+      out += "[" + body + "]";
+      i = close;
+    } else if (ch === "{") {
+      braces.push(false);
+      out += "(";
+    } else if (ch === "," && braces.length > 0) {
+      braces[braces.length - 1] = true;
+      out += "|";
+    } else if (ch === "}" && braces.length > 0) {
+      // picomatch reads `{a}` literally
+      if (!braces.pop()) return null;
+      out += ")";
+    } else if (ch === "(" || ch === ")" || ch === "|" || (ch === "." && pattern[i + 1] === "." && braces.length > 0)) {
+      return null;
+    } else {
+      out += escapeRegex(ch);
+    }
+  }
+  return braces.length > 0 ? null : `^${out}$`;
+}
+
+function escapeRegex(ch: string): string {
+  return /[.^$|?*+()[\]{}\\]/.test(ch) ? "\\" + ch : ch;
+}
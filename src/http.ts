@@ -0,0 +1,146 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { AuthIdentity, TokenAuth } from "./auth.js";
+
+export interface HttpServerOptions {
+  host: string;
+  /** Port to listen on; 0 picks a free port. */
+  port: number;
+  /** Require a bearer token on every request; the token's identity scopes the session. */
+  auth?: TokenAuth;
+}
+
+export interface RunningHttpServer {
+  /** Base URL of the MCP endpoint, e.g. `http://127.0.0.1:3000/mcp`. */
+  url: URL;
+  /** Close every MCP session, then stop accepting connections. */
+  close(): Promise<void>;
+}
+
+const MCP_PATH = "/mcp";
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  message: string,
+  headers: http.OutgoingHttpHeaders = {},
+): void {
+  res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Serve MCP over Streamable HTTP. Every client that sends `initialize` gets its
+ * own transport and McpServer (from `createServer`), and the transport's session
+ * ID becomes `extra.sessionId` in tool callbacks — one isolated VFS session per agent.
+ *
+ * With `opts.auth`, the identity of the token presented at `initialize` is passed to
+ * `createServer` and pinned to the session: later requests must carry a token for
+ * the same identity, or the session is reported as not found.
+ */
+export async function startHttpServer(
+  createServer: (identity?: AuthIdentity) => McpServer,
+  opts: HttpServerOptions,
+): Promise<RunningHttpServer> {
+  const sessions = new Map<
+    string,
+    { transport: StreamableHTTPServerTransport; server: McpServer; identity?: AuthIdentity }
+  >();
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== MCP_PATH) {
+      sendJsonRpcError(res, 404, "Not found");
+      return;
+    }
+
+    let identity: AuthIdentity | undefined;
+    if (opts.auth) {
+      const authenticated = opts.auth.authenticate(req.headers.authorization);
+      if (authenticated === null) {
+        sendJsonRpcError(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+        return;
+      }
+      identity = authenticated;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      // Don't reveal that another caller's session ID exists
+      if (
+        !session ||
+        session.identity?.tenant !== identity?.tenant ||
+        session.identity?.principal !== identity?.principal
+      ) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendJsonRpcError(res, 400, "Missing mcp-session-id header");
+      return;
+    }
+
+    // No session yet: this must be an initialize request, which the transport validates
+    const server = createServer(identity);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, identity });
+        const who = identity ? ` (${identity.tenant}:${identity.principal})` : "";
+        console.error(`[vfs] Session opened: ${id}${who}`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        console.error(`[vfs] Session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+
+    // Rejected before initialization — nothing will ever route to this pair again
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((e) => {
+      console.error("[vfs] HTTP request failed:", e);
+      if (!res.headersSent) sendJsonRpcError(res, 500, "Internal server error");
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(opts.port, opts.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { address, port } = httpServer.address() as AddressInfo;
+  const host = address.includes(":") ? `[${address}]` : address;
+
+  return {
+    url: new URL(`http://${host}:${port}${MCP_PATH}`),
+    async close() {
+      await Promise.all([...sessions.values()].map(({ server }) => server.close()));
+      sessions.clear();
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve, reject) =>
+        httpServer.close((e) => (e ? reject(e) : resolve())),
+      );
+    },
+  };
+}
@@ -5,16 +5,22 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { createBackend } from "./storage/index.js";
 import { VirtualFS } from "./vfs.js";
 import { registerTools } from "./tools.js";
-import type { PostgresBackend } from "./storage/postgres.js";
+import { startHttpServer } from "./http.js";
+import { TokenAuth, type AuthIdentity } from "./auth.js";
+
+/** VFS_TRASH_MAX_AGE_DAYS: days before trash entries expire (default 30, 0 = never). */
+function parseTrashMaxAge(value: string | undefined): number | null {
+  const days = parseInt(value ?? "30", 10);
+  return days > 0 ? days : null;
+}
 
 async function main() {
   const backend = createBackend();
 
   // Auto-initialize schema if VFS_AUTO_INIT=true
   if (process.env.VFS_AUTO_INIT === "true") {
-    const pg = backend as PostgresBackend;
-    if (typeof pg.initSchema === "function") {
-      await pg.initSchema({
+    if (typeof backend.initSchema === "function") {
+      await backend.initSchema({
         withRls: process.env.VFS_ENABLE_RLS === "true",
       });
       console.error("[vfs] Schema initialized successfully");
@@ -26,22 +32,65 @@ async function main() {
   //   2. VFS_SESSION_ID env var (for deterministic/resumable sessions)
   //   3. Auto-generated UUID (default for stdio — each process = unique session)
   const fallbackSessionId = process.env.VFS_SESSION_ID ?? crypto.randomUUID();
-  console.error(`[vfs] Session: ${fallbackSessionId}`);
-
-  const vfs = new VirtualFS(backend);
 
-  const server = new McpServer({
-    name: "mcp-virtual-fs",
-    version: "1.0.0",
+  const vfs = new VirtualFS(backend, {
+    admins: process.env.VFS_ADMINS?.split(",").map((a) => a.trim()).filter(Boolean),
+    autoCreateStores: process.env.VFS_STORE_AUTO_CREATE !== "false",
+    trash:
+      process.env.VFS_TRASH === "true"
+        ? { maxAgeDays: parseTrashMaxAge(process.env.VFS_TRASH_MAX_AGE_DAYS) }
+        : undefined,
   });
 
-  registerTools(server, vfs, fallbackSessionId);
+  // identity is set only for authenticated HTTP sessions
+  const createServer = (identity?: AuthIdentity) => {
+    const server = new McpServer({
+      name: "mcp-virtual-fs",
+      version: "1.0.0",
+    });
+    const scoped = identity ? vfs.forTenant(identity.tenant, identity.principal) : vfs;
+    registerTools(server, scoped, fallbackSessionId);
+    return server;
+  };
+
+  let closeTransport: () => Promise<void>;
+  const transportType = process.env.VFS_TRANSPORT ?? "stdio";
 
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  switch (transportType) {
+    case "stdio": {
+      console.error(`[vfs] Session: ${fallbackSessionId}`);
+      const server = createServer();
+      await server.connect(new StdioServerTransport());
+      closeTransport = () => server.close();
+      break;
+    }
+    case "http": {
+      const tokens = process.env.VFS_AUTH_TOKENS;
+      const httpServer = await startHttpServer(createServer, {
+        host: process.env.VFS_HTTP_HOST ?? "127.0.0.1",
+        port: parseInt(process.env.VFS_HTTP_PORT ?? "3000", 10),
+        auth: tokens ? TokenAuth.parse(tokens) : undefined,
+      });
+      console.error(`[vfs] Listening on ${httpServer.url}`);
+      if (!tokens) {
+        console.error("[vfs] Warning: VFS_AUTH_TOKENS is not set — HTTP clients are not authenticated");
+      }
+      closeTransport = () => httpServer.close();
+      break;
+    }
+    default:
+      throw new Error(`Unknown transport: ${transportType}`);
+  }
 
+  let shuttingDown = false;
   const shutdown = async () => {
-    await backend.close();
+    if (shuttingDown) return;
+    shuttingDown = true;
+    try {
+      await closeTransport();
+    } finally {
+      await backend.close();
+    }
     process.exit(0);
   };
 
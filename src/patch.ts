@@ -0,0 +1,261 @@
+/**
+ * Unified diff parsing and hunk application, in the manner of patch(1).
+ * Pure functions over strings — reading and writing files is up to the caller.
+ */
+
+import { VfsError } from "./errors.js";
+
+/** One `@@` section of a file's diff. */
+export interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Body lines, each starting with " " (context), "-" (removed) or "+" (added). */
+  lines: string[];
+  /** The hunk's last old-side line is the end of a file without a trailing newline. */
+  oldNoNewline: boolean;
+  /** Likewise for the new side: the patched file must not end in a newline. */
+  newNoNewline: boolean;
+}
+
+/** The changes a diff makes to one file. Paths are as written, minus git's a/ and b/ prefixes. */
+export interface FilePatch {
+  /** Path before the change, or null when the file is created. */
+  oldPath: string | null;
+  /** Path after the change, or null when the file is deleted. */
+  newPath: string | null;
+  /** Whether a git header marks this as a rename (the paths then differ). */
+  rename: boolean;
+  hunks: Hunk[];
+}
+
+/** Where a hunk landed, or that it didn't. */
+export interface HunkResult {
+  /** 1-based position of the hunk within its file's diff. */
+  hunk: number;
+  applied: boolean;
+  /** Lines between where the hunk said it applies and where it did. */
+  offset: number;
+  /** Context lines ignored at each end of the hunk to make it apply. */
+  fuzz: number;
+}
+
+/** Default and maximum fuzz factor, as in patch(1). */
+export const DEFAULT_FUZZ = 2;
+export const MAX_FUZZ = 3;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const GIT_HEADER = /^diff --git a\/(.+) b\/(.+)$/;
+
+function malformed(line: number, reason: string): VfsError {
+  return new VfsError("EINVAL", `Malformed patch at line ${line}: ${reason}`);
+}
+
+/** Path from a `---`/`+++` header: drops timestamps, `/dev/null` and the given git prefix. */
+function headerPath(header: string, gitPrefix: "a/" | "b/"): string | null {
+  const path = header.split("\t")[0].trimEnd();
+  if (path === "/dev/null") return null;
+  return path.startsWith(gitPrefix) ? path.slice(gitPrefix.length) : path;
+}
+
+/**
+ * Parse a unified diff covering any number of files, with or without git
+ * headers. Text outside file sections (commit messages, `index` lines) is ignored.
+ * Throws EINVAL for malformed hunks, binary patches, or a diff with no file changes.
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  // Whether `current` already has its ---/+++ pair (so another pair starts a new file)
+  let headersSeen = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const git = GIT_HEADER.exec(line);
+    if (git) {
+      current = { oldPath: git[1], newPath: git[2], rename: false, hunks: [] };
+      patches.push(current);
+      headersSeen = false;
+      continue;
+    }
+
+    if (current && !headersSeen && current.hunks.length === 0) {
+      if (line.startsWith("new file mode")) {
+        current.oldPath = null;
+        continue;
+      }
+      if (line.startsWith("deleted file mode")) {
+        current.newPath = null;
+        continue;
+      }
+      if (line.startsWith("rename from ")) {
+        current.oldPath = line.slice("rename from ".length);
+        current.rename = true;
+        continue;
+      }
+      if (line.startsWith("rename to ")) {
+        current.newPath = line.slice("rename to ".length);
+        current.rename = true;
+        continue;
+      }
+    }
+    if (line.startsWith("GIT binary patch") || (line.startsWith("Binary files ") && line.endsWith(" differ"))) {
+      throw new VfsError("EINVAL", `Binary patches are not supported (line ${i + 1})`);
+    }
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      if (!current || headersSeen || current.hunks.length > 0) {
+        current = { oldPath: null, newPath: null, rename: false, hunks: [] };
+        patches.push(current);
+      }
+      current.oldPath = headerPath(line.slice(4), "a/");
+      current.newPath = headerPath(lines[i + 1].slice(4), "b/");
+      headersSeen = true;
+      i++;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!current) throw malformed(i + 1, "hunk before any file header");
+      const hunk: Hunk = {
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        lines: [],
+        oldNoNewline: false,
+        newNoNewline: false,
+      };
+      let oldSeen = 0;
+      let newSeen = 0;
+      while (oldSeen < hunk.oldLines || newSeen < hunk.newLines) {
+        i++;
+        if (i >= lines.length) throw malformed(i, "hunk ends early");
+        // Some tools strip the space from blank context lines
+        const body = lines[i] === "" ? " " : lines[i];
+        if (body.startsWith("\\")) {
+          markNoNewline(hunk);
+          continue;
+        }
+        const kind = body[0];
+        if (kind !== " " && kind !== "-" && kind !== "+") {
+          throw malformed(i + 1, `unexpected line in hunk: ${JSON.stringify(body.slice(0, 40))}`);
+        }
+        if (kind !== "+") oldSeen++;
+        if (kind !== "-") newSeen++;
+        if (oldSeen > hunk.oldLines || newSeen > hunk.newLines) {
+          throw malformed(i + 1, "hunk is longer than its header says");
+        }
+        hunk.lines.push(body);
+      }
+      if (lines[i + 1]?.startsWith("\\")) {
+        markNoNewline(hunk);
+        i++;
+      }
+      current.hunks.push(hunk);
+      continue;
+    }
+  }
+
+  const changes = patches.filter((p) => p.hunks.length > 0 || p.rename || p.oldPath === null || p.newPath === null);
+  if (changes.length === 0) {
+    throw new VfsError("EINVAL", "No file changes found in patch");
+  }
+  for (const p of changes) {
+    if (p.oldPath === null && p.newPath === null) {
+      throw new VfsError("EINVAL", "Patch section has neither an old nor a new path");
+    }
+  }
+  return changes;
+}
+
+/** Record a "\ No newline at end of file" marker against the line before it. */
+function markNoNewline(hunk: Hunk): void {
+  const last = hunk.lines[hunk.lines.length - 1];
+  if (last === undefined) return;
+  if (last[0] !== "+") hunk.oldNoNewline = true;
+  if (last[0] !== "-") hunk.newNoNewline = true;
+}
+
+/** Index nearest to `expected` (at or after `floor`) where `pattern` occurs in `lines`. */
+function findNearest(lines: string[], pattern: string[], expected: number, floor: number): number | null {
+  const last = lines.length - pattern.length;
+  if (pattern.length === 0) return Math.min(Math.max(expected, floor), lines.length);
+  const matches = (at: number) => pattern.every((p, k) => lines[at + k] === p);
+  for (let distance = 0; ; distance++) {
+    const below = expected - distance;
+    const above = expected + distance;
+    if (below < floor && above > last) return null;
+    if (below >= floor && below <= last && matches(below)) return below;
+    if (distance > 0 && above >= floor && above <= last && matches(above)) return above;
+  }
+}
+
+/** Number of context lines at the start (or, with `fromEnd`, the end) of a hunk. */
+function contextRun(lines: string[], fromEnd: boolean): number {
+  let run = 0;
+  for (let k = 0; k < lines.length; k++) {
+    if (lines[fromEnd ? lines.length - 1 - k : k][0] !== " ") break;
+    run++;
+  }
+  return run;
+}
+
+/**
+ * Apply `hunks` to `content` in order. A hunk that doesn't match where its
+ * header says is searched for nearby (an offset), then with up to `maxFuzz`
+ * context lines ignored at either end. Hunks that still don't match are
+ * reported and skipped; the rest are applied.
+ */
+export function applyHunks(
+  content: string,
+  hunks: Hunk[],
+  maxFuzz: number,
+): { content: string; results: HunkResult[] } {
+  const endsWithNewline = content === "" || content.endsWith("\n");
+  const lines = content === "" ? [] : (endsWithNewline ? content.slice(0, -1) : content).split("\n");
+  let eofNewline = endsWithNewline;
+  // Lines the applied hunks have shifted the file by, and where the next hunk may start
+  let delta = 0;
+  let floor = 0;
+
+  const results = hunks.map((hunk, index): HunkResult => {
+    const old = hunk.lines.filter((l) => l[0] !== "+").map((l) => l.slice(1));
+    const replacement = hunk.lines.filter((l) => l[0] !== "-").map((l) => l.slice(1));
+    const leading = contextRun(hunk.lines, false);
+    const trailing = contextRun(hunk.lines, true);
+    // Zero-length ranges name the line *after which* to insert
+    const base = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+
+    for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+      const top = Math.min(fuzz, leading);
+      const bottom = Math.min(fuzz, trailing);
+      // No more context left to ignore
+      if (fuzz > 0 && top < fuzz && bottom < fuzz) break;
+      const pattern = old.slice(top, old.length - bottom);
+      const at = findNearest(lines, pattern, base + delta + top, floor);
+      if (at === null) continue;
+
+      const inserted = replacement.slice(top, replacement.length - bottom);
+      const atEnd = at + pattern.length === lines.length && bottom === 0;
+      lines.splice(at, pattern.length, ...inserted);
+      if (atEnd && hunk.newNoNewline) eofNewline = false;
+      else if (atEnd && hunk.oldNoNewline) eofNewline = true;
+
+      const offset = at - top - base - delta;
+      delta += offset + inserted.length - pattern.length;
+      floor = at + inserted.length;
+      return { hunk: index + 1, applied: true, offset, fuzz };
+    }
+    return { hunk: index + 1, applied: false, offset: 0, fuzz: 0 };
+  });
+
+  const patched = lines.length === 0 ? "" : lines.join("\n") + (eofNewline ? "\n" : "");
+  return { content: patched, results };
+}
@@ -0,0 +1,29 @@
+import type { StoreAcl } from "./interface.js";
+
+/** Wildcard principal: matches every caller. */
+export const ANY_PRINCIPAL = "*";
+
+export type StoreAccess = "read" | "write";
+
+/** ACL reported for stores created before ACLs existed: no owner, writable by anyone. */
+export const UNRESTRICTED_ACL: StoreAcl = { owner: null, readers: [], writers: [ANY_PRINCIPAL] };
+
+/**
+ * ACL given to an auto-created store. Stores stay shared by default, as they
+ * always have been; the owner narrows access with grants and revokes.
+ */
+export function defaultStoreAcl(owner: string): StoreAcl {
+  return { owner, readers: [], writers: [ANY_PRINCIPAL] };
+}
+
+/** Whether `principal` may perform `access` on a store. Write access implies read. */
+export function hasAccess(acl: StoreAcl, principal: string, access: StoreAccess): boolean {
+  const listed = (list: string[]) => list.includes(principal) || list.includes(ANY_PRINCIPAL);
+  if (acl.owner === principal || listed(acl.writers)) return true;
+  return access === "read" && listed(acl.readers);
+}
+
+/** Decode an ACL stored as JSON text; NULL (a store without an ACL) is unrestricted. */
+export function parseStoreAcl(json: string | null): StoreAcl {
+  return json === null ? UNRESTRICTED_ACL : (JSON.parse(json) as StoreAcl);
+}
@@ -0,0 +1,80 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectsCommand,
+} from "@aws-sdk/client-s3";
+
+/**
+ * Key/value store for file contents offloaded out of `vfs_nodes.content`.
+ * Keys are written once and never overwritten — a changed file gets a new key.
+ */
+export interface BlobStore {
+  put(key: string, body: string): Promise<void>;
+  get(key: string): Promise<string>;
+  delete(keys: string[]): Promise<void>;
+  close?(): void;
+}
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  /** Custom endpoint for S3-compatible services (MinIO, R2, ...). Enables path-style addressing. */
+  endpoint?: string;
+  region?: string;
+  /** Prepended to every object key, e.g. `vfs/`. */
+  prefix?: string;
+}
+
+/** DeleteObjects accepts at most this many keys per request. */
+const MAX_DELETE_BATCH = 1000;
+
+/** BlobStore backed by an S3-compatible bucket. Credentials come from the standard AWS chain. */
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+
+  constructor(opts: S3BlobStoreOptions) {
+    this.bucket = opts.bucket;
+    this.prefix = opts.prefix ?? "";
+    this.client = new S3Client({
+      region: opts.region ?? "us-east-1",
+      endpoint: opts.endpoint,
+      forcePathStyle: opts.endpoint !== undefined,
+    });
+  }
+
+  async put(key: string, body: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.prefix + key,
+        Body: body,
+        ContentType: "text/plain; charset=utf-8",
+      }),
+    );
+  }
+
+  async get(key: string): Promise<string> {
+    const res = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }),
+    );
+    return (await res.Body?.transformToString("utf-8")) ?? "";
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += MAX_DELETE_BATCH) {
+      const batch = keys.slice(i, i + MAX_DELETE_BATCH);
+      await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: { Objects: batch.map((key) => ({ Key: this.prefix + key })), Quiet: true },
+        }),
+      );
+    }
+  }
+
+  close(): void {
+    this.client.destroy();
+  }
+}
@@ -0,0 +1,557 @@
+import fs from "node:fs/promises";
+import type { Dirent } from "node:fs";
+import nodePath from "node:path";
+import crypto from "node:crypto";
+import type {
+  StorageBackend,
+  VfsNode,
+  NodeInfo,
+  ListChildrenOptions,
+  ReadRange,
+  FileSlice,
+  GrepMatch,
+  GrepCount,
+  GrepOptions,
+  PathQuery,
+  StoreAcl,
+  WriteMode,
+} from "./interface.js";
+import { countMatches, grepFiles } from "./grep.js";
+import { parseStoreAcl } from "./acl.js";
+import { notAStoreError, scopedNamespaceId } from "./namespace.js";
+import { contentEtag, etagMismatch } from "./etag.js";
+import { destinationExists, writeModeError } from "./modes.js";
+import { sliceContent } from "./range.js";
+import { pageChildren } from "./listing.js";
+import { VfsError } from "../errors.js";
+
+export interface DiskBackendOptions {
+  /** Host directory holding `sessions/` and `stores/` subtrees. */
+  root: string;
+}
+
+/** Prefix for in-flight atomic writes; such entries are hidden from listings. */
+const TMP_PREFIX = ".vfs-tmp-";
+
+/** Encode a namespace ID as a single safe directory name. */
+function encodeName(id: string): string {
+  const encoded = encodeURIComponent(id);
+  // encodeURIComponent leaves `.` alone, so `.` and `..` need explicit escaping
+  return encoded === "." || encoded === ".." ? encoded.replace(/\./g, "%2E") : encoded;
+}
+
+/** Entries exposed as VFS nodes: no in-flight temp files, and symlinks are never followed. */
+function isVisible(entry: Dirent): boolean {
+  return !entry.name.startsWith(TMP_PREFIX) && !entry.isSymbolicLink();
+}
+
+function isErrno(e: unknown, ...codes: string[]): boolean {
+  return codes.includes((e as NodeJS.ErrnoException).code ?? "");
+}
+
+/**
+ * Translate host filesystem errors that VirtualFS can't pre-check
+ * (e.g. writing beneath a file) into VfsErrors; rethrow anything else.
+ */
+function rethrow(e: unknown, path: string): never {
+  if (isErrno(e, "ENOTDIR")) throw new VfsError("ENOTDIR", `Not a directory: ${path}`);
+  if (isErrno(e, "EISDIR")) throw new VfsError("EISDIR", `Is a directory: ${path}`);
+  if (isErrno(e, "ENOENT")) throw new VfsError("ENOENT", `No such file or directory: ${path}`);
+  throw e;
+}
+
+/**
+ * Storage backend that maps each namespace onto a real directory tree:
+ * sessions live under `<root>/sessions/<id>/`, stores under `<root>/stores/<name>/`,
+ * and tenants get the same layout under `<root>/tenants/<tenant>/`. Store ACLs are
+ * kept beside the trees, in `acls/<name>.json`.
+ * Contents can be inspected with ordinary tools and backed up with rsync.
+ *
+ * Mutations are serialized within this process so `ifMatch`, write-mode and
+ * move-destination checks are atomic with the change; another process writing
+ * the same tree can still race them (except `create_only`, which uses link(2)).
+ */
+export class DiskBackend implements StorageBackend {
+  private root: string;
+  /** Namespace ID → resolved host directory, filled on first use. */
+  private namespaceDirs = new Map<string, string>();
+  /** Tail of the mutation queue. */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(opts: DiskBackendOptions) {
+    this.root = nodePath.resolve(opts.root);
+  }
+
+  // ── Lifecycle ──────────────────────────────────────────────
+
+  async close(): Promise<void> {
+    this.namespaceDirs.clear();
+  }
+
+  // ── Internal: path mapping ─────────────────────────────────
+
+  private async exists(hostPath: string): Promise<boolean> {
+    try {
+      await fs.lstat(hostPath);
+      return true;
+    } catch (e) {
+      if (isErrno(e, "ENOENT")) return false;
+      throw e;
+    }
+  }
+
+  /**
+   * Host directory of a namespace. Sessions and stores share one ID space, as in PostgreSQL.
+   * IDs not seen by `ensureNamespace` in this process are looked up as untenanted.
+   */
+  private async namespaceDir(namespaceId: string): Promise<string> {
+    const known = this.namespaceDirs.get(namespaceId);
+    if (known) return known;
+    const storeDir = nodePath.join(this.root, "stores", encodeName(namespaceId));
+    const dir = (await this.exists(storeDir))
+      ? storeDir
+      : nodePath.join(this.root, "sessions", encodeName(namespaceId));
+    this.namespaceDirs.set(namespaceId, dir);
+    return dir;
+  }
+
+  /**
+   * Map a normalized VFS path to a host path inside the namespace directory.
+   * Refuses anything that would land outside it — lexically, or by following
+   * a symlink planted in the tree.
+   */
+  private async hostPath(namespaceId: string, path: string): Promise<string> {
+    const nsDir = await this.namespaceDir(namespaceId);
+    const target = nodePath.resolve(nsDir, ...path.split("/").filter(Boolean));
+    if (!isInside(nsDir, target)) {
+      throw new VfsError("EACCES", `Path escapes namespace root: ${path}`);
+    }
+
+    // Resolve symlinks on the deepest existing ancestor (the target may not exist yet)
+    let existing = target;
+    let real: string | null = null;
+    while (real === null) {
+      try {
+        real = await fs.realpath(existing);
+      } catch (e) {
+        if (!isErrno(e, "ENOENT") || existing === nsDir) throw e;
+        existing = nodePath.dirname(existing);
+      }
+    }
+    if (!isInside(await fs.realpath(nsDir), real)) {
+      throw new VfsError("EACCES", `Path escapes namespace root: ${path}`);
+    }
+    return target;
+  }
+
+  /** Run `fn` once every previously queued mutation has settled. */
+  private serialized<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(fn, fn);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Throw ECONFLICT unless the node at `path` has etag `ifMatch` (no-op when undefined). */
+  private async checkEtag(target: string, path: string, ifMatch: string | undefined): Promise<void> {
+    if (ifMatch === undefined) return;
+    const node = await this.toNode(target, path);
+    if (node?.etag !== ifMatch) throw etagMismatch(path);
+  }
+
+  private async toNode(hostPath: string, path: string, withContent = true): Promise<VfsNode | null> {
+    let st;
+    try {
+      st = await fs.lstat(hostPath);
+    } catch (e) {
+      if (isErrno(e, "ENOENT", "ENOTDIR")) return null;
+      throw e;
+    }
+    if (st.isSymbolicLink()) return null;
+    const isDir = st.isDirectory();
+    const content = isDir || !withContent ? null : await fs.readFile(hostPath, "utf8");
+    return {
+      path,
+      nodeType: isDir ? "directory" : "file",
+      content,
+      etag: content === null ? null : contentEtag(content),
+      createdAt: st.birthtimeMs > 0 ? st.birthtime : st.ctime,
+      updatedAt: st.mtime,
+    };
+  }
+
+  /**
+   * A host node's metadata. Files are read unless `withContent` is false, as
+   * their etag is a hash of the content; without it their size and etag are null.
+   */
+  private async toNodeInfo(hostPath: string, path: string, withContent = true): Promise<NodeInfo | null> {
+    const node = await this.toNode(hostPath, path, withContent);
+    if (!node) return null;
+    return {
+      path,
+      nodeType: node.nodeType,
+      size: node.content === null ? null : node.content.length,
+      etag: node.etag,
+      createdAt: node.createdAt,
+      updatedAt: node.updatedAt,
+    };
+  }
+
+  /** Recursively collect `[vfsPath, hostPath, isDir]` for everything under a directory. */
+  private async walk(
+    hostDir: string,
+    dirPath: string,
+    out: [string, string, boolean][] = [],
+  ): Promise<[string, string, boolean][]> {
+    const entries = await fs.readdir(hostDir, { withFileTypes: true });
+    for (const entry of entries.filter(isVisible)) {
+      const childPath = dirPath === "/" ? "/" + entry.name : dirPath + "/" + entry.name;
+      const childHost = nodePath.join(hostDir, entry.name);
+      out.push([childPath, childHost, entry.isDirectory()]);
+      if (entry.isDirectory()) await this.walk(childHost, childPath, out);
+    }
+    return out;
+  }
+
+  // ── Session / store management ─────────────────────────────
+
+  /** Directory holding a tenant's `sessions/` and `stores/` (the root itself when untenanted). */
+  private tenantDir(tenant?: string): string {
+    return tenant ? nodePath.join(this.root, "tenants", encodeName(tenant)) : this.root;
+  }
+
+  private aclFile(name: string, tenant?: string): string {
+    return nodePath.join(this.tenantDir(tenant), "acls", encodeName(name) + ".json");
+  }
+
+  private async writeAcl(name: string, acl: StoreAcl, tenant?: string): Promise<void> {
+    const file = this.aclFile(name, tenant);
+    await fs.mkdir(nodePath.dirname(file), { recursive: true });
+    const tmp = file + TMP_PREFIX + crypto.randomUUID();
+    try {
+      await fs.writeFile(tmp, JSON.stringify(acl), "utf8");
+      await fs.rename(tmp, file);
+    } catch (e) {
+      await fs.rm(tmp, { force: true });
+      throw e;
+    }
+  }
+
+  private async ensureNamespace(
+    name: string,
+    persistent: boolean,
+    tenant?: string,
+    acl?: StoreAcl,
+  ): Promise<string> {
+    const id = scopedNamespaceId(name, tenant);
+    const known = this.namespaceDirs.get(id);
+    if (known) {
+      if (persistent && nodePath.basename(nodePath.dirname(known)) === "sessions") throw notAStoreError(name);
+      return id;
+    }
+    const base = this.tenantDir(tenant);
+    const kinds = persistent ? ["stores", "sessions"] : ["sessions", "stores"];
+    for (const kind of kinds) {
+      const dir = nodePath.join(base, kind, encodeName(name));
+      if (await this.exists(dir)) {
+        if (persistent && kind === "sessions") throw notAStoreError(name);
+        this.namespaceDirs.set(id, dir);
+        return id;
+      }
+    }
+    const dir = nodePath.join(base, kinds[0], encodeName(name));
+    // ACL first, so the store never exists without it
+    if (persistent && acl) await this.writeAcl(name, acl, tenant);
+    await fs.mkdir(dir, { recursive: true });
+    this.namespaceDirs.set(id, dir);
+    return id;
+  }
+
+  async ensureSession(id: string, tenant?: string): Promise<string> {
+    return this.ensureNamespace(id, false, tenant);
+  }
+
+  async ensureStore(name: string, tenant?: string, acl?: StoreAcl): Promise<string> {
+    return this.ensureNamespace(name, true, tenant, acl);
+  }
+
+  async getStoreAcl(name: string, tenant?: string): Promise<StoreAcl | null> {
+    if (!(await this.exists(nodePath.join(this.tenantDir(tenant), "stores", encodeName(name))))) {
+      if (await this.exists(nodePath.join(this.tenantDir(tenant), "sessions", encodeName(name)))) {
+        throw notAStoreError(name);
+      }
+      return null;
+    }
+    try {
+      return parseStoreAcl(await fs.readFile(this.aclFile(name, tenant), "utf8"));
+    } catch (e) {
+      if (isErrno(e, "ENOENT")) return parseStoreAcl(null);
+      throw e;
+    }
+  }
+
+  async setStoreAcl(name: string, acl: StoreAcl, tenant?: string): Promise<void> {
+    await this.writeAcl(name, acl, tenant);
+  }
+
+  async resolveNamespace(sessionId: string, store?: string, tenant?: string): Promise<string> {
+    if (store) {
+      return this.ensureStore(store, tenant);
+    }
+    return this.ensureSession(sessionId, tenant);
+  }
+
+  async listStores(tenant?: string): Promise<string[]> {
+    try {
+      const names = await fs.readdir(nodePath.join(this.tenantDir(tenant), "stores"));
+      return names.map((n) => decodeURIComponent(n)).sort();
+    } catch (e) {
+      if (isErrno(e, "ENOENT")) return [];
+      throw e;
+    }
+  }
+
+  // ── Node operations ────────────────────────────────────────
+
+  async getNode(namespaceId: string, path: string): Promise<VfsNode | null> {
+    return this.toNode(await this.hostPath(namespaceId, path), path);
+  }
+
+  async readRange(namespaceId: string, path: string, range: ReadRange): Promise<FileSlice | null> {
+    const node = await this.getNode(namespaceId, path);
+    return node?.nodeType === "file" ? sliceContent(node.content ?? "", node.etag, range) : null;
+  }
+
+  async countChildren(namespaceId: string, dirPath: string): Promise<number> {
+    const hostDir = await this.hostPath(namespaceId, dirPath);
+    const entries = await fs.readdir(hostDir, { withFileTypes: true });
+    return entries.filter(isVisible).length;
+  }
+
+  async listChildren(namespaceId: string, dirPath: string, opts: ListChildrenOptions = {}): Promise<NodeInfo[]> {
+    const hostDir = await this.hostPath(namespaceId, dirPath);
+    const entries = await fs.readdir(hostDir, { withFileTypes: true });
+    // Files are read for their size only to sort by it, and otherwise for the details of the page alone.
+    const bySize = opts.order === "size";
+    const children: NodeInfo[] = [];
+    for (const entry of entries.filter(isVisible)) {
+      const childPath = dirPath === "/" ? "/" + entry.name : dirPath + "/" + entry.name;
+      const info = await this.toNodeInfo(nodePath.join(hostDir, entry.name), childPath, bySize);
+      if (info) children.push(info);
+    }
+    const page = pageChildren(children, opts);
+    if (!opts.details || bySize) return page;
+    const detailed: NodeInfo[] = [];
+    for (const { path } of page) {
+      const info = await this.toNodeInfo(nodePath.join(hostDir, nodePath.basename(path)), path);
+      if (info) detailed.push(info);
+    }
+    return detailed;
+  }
+
+  async listTree(namespaceId: string, dirPath: string): Promise<NodeInfo[]> {
+    const hostDir = await this.hostPath(namespaceId, dirPath);
+    const nodes: NodeInfo[] = [];
+    for (const [path, host] of await this.walk(hostDir, dirPath)) {
+      const info = await this.toNodeInfo(host, path);
+      if (info) nodes.push(info);
+    }
+    return nodes.sort((a, b) => (a.path < b.path ? -1 : 1));
+  }
+
+  async upsertFile(
+    namespaceId: string,
+    path: string,
+    content: string,
+    opts: { ifMatch?: string; mode?: WriteMode } = {},
+  ): Promise<string> {
+    const target = await this.hostPath(namespaceId, path);
+    return this.serialized(async () => {
+      await this.checkEtag(target, path, opts.ifMatch);
+      if (opts.mode === "overwrite_only" && (await this.toNode(target, path, false))?.nodeType !== "file") {
+        throw writeModeError(path, opts.mode);
+      }
+      // Write to a sibling temp file, then rename over the target atomically.
+      // create_only links it instead, which fails if the target exists, even across processes.
+      const tmp = nodePath.join(nodePath.dirname(target), TMP_PREFIX + crypto.randomUUID());
+      try {
+        await fs.writeFile(tmp, content, "utf8");
+        if (opts.mode === "create_only") {
+          await fs.link(tmp, target);
+          await fs.rm(tmp);
+        } else {
+          await fs.rename(tmp, target);
+        }
+      } catch (e) {
+        await fs.rm(tmp, { force: true });
+        if (opts.mode === "create_only" && isErrno(e, "EEXIST")) throw writeModeError(path, opts.mode);
+        rethrow(e, path);
+      }
+      return contentEtag(content);
+    });
+  }
+
+  async appendFile(
+    namespaceId: string,
+    path: string,
+    content: string,
+    ifMatch?: string,
+  ): Promise<string> {
+    const target = await this.hostPath(namespaceId, path);
+    return this.serialized(async () => {
+      await this.checkEtag(target, path, ifMatch);
+      try {
+        await fs.appendFile(target, content, "utf8");
+        return contentEtag(await fs.readFile(target, "utf8"));
+      } catch (e) {
+        rethrow(e, path);
+      }
+    });
+  }
+
+  async insertDir(namespaceId: string, path: string): Promise<void> {
+    const target = await this.hostPath(namespaceId, path);
+    try {
+      await fs.mkdir(target);
+    } catch (e) {
+      // Idempotent, like ON CONFLICT DO NOTHING
+      if (isErrno(e, "EEXIST")) return;
+      rethrow(e, path);
+    }
+  }
+
+  async deleteNode(namespaceId: string, path: string, ifMatch?: string): Promise<number> {
+    const target = await this.hostPath(namespaceId, path);
+    return this.serialized(async () => {
+      await this.checkEtag(target, path, ifMatch);
+      const node = await this.toNode(target, path, false);
+      if (!node) return 0;
+      const count = node.nodeType === "directory" ? 1 + (await this.walk(target, path)).length : 1;
+      await fs.rm(target, { recursive: true, force: true });
+      return count;
+    });
+  }
+
+  async moveNode(
+    namespaceId: string,
+    sourcePath: string,
+    destPath: string,
+    opts: { ifMatch?: string; overwrite?: boolean } = {},
+  ): Promise<void> {
+    const src = await this.hostPath(namespaceId, sourcePath);
+    const dest = await this.hostPath(namespaceId, destPath);
+    await this.serialized(async () => {
+      await this.checkEtag(src, sourcePath, opts.ifMatch);
+      // rename(2) would silently replace a file, or an empty directory
+      const replaced = await this.toNode(dest, destPath, false);
+      if (replaced && !(opts.overwrite && replaced.nodeType === "file")) {
+        throw destinationExists(destPath);
+      }
+      // A single rename(2) moves the whole subtree atomically within one filesystem
+      try {
+        await fs.rename(src, dest);
+      } catch (e) {
+        rethrow(e, sourcePath);
+      }
+    });
+  }
+
+  async copyNode(
+    sourceNamespaceId: string,
+    sourcePath: string,
+    destNamespaceId: string,
+    destPath: string,
+    opts: { overwrite?: boolean; preserveTimestamps?: boolean } = {},
+  ): Promise<number> {
+    const src = await this.hostPath(sourceNamespaceId, sourcePath);
+    const dest = await this.hostPath(destNamespaceId, destPath);
+    return this.serialized(async () => {
+      const replaced = await this.toNode(dest, destPath, false);
+      if (replaced && !(opts.overwrite && replaced.nodeType === "file")) {
+        throw destinationExists(destPath);
+      }
+      // Copy to a sibling temp path, then rename it into place so the copy appears at once
+      const tmp = nodePath.join(nodePath.dirname(dest), TMP_PREFIX + crypto.randomUUID());
+      let copied = 0;
+      try {
+        await fs.cp(src, tmp, {
+          recursive: true,
+          errorOnExist: true,
+          force: false,
+          preserveTimestamps: opts.preserveTimestamps ?? false,
+          // Skip what listings hide: symlinks and other writers' temp files
+          filter: async (from) => {
+            const visible = !(await fs.lstat(from)).isSymbolicLink() && !nodePath.basename(from).startsWith(TMP_PREFIX);
+            if (visible) copied++;
+            return visible;
+          },
+        });
+        await fs.rename(tmp, dest);
+      } catch (e) {
+        await fs.rm(tmp, { recursive: true, force: true });
+        rethrow(e, sourcePath);
+      }
+      return copied;
+    });
+  }
+
+  // ── Search ─────────────────────────────────────────────────
+
+  async findPaths(namespaceId: string, query: PathQuery): Promise<string[]> {
+    const hostDir = await this.hostPath(namespaceId, query.dirPath);
+    let entries: [string, string, boolean][];
+    try {
+      entries = await this.walk(hostDir, query.dirPath);
+    } catch (e) {
+      if (isErrno(e, "ENOENT", "ENOTDIR")) return [];
+      throw e;
+    }
+    const regex = query.regex === undefined ? null : new RegExp(query.regex);
+    const paths = entries
+      .filter(([, , isDir]) => !query.nodeType || isDir === (query.nodeType === "directory"))
+      .map(([p]) => p)
+      .filter((p) => (!regex || regex.test(p)) && (query.after === undefined || p > query.after))
+      .sort();
+    return paths.slice(0, query.limit);
+  }
+
+  async grepContent(
+    namespaceId: string,
+    pattern: string,
+    paths?: string[],
+    opts?: GrepOptions,
+  ): Promise<GrepMatch[]> {
+    return grepFiles(pattern, await this.grepCandidates(namespaceId, paths), opts);
+  }
+
+  async grepCount(
+    namespaceId: string,
+    pattern: string,
+    paths?: string[],
+    opts: GrepOptions = {},
+  ): Promise<GrepCount[]> {
+    const files = await this.grepCandidates(namespaceId, paths);
+    return countMatches(grepFiles(pattern, files, { ignoreCase: opts.ignoreCase }), opts.limit);
+  }
+
+  /** Files to grep with their contents, sorted by path. */
+  private async grepCandidates(namespaceId: string, paths?: string[]): Promise<{ path: string; content: string }[]> {
+    const wanted = paths ? new Set(paths) : null;
+    const nsDir = await this.hostPath(namespaceId, "/");
+    const candidates = (await this.walk(nsDir, "/"))
+      .filter(([p, , isDir]) => !isDir && (!wanted || wanted.has(p)))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    const files: { path: string; content: string }[] = [];
+    for (const [p, host] of candidates) {
+      files.push({ path: p, content: await fs.readFile(host, "utf8") });
+    }
+    return files;
+  }
+}
+
+function isInside(parent: string, child: string): boolean {
+  const rel = nodePath.relative(parent, child);
+  return (
+    rel !== ".." && !rel.startsWith(".." + nodePath.sep) && !nodePath.isAbsolute(rel)
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Embedding providers and the chunking that feeds them, for semantic search.
+ * Backends embed files in chunks of lines when they are written and compare
+ * a query's vector against the stored ones.
+ */
+
+/** Turns text into vectors whose cosine similarity reflects similar meaning. */
+export interface EmbeddingProvider {
+  /** Names the model and its settings; vectors of different models are never compared. */
+  readonly model: string;
+  /** Length of every vector `embed` returns. */
+  readonly dimensions: number;
+  /** One vector per text, in order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** A run of whole lines of a file, embedded as one vector. */
+export interface TextChunk {
+  /** 1-based lines the chunk spans, inclusive. */
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+/** Characters of each file that are embedded; later text isn't searchable. */
+export const EMBEDDED_CHARS = 100_000;
+
+/** Chunks grow line by line until they reach this many characters. */
+const CHUNK_CHARS = 1_000;
+
+/**
+ * Split a file into chunks of whole lines of about CHUNK_CHARS each, covering
+ * its first EMBEDDED_CHARS characters. Blank-only chunks are dropped.
+ */
+export function chunkText(content: string): TextChunk[] {
+  const lines = content.slice(0, EMBEDDED_CHARS).split("\n");
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  let text = "";
+  for (let i = 0; i < lines.length; i++) {
+    text += (i > start ? "\n" : "") + lines[i];
+    if (text.length >= CHUNK_CHARS || i === lines.length - 1) {
+      if (text.trim() !== "") chunks.push({ startLine: start + 1, endLine: i + 1, text });
+      start = i + 1;
+      text = "";
+    }
+  }
+  return chunks;
+}
+
+/** FNV-1a, for spreading features over vector dimensions. */
+function fnv1a(s: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    hash ^= s.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline, deterministic embeddings: hashed word unigrams, word bigrams and
+ * character trigrams, weighted by log term frequency and normalized. Texts
+ * that share words and word fragments ("migrate", "migration") score as
+ * similar; there is no notion of synonyms. Needs no network or model files.
+ */
+export class HashedNgramEmbeddings implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(readonly dimensions = 256) {
+    this.model = `hashed-ngram-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((t) => this.vector(t));
+  }
+
+  private vector(text: string): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) ?? 0) + 1);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    words.forEach((word, i) => {
+      add(`w:${word}`);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`);
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`);
+    });
+
+    const vec = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      // The sign bit keeps colliding features from only ever adding up
+      vec[hash % this.dimensions] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+    }
+    const norm = Math.hypot(...vec);
+    return norm === 0 ? vec : vec.map((v) => v / norm);
+  }
+}
+
+/** Cosine similarity of two vectors of equal length, 0 if either is all zeros. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let aa = 0;
+  let bb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    aa += a[i] * a[i];
+    bb += b[i] * b[i];
+  }
+  return aa === 0 || bb === 0 ? 0 : dot / Math.sqrt(aa * bb);
+}
@@ -0,0 +1,16 @@
+import crypto from "node:crypto";
+import { VfsError } from "../errors.js";
+
+/**
+ * Entity tag of file content: the hex MD5 of its UTF-8 bytes, the same value
+ * PostgreSQL's md5(text) gives, so SQL backends can compute it in queries.
+ * It only detects change — it is not a security boundary.
+ */
+export function contentEtag(content: string): string {
+  return crypto.createHash("md5").update(content, "utf8").digest("hex");
+}
+
+/** The error for a failed `ifMatch` precondition. */
+export function etagMismatch(path: string): VfsError {
+  return new VfsError("ECONFLICT", `${path} has changed since it was read (etag mismatch)`);
+}
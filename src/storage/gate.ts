@@ -0,0 +1,65 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Keeps a backend's transactions apart from its other callers, for backends
+ * whose transactions aren't isolated by themselves: SQLite runs every call on
+ * one connection, so a call made while a transaction awaits would join it,
+ * and the in-memory backend rolls back by restoring a copy, which would wipe
+ * writes made in the meantime. A transaction waits for calls in flight to
+ * finish and holds off new ones until it ends; calls made from inside it
+ * (followed through async context) go straight through.
+ */
+export class TransactionGate {
+  private inside = new AsyncLocalStorage<true>();
+  /** The open transaction, settled when it ends. */
+  private open: Promise<void> | null = null;
+  /** Calls in flight outside any transaction. */
+  private running = 0;
+  /** Wakes the transaction waiting for `running` to reach zero. */
+  private drained: (() => void) | null = null;
+
+  /** Run one backend call once no other caller's transaction is open. */
+  async call<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.inside.getStore()) return fn();
+    while (this.open) await this.open;
+    this.running++;
+    try {
+      return await fn();
+    } finally {
+      this.running--;
+      if (this.running === 0) this.drained?.();
+    }
+  }
+
+  /** Run `fn` with no other caller's calls in flight until it settles. */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.inside.getStore()) return fn();
+    while (this.open) await this.open;
+    let end = () => {};
+    this.open = new Promise((resolve) => (end = resolve));
+    try {
+      if (this.running > 0) await new Promise<void>((resolve) => (this.drained = resolve));
+      this.drained = null;
+      return await this.inside.run(true, fn);
+    } finally {
+      this.open = null;
+      end();
+    }
+  }
+}
+
+/**
+ * `backend` with each method call made through `gate.call`, except
+ * withTransaction, which is expected to use `gate.transaction` itself.
+ * Methods run on the backend itself, so its calls to its own methods
+ * aren't gated twice.
+ */
+export function gateCalls<B extends object>(backend: B, gate: TransactionGate): B {
+  return new Proxy(backend, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function" || prop === "withTransaction" || prop === "constructor") return value;
+      return (...args: unknown[]) => gate.call(async () => value.apply(target, args));
+    },
+  });
+}
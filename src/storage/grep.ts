@@ -0,0 +1,126 @@
+import vm from "node:vm";
+import type { GrepCount, GrepMatch, GrepOptions } from "./interface.js";
+import { VfsError } from "../errors.js";
+
+/** Upper bound on regex evaluation per grepFiles call. */
+const GREP_TIMEOUT_MS = 1_000;
+
+/**
+ * Line matching runs inside a separate V8 context so a catastrophically
+ * backtracking pattern can be interrupted via the `timeout` option instead
+ * of blocking the event loop (the ReDoS risk PostgresBackend avoids by
+ * matching in the database).
+ */
+const GREP_SCRIPT = new vm.Script(`
+  (() => {
+    const re = new RegExp(pattern, flags);
+    const out = [];
+    for (const f of files) {
+      if (out.length >= limit) break;
+      if (!re.test(f.content)) continue;
+      const lines = f.content.split("\\n");
+      for (let i = 0; i < lines.length && out.length < limit; i++) {
+        if (!re.test(lines[i])) continue;
+        out.push([f.path, i + 1, lines[i], lines.slice(Math.max(i - before, 0), i), lines.slice(i + 1, i + 1 + after)]);
+      }
+    }
+    return out;
+  })()
+`);
+
+/**
+ * Regex grep over in-process file contents, for backends that cannot
+ * push matching into a database. Files are searched in the given order,
+ * and the search stops once `opts.limit` matches are found.
+ */
+export function grepFiles(
+  pattern: string,
+  files: { path: string; content: string }[],
+  opts: GrepOptions = {},
+): GrepMatch[] {
+  const before = opts.before ?? 0;
+  const after = opts.after ?? 0;
+  let rows: [string, number, string, string[], string[]][];
+  try {
+    rows = GREP_SCRIPT.runInNewContext(
+      { pattern, files, flags: opts.ignoreCase ? "i" : "", before, after, limit: opts.limit ?? Infinity },
+      { timeout: GREP_TIMEOUT_MS },
+    );
+  } catch (e) {
+    if ((e as { code?: string }).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      throw new VfsError("EINVAL", `Regex evaluation exceeded ${GREP_TIMEOUT_MS}ms: ${pattern}`);
+    }
+    throw e;
+  }
+  return rows.map(([path, lineNumber, line, linesBefore, linesAfter]) => ({
+    path,
+    lineNumber,
+    line,
+    ...(before > 0 && { before: [...linesBefore] }),
+    ...(after > 0 && { after: [...linesAfter] }),
+  }));
+}
+
+/** Matching lines per file, in the order the matches are in. */
+export function countMatches(matches: GrepMatch[], limit?: number): GrepCount[] {
+  const counts: GrepCount[] = [];
+  for (const m of matches) {
+    const last = counts[counts.length - 1];
+    if (last?.path === m.path) last.count++;
+    else counts.push({ path: m.path, count: 1 });
+  }
+  return limit === undefined ? counts : counts.slice(0, limit);
+}
+
+/**
+ * The longest run of literal text that every match of `pattern` contains, so
+ * a backend can narrow the files it reads without running the regex itself.
+ * Conservative: text inside groups, classes or before an optional quantifier
+ * doesn't count, and top-level alternation gives null. With `ignoreCase`, only
+ * ASCII text is returned, as databases fold the case of nothing else alike.
+ */
+export function requiredLiteral(pattern: string, ignoreCase = false): string | null {
+  let best = "";
+  let run = "";
+  const endRun = () => {
+    if (run.length > best.length) best = run;
+    run = "";
+  };
+  let depth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    let c = pattern[i];
+    if (c === "\\") {
+      c = pattern[++i] ?? "";
+      // Escaped punctuation is itself; \d, \b, \1 and the like aren't literal text
+      if (!/[^\w\s]/.test(c)) {
+        endRun();
+        continue;
+      }
+    } else if (c === "[") {
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+      endRun();
+      continue;
+    } else if (c === "|" && depth === 0) {
+      return null;
+    } else if ("()|^$.?*+{}".includes(c)) {
+      if (c === "(") depth++;
+      if (c === ")") depth--;
+      endRun();
+      continue;
+    }
+    if (depth > 0) continue;
+    const quantifier = pattern[i + 1];
+    if (quantifier === "?" || quantifier === "*" || quantifier === "{") {
+      endRun();
+      continue;
+    }
+    run += c;
+    if (quantifier === "+") endRun();
+  }
+  endRun();
+  // eslint-disable-next-line no-control-regex
+  if (best === "" || (ignoreCase && /[^\x00-\x7f]/.test(best))) return null;
+  return best;
+}
@@ -0,0 +1,24 @@
+import type { FileRevision, HistoryRetention } from "./interface.js";
+
+/** Retention for namespaces that haven't set their own. */
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = { maxVersions: 20, maxAgeDays: null };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The revisions `retention` keeps, given a file's revisions newest first. A
+ * run of appends keeps only its newest revision, so a file grown by appends
+ * holds one copy of itself in history rather than one per append.
+ * For backends that prune in process; the SQL backends express the same rule in a query.
+ */
+export function retainedRevisions<T extends FileRevision>(
+  revisions: T[],
+  retention: HistoryRetention,
+  now = Date.now(),
+): T[] {
+  const { maxAgeDays } = retention;
+  return revisions
+    .filter((r, i) => !(r.op === "append" && revisions[i - 1]?.op === "append"))
+    .slice(0, retention.maxVersions)
+    .filter((r) => maxAgeDays === null || now - r.createdAt.getTime() <= maxAgeDays * DAY_MS);
+}
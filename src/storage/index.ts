@@ -1,11 +1,69 @@
-import type { StorageBackend } from "./interface.js";
+import type { StorageBackend, HistoryRetention } from "./interface.js";
 import { PostgresBackend } from "./postgres.js";
+import { SqliteBackend } from "./sqlite.js";
+import { InMemoryBackend } from "./memory.js";
+import { DiskBackend } from "./disk.js";
+import { S3BlobStore } from "./blob.js";
+import { HashedNgramEmbeddings, type EmbeddingProvider } from "./embeddings.js";
+import { DEFAULT_HISTORY_RETENTION } from "./history.js";
 
-export type { StorageBackend, VfsNode, GrepMatch } from "./interface.js";
+export type {
+  StorageBackend,
+  VfsNode,
+  NodeInfo,
+  ChildOrder,
+  ChildKey,
+  ListChildrenOptions,
+  WriteMode,
+  ReadRange,
+  FileSlice,
+  GrepMatch,
+  GrepCount,
+  GrepOptions,
+  PathQuery,
+  TextSearchOptions,
+  TextSearchHit,
+  TextSearchResult,
+  SemanticMatch,
+  StoreAcl,
+  FileRevision,
+  HistoryRetention,
+  SnapshotInfo,
+  SnapshotChange,
+  TrashEntry,
+  FileLock,
+} from "./interface.js";
+export type { EmbeddingProvider } from "./embeddings.js";
+export { HashedNgramEmbeddings } from "./embeddings.js";
+
+/** Default revision retention from VFS_HISTORY_MAX_VERSIONS / VFS_HISTORY_MAX_AGE_DAYS. */
+function historyRetentionFromEnv(): HistoryRetention {
+  const maxVersions = process.env.VFS_HISTORY_MAX_VERSIONS;
+  const maxAgeDays = process.env.VFS_HISTORY_MAX_AGE_DAYS;
+  return {
+    maxVersions: maxVersions ? parseInt(maxVersions, 10) : DEFAULT_HISTORY_RETENTION.maxVersions,
+    maxAgeDays: maxAgeDays ? parseInt(maxAgeDays, 10) : DEFAULT_HISTORY_RETENTION.maxAgeDays,
+  };
+}
+
+/** Embedding provider named by VFS_EMBEDDINGS, if semantic search is enabled. */
+function embeddingsFromEnv(): EmbeddingProvider | undefined {
+  const provider = process.env.VFS_EMBEDDINGS;
+  switch (provider) {
+    case undefined:
+    case "":
+      return undefined;
+    case "hashed":
+      return new HashedNgramEmbeddings();
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
 
 /** Create a storage backend based on environment configuration. */
 export function createBackend(): StorageBackend {
   const type = process.env.VFS_STORAGE_BACKEND ?? "postgres";
+  const historyRetention = historyRetentionFromEnv();
 
   switch (type) {
     case "postgres": {
@@ -13,11 +71,38 @@ export function createBackend(): StorageBackend {
       if (!connectionString) {
         throw new Error("DATABASE_URL environment variable is required");
       }
+      const bucket = process.env.VFS_S3_BUCKET;
       return new PostgresBackend({
         connectionString,
         enableRls: process.env.VFS_ENABLE_RLS === "true",
+        blobStore: bucket
+          ? new S3BlobStore({
+              bucket,
+              endpoint: process.env.VFS_S3_ENDPOINT,
+              region: process.env.VFS_S3_REGION,
+              prefix: process.env.VFS_S3_PREFIX,
+            })
+          : undefined,
+        historyRetention,
+        embeddings: embeddingsFromEnv(),
       });
     }
+    case "sqlite": {
+      const filename = process.env.VFS_SQLITE_PATH;
+      if (!filename) {
+        throw new Error("VFS_SQLITE_PATH environment variable is required");
+      }
+      return new SqliteBackend({ filename, historyRetention });
+    }
+    case "memory":
+      return new InMemoryBackend({ historyRetention });
+    case "disk": {
+      const root = process.env.VFS_DISK_ROOT;
+      if (!root) {
+        throw new Error("VFS_DISK_ROOT environment variable is required");
+      }
+      return new DiskBackend({ root });
+    }
     default:
       throw new Error(`Unknown storage backend: ${type}`);
   }
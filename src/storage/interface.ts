@@ -3,15 +3,233 @@ export interface VfsNode {
   path: string;
   nodeType: "file" | "directory";
   content: string | null;
+  /**
+   * Opaque token that changes whenever the file's content does (see etag.ts);
+   * null for directories. Passed back as `ifMatch` to make writes conditional.
+   */
+  etag: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A node's metadata without its content, as listed by `listChildren` and `listTree`. */
+export interface NodeInfo {
+  path: string;
+  nodeType: "file" | "directory";
+  /** Content length of a file; null for directories, and possibly for files when not asked for. */
+  size: number | null;
+  /** As in VfsNode; null for directories, and possibly for files when not asked for. */
+  etag: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** Order of a `listChildren` page: by name, newest first or largest first. */
+export type ChildOrder = "name" | "mtime" | "size";
+
+/**
+ * A child's position in a `listChildren` order. Ties in `mtime` or `size` go
+ * to directories first, then to names in code unit order.
+ */
+export interface ChildKey {
+  name: string;
+  type: "file" | "directory";
+  /** Content length; 0 for directories. */
+  size: number;
+  /** `updatedAt` in milliseconds. */
+  mtime: number;
+}
+
+export interface ListChildrenOptions {
+  /** Fill in size and etag. Without it backends may leave etag null, and size too unless ordering by it. */
+  details?: boolean;
+  /** Defaults to `name`. */
+  order?: ChildOrder;
+  /** Only the children after this position in `order`. */
+  after?: ChildKey;
+  /** At most this many children, the first in `order`. */
+  limit?: number;
+}
+
+/**
+ * How a write treats the file at its path: `create_only` fails with EEXIST if
+ * anything exists there, `overwrite_only` fails with ENOENT unless a file does,
+ * and `upsert` (the default) does either.
+ */
+export type WriteMode = "create_only" | "overwrite_only" | "upsert";
+
+/**
+ * Part of a file to read: `count` lines from 1-based line `start` (a negative
+ * `start` counts back from the end, so -10 is the last ten lines), or `count`
+ * UTF-8 bytes from 0-based byte `start`. Without `count`, reads to the end.
+ */
+export interface ReadRange {
+  unit: "lines" | "bytes";
+  start: number;
+  count?: number;
+}
+
+/** What `readRange` read. */
+export interface FileSlice {
+  /** The selected text; lines keep their terminating newlines. */
+  content: string;
+  /** Where the slice begins: the 1-based line or 0-based byte offset, clamped to the file. */
+  start: number;
+  /** Lines (or bytes) in the whole file. */
+  total: number;
+  etag: string | null;
+}
+
 /** A single grep match: one line in one file. */
 export interface GrepMatch {
   path: string;
   lineNumber: number;
   line: string;
+  /** Lines just before the match, when context was asked for. */
+  before?: string[];
+  /** Lines just after the match, when context was asked for. */
+  after?: string[];
+}
+
+/** The number of matching lines in one file. */
+export interface GrepCount {
+  path: string;
+  count: number;
+}
+
+/** Which paths `findPaths` returns. */
+export interface PathQuery {
+  /** Only paths below this directory. */
+  dirPath: string;
+  /** Only paths matching this regex, written in syntax JS and PostgreSQL share. */
+  regex?: string;
+  /** Only nodes of this type; both when omitted. */
+  nodeType?: "file" | "directory";
+  /** Only paths sorting after this one, to continue from an earlier call. */
+  after?: string;
+  /** Return at most this many paths. Omit for all of them. */
+  limit?: number;
+}
+
+/** How `grepContent` and `grepCount` match, and how much they return. */
+export interface GrepOptions {
+  ignoreCase?: boolean;
+  /** Context lines to return before each match (grepContent only). */
+  before?: number;
+  /** Context lines to return after each match (grepContent only). */
+  after?: number;
+  /** Return at most this many matches (files, for grepCount). Omit for all of them. */
+  limit?: number;
+}
+
+/** How `searchText` matches and ranks. */
+export interface TextSearchOptions {
+  /** Text search configuration to parse the query and contents with (e.g. `english`, `simple`). */
+  language?: string;
+  /** Only search these files; all files when omitted. */
+  paths?: string[];
+  /** Return at most this many files. Omit for all of them. */
+  limit?: number;
+}
+
+/** A file matching a full-text query. */
+export interface TextSearchHit {
+  path: string;
+  /** Relevance; higher ranks first. Only comparable within one search. */
+  rank: number;
+  /** Passages around the matched words, which are wrapped in `**`. */
+  snippet: string;
+}
+
+/** What `searchText` found, and what it couldn't look at. */
+export interface TextSearchResult {
+  hits: TextSearchHit[];
+  /** Files in scope whose content is offloaded to object storage, which the index doesn't cover. */
+  skippedOffloaded: number;
+}
+
+/** A chunk of a file similar in meaning to a semantic search query. */
+export interface SemanticMatch {
+  path: string;
+  /** Cosine similarity of the chunk's and the query's embeddings, at most 1. */
+  score: number;
+  /** 1-based lines the chunk spans, inclusive. */
+  startLine: number;
+  endLine: number;
+}
+
+/** One recorded change to a file. */
+export interface FileRevision {
+  /** Increases with every change; unique within the namespace, not contiguous per file. */
+  version: number;
+  /**
+   * `move` is recorded at the destination; the source gets a `delete`. Of
+   * consecutive appends only the newest revision is kept.
+   */
+  op: "write" | "append" | "delete" | "move";
+  /** Content length after the change; null for deletes. */
+  size: number | null;
+  createdAt: Date;
+}
+
+/** How much file history a namespace keeps. */
+export interface HistoryRetention {
+  /** Revisions kept per file, newest first. 0 turns history off. */
+  maxVersions: number;
+  /** Revisions older than this many days are pruned; null keeps them regardless of age. */
+  maxAgeDays: number | null;
+}
+
+/** A named checkpoint of a whole namespace. */
+export interface SnapshotInfo {
+  name: string;
+  createdAt: Date;
+  /** Number of files captured. */
+  files: number;
+}
+
+/** A path that differs between two states of a namespace. */
+export interface SnapshotChange {
+  path: string;
+  change: "added" | "removed" | "modified";
+  /** Node type in the later state, or in the earlier one for removals. */
+  nodeType: "file" | "directory";
+}
+
+/** A subtree removed by `rm` while trash is enabled. */
+export interface TrashEntry {
+  /** Identifies the entry within the namespace. */
+  id: number;
+  /** Path the subtree was removed from. */
+  path: string;
+  nodeType: "file" | "directory";
+  deletedAt: Date;
+  /** Number of files in the subtree. */
+  files: number;
+}
+
+/** A lease on a path, held by the session that took it until it expires. */
+export interface FileLock {
+  path: string;
+  /** Session ID of the holder. */
+  owner: string;
+  /** Mandatory locks make other sessions' writes, moves and removals fail with EBUSY. */
+  mandatory: boolean;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Access control list of a persistent store. Principals are caller identities
+ * (see VirtualFSOptions.principal); `*` in `readers` or `writers` matches anyone.
+ */
+export interface StoreAcl {
+  /** Principal that created the store, or null for stores that predate ACLs. */
+  owner: string | null;
+  /** Principals with read-only access. */
+  readers: string[];
+  /** Principals with read-write access. */
+  writers: string[];
 }
 
 /**
@@ -19,71 +237,303 @@ export interface GrepMatch {
  *
  * VFS depends only on this interface — never on a concrete backend.
  * Each method operates within a single namespace (session or store).
+ *
+ * Write methods taking `ifMatch` apply only if the node at `path` (the source,
+ * for moves) currently has that etag, checked atomically with the change;
+ * otherwise they throw ECONFLICT. A missing node or a directory never matches.
  */
 export interface StorageBackend {
   // ── Lifecycle ──────────────────────────────────────────────
 
+  /**
+   * Create tables/indexes if they don't exist. Safe to call repeatedly.
+   * Optional — backends without a schema (or that manage it elsewhere) omit it.
+   */
+  initSchema?(opts?: { withRls?: boolean }): Promise<void>;
+
   /** Gracefully close connections. */
   close(): Promise<void>;
 
   // ── Session / store management ─────────────────────────────
+  //
+  // `tenant` scopes sessions and stores: each tenant has its own set, and
+  // the namespace ID is tenant-qualified (see namespace.ts). Omitted = the
+  // single-tenant namespace shared by all unauthenticated callers.
 
-  /** Ensure an ephemeral session namespace exists (with root dir). */
-  ensureSession(id: string): Promise<void>;
+  /**
+   * Ensure an ephemeral session namespace exists (with root dir). Returns its namespace ID.
+   * Throws EACCES if the ID is already taken by another tenant.
+   */
+  ensureSession(id: string, tenant?: string): Promise<string>;
+
+  /**
+   * Ensure a persistent named store exists (with root dir). Returns its namespace ID.
+   * `acl` is recorded only if this call creates the store.
+   * Throws EACCES if the ID is already taken by another tenant.
+   */
+  ensureStore(name: string, tenant?: string, acl?: StoreAcl): Promise<string>;
+
+  /**
+   * ACL of a store, or null if it doesn't exist yet. Never creates the store.
+   * Stores created without an ACL report UNRESTRICTED_ACL (see acl.ts).
+   */
+  getStoreAcl(name: string, tenant?: string): Promise<StoreAcl | null>;
 
-  /** Ensure a persistent named store exists (with root dir). */
-  ensureStore(name: string): Promise<void>;
+  /** Replace the ACL of an existing store. */
+  setStoreAcl(name: string, acl: StoreAcl, tenant?: string): Promise<void>;
 
   /**
    * Resolve the target namespace ID.
-   * - If `store` is provided, ensures the store exists and returns its name.
-   * - Otherwise ensures the session exists and returns sessionId.
+   * - If `store` is provided, ensures the store exists and returns its ID.
+   * - Otherwise ensures the session exists and returns its ID.
    * Auto-provisions sessions/stores on first use.
    */
-  resolveNamespace(sessionId: string, store?: string): Promise<string>;
+  resolveNamespace(sessionId: string, store?: string, tenant?: string): Promise<string>;
 
-  /** List all persistent store names. */
-  listStores(): Promise<string[]>;
+  /** List the tenant's persistent store names. */
+  listStores(tenant?: string): Promise<string[]>;
 
   // ── Node operations ────────────────────────────────────────
 
   /** Get a single node by exact path. Returns null if not found. */
   getNode(namespaceId: string, path: string): Promise<VfsNode | null>;
 
+  /**
+   * Read part of a file without loading the rest where the backend can avoid it.
+   * Returns null if there is no file at `path` (nothing, or a directory).
+   */
+  readRange(namespaceId: string, path: string, range: ReadRange): Promise<FileSlice | null>;
+
   /** Count immediate children of a directory. */
   countChildren(namespaceId: string, dirPath: string): Promise<number>;
 
-  /** List immediate children of a directory. */
-  listChildren(namespaceId: string, dirPath: string): Promise<VfsNode[]>;
+  /**
+   * List immediate children of a directory, without their contents, sorted
+   * and paged by the backend so a page of a large directory reads only its rows.
+   */
+  listChildren(namespaceId: string, dirPath: string, opts?: ListChildrenOptions): Promise<NodeInfo[]>;
+
+  /**
+   * Every node below a directory at any depth, without contents, in one pass
+   * over the backend. `dirPath` itself is not included.
+   */
+  listTree(namespaceId: string, dirPath: string): Promise<NodeInfo[]>;
 
-  /** Insert or update a file node. */
-  upsertFile(namespaceId: string, path: string, content: string): Promise<void>;
+  /**
+   * Insert or update a file node and return its new etag. `mode` is checked
+   * atomically with the write. Records a revision where history is supported.
+   */
+  upsertFile(
+    namespaceId: string,
+    path: string,
+    content: string,
+    opts?: { ifMatch?: string; mode?: WriteMode },
+  ): Promise<string>;
 
-  /** Append content to a file. Creates the file if it doesn't exist. */
-  appendFile(namespaceId: string, path: string, content: string): Promise<void>;
+  /**
+   * Append content to a file and return its new etag. Creates the file if it
+   * doesn't exist. Records a revision where history is supported.
+   */
+  appendFile(namespaceId: string, path: string, content: string, ifMatch?: string): Promise<string>;
 
   /** Insert a directory node (idempotent — ON CONFLICT DO NOTHING). */
   insertDir(namespaceId: string, path: string): Promise<void>;
 
-  /** Delete a node and all descendants. Returns the number of deleted rows. */
-  deleteNode(namespaceId: string, path: string): Promise<number>;
+  /**
+   * Delete a node and all descendants. Returns the number of deleted rows.
+   * Records a `delete` revision for every file removed where history is supported.
+   */
+  deleteNode(namespaceId: string, path: string, ifMatch?: string): Promise<number>;
 
-  /** Move/rename a node and all descendants. */
+  /**
+   * Move/rename a node and all descendants. Throws EEXIST if `destPath` exists,
+   * unless `overwrite` is set and it is a file, which is then replaced in the
+   * same atomic step. Records revisions for moved files where supported.
+   */
   moveNode(
     namespaceId: string,
     sourcePath: string,
     destPath: string,
+    opts?: { ifMatch?: string; overwrite?: boolean },
   ): Promise<void>;
 
+  /**
+   * Copy a node and all descendants to `destPath` in `destNamespaceId`, which
+   * may be `sourceNamespaceId` or another namespace of this backend. Conflicts
+   * are handled as in moveNode. Copies are created now unless `preserveTimestamps`
+   * is set, and copied files get a `write` revision where history is supported.
+   * Returns the number of nodes copied.
+   */
+  copyNode(
+    sourceNamespaceId: string,
+    sourcePath: string,
+    destNamespaceId: string,
+    destPath: string,
+    opts?: { overwrite?: boolean; preserveTimestamps?: boolean },
+  ): Promise<number>;
+
   // ── Search ─────────────────────────────────────────────────
 
-  /** Return all file paths in a namespace (for in-app glob matching). */
-  allFilePaths(namespaceId: string): Promise<string[]>;
+  /**
+   * Paths of the nodes below `query.dirPath` that pass its filters, sorted.
+   * Glob matching narrows with these and matches exactly in-app.
+   */
+  findPaths(namespaceId: string, query: PathQuery): Promise<string[]>;
 
-  /** Regex grep across file contents. Returns matching lines. */
+  /**
+   * Regex grep across file contents. Returns matching lines, sorted by path
+   * and line number. `paths`, if given, limits the search to those files.
+   */
   grepContent(
     namespaceId: string,
     pattern: string,
-    pathFilter?: string,
+    paths?: string[],
+    opts?: GrepOptions,
   ): Promise<GrepMatch[]>;
+
+  /** Like grepContent, but returns how many lines match in each file that has any. */
+  grepCount(
+    namespaceId: string,
+    pattern: string,
+    paths?: string[],
+    opts?: GrepOptions,
+  ): Promise<GrepCount[]>;
+
+  // ── History (optional) ─────────────────────────────────────
+  //
+  // Backends that keep file history record revisions from the write methods
+  // above and prune them by the namespace's retention after every change.
+  // Backends without history omit all four methods.
+
+  /** Revisions of a file, newest first. Empty if it has none. */
+  listRevisions?(namespaceId: string, path: string): Promise<FileRevision[]>;
+
+  /** One revision and the file content it recorded (null for deletes), or null if unknown. */
+  getRevision?(
+    namespaceId: string,
+    path: string,
+    version: number,
+  ): Promise<{ revision: FileRevision; content: string | null } | null>;
+
+  /** The namespace's retention, or the backend default if none was set. */
+  getHistoryRetention?(namespaceId: string): Promise<HistoryRetention>;
+
+  /** Set the namespace's retention and prune existing history to match. */
+  setHistoryRetention?(namespaceId: string, retention: HistoryRetention): Promise<void>;
+
+  // ── Transactions (optional) ────────────────────────────────
+
+  /**
+   * Run `fn` as one atomic unit: the changes of every backend call it makes
+   * commit together once it resolves, and none of them take effect if it rejects.
+   * Calls inside should stay within `namespaceId`. Backends that can't offer
+   * this omit the method.
+   */
+  withTransaction?<T>(namespaceId: string, fn: () => Promise<T>): Promise<T>;
+
+  // ── Snapshots (optional) ───────────────────────────────────
+  //
+  // A snapshot captures every node of a namespace under a name, unique within
+  // the namespace. Backends without snapshots omit all four methods.
+
+  /** Capture the namespace's current nodes. Throws EEXIST if the name is taken. */
+  createSnapshot?(namespaceId: string, name: string): Promise<SnapshotInfo>;
+
+  /** Snapshots of the namespace, oldest first. */
+  listSnapshots?(namespaceId: string): Promise<SnapshotInfo[]>;
+
+  /**
+   * Atomically replace every node of the namespace with the snapshot's.
+   * The snapshot itself is kept. Throws ENOENT if it doesn't exist.
+   */
+  rollbackSnapshot?(namespaceId: string, name: string): Promise<SnapshotInfo>;
+
+  /**
+   * Paths that differ going from snapshot `from` to snapshot `to` (or to the
+   * current nodes when `to` is null), sorted by path. Throws ENOENT for an unknown snapshot.
+   */
+  diffSnapshots?(namespaceId: string, from: string, to: string | null): Promise<SnapshotChange[]>;
+
+  // ── Trash (optional) ───────────────────────────────────────
+  //
+  // Trashed subtrees leave the namespace's tree but keep their nodes until
+  // restored or purged. Backends without a trash omit all four methods.
+
+  /**
+   * Move a node and all descendants into the trash as one entry. Returns the
+   * number of moved rows, and records `delete` revisions like deleteNode.
+   */
+  trashNode?(namespaceId: string, path: string, ifMatch?: string): Promise<number>;
+
+  /** Trash entries of the namespace, most recently deleted first. */
+  listTrash?(namespaceId: string): Promise<TrashEntry[]>;
+
+  /**
+   * Put a trashed subtree back at `destPath` (its original path or another one)
+   * and remove the entry. The caller ensures `destPath` is free and its parents exist.
+   * Throws ENOENT if the entry doesn't exist.
+   */
+  restoreTrash?(namespaceId: string, id: number, destPath: string): Promise<TrashEntry>;
+
+  /**
+   * Permanently delete trash entries: the one with `id`, those deleted more than
+   * `maxAgeDays` ago, or (with neither) all of them. Returns the number purged.
+   */
+  purgeTrash?(namespaceId: string, filter: { id?: number; maxAgeDays?: number }): Promise<number>;
+
+  // ── Locks (optional) ───────────────────────────────────────
+  //
+  // A lock is keyed by path within the namespace and held by an owner until it
+  // expires; expired locks are treated as absent. Backends without locks omit
+  // all four methods.
+
+  /**
+   * Take or renew the lock on `path` for `ttlSeconds`. Re-locking by the same
+   * owner renews the lease (and updates `mandatory`). Throws EBUSY if another
+   * owner holds an unexpired lock on the path.
+   */
+  acquireLock?(
+    namespaceId: string,
+    path: string,
+    owner: string,
+    ttlSeconds: number,
+    mandatory: boolean,
+  ): Promise<FileLock>;
+
+  /** Release `owner`'s lock on `path`. Throws ENOENT if unlocked, EBUSY if held by another owner. */
+  releaseLock?(namespaceId: string, path: string, owner: string): Promise<void>;
+
+  /** Unexpired locks of the namespace, sorted by path. */
+  listLocks?(namespaceId: string): Promise<FileLock[]>;
+
+  /**
+   * An unexpired mandatory lock held by someone other than `owner` on `path`,
+   * one of its ancestors or one of its descendants, or null if there is none.
+   */
+  blockingLock?(namespaceId: string, path: string, owner: string): Promise<FileLock | null>;
+
+  // ── Full-text search (optional) ────────────────────────────
+
+  /**
+   * Files whose contents match `query` — words, "quoted phrases", `or` and
+   * `-word`, as web search engines take them — best first, then by path.
+   * Throws EINVAL for an unknown language. Backends without a full-text
+   * index omit the method.
+   */
+  searchText?(namespaceId: string, query: string, opts: TextSearchOptions): Promise<TextSearchResult>;
+
+  // ── Semantic search (optional) ─────────────────────────────
+
+  /**
+   * Chunks of files (among `paths` if given) whose embeddings are closest to
+   * the query's, best first. Backends that store embeddings keep them current
+   * as files are written; files changed some other way are embedded here
+   * before searching. Throws ENOTSUP when no embedding provider is set up.
+   * Backends that can't store embeddings omit the method.
+   */
+  searchEmbeddings?(
+    namespaceId: string,
+    query: string,
+    opts: { paths?: string[]; limit: number },
+  ): Promise<SemanticMatch[]>;
 }
@@ -0,0 +1,27 @@
+import type { ChildKey, ChildOrder, ListChildrenOptions, NodeInfo } from "./interface.js";
+import { basename } from "../paths.js";
+
+/** Where a listed node falls in a `listChildren` order. */
+export function childKey(info: NodeInfo): ChildKey {
+  return { name: basename(info.path), type: info.nodeType, size: info.size ?? 0, mtime: info.updatedAt.getTime() };
+}
+
+/** Compare by `order`, with ties broken so that no two children compare equal. */
+export function compareChildKeys(order: ChildOrder, a: ChildKey, b: ChildKey): number {
+  if (order === "mtime" && a.mtime !== b.mtime) return b.mtime - a.mtime;
+  if (order === "size" && a.size !== b.size) return b.size - a.size;
+  if (a.type !== b.type) return a.type === "directory" ? -1 : 1;
+  return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+}
+
+/** Sort and page a whole directory's children, for backends that can't do it as they read. */
+export function pageChildren(children: NodeInfo[], opts: ListChildrenOptions): NodeInfo[] {
+  const order = opts.order ?? "name";
+  const { after } = opts;
+  const sorted = children
+    .map((info) => ({ info, key: childKey(info) }))
+    .filter(({ key }) => !after || compareChildKeys(order, key, after) > 0)
+    .sort((a, b) => compareChildKeys(order, a.key, b.key))
+    .map(({ info }) => info);
+  return opts.limit === undefined ? sorted : sorted.slice(0, opts.limit);
+}
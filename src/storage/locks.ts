@@ -0,0 +1,16 @@
+import type { FileLock } from "./interface.js";
+import { VfsError } from "../errors.js";
+
+/** The error for an operation blocked by another session's lock. */
+export function lockedError(path: string, lock: FileLock): VfsError {
+  const on = lock.path === path ? "" : ` (via ${lock.path})`;
+  return new VfsError(
+    "EBUSY",
+    `${path} is locked by another session${on} until ${lock.expiresAt.toISOString()}`,
+  );
+}
+
+/** Prefix shared by the paths of `path`'s descendants. */
+export function descendantPrefix(path: string): string {
+  return path === "/" ? "/" : path + "/";
+}
@@ -0,0 +1,665 @@
+import type {
+  StorageBackend,
+  VfsNode,
+  NodeInfo,
+  ListChildrenOptions,
+  ReadRange,
+  FileSlice,
+  GrepMatch,
+  GrepCount,
+  GrepOptions,
+  PathQuery,
+  StoreAcl,
+  FileRevision,
+  HistoryRetention,
+  SnapshotInfo,
+  SnapshotChange,
+  TrashEntry,
+  FileLock,
+  WriteMode,
+} from "./interface.js";
+import { countMatches, grepFiles } from "./grep.js";
+import { UNRESTRICTED_ACL } from "./acl.js";
+import { DEFAULT_HISTORY_RETENTION, retainedRevisions } from "./history.js";
+import { notAStoreError, scopedNamespaceId, unscopedName } from "./namespace.js";
+import { contentEtag, etagMismatch } from "./etag.js";
+import { destinationExists, writeModeError } from "./modes.js";
+import { sliceContent } from "./range.js";
+import { descendantPrefix, lockedError } from "./locks.js";
+import { TransactionGate, gateCalls } from "./gate.js";
+import { pageChildren } from "./listing.js";
+import { VfsError } from "../errors.js";
+
+interface Namespace {
+  persistent: boolean;
+  tenant: string | null;
+  acl: StoreAcl | null;
+  nodes: Map<string, VfsNode>;
+  /** File path → revisions, newest first. */
+  revisions: Map<string, StoredRevision[]>;
+  retention: HistoryRetention | null;
+  snapshots: Map<string, Snapshot>;
+  /** Trash entry ID → entry and the nodes it removed, at their original paths. */
+  trash: Map<number, { entry: TrashEntry; nodes: VfsNode[] }>;
+  /** Path → lock, including expired ones until they are replaced or released. */
+  locks: Map<string, FileLock>;
+}
+
+/** Nodes are replaced, never mutated, so a snapshot can share them with the live tree. */
+interface Snapshot {
+  createdAt: Date;
+  nodes: Map<string, VfsNode>;
+}
+
+interface StoredRevision extends FileRevision {
+  content: string | null;
+}
+
+export interface InMemoryBackendOptions {
+  /** Retention for namespaces that haven't set their own. */
+  historyRetention?: HistoryRetention;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function copyAcl(acl: StoreAcl): StoreAcl {
+  return { owner: acl.owner, readers: [...acl.readers], writers: [...acl.writers] };
+}
+
+function nodeInfo(node: VfsNode): NodeInfo {
+  return {
+    path: node.path,
+    nodeType: node.nodeType,
+    size: node.nodeType === "file" ? (node.content ?? "").length : null,
+    etag: node.etag,
+    createdAt: node.createdAt,
+    updatedAt: node.updatedAt,
+  };
+}
+
+function snapshotInfo(name: string, snapshot: Snapshot): SnapshotInfo {
+  let files = 0;
+  for (const node of snapshot.nodes.values()) {
+    if (node.nodeType === "file") files++;
+  }
+  return { name, createdAt: snapshot.createdAt, files };
+}
+
+function diffNodes(from: Map<string, VfsNode>, to: Map<string, VfsNode>): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+  for (const [path, node] of to) {
+    const before = from.get(path);
+    if (!before) {
+      changes.push({ path, change: "added", nodeType: node.nodeType });
+    } else if (before.nodeType !== node.nodeType || before.content !== node.content) {
+      changes.push({ path, change: "modified", nodeType: node.nodeType });
+    }
+  }
+  for (const [path, node] of from) {
+    if (!to.has(path)) changes.push({ path, change: "removed", nodeType: node.nodeType });
+  }
+  return changes.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/**
+ * Non-persistent backend that keeps every namespace in process memory.
+ * Intended for unit tests and short-lived agents — all data is lost on close.
+ */
+export class InMemoryBackend implements StorageBackend {
+  private namespaces = new Map<string, Namespace>();
+  private defaultRetention: HistoryRetention;
+  private nextVersion = 1;
+  private nextTrashId = 1;
+
+  /** Keeps other callers out while a withTransaction could still restore its copy. */
+  private gate = new TransactionGate();
+
+  constructor(opts: InMemoryBackendOptions = {}) {
+    this.defaultRetention = opts.historyRetention ?? DEFAULT_HISTORY_RETENTION;
+    return gateCalls(this, this.gate);
+  }
+
+  private nodes(namespaceId: string): Map<string, VfsNode> {
+    return this.namespaces.get(namespaceId)?.nodes ?? new Map<string, VfsNode>();
+  }
+
+  // ── Lifecycle ──────────────────────────────────────────────
+
+  async close(): Promise<void> {
+    this.namespaces.clear();
+  }
+
+  // ── Session / store management ─────────────────────────────
+
+  /** The namespace if it exists, after checking it belongs to `tenant`. */
+  private owned(name: string, tenant?: string): Namespace | undefined {
+    const existing = this.namespaces.get(scopedNamespaceId(name, tenant));
+    if (existing && existing.tenant !== (tenant ?? null)) {
+      throw new VfsError("EACCES", `Namespace belongs to another tenant: ${name}`);
+    }
+    return existing;
+  }
+
+  private ensureNamespace(
+    name: string,
+    persistent: boolean,
+    tenant?: string,
+    acl?: StoreAcl,
+  ): string {
+    const id = scopedNamespaceId(name, tenant);
+    const existing = this.owned(name, tenant);
+    if (existing) {
+      if (persistent && !existing.persistent) throw notAStoreError(name);
+      return id;
+    }
+    const now = new Date();
+    this.namespaces.set(id, {
+      persistent,
+      tenant: tenant ?? null,
+      acl: acl ? copyAcl(acl) : null,
+      revisions: new Map(),
+      retention: null,
+      snapshots: new Map(),
+      trash: new Map(),
+      locks: new Map(),
+      nodes: new Map([
+        ["/", { path: "/", nodeType: "directory", content: null, etag: null, createdAt: now, updatedAt: now }],
+      ]),
+    });
+    return id;
+  }
+
+  async ensureSession(id: string, tenant?: string): Promise<string> {
+    return this.ensureNamespace(id, false, tenant);
+  }
+
+  async ensureStore(name: string, tenant?: string, acl?: StoreAcl): Promise<string> {
+    return this.ensureNamespace(name, true, tenant, acl);
+  }
+
+  async getStoreAcl(name: string, tenant?: string): Promise<StoreAcl | null> {
+    const ns = this.owned(name, tenant);
+    if (!ns) return null;
+    if (!ns.persistent) throw notAStoreError(name);
+    return copyAcl(ns.acl ?? UNRESTRICTED_ACL);
+  }
+
+  async setStoreAcl(name: string, acl: StoreAcl, tenant?: string): Promise<void> {
+    const ns = this.owned(name, tenant);
+    if (ns) ns.acl = copyAcl(acl);
+  }
+
+  async resolveNamespace(sessionId: string, store?: string, tenant?: string): Promise<string> {
+    if (store) {
+      return this.ensureStore(store, tenant);
+    }
+    return this.ensureSession(sessionId, tenant);
+  }
+
+  async listStores(tenant?: string): Promise<string[]> {
+    return [...this.namespaces]
+      .filter(([, ns]) => ns.persistent && ns.tenant === (tenant ?? null))
+      .map(([id]) => unscopedName(id, tenant))
+      .sort();
+  }
+
+  // ── Node operations ────────────────────────────────────────
+
+  async getNode(namespaceId: string, path: string): Promise<VfsNode | null> {
+    const node = this.nodes(namespaceId).get(path);
+    return node ? { ...node } : null;
+  }
+
+  async readRange(namespaceId: string, path: string, range: ReadRange): Promise<FileSlice | null> {
+    const node = await this.getNode(namespaceId, path);
+    return node?.nodeType === "file" ? sliceContent(node.content ?? "", node.etag, range) : null;
+  }
+
+  async countChildren(namespaceId: string, dirPath: string): Promise<number> {
+    return (await this.listChildren(namespaceId, dirPath)).length;
+  }
+
+  async listChildren(namespaceId: string, dirPath: string, opts: ListChildrenOptions = {}): Promise<NodeInfo[]> {
+    const prefix = dirPath === "/" ? "/" : dirPath + "/";
+    const children: NodeInfo[] = [];
+    for (const node of this.nodes(namespaceId).values()) {
+      if (
+        node.path !== dirPath &&
+        node.path.startsWith(prefix) &&
+        !node.path.includes("/", prefix.length)
+      ) {
+        children.push(nodeInfo(node));
+      }
+    }
+    return pageChildren(children, opts);
+  }
+
+  async listTree(namespaceId: string, dirPath: string): Promise<NodeInfo[]> {
+    const prefix = dirPath === "/" ? "/" : dirPath + "/";
+    const nodes: NodeInfo[] = [];
+    for (const node of this.nodes(namespaceId).values()) {
+      if (node.path !== dirPath && node.path.startsWith(prefix)) {
+        nodes.push(nodeInfo(node));
+      }
+    }
+    return nodes.sort((a, b) => (a.path < b.path ? -1 : 1));
+  }
+
+  /** Throw ECONFLICT unless the node at `path` has etag `ifMatch` (no-op when undefined). */
+  private checkEtag(namespaceId: string, path: string, ifMatch: string | undefined): void {
+    if (ifMatch === undefined) return;
+    if (this.nodes(namespaceId).get(path)?.etag !== ifMatch) throw etagMismatch(path);
+  }
+
+  private setFile(namespaceId: string, path: string, content: string): string {
+    const nodes = this.nodes(namespaceId);
+    const now = new Date();
+    const existing = nodes.get(path);
+    const etag = contentEtag(content);
+    nodes.set(path, {
+      path,
+      nodeType: existing?.nodeType ?? "file",
+      content,
+      etag,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+    return etag;
+  }
+
+  async upsertFile(
+    namespaceId: string,
+    path: string,
+    content: string,
+    opts: { ifMatch?: string; mode?: WriteMode } = {},
+  ): Promise<string> {
+    this.checkEtag(namespaceId, path, opts.ifMatch);
+    const existing = this.nodes(namespaceId).get(path);
+    if (
+      (opts.mode === "create_only" && existing) ||
+      (opts.mode === "overwrite_only" && existing?.nodeType !== "file")
+    ) {
+      throw writeModeError(path, opts.mode);
+    }
+    const etag = this.setFile(namespaceId, path, content);
+    this.record(namespaceId, path, "write", content);
+    return etag;
+  }
+
+  async appendFile(
+    namespaceId: string,
+    path: string,
+    content: string,
+    ifMatch?: string,
+  ): Promise<string> {
+    this.checkEtag(namespaceId, path, ifMatch);
+    const existing = this.nodes(namespaceId).get(path);
+    const updated = (existing?.content ?? "") + content;
+    const etag = this.setFile(namespaceId, path, updated);
+    this.record(namespaceId, path, "append", updated);
+    return etag;
+  }
+
+  async insertDir(namespaceId: string, path: string): Promise<void> {
+    const nodes = this.nodes(namespaceId);
+    if (nodes.has(path)) return;
+    const now = new Date();
+    nodes.set(path, { path, nodeType: "directory", content: null, etag: null, createdAt: now, updatedAt: now });
+  }
+
+  async deleteNode(namespaceId: string, path: string, ifMatch?: string): Promise<number> {
+    this.checkEtag(namespaceId, path, ifMatch);
+    const nodes = this.nodes(namespaceId);
+    let deleted = 0;
+    for (const [p, node] of [...nodes]) {
+      if (p === path || p.startsWith(path + "/")) {
+        nodes.delete(p);
+        if (node.nodeType === "file") this.record(namespaceId, p, "delete", null);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async moveNode(
+    namespaceId: string,
+    sourcePath: string,
+    destPath: string,
+    opts: { ifMatch?: string; overwrite?: boolean } = {},
+  ): Promise<void> {
+    this.checkEtag(namespaceId, sourcePath, opts.ifMatch);
+    const nodes = this.nodes(namespaceId);
+    const replaced = nodes.get(destPath);
+    if (replaced && !(opts.overwrite && replaced.nodeType === "file")) {
+      throw destinationExists(destPath);
+    }
+    nodes.delete(destPath);
+    const now = new Date();
+    const moved: VfsNode[] = [];
+    for (const [p, node] of nodes) {
+      if (p === sourcePath || p.startsWith(sourcePath + "/")) {
+        nodes.delete(p);
+        moved.push({ ...node, path: destPath + p.slice(sourcePath.length), updatedAt: now });
+      }
+    }
+    for (const node of moved) {
+      nodes.set(node.path, node);
+      if (node.nodeType === "file") {
+        this.record(namespaceId, sourcePath + node.path.slice(destPath.length), "delete", null);
+        this.record(namespaceId, node.path, "move", node.content);
+      }
+    }
+  }
+
+  async copyNode(
+    sourceNamespaceId: string,
+    sourcePath: string,
+    destNamespaceId: string,
+    destPath: string,
+    opts: { overwrite?: boolean; preserveTimestamps?: boolean } = {},
+  ): Promise<number> {
+    const nodes = this.nodes(destNamespaceId);
+    const replaced = nodes.get(destPath);
+    if (replaced && !(opts.overwrite && replaced.nodeType === "file")) {
+      throw destinationExists(destPath);
+    }
+    const now = new Date();
+    const copies: VfsNode[] = [];
+    for (const [p, node] of this.nodes(sourceNamespaceId)) {
+      if (p === sourcePath || p.startsWith(sourcePath + "/")) {
+        const copy = { ...node, path: destPath + p.slice(sourcePath.length) };
+        copies.push(opts.preserveTimestamps ? copy : { ...copy, createdAt: now, updatedAt: now });
+      }
+    }
+    for (const node of copies) {
+      nodes.set(node.path, node);
+      if (node.nodeType === "file") this.record(destNamespaceId, node.path, "write", node.content);
+    }
+    return copies.length;
+  }
+
+  // ── History ────────────────────────────────────────────────
+
+  private record(
+    namespaceId: string,
+    path: string,
+    op: FileRevision["op"],
+    content: string | null,
+  ): void {
+    const ns = this.namespaces.get(namespaceId);
+    if (!ns) return;
+    const retention = ns.retention ?? this.defaultRetention;
+    if (retention.maxVersions === 0) return;
+    const revision: StoredRevision = {
+      version: this.nextVersion++,
+      op,
+      size: content?.length ?? null,
+      createdAt: new Date(),
+      content,
+    };
+    ns.revisions.set(path, retainedRevisions([revision, ...(ns.revisions.get(path) ?? [])], retention));
+  }
+
+  async listRevisions(namespaceId: string, path: string): Promise<FileRevision[]> {
+    const revisions = this.namespaces.get(namespaceId)?.revisions.get(path) ?? [];
+    return revisions.map(({ content: _content, ...revision }) => revision);
+  }
+
+  async getRevision(
+    namespaceId: string,
+    path: string,
+    version: number,
+  ): Promise<{ revision: FileRevision; content: string | null } | null> {
+    const revisions = this.namespaces.get(namespaceId)?.revisions.get(path) ?? [];
+    const found = revisions.find((r) => r.version === version);
+    if (!found) return null;
+    const { content, ...revision } = found;
+    return { revision, content };
+  }
+
+  async getHistoryRetention(namespaceId: string): Promise<HistoryRetention> {
+    return { ...(this.namespaces.get(namespaceId)?.retention ?? this.defaultRetention) };
+  }
+
+  async setHistoryRetention(namespaceId: string, retention: HistoryRetention): Promise<void> {
+    const ns = this.namespaces.get(namespaceId);
+    if (!ns) return;
+    ns.retention = { ...retention };
+    for (const [path, revisions] of ns.revisions) {
+      const kept = retainedRevisions(revisions, retention);
+      if (kept.length > 0) ns.revisions.set(path, kept);
+      else ns.revisions.delete(path);
+    }
+  }
+
+  // ── Transactions ───────────────────────────────────────────
+
+  /**
+   * Keep a copy of the namespace's state and put it back if `fn` fails. Nodes and
+   * revision lists are replaced rather than mutated, so copying the maps suffices.
+   */
+  async withTransaction<T>(namespaceId: string, fn: () => Promise<T>): Promise<T> {
+    return this.gate.transaction(async () => {
+      const ns = this.namespaces.get(namespaceId);
+      if (!ns) return fn();
+      const saved: Namespace = {
+        ...ns,
+        nodes: new Map(ns.nodes),
+        revisions: new Map(ns.revisions),
+        snapshots: new Map(ns.snapshots),
+        trash: new Map(ns.trash),
+        locks: new Map(ns.locks),
+      };
+      try {
+        return await fn();
+      } catch (e) {
+        this.namespaces.set(namespaceId, saved);
+        throw e;
+      }
+    });
+  }
+
+  // ── Snapshots ──────────────────────────────────────────────
+
+  private snapshot(namespaceId: string, name: string): Snapshot {
+    const snapshot = this.namespaces.get(namespaceId)?.snapshots.get(name);
+    if (!snapshot) {
+      throw new VfsError("ENOENT", `No such snapshot: ${name}`);
+    }
+    return snapshot;
+  }
+
+  async createSnapshot(namespaceId: string, name: string): Promise<SnapshotInfo> {
+    const ns = this.namespaces.get(namespaceId);
+    if (!ns) {
+      throw new VfsError("ENOENT", `No such namespace: ${namespaceId}`);
+    }
+    if (ns.snapshots.has(name)) {
+      throw new VfsError("EEXIST", `Snapshot already exists: ${name}`);
+    }
+    const snapshot = { createdAt: new Date(), nodes: new Map(ns.nodes) };
+    ns.snapshots.set(name, snapshot);
+    return snapshotInfo(name, snapshot);
+  }
+
+  async listSnapshots(namespaceId: string): Promise<SnapshotInfo[]> {
+    const snapshots = this.namespaces.get(namespaceId)?.snapshots ?? new Map<string, Snapshot>();
+    return [...snapshots].map(([name, snapshot]) => snapshotInfo(name, snapshot));
+  }
+
+  async rollbackSnapshot(namespaceId: string, name: string): Promise<SnapshotInfo> {
+    const snapshot = this.snapshot(namespaceId, name);
+    const ns = this.namespaces.get(namespaceId);
+    if (ns) ns.nodes = new Map(snapshot.nodes);
+    return snapshotInfo(name, snapshot);
+  }
+
+  async diffSnapshots(namespaceId: string, from: string, to: string | null): Promise<SnapshotChange[]> {
+    const before = this.snapshot(namespaceId, from).nodes;
+    const after = to === null ? this.nodes(namespaceId) : this.snapshot(namespaceId, to).nodes;
+    return diffNodes(before, after);
+  }
+
+  // ── Trash ──────────────────────────────────────────────────
+
+  async trashNode(namespaceId: string, path: string, ifMatch?: string): Promise<number> {
+    this.checkEtag(namespaceId, path, ifMatch);
+    const ns = this.namespaces.get(namespaceId);
+    const node = ns?.nodes.get(path);
+    if (!ns || !node) {
+      throw new VfsError("ENOENT", `No such file or directory: ${path}`);
+    }
+    const removed = [...ns.nodes.values()].filter((n) => n.path === path || n.path.startsWith(path + "/"));
+    await this.deleteNode(namespaceId, path);
+    const entry: TrashEntry = {
+      id: this.nextTrashId++,
+      path,
+      nodeType: node.nodeType,
+      deletedAt: new Date(),
+      files: removed.filter((n) => n.nodeType === "file").length,
+    };
+    ns.trash.set(entry.id, { entry, nodes: removed });
+    return removed.length;
+  }
+
+  async listTrash(namespaceId: string): Promise<TrashEntry[]> {
+    const trash = this.namespaces.get(namespaceId)?.trash ?? new Map<number, { entry: TrashEntry }>();
+    return [...trash.values()].map(({ entry }) => ({ ...entry })).reverse();
+  }
+
+  async restoreTrash(namespaceId: string, id: number, destPath: string): Promise<TrashEntry> {
+    const ns = this.namespaces.get(namespaceId);
+    const trashed = ns?.trash.get(id);
+    if (!ns || !trashed) {
+      throw new VfsError("ENOENT", `No such trash entry: ${id}`);
+    }
+    ns.trash.delete(id);
+    const now = new Date();
+    for (const node of trashed.nodes) {
+      const path = destPath + node.path.slice(trashed.entry.path.length);
+      ns.nodes.set(path, { ...node, path, updatedAt: now });
+      if (node.nodeType === "file") this.record(namespaceId, path, "write", node.content);
+    }
+    return { ...trashed.entry };
+  }
+
+  async purgeTrash(namespaceId: string, filter: { id?: number; maxAgeDays?: number }): Promise<number> {
+    const trash = this.namespaces.get(namespaceId)?.trash;
+    if (!trash) return 0;
+    const cutoff = filter.maxAgeDays === undefined ? null : Date.now() - filter.maxAgeDays * DAY_MS;
+    let purged = 0;
+    for (const [id, { entry }] of trash) {
+      if (filter.id !== undefined && id !== filter.id) continue;
+      if (cutoff !== null && entry.deletedAt.getTime() >= cutoff) continue;
+      trash.delete(id);
+      purged++;
+    }
+    return purged;
+  }
+
+  // ── Locks ──────────────────────────────────────────────────
+
+  private activeLocks(namespaceId: string): FileLock[] {
+    const locks = this.namespaces.get(namespaceId)?.locks ?? new Map<string, FileLock>();
+    const now = Date.now();
+    return [...locks.values()].filter((l) => l.expiresAt.getTime() > now);
+  }
+
+  async acquireLock(
+    namespaceId: string,
+    path: string,
+    owner: string,
+    ttlSeconds: number,
+    mandatory: boolean,
+  ): Promise<FileLock> {
+    const ns = this.namespaces.get(namespaceId);
+    if (!ns) {
+      throw new VfsError("ENOENT", `No such namespace: ${namespaceId}`);
+    }
+    const held = this.activeLocks(namespaceId).find((l) => l.path === path);
+    if (held && held.owner !== owner) {
+      throw lockedError(path, held);
+    }
+    const now = new Date();
+    const lock: FileLock = {
+      path,
+      owner,
+      mandatory,
+      expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+      createdAt: held?.createdAt ?? now,
+    };
+    ns.locks.set(path, lock);
+    return { ...lock };
+  }
+
+  async releaseLock(namespaceId: string, path: string, owner: string): Promise<void> {
+    const held = this.activeLocks(namespaceId).find((l) => l.path === path);
+    if (!held) {
+      throw new VfsError("ENOENT", `Not locked: ${path}`);
+    }
+    if (held.owner !== owner) {
+      throw lockedError(path, held);
+    }
+    this.namespaces.get(namespaceId)?.locks.delete(path);
+  }
+
+  async listLocks(namespaceId: string): Promise<FileLock[]> {
+    return this.activeLocks(namespaceId)
+      .map((l) => ({ ...l }))
+      .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  }
+
+  async blockingLock(namespaceId: string, path: string, owner: string): Promise<FileLock | null> {
+    const prefix = descendantPrefix(path);
+    const blocking = (await this.listLocks(namespaceId)).find(
+      (l) =>
+        l.mandatory &&
+        l.owner !== owner &&
+        (l.path === path || path.startsWith(l.path + "/") || l.path.startsWith(prefix)),
+    );
+    return blocking ?? null;
+  }
+
+  // ── Search ─────────────────────────────────────────────────
+
+  async findPaths(namespaceId: string, query: PathQuery): Promise<string[]> {
+    const prefix = query.dirPath === "/" ? "/" : query.dirPath + "/";
+    const regex = query.regex === undefined ? null : new RegExp(query.regex);
+    const paths = [...this.nodes(namespaceId).values()]
+      .filter((n) => n.path !== query.dirPath && n.path.startsWith(prefix))
+      .filter((n) => !query.nodeType || n.nodeType === query.nodeType)
+      .map((n) => n.path)
+      .filter((p) => (!regex || regex.test(p)) && (query.after === undefined || p > query.after))
+      .sort();
+    return paths.slice(0, query.limit);
+  }
+
+  async grepContent(
+    namespaceId: string,
+    pattern: string,
+    paths?: string[],
+    opts?: GrepOptions,
+  ): Promise<GrepMatch[]> {
+    return grepFiles(pattern, this.grepCandidates(namespaceId, paths), opts);
+  }
+
+  async grepCount(
+    namespaceId: string,
+    pattern: string,
+    paths?: string[],
+    opts: GrepOptions = {},
+  ): Promise<GrepCount[]> {
+    const matches = grepFiles(pattern, this.grepCandidates(namespaceId, paths), { ignoreCase: opts.ignoreCase });
+    return countMatches(matches, opts.limit);
+  }
+
+  /** Files to grep, sorted by path. */
+  private grepCandidates(namespaceId: string, paths?: string[]): { path: string; content: string }[] {
+    const wanted = paths ? new Set(paths) : null;
+    return [...this.nodes(namespaceId).values()]
+      .filter((n) => n.nodeType === "file" && n.content !== null)
+      .filter((n) => !wanted || wanted.has(n.path))
+      .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+      .map((n) => ({ path: n.path, content: n.content ?? "" }));
+  }
+}
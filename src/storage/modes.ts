@@ -0,0 +1,14 @@
+import type { WriteMode } from "./interface.js";
+import { VfsError } from "../errors.js";
+
+/** The error for a write whose `mode` doesn't allow the path's current state. */
+export function writeModeError(path: string, mode: WriteMode): VfsError {
+  return mode === "create_only"
+    ? new VfsError("EEXIST", `File already exists: ${path}`)
+    : new VfsError("ENOENT", `No such file: ${path}`);
+}
+
+/** The error for a move onto an existing destination it may not replace. */
+export function destinationExists(path: string): VfsError {
+  return new VfsError("EEXIST", `Destination already exists: ${path}`);
+}
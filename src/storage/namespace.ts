@@ -0,0 +1,33 @@
+/**
+ * Tenant scoping for namespace IDs.
+ * Without a tenant, a session ID or store name is its own namespace ID (the
+ * original, single-tenant layout). With one, the ID becomes `<tenant>/<name>`,
+ * so two tenants can both own a store called `memory`.
+ */
+
+import { VfsError } from "../errors.js";
+
+/** Tenant IDs never contain `/`, so `<tenant>/<name>` is unambiguous. */
+const TENANT_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+export function isValidTenantId(tenant: string): boolean {
+  return TENANT_ID_PATTERN.test(tenant);
+}
+
+/** Namespace ID for a session ID or store name, qualified by tenant when given. */
+export function scopedNamespaceId(name: string, tenant?: string): string {
+  return tenant ? `${tenant}/${name}` : name;
+}
+
+/** Inverse of `scopedNamespaceId` for IDs known to belong to `tenant`. */
+export function unscopedName(id: string, tenant?: string): string {
+  return tenant ? id.slice(tenant.length + 1) : id;
+}
+
+/**
+ * The error for naming a session as a store. Sessions have no ACL, so opening
+ * one as a store would hand its private files to anyone who knows its ID.
+ */
+export function notAStoreError(name: string): VfsError {
+  return new VfsError("EACCES", `Not a store: ${name}`);
+}
@@ -1,23 +1,290 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import crypto from "node:crypto";
 import pg from "pg";
-import type { StorageBackend, VfsNode, GrepMatch } from "./interface.js";
-import { SCHEMA_SQL, RLS_SQL } from "./schema.js";
+import type {
+  StorageBackend,
+  VfsNode,
+  NodeInfo,
+  ListChildrenOptions,
+  ReadRange,
+  FileSlice,
+  GrepMatch,
+  GrepCount,
+  GrepOptions,
+  PathQuery,
+  TextSearchOptions,
+  TextSearchHit,
+  TextSearchResult,
+  SemanticMatch,
+  StoreAcl,
+  FileRevision,
+  HistoryRetention,
+  SnapshotInfo,
+  SnapshotChange,
+  TrashEntry,
+  FileLock,
+  WriteMode,
+} from "./interface.js";
+import type { BlobStore } from "./blob.js";
+import { chunkText, cosineSimilarity, type EmbeddingProvider } from "./embeddings.js";
+import { countMatches, grepFiles } from "./grep.js";
+import { notAStoreError, scopedNamespaceId, unscopedName } from "./namespace.js";
+import { UNRESTRICTED_ACL } from "./acl.js";
+import { DEFAULT_HISTORY_RETENTION } from "./history.js";
+import { contentEtag, etagMismatch } from "./etag.js";
+import { destinationExists, writeModeError } from "./modes.js";
+import { sliceContent } from "./range.js";
+import { descendantPrefix, lockedError } from "./locks.js";
+import { pageChildren } from "./listing.js";
+import { VfsError } from "../errors.js";
+import { SCHEMA_SQL, RLS_SQL, SEARCH_LANGUAGE, SEARCH_INDEXED_CHARS } from "./schema.js";
 
 const { Pool } = pg;
 
+/** Parallel object-store reads when many offloaded files are needed at once. */
+const BLOB_FETCH_CONCURRENCY = 16;
+
+async function mapConcurrent<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += BLOB_FETCH_CONCURRENCY) {
+    results.push(...(await Promise.all(items.slice(i, i + BLOB_FETCH_CONCURRENCY).map(fn))));
+  }
+  return results;
+}
+
 export interface PostgresBackendOptions {
   connectionString: string;
   enableRls: boolean;
+  /**
+   * Offload file contents to this store. `vfs_nodes` then keeps only metadata
+   * and the object key (`content_key`); rows written without it stay inline.
+   */
+  blobStore?: BlobStore;
+  /** Revision retention for namespaces that haven't set their own. */
+  historyRetention?: HistoryRetention;
+  /**
+   * Embed file contents with this provider for semantic search. Vectors go to
+   * `vfs_embeddings`, and into a pgvector column when the extension is available.
+   */
+  embeddings?: EmbeddingProvider;
+}
+
+interface InfoRow {
+  path: string;
+  node_type: "file" | "directory";
+  content_key: string | null;
+  size: number | null;
+  etag: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface NodeRow {
+  path: string;
+  node_type: "file" | "directory";
+  content: string | null;
+  content_key: string | null;
+  etag: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A node's etag: md5 of inline content, or of the object key for offloaded
+ * content (a fresh key is minted for every change). NULL for directories.
+ */
+const ETAG_SQL = `COALESCE(md5(content), md5(content_key))`;
+
+/**
+ * Content length of the `vfs_nodes n` row's file, null for directories. Offloaded
+ * content has no length in the row, so it is taken from the revision that wrote
+ * the object where history kept one, and is otherwise null too.
+ */
+const NODE_SIZE_SQL = `CASE WHEN n.node_type = 'file' THEN COALESCE(
+  length(n.content),
+  (SELECT r.size FROM vfs_revisions r
+   WHERE r.session_id = n.session_id AND r.path = n.path AND r.content_key = n.content_key
+   ORDER BY r.id DESC LIMIT 1)
+) END`;
+
+/**
+ * WHERE clause selecting the files a grep reads: inline contents in namespace
+ * `$1` matching `$2` with `op`, and among `paths` if given, which is appended
+ * to `params`.
+ */
+function grepFilterSql(op: "~" | "~*", paths: string[] | undefined, params: unknown[]): string {
+  let sql = `session_id = $1 AND node_type = 'file' AND content IS NOT NULL AND content ${op} $2`;
+  if (paths) {
+    params.push(paths);
+    sql += ` AND path = ANY($${params.length}::text[])`;
+  }
+  return sql;
+}
+
+/**
+ * Lines of a file picked out in SQL so only they leave the database. `skip` is
+ * how many lines precede the slice; a negative $3 counts back from the end. A
+ * final newline ends the last line rather than starting an empty one.
+ */
+const LINE_SLICE_SQL = `
+  WITH node AS (
+    SELECT node_type, content_key, ${ETAG_SQL} AS etag,
+           string_to_array(content, E'\\n') AS parts,
+           COALESCE(right(content, 1) = E'\\n', false) AS terminated
+    FROM vfs_nodes WHERE session_id = $1 AND path = $2
+  ), counted AS (
+    SELECT *, COALESCE(array_length(parts, 1), 0) - terminated::int AS total FROM node
+  ), bounded AS (
+    SELECT *, CASE WHEN $3::int < 0 THEN GREATEST(total + $3::int, 0) ELSE LEAST($3::int - 1, total) END AS skip
+    FROM counted
+  ), windowed AS (
+    SELECT *, LEAST(skip + COALESCE($4::int, total), total) AS last FROM bounded
+  )
+  SELECT node_type, content_key, etag, total, skip + 1 AS start,
+         array_to_string(parts[skip + 1 : last], E'\\n')
+           || CASE WHEN last > skip AND (last < total OR terminated) THEN E'\\n' ELSE '' END AS content
+  FROM windowed`;
+
+/** UTF-8 bytes of a file picked out in SQL, from offset $3 for $4 bytes (or to the end). */
+const BYTE_SLICE_SQL = `
+  SELECT node_type, content_key, ${ETAG_SQL} AS etag,
+         COALESCE(octet_length(content), 0) AS total,
+         LEAST($3::int, COALESCE(octet_length(content), 0)) AS start,
+         substring(convert_to(content, 'UTF8') FROM LEAST($3::int, octet_length(content)) + 1
+                   FOR COALESCE($4::int, octet_length(content))) AS content
+  FROM vfs_nodes WHERE session_id = $1 AND path = $2`;
+
+/**
+ * Statement writing `$3` into a file's `column` under `mode`, RETURNING path and
+ * content. It returns no row when the mode forbids the write.
+ */
+function writeFileSql(mode: WriteMode, column: "content" | "content_key"): string {
+  // Offloaded writes also clear any inline content the row had
+  const set = column === "content" ? "content = $3" : "content = NULL, content_key = $3";
+  if (mode === "overwrite_only") {
+    return `UPDATE vfs_nodes SET ${set}, updated_at = now()
+            WHERE session_id = $1 AND path = $2 AND node_type = 'file'
+            RETURNING path, content`;
+  }
+  return `INSERT INTO vfs_nodes (session_id, path, node_type, ${column})
+          VALUES ($1, $2, 'file', $3)
+          ON CONFLICT (session_id, path)
+          ${mode === "create_only" ? "DO NOTHING" : `DO UPDATE SET ${set}, updated_at = now()`}
+          RETURNING path, content`;
+}
+
+/** ts_headline options for search snippets: up to two passages, matches in `**`. */
+const SNIPPET_OPTIONS = `StartSel=**, StopSel=**, MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" ... "`;
+
+/** Whether `e` is PostgreSQL's unique_violation. */
+function isUniqueViolation(e: unknown): boolean {
+  return (e as { code?: string }).code === "23505";
+}
+
+interface RevisionRow {
+  id: string;
+  op: FileRevision["op"];
+  size: number | null;
+  created_at: Date;
+}
+
+function toRevision(r: RevisionRow): FileRevision {
+  return { version: Number(r.id), op: r.op, size: r.size, createdAt: r.created_at };
+}
+
+interface SnapshotRow {
+  name: string;
+  created_at: Date;
+  files: string;
+}
+
+function toSnapshot(r: SnapshotRow): SnapshotInfo {
+  return { name: r.name, createdAt: r.created_at, files: parseInt(r.files, 10) };
+}
+
+interface TrashRow {
+  id: string;
+  path: string;
+  node_type: "file" | "directory";
+  deleted_at: Date;
+  files: string;
+}
+
+function toTrashEntry(r: TrashRow): TrashEntry {
+  return {
+    id: Number(r.id),
+    path: r.path,
+    nodeType: r.node_type,
+    deletedAt: r.deleted_at,
+    files: parseInt(r.files, 10),
+  };
+}
+
+/** Selects trash entries as TrashRow from `vfs_trash t`; append the WHERE clause. */
+const TRASH_SELECT = `
+  SELECT t.id, t.path, t.node_type, t.deleted_at,
+         (SELECT COUNT(*) FROM vfs_trash_nodes n
+          WHERE n.trash_id = t.id AND n.node_type = 'file') AS files
+  FROM vfs_trash t`;
+
+interface LockRow {
+  path: string;
+  owner: string;
+  mandatory: boolean;
+  expires_at: Date;
+  created_at: Date;
+}
+
+function toLock(r: LockRow): FileLock {
+  return {
+    path: r.path,
+    owner: r.owner,
+    mandatory: r.mandatory,
+    expiresAt: r.expires_at,
+    createdAt: r.created_at,
+  };
+}
+
+const LOCK_COLUMNS = `path, owner, mandatory, expires_at, created_at`;
+
+/** A transaction opened by withTransaction, shared by every call made inside it. */
+interface OpenTransaction {
+  client: pg.PoolClient;
+  /** Objects uploaded inside the transaction, dropped again if it rolls back. */
+  uploaded: string[];
+  /** Objects released inside the transaction, dropped once it commits. */
+  released: string[];
+}
+
+/**
+ * Condition that the namespace `$1` keeps history, given the default
+ * max-versions as parameter `$<param>`. Used to gate revision inserts.
+ */
+function historyEnabled(param: number): string {
+  return `(SELECT COALESCE(history_max_versions, $${param}) FROM vfs_sessions WHERE id = $1) > 0`;
 }
 
 export class PostgresBackend implements StorageBackend {
   private pool: pg.Pool;
   private enableRls: boolean;
-  /** Cache of already-provisioned namespaces to avoid repeated INSERT on every call. */
-  private knownNamespaces = new Set<string>();
+  private blobStore?: BlobStore;
+  private defaultRetention: HistoryRetention;
+  private embeddings?: EmbeddingProvider;
+  /** Whether `vfs_embeddings` has the pgvector column, looked up on first use. */
+  private vectorColumn?: Promise<boolean>;
+  /** Already-provisioned namespaces (and whether each is a store), to avoid repeated INSERT on every call. */
+  private knownNamespaces = new Map<string, boolean>();
+  /** Owning tenant of each namespace seen so far, for RLS scoping. */
+  private namespaceTenants = new Map<string, string | null>();
+  /** The withTransaction call, if any, that the current async context runs in. */
+  private openTransaction = new AsyncLocalStorage<OpenTransaction>();
 
   constructor(opts: PostgresBackendOptions) {
     this.pool = new Pool({ connectionString: opts.connectionString });
     this.enableRls = opts.enableRls;
+    this.blobStore = opts.blobStore;
+    this.defaultRetention = opts.historyRetention ?? DEFAULT_HISTORY_RETENTION;
+    this.embeddings = opts.embeddings;
   }
 
   // ── Lifecycle ──────────────────────────────────────────────
@@ -28,23 +295,65 @@ export class PostgresBackend implements StorageBackend {
     if (opts?.withRls) {
       await this.pool.query(RLS_SQL);
     }
+    if (this.embeddings) {
+      await this.addVectorColumn();
+    }
+  }
+
+  /**
+   * Mirror embeddings into a pgvector column so searches rank them in the
+   * database. Without the extension (or the right to create it) they are
+   * ranked in-process from the REAL[] column instead.
+   */
+  private async addVectorColumn(): Promise<void> {
+    try {
+      await this.pool.query(`CREATE EXTENSION IF NOT EXISTS vector`);
+    } catch {
+      return;
+    }
+    await this.pool.query(`ALTER TABLE vfs_embeddings ADD COLUMN IF NOT EXISTS vec vector`);
+    this.vectorColumn = undefined;
   }
 
   async close(): Promise<void> {
     await this.pool.end();
+    this.blobStore?.close?.();
   }
 
   // ── Internal: RLS-aware query helper ───────────────────────
 
+  /**
+   * Set the RLS scope on a client. The tenant defaults to the namespace's owner;
+   * listStores passes it explicitly since it has no namespace.
+   */
+  private async setScope(
+    client: pg.PoolClient,
+    namespaceId: string | undefined,
+    tenant: string | null | undefined,
+    local: boolean,
+  ): Promise<void> {
+    const tenantId = tenant !== undefined ? tenant : (this.namespaceTenants.get(namespaceId ?? "") ?? null);
+    await client.query(
+      `SELECT set_config('app.vfs_session_id', $1, $3),
+              set_config('app.vfs_tenant_id', $2, $3)`,
+      [namespaceId ?? "", tenantId ?? "", local],
+    );
+  }
+
   private async query<T extends pg.QueryResultRow = pg.QueryResultRow>(
     text: string,
     params?: unknown[],
     namespaceId?: string,
+    tenant?: string | null,
   ): Promise<pg.QueryResult<T>> {
-    if (this.enableRls && namespaceId) {
+    const open = this.openTransaction.getStore();
+    if (open) {
+      return open.client.query<T>(text, params);
+    }
+    if (this.enableRls) {
       const client = await this.pool.connect();
       try {
-        await client.query("SELECT set_config('app.vfs_session_id', $1, false)", [namespaceId]);
+        await this.setScope(client, namespaceId, tenant, false);
         return await client.query<T>(text, params);
       } finally {
         client.release();
@@ -53,72 +362,298 @@ export class PostgresBackend implements StorageBackend {
     return this.pool.query<T>(text, params);
   }
 
+  /**
+   * Run `fn` inside a transaction on a dedicated client (RLS-scoped like `query`).
+   * Inside withTransaction it runs in a savepoint of the open transaction instead.
+   */
+  private async transaction<T>(
+    namespaceId: string,
+    fn: (client: pg.PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const open = this.openTransaction.getStore();
+    if (open) {
+      await open.client.query("SAVEPOINT vfs_nested");
+      try {
+        const result = await fn(open.client);
+        await open.client.query("RELEASE SAVEPOINT vfs_nested");
+        return result;
+      } catch (e) {
+        await open.client.query("ROLLBACK TO SAVEPOINT vfs_nested");
+        throw e;
+      }
+    }
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      if (this.enableRls) {
+        await this.setScope(client, namespaceId, undefined, true);
+      }
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  async withTransaction<T>(namespaceId: string, fn: () => Promise<T>): Promise<T> {
+    if (this.openTransaction.getStore()) return fn();
+    const client = await this.pool.connect();
+    const open: OpenTransaction = { client, uploaded: [], released: [] };
+    let result: T;
+    try {
+      await client.query("BEGIN");
+      if (this.enableRls) {
+        await this.setScope(client, namespaceId, undefined, true);
+      }
+      result = await this.openTransaction.run(open, fn);
+      await client.query("COMMIT");
+    } catch (e) {
+      await client.query("ROLLBACK");
+      await this.dropBlobs(namespaceId, open.uploaded);
+      throw e;
+    } finally {
+      client.release();
+    }
+    await this.dropBlobs(namespaceId, open.released);
+    return result;
+  }
+
+  // ── Internal: offloaded content ────────────────────────────
+
+  /** Fresh object key for a new version of a file's content. */
+  private newContentKey(namespaceId: string): string {
+    const key = `${encodeURIComponent(namespaceId)}/${crypto.randomUUID()}`;
+    this.openTransaction.getStore()?.uploaded.push(key);
+    return key;
+  }
+
+  private async toNode(r: NodeRow): Promise<VfsNode> {
+    return {
+      path: r.path,
+      nodeType: r.node_type,
+      content: r.content_key && this.blobStore ? await this.blobStore.get(r.content_key) : r.content,
+      etag: r.etag,
+      createdAt: r.created_at,
+      updatedAt: r.updated_at,
+    };
+  }
+
+  /** Fetches offloaded files whose size NODE_SIZE_SQL couldn't tell, unless `measure` is false. */
+  private async toNodeInfo(r: InfoRow, measure = true): Promise<NodeInfo> {
+    let size = r.size;
+    if (measure && r.node_type === "file" && size === null) {
+      size = r.content_key && this.blobStore ? (await this.blobStore.get(r.content_key)).length : 0;
+    }
+    return {
+      path: r.path,
+      nodeType: r.node_type,
+      size,
+      etag: r.etag,
+      createdAt: r.created_at,
+      updatedAt: r.updated_at,
+    };
+  }
+
+  // ── Internal: etag preconditions ───────────────────────────
+
+  /** Lock the node at `path` and throw ECONFLICT unless its etag is `ifMatch`. */
+  private async checkEtag(
+    client: pg.PoolClient,
+    namespaceId: string,
+    path: string,
+    ifMatch: string,
+  ): Promise<void> {
+    const { rows } = await client.query<{ etag: string | null }>(
+      `SELECT ${ETAG_SQL} AS etag FROM vfs_nodes
+       WHERE session_id = $1 AND path = $2 FOR UPDATE`,
+      [namespaceId, path],
+    );
+    if (rows[0]?.etag !== ifMatch) throw etagMismatch(path);
+  }
+
+  /** `query`, run after `checkEtag` in one transaction when `ifMatch` is given. */
+  private async guardedQuery<T extends pg.QueryResultRow = pg.QueryResultRow>(
+    namespaceId: string,
+    path: string,
+    ifMatch: string | undefined,
+    text: string,
+    params: unknown[],
+  ): Promise<pg.QueryResult<T>> {
+    if (ifMatch === undefined) return this.query<T>(text, params, namespaceId);
+    return this.transaction(namespaceId, async (client) => {
+      await this.checkEtag(client, namespaceId, path, ifMatch);
+      return client.query<T>(text, params);
+    });
+  }
+
+  /**
+   * Best-effort removal of objects that no node, revision, snapshot or trash
+   * entry references any more (all of them share keys with the nodes they recorded).
+   */
+  private async dropBlobs(namespaceId: string, keys: (string | null)[]): Promise<void> {
+    const candidates = keys.filter((k): k is string => k !== null);
+    if (!this.blobStore || candidates.length === 0) return;
+    // Until an open transaction commits, its rollback could bring the references back
+    const open = this.openTransaction.getStore();
+    if (open) {
+      open.released.push(...candidates);
+      return;
+    }
+    try {
+      const { rows } = await this.query<{ content_key: string }>(
+        `SELECT content_key FROM vfs_nodes WHERE content_key = ANY($1)
+         UNION
+         SELECT content_key FROM vfs_revisions WHERE content_key = ANY($1)
+         UNION
+         SELECT content_key FROM vfs_snapshot_nodes WHERE content_key = ANY($1)
+         UNION
+         SELECT content_key FROM vfs_trash_nodes WHERE content_key = ANY($1)`,
+        [candidates],
+        namespaceId,
+      );
+      const referenced = new Set(rows.map((r) => r.content_key));
+      const unreferenced = candidates.filter((k) => !referenced.has(k));
+      if (unreferenced.length > 0) await this.blobStore.delete(unreferenced);
+    } catch (e) {
+      console.error("[vfs] Failed to delete offloaded content:", e);
+    }
+  }
+
   // ── Session / store management ─────────────────────────────
 
-  async ensureSession(id: string): Promise<void> {
-    if (this.knownNamespaces.has(id)) return;
+  /**
+   * The namespace's row if it exists, after checking it belongs to `tenant`.
+   * Under RLS another tenant's row is simply invisible, so it reads as missing.
+   */
+  private async ownedRow(
+    name: string,
+    tenant?: string,
+  ): Promise<{ tenant_id: string | null; is_persistent: boolean; acl: StoreAcl | null } | undefined> {
+    const id = scopedNamespaceId(name, tenant);
+    const tenantId = tenant ?? null;
+    const { rows } = await this.query<{ tenant_id: string | null; is_persistent: boolean; acl: StoreAcl | null }>(
+      `SELECT tenant_id, is_persistent, acl FROM vfs_sessions WHERE id = $1`,
+      [id],
+      id,
+      tenantId,
+    );
+    if (rows.length > 0 && rows[0].tenant_id !== tenantId) {
+      throw new VfsError("EACCES", `Namespace belongs to another tenant: ${name}`);
+    }
+    return rows[0];
+  }
+
+  private async ensureNamespace(
+    name: string,
+    persistent: boolean,
+    tenant?: string,
+    acl?: StoreAcl,
+  ): Promise<string> {
+    const id = scopedNamespaceId(name, tenant);
+    const known = this.knownNamespaces.get(id);
+    if (known !== undefined) {
+      if (persistent && !known) throw notAStoreError(name);
+      return id;
+    }
+    const tenantId = tenant ?? null;
     await this.query(
-      `INSERT INTO vfs_sessions (id, is_persistent) VALUES ($1, false)
+      `INSERT INTO vfs_sessions (id, is_persistent, tenant_id, acl) VALUES ($1, $2, $3, $4)
        ON CONFLICT (id) DO NOTHING`,
-      [id],
+      [id, persistent, tenantId, acl ? JSON.stringify(acl) : null],
       id,
+      tenantId,
     );
+    // The ID may predate this call — make sure it is ours
+    const row = await this.ownedRow(name, tenant);
+    if (!row) {
+      throw new VfsError("EACCES", `Namespace belongs to another tenant: ${name}`);
+    }
+    if (persistent && !row.is_persistent) throw notAStoreError(name);
+    this.namespaceTenants.set(id, tenantId);
     await this.insertDir(id, "/");
-    this.knownNamespaces.add(id);
+    this.knownNamespaces.set(id, row.is_persistent);
+    return id;
   }
 
-  async ensureStore(name: string): Promise<void> {
-    if (this.knownNamespaces.has(name)) return;
+  async ensureSession(id: string, tenant?: string): Promise<string> {
+    return this.ensureNamespace(id, false, tenant);
+  }
+
+  async ensureStore(name: string, tenant?: string, acl?: StoreAcl): Promise<string> {
+    return this.ensureNamespace(name, true, tenant, acl);
+  }
+
+  async getStoreAcl(name: string, tenant?: string): Promise<StoreAcl | null> {
+    const row = await this.ownedRow(name, tenant);
+    if (!row) return null;
+    if (!row.is_persistent) throw notAStoreError(name);
+    return row.acl ?? UNRESTRICTED_ACL;
+  }
+
+  async setStoreAcl(name: string, acl: StoreAcl, tenant?: string): Promise<void> {
+    const id = scopedNamespaceId(name, tenant);
+    await this.ownedRow(name, tenant);
     await this.query(
-      `INSERT INTO vfs_sessions (id, is_persistent) VALUES ($1, true)
-       ON CONFLICT (id) DO NOTHING`,
-      [name],
-      name,
+      `UPDATE vfs_sessions SET acl = $2 WHERE id = $1`,
+      [id, JSON.stringify(acl)],
+      id,
+      tenant ?? null,
     );
-    await this.insertDir(name, "/");
-    this.knownNamespaces.add(name);
   }
 
-  async resolveNamespace(sessionId: string, store?: string): Promise<string> {
+  async resolveNamespace(sessionId: string, store?: string, tenant?: string): Promise<string> {
     if (store) {
-      await this.ensureStore(store);
-      return store;
+      return this.ensureStore(store, tenant);
     }
-    await this.ensureSession(sessionId);
-    return sessionId;
+    return this.ensureSession(sessionId, tenant);
   }
 
-  async listStores(): Promise<string[]> {
+  async listStores(tenant?: string): Promise<string[]> {
     const { rows } = await this.query<{ id: string }>(
-      `SELECT id FROM vfs_sessions WHERE is_persistent = true ORDER BY id`,
+      `SELECT id FROM vfs_sessions
+       WHERE is_persistent = true AND tenant_id IS NOT DISTINCT FROM $1
+       ORDER BY id`,
+      [tenant ?? null],
+      undefined,
+      tenant ?? null,
     );
-    return rows.map((r) => r.id);
+    return rows.map((r) => unscopedName(r.id, tenant));
   }
 
   // ── Node operations ────────────────────────────────────────
 
   async getNode(namespaceId: string, path: string): Promise<VfsNode | null> {
-    const { rows } = await this.query<{
-      path: string;
-      node_type: "file" | "directory";
-      content: string | null;
-      created_at: Date;
-      updated_at: Date;
-    }>(
-      `SELECT path, node_type, content, created_at, updated_at
+    const { rows } = await this.query<NodeRow>(
+      `SELECT path, node_type, content, content_key, ${ETAG_SQL} AS etag, created_at, updated_at
        FROM vfs_nodes WHERE session_id = $1 AND path = $2`,
       [namespaceId, path],
       namespaceId,
     );
     if (rows.length === 0) return null;
-    const r = rows[0];
-    return {
-      path: r.path,
-      nodeType: r.node_type,
-      content: r.content,
-      createdAt: r.created_at,
-      updatedAt: r.updated_at,
-    };
+    return this.toNode(rows[0]);
+  }
+
+  async readRange(namespaceId: string, path: string, range: ReadRange): Promise<FileSlice | null> {
+    const { rows } = await this.query<{
+      node_type: "file" | "directory";
+      content_key: string | null;
+      etag: string | null;
+      total: number;
+      start: number;
+      content: string | Buffer | null;
+    }>(range.unit === "lines" ? LINE_SLICE_SQL : BYTE_SLICE_SQL, [namespaceId, path, range.start, range.count ?? null], namespaceId);
+    const row = rows[0];
+    if (!row || row.node_type !== "file") return null;
+    // Offloaded content isn't in the row; slice it once fetched
+    if (row.content_key && this.blobStore) {
+      return sliceContent(await this.blobStore.get(row.content_key), row.etag, range);
+    }
+    const content = Buffer.isBuffer(row.content) ? row.content.toString("utf8") : (row.content ?? "");
+    return { content, start: row.start, total: row.total, etag: row.etag };
   }
 
   async countChildren(namespaceId: string, dirPath: string): Promise<number> {
@@ -135,64 +670,245 @@ export class PostgresBackend implements StorageBackend {
     return parseInt(rows[0].count, 10);
   }
 
-  async listChildren(namespaceId: string, dirPath: string): Promise<VfsNode[]> {
+  async listChildren(namespaceId: string, dirPath: string, opts: ListChildrenOptions = {}): Promise<NodeInfo[]> {
     const prefix = dirPath === "/" ? "/" : dirPath + "/";
+    const order = opts.order ?? "name";
+    const sized = opts.details === true || order === "size";
+    // Offloaded files with no revision to give their size can only be measured
+    // in the object store, so with offloading on, size order is sorted here.
+    const inSql = !(order === "size" && this.blobStore);
+    const rank =
+      order === "mtime"
+        ? `floor(extract(epoch FROM n.updated_at) * 1000)`
+        : order === "size"
+          ? `COALESCE(${NODE_SIZE_SQL}, 0)`
+          : null;
+    const params: unknown[] = [namespaceId, prefix, dirPath];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    let after = "";
+    if (inSql && opts.after) {
+      after = `(n.node_type = 'file', n.path COLLATE "C") > (${param(opts.after.type === "file")}, ${param(prefix + opts.after.name)})`;
+      if (rank) {
+        const key = param(order === "mtime" ? opts.after.mtime : opts.after.size);
+        after = `${rank} < ${key} OR (${rank} = ${key} AND ${after})`;
+      }
+      after = `AND (${after})`;
+    }
 
-    const { rows } = await this.query<{
-      path: string;
-      node_type: "file" | "directory";
-      content: string | null;
-      created_at: Date;
-      updated_at: Date;
-    }>(
-      `SELECT path, node_type, content, created_at, updated_at
-       FROM vfs_nodes
-       WHERE session_id = $1
-         AND path LIKE $2 || '%'
-         AND path NOT LIKE $2 || '%/%'
-         AND path != $3`,
+    const { rows } = await this.query<InfoRow>(
+      `SELECT n.path, n.node_type, n.content_key,
+              ${sized ? NODE_SIZE_SQL : "NULL"} AS size, ${opts.details ? ETAG_SQL : "NULL"} AS etag,
+              n.created_at, n.updated_at
+       FROM vfs_nodes n
+       WHERE n.session_id = $1
+         AND n.path LIKE $2 || '%'
+         AND n.path NOT LIKE $2 || '%/%'
+         AND n.path != $3
+         ${after}
+       ${inSql ? `ORDER BY ${rank ? `${rank} DESC, ` : ""}n.node_type = 'file', n.path COLLATE "C"` : ""}
+       ${inSql && opts.limit !== undefined ? `LIMIT ${param(opts.limit)}` : ""}`,
+      params,
+      namespaceId,
+    );
+
+    const children = await mapConcurrent(rows, (r) => this.toNodeInfo(r, sized));
+    return inSql ? children : pageChildren(children, opts);
+  }
+
+  async listTree(namespaceId: string, dirPath: string): Promise<NodeInfo[]> {
+    const prefix = dirPath === "/" ? "/" : dirPath + "/";
+
+    const { rows } = await this.query<InfoRow>(
+      `SELECT n.path, n.node_type, n.content_key, ${NODE_SIZE_SQL} AS size, ${ETAG_SQL} AS etag,
+              n.created_at, n.updated_at
+       FROM vfs_nodes n
+       WHERE n.session_id = $1
+         AND n.path LIKE $2 || '%'
+         AND n.path != $3
+       ORDER BY n.path`,
       [namespaceId, prefix, dirPath],
       namespaceId,
     );
 
-    return rows.map((r) => ({
-      path: r.path,
-      nodeType: r.node_type,
-      content: r.content,
-      createdAt: r.created_at,
-      updatedAt: r.updated_at,
-    }));
+    return mapConcurrent(rows, (r) => this.toNodeInfo(r));
   }
 
   async upsertFile(
     namespaceId: string,
     path: string,
     content: string,
-  ): Promise<void> {
-    await this.query(
-      `INSERT INTO vfs_nodes (session_id, path, node_type, content)
-       VALUES ($1, $2, 'file', $3)
-       ON CONFLICT (session_id, path)
-       DO UPDATE SET content = EXCLUDED.content, updated_at = now()`,
-      [namespaceId, path, content],
+    opts: { ifMatch?: string; mode?: WriteMode } = {},
+  ): Promise<string> {
+    const mode = opts.mode ?? "upsert";
+    if (this.blobStore) {
+      return this.upsertOffloaded(namespaceId, path, content, opts.ifMatch, mode);
+    }
+    const { rowCount } = await this.guardedQuery(
       namespaceId,
+      path,
+      opts.ifMatch,
+      `WITH up AS (
+         ${writeFileSql(mode, "content")}
+       ), rev AS (
+         INSERT INTO vfs_revisions (session_id, path, op, content, size)
+         SELECT $1, path, 'write', content, length(content) FROM up
+         WHERE ${historyEnabled(4)}
+       )
+       SELECT path FROM up`,
+      [namespaceId, path, content, this.defaultRetention.maxVersions],
     );
+    if (rowCount === 0) throw writeModeError(path, mode);
+    await this.pruneRevisions(namespaceId, path);
+    const etag = contentEtag(content);
+    await this.embedWritten(namespaceId, path, { content, etag });
+    return etag;
   }
 
   async appendFile(
     namespaceId: string,
     path: string,
     content: string,
-  ): Promise<void> {
-    await this.query(
-      `INSERT INTO vfs_nodes (session_id, path, node_type, content)
-       VALUES ($1, $2, 'file', $3)
-       ON CONFLICT (session_id, path)
-       DO UPDATE SET content = COALESCE(vfs_nodes.content, '') || EXCLUDED.content,
-                     updated_at = now()`,
-      [namespaceId, path, content],
+    ifMatch?: string,
+  ): Promise<string> {
+    if (this.blobStore) {
+      return this.appendOffloaded(namespaceId, path, content, ifMatch);
+    }
+    const { rows } = await this.guardedQuery<{ etag: string }>(
       namespaceId,
+      path,
+      ifMatch,
+      `WITH up AS (
+         INSERT INTO vfs_nodes (session_id, path, node_type, content)
+         VALUES ($1, $2, 'file', $3)
+         ON CONFLICT (session_id, path)
+         DO UPDATE SET content = COALESCE(vfs_nodes.content, '') || EXCLUDED.content,
+                       updated_at = now()
+         RETURNING path, content
+       ), rev AS (
+         INSERT INTO vfs_revisions (session_id, path, op, content, size)
+         SELECT $1, path, 'append', content, length(content) FROM up
+         WHERE ${historyEnabled(4)}
+       )
+       SELECT md5(content) AS etag FROM up`,
+      [namespaceId, path, content, this.defaultRetention.maxVersions],
     );
+    await this.pruneRevisions(namespaceId, path);
+    await this.embedWritten(namespaceId, path);
+    return rows[0].etag;
+  }
+
+  /**
+   * Upload the new content under a fresh key, then point the row at it. The
+   * row is locked first so the key dropped afterwards is the one this write
+   * replaced, not one a concurrent writer put there in the meantime.
+   */
+  private async upsertOffloaded(
+    namespaceId: string,
+    path: string,
+    content: string,
+    ifMatch: string | undefined,
+    mode: WriteMode,
+  ): Promise<string> {
+    const blobStore = this.blobStore as BlobStore;
+    const key = this.newContentKey(namespaceId);
+    await blobStore.put(key, content);
+    try {
+      const oldKey = await this.transaction(namespaceId, async (client) => {
+        if (ifMatch !== undefined) await this.checkEtag(client, namespaceId, path, ifMatch);
+        if (mode === "upsert") {
+          // A new file needs a row to lock too, or a concurrent creator's key goes unseen
+          await client.query(
+            `INSERT INTO vfs_nodes (session_id, path, node_type, content)
+             VALUES ($1, $2, 'file', '')
+             ON CONFLICT (session_id, path) DO NOTHING`,
+            [namespaceId, path],
+          );
+        }
+        const { rows: old } = await client.query<{ content_key: string | null }>(
+          `SELECT content_key FROM vfs_nodes WHERE session_id = $1 AND path = $2 FOR UPDATE`,
+          [namespaceId, path],
+        );
+        // An update would see a file created since the lock was tried, and replace its key unseen
+        if (mode === "overwrite_only" && old.length === 0) throw writeModeError(path, mode);
+        const { rowCount } = await client.query(
+          `WITH up AS (
+             ${writeFileSql(mode, "content_key")}
+           ), rev AS (
+             INSERT INTO vfs_revisions (session_id, path, op, content_key, size)
+             SELECT $1, path, 'write', $3, $4 FROM up
+             WHERE ${historyEnabled(5)}
+           )
+           SELECT path FROM up`,
+          [namespaceId, path, key, content.length, this.defaultRetention.maxVersions],
+        );
+        if (rowCount === 0) throw writeModeError(path, mode);
+        return old[0]?.content_key ?? null;
+      });
+      await this.dropBlobs(namespaceId, [oldKey]);
+    } catch (e) {
+      await this.dropBlobs(namespaceId, [key]);
+      throw e;
+    }
+    await this.pruneRevisions(namespaceId, path);
+    const etag = contentEtag(key);
+    await this.embedWritten(namespaceId, path, { content, etag });
+    return etag;
+  }
+
+  /**
+   * Object storage has no append, so read-modify-write under a row lock.
+   * Concurrent appends to the same file serialize on FOR UPDATE instead of
+   * losing each other's data.
+   */
+  private async appendOffloaded(
+    namespaceId: string,
+    path: string,
+    content: string,
+    ifMatch: string | undefined,
+  ): Promise<string> {
+    const blobStore = this.blobStore as BlobStore;
+    const key = this.newContentKey(namespaceId);
+    let oldKey: string | null = null;
+    try {
+      await this.transaction(namespaceId, async (client) => {
+        if (ifMatch !== undefined) await this.checkEtag(client, namespaceId, path, ifMatch);
+        await client.query(
+          `INSERT INTO vfs_nodes (session_id, path, node_type, content)
+           VALUES ($1, $2, 'file', '')
+           ON CONFLICT (session_id, path) DO NOTHING`,
+          [namespaceId, path],
+        );
+        const { rows } = await client.query<{ content: string | null; content_key: string | null }>(
+          `SELECT content, content_key FROM vfs_nodes
+           WHERE session_id = $1 AND path = $2 FOR UPDATE`,
+          [namespaceId, path],
+        );
+        oldKey = rows[0].content_key;
+        const existing = oldKey ? await blobStore.get(oldKey) : (rows[0].content ?? "");
+        await blobStore.put(key, existing + content);
+        await client.query(
+          `UPDATE vfs_nodes SET content = NULL, content_key = $3, updated_at = now()
+           WHERE session_id = $1 AND path = $2`,
+          [namespaceId, path, key],
+        );
+        await client.query(
+          `INSERT INTO vfs_revisions (session_id, path, op, content_key, size)
+           SELECT $1, $2, 'append', $3, $4
+           WHERE ${historyEnabled(5)}`,
+          [namespaceId, path, key, existing.length + content.length, this.defaultRetention.maxVersions],
+        );
+      });
+    } catch (e) {
+      await this.dropBlobs(namespaceId, [key]);
+      throw e;
+    }
+    await this.dropBlobs(namespaceId, [oldKey]);
+    await this.pruneRevisions(namespaceId, path);
+    await this.embedWritten(namespaceId, path);
+    return contentEtag(key);
   }
 
   async insertDir(namespaceId: string, path: string): Promise<void> {
@@ -205,87 +921,928 @@ export class PostgresBackend implements StorageBackend {
     );
   }
 
-  async deleteNode(namespaceId: string, path: string): Promise<number> {
-    const { rowCount } = await this.query(
-      `DELETE FROM vfs_nodes
-       WHERE session_id = $1 AND (path = $2 OR path LIKE $3)`,
-      [namespaceId, path, path + "/%"],
+  async deleteNode(namespaceId: string, path: string, ifMatch?: string): Promise<number> {
+    const { rows } = await this.guardedQuery<{ content_key: string | null }>(
       namespaceId,
+      path,
+      ifMatch,
+      `WITH del AS (
+         DELETE FROM vfs_nodes
+         WHERE session_id = $1 AND (path = $2 OR path LIKE $3)
+         RETURNING path, node_type, content_key
+       ), rev AS (
+         INSERT INTO vfs_revisions (session_id, path, op)
+         SELECT $1, path, 'delete' FROM del
+         WHERE node_type = 'file' AND ${historyEnabled(4)}
+       )
+       SELECT content_key FROM del`,
+      [namespaceId, path, path + "/%", this.defaultRetention.maxVersions],
     );
-    return rowCount ?? 0;
+    await this.dropBlobs(namespaceId, rows.map((r) => r.content_key));
+    await this.pruneRevisions(namespaceId, path);
+    return rows.length;
   }
 
   async moveNode(
     namespaceId: string,
     sourcePath: string,
     destPath: string,
+    opts: { ifMatch?: string; overwrite?: boolean } = {},
   ): Promise<void> {
-    // Update the node itself and all descendants in a single UPDATE.
-    // For the source node: path becomes destPath.
-    // For descendants: replace the sourcePath prefix with destPath.
+    let replaced: (string | null)[] = [];
+    try {
+      await this.transaction(namespaceId, async (client) => {
+        if (opts.ifMatch !== undefined) await this.checkEtag(client, namespaceId, sourcePath, opts.ifMatch);
+        if (opts.overwrite) {
+          const { rows } = await client.query<{ content_key: string | null }>(
+            `DELETE FROM vfs_nodes
+             WHERE session_id = $1 AND path = $2 AND node_type = 'file'
+             RETURNING content_key`,
+            [namespaceId, destPath],
+          );
+          replaced = rows.map((r) => r.content_key);
+        }
+        // Update the node itself and all descendants in a single UPDATE.
+        // For the source node: path becomes destPath.
+        // For descendants: replace the sourcePath prefix with destPath.
+        // Moved files get a `delete` at their old path and a `move` at the new one.
+        // Any other node at destPath makes the UPDATE violate the primary key.
+        await client.query(
+          `WITH moved AS (
+             UPDATE vfs_nodes
+             SET path = $3 || substr(path, length($2) + 1),
+                 updated_at = now()
+             WHERE session_id = $1
+               AND (path = $2 OR path LIKE $2 || '/%')
+             RETURNING path, node_type, content, content_key
+           ), files AS (
+             SELECT path, $2 || substr(path, length($3) + 1) AS old_path, content, content_key
+             FROM moved
+             WHERE node_type = 'file' AND ${historyEnabled(4)}
+           )
+           INSERT INTO vfs_revisions (session_id, path, op, content, content_key, size)
+           SELECT $1, old_path, 'delete', NULL, NULL, NULL FROM files
+           UNION ALL
+           SELECT $1, path, 'move', content, content_key,
+                  COALESCE(length(content), (
+                    SELECT size FROM vfs_revisions
+                    WHERE session_id = $1 AND path = old_path
+                    ORDER BY id DESC LIMIT 1
+                  ))
+           FROM files`,
+          [namespaceId, sourcePath, destPath, this.defaultRetention.maxVersions],
+        );
+      });
+    } catch (e) {
+      throw isUniqueViolation(e) ? destinationExists(destPath) : e;
+    }
+    await this.dropBlobs(namespaceId, replaced);
+    await this.pruneRevisions(namespaceId, sourcePath);
+    await this.pruneRevisions(namespaceId, destPath);
+  }
+
+  async copyNode(
+    sourceNamespaceId: string,
+    sourcePath: string,
+    destNamespaceId: string,
+    destPath: string,
+    opts: { overwrite?: boolean; preserveTimestamps?: boolean } = {},
+  ): Promise<number> {
+    // RLS shows a session only its own rows and persistent stores, so a copy
+    // between a session and a store has to run scoped to the session
+    const scope =
+      sourceNamespaceId === destNamespaceId || (await this.isPersistent(sourceNamespaceId))
+        ? destNamespaceId
+        : sourceNamespaceId;
+
+    // Each copy gets its own object: dropBlobs only sees references within its RLS scope
+    const copies: { oldKey: string; newKey: string; size: number }[] = [];
+    if (this.blobStore) {
+      const blobStore = this.blobStore;
+      const { rows } = await this.query<{ content_key: string }>(
+        `SELECT content_key FROM vfs_nodes
+         WHERE session_id = $1 AND (path = $2 OR path LIKE $2 || '/%') AND content_key IS NOT NULL`,
+        [sourceNamespaceId, sourcePath],
+        scope,
+      );
+      copies.push(
+        ...(await mapConcurrent(rows, async ({ content_key }) => {
+          const content = await blobStore.get(content_key);
+          const newKey = this.newContentKey(destNamespaceId);
+          await blobStore.put(newKey, content);
+          return { oldKey: content_key, newKey, size: content.length };
+        })),
+      );
+    }
+
+    let replaced: (string | null)[] = [];
+    let copied: number;
+    try {
+      copied = await this.transaction(scope, async (client) => {
+        if (opts.overwrite) {
+          const { rows } = await client.query<{ content_key: string | null }>(
+            `DELETE FROM vfs_nodes
+             WHERE session_id = $1 AND path = $2 AND node_type = 'file'
+             RETURNING content_key`,
+            [destNamespaceId, destPath],
+          );
+          replaced = rows.map((r) => r.content_key);
+        }
+        // Same prefix rewrite as moveNode; any node already at destPath violates the unique key
+        const { rows } = await client.query<{ copied: number }>(
+          `WITH objects AS (
+             SELECT * FROM unnest($6::text[], $7::text[], $8::integer[]) AS o(old_key, new_key, size)
+           ), copied AS (
+             INSERT INTO vfs_nodes (session_id, path, node_type, content, content_key, created_at, updated_at)
+             SELECT $1, $2 || substr(n.path, length($4) + 1), n.node_type, n.content,
+                    COALESCE(o.new_key, n.content_key),
+                    CASE WHEN $5 THEN n.created_at ELSE now() END,
+                    CASE WHEN $5 THEN n.updated_at ELSE now() END
+             FROM vfs_nodes n
+             LEFT JOIN objects o ON o.old_key = n.content_key
+             WHERE n.session_id = $3 AND (n.path = $4 OR n.path LIKE $4 || '/%')
+             RETURNING path, node_type, content, content_key
+           ), revisions AS (
+             INSERT INTO vfs_revisions (session_id, path, op, content, content_key, size)
+             SELECT $1, c.path, 'write', c.content, c.content_key, COALESCE(length(c.content), o.size)
+             FROM copied c
+             LEFT JOIN objects o ON o.new_key = c.content_key
+             WHERE c.node_type = 'file' AND ${historyEnabled(9)}
+           )
+           SELECT count(*)::integer AS copied FROM copied`,
+          [
+            destNamespaceId,
+            destPath,
+            sourceNamespaceId,
+            sourcePath,
+            opts.preserveTimestamps ?? false,
+            copies.map((c) => c.oldKey),
+            copies.map((c) => c.newKey),
+            copies.map((c) => c.size),
+            this.defaultRetention.maxVersions,
+          ],
+        );
+        return rows[0].copied;
+      });
+    } catch (e) {
+      await this.dropBlobs(destNamespaceId, copies.map((c) => c.newKey));
+      throw isUniqueViolation(e) ? destinationExists(destPath) : e;
+    }
+    await this.dropBlobs(destNamespaceId, replaced);
+    await this.pruneRevisions(destNamespaceId, destPath);
+    return copied;
+  }
+
+  /** Whether a namespace is a persistent store rather than a session. */
+  private async isPersistent(namespaceId: string): Promise<boolean> {
+    const { rows } = await this.query<{ is_persistent: boolean }>(
+      `SELECT is_persistent FROM vfs_sessions WHERE id = $1`,
+      [namespaceId],
+      namespaceId,
+    );
+    return rows[0]?.is_persistent ?? false;
+  }
+
+  // ── History ────────────────────────────────────────────────
+
+  /**
+   * Apply the namespace's retention to the history of `path` and everything
+   * beneath it (or the whole namespace), collapsing runs of appends into their
+   * newest revision, then drop blobs only pruned revisions held.
+   */
+  private async pruneRevisions(namespaceId: string, path: string | null): Promise<void> {
+    const { rows } = await this.query<{ content_key: string | null }>(
+      `WITH settings AS (
+         SELECT COALESCE(history_max_versions, $3) AS max_versions,
+                CASE WHEN history_max_versions IS NULL THEN $4::integer
+                     ELSE history_max_age_days END AS max_age_days
+         FROM vfs_sessions WHERE id = $1
+       ), ordered AS (
+         -- An append followed by another append is superseded by it
+         SELECT id, path, created_at,
+                COALESCE(op = 'append' AND lag(op) OVER (PARTITION BY path ORDER BY id DESC) = 'append', false)
+                  AS superseded
+         FROM vfs_revisions
+         WHERE session_id = $1
+           AND ($2::text IS NULL OR path = $2 OR path LIKE $2 || '/%')
+       ), ranked AS (
+         SELECT id, created_at, superseded,
+                row_number() OVER (PARTITION BY path, superseded ORDER BY id DESC) AS rn
+         FROM ordered
+       )
+       DELETE FROM vfs_revisions r
+       USING ranked, settings
+       WHERE r.id = ranked.id
+         AND (ranked.superseded
+              OR ranked.rn > settings.max_versions
+              OR ranked.created_at < now() - make_interval(days => settings.max_age_days))
+       RETURNING r.content_key`,
+      [namespaceId, path, this.defaultRetention.maxVersions, this.defaultRetention.maxAgeDays],
+      namespaceId,
+    );
+    await this.dropBlobs(namespaceId, rows.map((r) => r.content_key));
+  }
+
+  async listRevisions(namespaceId: string, path: string): Promise<FileRevision[]> {
+    const { rows } = await this.query<RevisionRow>(
+      `SELECT id, op, size, created_at FROM vfs_revisions
+       WHERE session_id = $1 AND path = $2
+       ORDER BY id DESC`,
+      [namespaceId, path],
+      namespaceId,
+    );
+    return rows.map(toRevision);
+  }
+
+  async getRevision(
+    namespaceId: string,
+    path: string,
+    version: number,
+  ): Promise<{ revision: FileRevision; content: string | null } | null> {
+    const { rows } = await this.query<
+      RevisionRow & { content: string | null; content_key: string | null }
+    >(
+      `SELECT id, op, size, created_at, content, content_key FROM vfs_revisions
+       WHERE session_id = $1 AND path = $2 AND id = $3`,
+      [namespaceId, path, version],
+      namespaceId,
+    );
+    if (rows.length === 0) return null;
+    const r = rows[0];
+    const content = r.content_key && this.blobStore ? await this.blobStore.get(r.content_key) : r.content;
+    return { revision: toRevision(r), content };
+  }
+
+  async getHistoryRetention(namespaceId: string): Promise<HistoryRetention> {
+    const { rows } = await this.query<{
+      history_max_versions: number | null;
+      history_max_age_days: number | null;
+    }>(
+      `SELECT history_max_versions, history_max_age_days FROM vfs_sessions WHERE id = $1`,
+      [namespaceId],
+      namespaceId,
+    );
+    const row = rows.at(0);
+    if (!row || row.history_max_versions === null) return { ...this.defaultRetention };
+    return { maxVersions: row.history_max_versions, maxAgeDays: row.history_max_age_days };
+  }
+
+  async setHistoryRetention(namespaceId: string, retention: HistoryRetention): Promise<void> {
     await this.query(
-      `UPDATE vfs_nodes
-       SET path = $3 || substr(path, length($2) + 1),
-           updated_at = now()
-       WHERE session_id = $1
-         AND (path = $2 OR path LIKE $2 || '/%')`,
-      [namespaceId, sourcePath, destPath],
+      `UPDATE vfs_sessions SET history_max_versions = $2, history_max_age_days = $3 WHERE id = $1`,
+      [namespaceId, retention.maxVersions, retention.maxAgeDays],
       namespaceId,
     );
+    await this.pruneRevisions(namespaceId, null);
   }
 
-  // ── Search ─────────────────────────────────────────────────
+  // ── Snapshots ──────────────────────────────────────────────
 
-  async allFilePaths(namespaceId: string): Promise<string[]> {
-    const { rows } = await this.query<{ path: string }>(
-      `SELECT path FROM vfs_nodes
-       WHERE session_id = $1 AND node_type = 'file'
+  private async snapshotRow(
+    namespaceId: string,
+    name: string,
+    client?: pg.PoolClient,
+  ): Promise<SnapshotRow & { id: string }> {
+    const sql = `SELECT s.id, s.name, s.created_at,
+                        (SELECT COUNT(*) FROM vfs_snapshot_nodes n
+                         WHERE n.snapshot_id = s.id AND n.node_type = 'file') AS files
+                 FROM vfs_snapshots s WHERE s.session_id = $1 AND s.name = $2`;
+    const { rows } = client
+      ? await client.query<SnapshotRow & { id: string }>(sql, [namespaceId, name])
+      : await this.query<SnapshotRow & { id: string }>(sql, [namespaceId, name], namespaceId);
+    if (rows.length === 0) {
+      throw new VfsError("ENOENT", `No such snapshot: ${name}`);
+    }
+    return rows[0];
+  }
+
+  /**
+   * Copy every node row into the snapshot. Offloaded files copy only their
+   * object key, so the snapshot shares the object instead of duplicating it.
+   */
+  async createSnapshot(namespaceId: string, name: string): Promise<SnapshotInfo> {
+    return this.transaction(namespaceId, async (client) => {
+      const { rows } = await client.query<{ id: string; created_at: Date }>(
+        `INSERT INTO vfs_snapshots (session_id, name) VALUES ($1, $2)
+         ON CONFLICT (session_id, name) DO NOTHING
+         RETURNING id, created_at`,
+        [namespaceId, name],
+      );
+      if (rows.length === 0) {
+        throw new VfsError("EEXIST", `Snapshot already exists: ${name}`);
+      }
+      const { rows: counted } = await client.query<{ files: string }>(
+        `WITH copied AS (
+           INSERT INTO vfs_snapshot_nodes
+             (snapshot_id, session_id, path, node_type, content, content_key, created_at, updated_at)
+           SELECT $2, session_id, path, node_type, content, content_key, created_at, updated_at
+           FROM vfs_nodes WHERE session_id = $1
+           RETURNING node_type
+         )
+         SELECT COUNT(*) FILTER (WHERE node_type = 'file') AS files FROM copied`,
+        [namespaceId, rows[0].id],
+      );
+      return toSnapshot({ name, created_at: rows[0].created_at, files: counted[0].files });
+    });
+  }
+
+  async listSnapshots(namespaceId: string): Promise<SnapshotInfo[]> {
+    const { rows } = await this.query<SnapshotRow>(
+      `SELECT s.name, s.created_at,
+              (SELECT COUNT(*) FROM vfs_snapshot_nodes n
+               WHERE n.snapshot_id = s.id AND n.node_type = 'file') AS files
+       FROM vfs_snapshots s WHERE s.session_id = $1
+       ORDER BY s.id`,
+      [namespaceId],
+      namespaceId,
+    );
+    return rows.map(toSnapshot);
+  }
+
+  async rollbackSnapshot(namespaceId: string, name: string): Promise<SnapshotInfo> {
+    const { snapshot, oldKeys } = await this.transaction(namespaceId, async (client) => {
+      const snapshot = await this.snapshotRow(namespaceId, name, client);
+      const { rows } = await client.query<{ content_key: string | null }>(
+        `DELETE FROM vfs_nodes WHERE session_id = $1 RETURNING content_key`,
+        [namespaceId],
+      );
+      await client.query(
+        `INSERT INTO vfs_nodes (session_id, path, node_type, content, content_key, created_at, updated_at)
+         SELECT session_id, path, node_type, content, content_key, created_at, updated_at
+         FROM vfs_snapshot_nodes WHERE snapshot_id = $1`,
+        [snapshot.id],
+      );
+      return { snapshot, oldKeys: rows.map((r) => r.content_key) };
+    });
+    await this.dropBlobs(namespaceId, oldKeys);
+    return toSnapshot(snapshot);
+  }
+
+  /**
+   * Offloaded files are compared by object key: rewriting identical content
+   * under a new key still counts as a modification.
+   */
+  async diffSnapshots(namespaceId: string, from: string, to: string | null): Promise<SnapshotChange[]> {
+    const before = await this.snapshotRow(namespaceId, from);
+    const after = to === null ? null : await this.snapshotRow(namespaceId, to);
+    const { rows } = await this.query<{
+      path: string;
+      change: SnapshotChange["change"];
+      node_type: SnapshotChange["nodeType"];
+    }>(
+      `WITH a AS (
+         SELECT path, node_type, content, content_key FROM vfs_snapshot_nodes WHERE snapshot_id = $2
+       ), b AS (
+         SELECT path, node_type, content, content_key FROM vfs_snapshot_nodes
+         WHERE $3::bigint IS NOT NULL AND snapshot_id = $3
+         UNION ALL
+         SELECT path, node_type, content, content_key FROM vfs_nodes
+         WHERE $3::bigint IS NULL AND session_id = $1
+       )
+       SELECT COALESCE(b.path, a.path) AS path,
+              CASE WHEN a.path IS NULL THEN 'added'
+                   WHEN b.path IS NULL THEN 'removed'
+                   ELSE 'modified' END AS change,
+              COALESCE(b.node_type, a.node_type) AS node_type
+       FROM a FULL JOIN b ON a.path = b.path
+       WHERE a.path IS NULL OR b.path IS NULL
+          OR a.node_type <> b.node_type
+          OR a.content IS DISTINCT FROM b.content
+          OR a.content_key IS DISTINCT FROM b.content_key
+       ORDER BY 1`,
+      [namespaceId, before.id, after?.id ?? null],
+      namespaceId,
+    );
+    return rows.map((r) => ({ path: r.path, change: r.change, nodeType: r.node_type }));
+  }
+
+  // ── Trash ──────────────────────────────────────────────────
+
+  async trashNode(namespaceId: string, path: string, ifMatch?: string): Promise<number> {
+    const moved = await this.transaction(namespaceId, async (client) => {
+      if (ifMatch !== undefined) await this.checkEtag(client, namespaceId, path, ifMatch);
+      const { rows } = await client.query<{ id: string }>(
+        `INSERT INTO vfs_trash (session_id, path, node_type)
+         SELECT session_id, path, node_type FROM vfs_nodes WHERE session_id = $1 AND path = $2
+         RETURNING id`,
+        [namespaceId, path],
+      );
+      if (rows.length === 0) {
+        throw new VfsError("ENOENT", `No such file or directory: ${path}`);
+      }
+      // Offloaded objects move with their rows, so nothing is dropped here
+      const { rowCount } = await client.query(
+        `WITH del AS (
+           DELETE FROM vfs_nodes
+           WHERE session_id = $1 AND (path = $2 OR path LIKE $3)
+           RETURNING session_id, path, node_type, content, content_key, created_at, updated_at
+         ), rev AS (
+           INSERT INTO vfs_revisions (session_id, path, op)
+           SELECT $1, path, 'delete' FROM del
+           WHERE node_type = 'file' AND ${historyEnabled(5)}
+         )
+         INSERT INTO vfs_trash_nodes
+           (trash_id, session_id, path, node_type, content, content_key, created_at, updated_at)
+         SELECT $4, session_id, path, node_type, content, content_key, created_at, updated_at FROM del`,
+        [namespaceId, path, path + "/%", rows[0].id, this.defaultRetention.maxVersions],
+      );
+      return rowCount ?? 0;
+    });
+    await this.pruneRevisions(namespaceId, path);
+    return moved;
+  }
+
+  async listTrash(namespaceId: string): Promise<TrashEntry[]> {
+    const { rows } = await this.query<TrashRow>(
+      `${TRASH_SELECT} WHERE t.session_id = $1 ORDER BY t.id DESC`,
+      [namespaceId],
+      namespaceId,
+    );
+    return rows.map(toTrashEntry);
+  }
+
+  async restoreTrash(namespaceId: string, id: number, destPath: string): Promise<TrashEntry> {
+    const entry = await this.transaction(namespaceId, async (client) => {
+      const { rows } = await client.query<TrashRow>(
+        `${TRASH_SELECT} WHERE t.session_id = $1 AND t.id = $2 FOR UPDATE OF t`,
+        [namespaceId, id],
+      );
+      if (rows.length === 0) {
+        throw new VfsError("ENOENT", `No such trash entry: ${id}`);
+      }
+      // Offloaded files take their size from the last revision that recorded the same object
+      await client.query(
+        `WITH restored AS (
+           INSERT INTO vfs_nodes (session_id, path, node_type, content, content_key, created_at, updated_at)
+           SELECT session_id, $3 || substr(path, length($4) + 1), node_type, content, content_key,
+                  created_at, now()
+           FROM vfs_trash_nodes WHERE trash_id = $2
+           RETURNING path, node_type, content, content_key
+         )
+         INSERT INTO vfs_revisions (session_id, path, op, content, content_key, size)
+         SELECT $1, path, 'write', content, content_key,
+                COALESCE(length(content), (
+                  SELECT size FROM vfs_revisions r
+                  WHERE r.session_id = $1 AND r.content_key = restored.content_key
+                  ORDER BY id DESC LIMIT 1
+                ))
+         FROM restored
+         WHERE node_type = 'file' AND ${historyEnabled(5)}`,
+        [namespaceId, id, destPath, rows[0].path, this.defaultRetention.maxVersions],
+      );
+      await client.query(`DELETE FROM vfs_trash WHERE id = $1`, [id]);
+      return toTrashEntry(rows[0]);
+    });
+    await this.pruneRevisions(namespaceId, destPath);
+    return entry;
+  }
+
+  async purgeTrash(namespaceId: string, filter: { id?: number; maxAgeDays?: number }): Promise<number> {
+    const { rows } = await this.query<{ purged: string; keys: string[] }>(
+      `WITH gone AS (
+         DELETE FROM vfs_trash
+         WHERE session_id = $1
+           AND ($2::bigint IS NULL OR id = $2)
+           AND ($3::integer IS NULL OR deleted_at < now() - make_interval(days => $3))
+         RETURNING id
+       )
+       SELECT (SELECT COUNT(*) FROM gone) AS purged,
+              ARRAY(SELECT content_key FROM vfs_trash_nodes
+                    WHERE trash_id IN (SELECT id FROM gone) AND content_key IS NOT NULL) AS keys`,
+      [namespaceId, filter.id ?? null, filter.maxAgeDays ?? null],
+      namespaceId,
+    );
+    await this.dropBlobs(namespaceId, rows[0].keys);
+    return parseInt(rows[0].purged, 10);
+  }
+
+  // ── Locks ──────────────────────────────────────────────────
+
+  async acquireLock(
+    namespaceId: string,
+    path: string,
+    owner: string,
+    ttlSeconds: number,
+    mandatory: boolean,
+  ): Promise<FileLock> {
+    // An expired lock is taken over as if it were absent; a renewal keeps created_at
+    const { rows } = await this.query<LockRow>(
+      `INSERT INTO vfs_locks (session_id, path, owner, mandatory, expires_at)
+       VALUES ($1, $2, $3, $4, now() + make_interval(secs => $5))
+       ON CONFLICT (session_id, path) DO UPDATE
+         SET owner = EXCLUDED.owner, mandatory = EXCLUDED.mandatory, expires_at = EXCLUDED.expires_at,
+             created_at = CASE WHEN vfs_locks.expires_at > now() THEN vfs_locks.created_at ELSE now() END
+         WHERE vfs_locks.owner = EXCLUDED.owner OR vfs_locks.expires_at <= now()
+       RETURNING ${LOCK_COLUMNS}`,
+      [namespaceId, path, owner, mandatory, ttlSeconds],
+      namespaceId,
+    );
+    if (rows.length > 0) return toLock(rows[0]);
+
+    const held = await this.query<LockRow>(
+      `SELECT ${LOCK_COLUMNS} FROM vfs_locks WHERE session_id = $1 AND path = $2`,
+      [namespaceId, path],
+      namespaceId,
+    );
+    throw lockedError(path, toLock(held.rows[0]));
+  }
+
+  async releaseLock(namespaceId: string, path: string, owner: string): Promise<void> {
+    await this.transaction(namespaceId, async (client) => {
+      const { rows } = await client.query<LockRow>(
+        `SELECT ${LOCK_COLUMNS} FROM vfs_locks
+         WHERE session_id = $1 AND path = $2 AND expires_at > now()
+         FOR UPDATE`,
+        [namespaceId, path],
+      );
+      if (rows.length === 0) {
+        throw new VfsError("ENOENT", `Not locked: ${path}`);
+      }
+      if (rows[0].owner !== owner) {
+        throw lockedError(path, toLock(rows[0]));
+      }
+      await client.query(`DELETE FROM vfs_locks WHERE session_id = $1 AND path = $2`, [namespaceId, path]);
+    });
+  }
+
+  async listLocks(namespaceId: string): Promise<FileLock[]> {
+    const { rows } = await this.query<LockRow>(
+      `SELECT ${LOCK_COLUMNS} FROM vfs_locks
+       WHERE session_id = $1 AND expires_at > now()
        ORDER BY path`,
       [namespaceId],
       namespaceId,
     );
+    return rows.map(toLock);
+  }
+
+  async blockingLock(namespaceId: string, path: string, owner: string): Promise<FileLock | null> {
+    const { rows } = await this.query<LockRow>(
+      `SELECT ${LOCK_COLUMNS} FROM vfs_locks
+       WHERE session_id = $1 AND mandatory AND owner <> $3 AND expires_at > now()
+         AND (path = $2 OR starts_with($2, path || '/') OR starts_with(path, $4))
+       ORDER BY path LIMIT 1`,
+      [namespaceId, path, owner, descendantPrefix(path)],
+      namespaceId,
+    );
+    return rows.length > 0 ? toLock(rows[0]) : null;
+  }
+
+  // ── Search ─────────────────────────────────────────────────
+
+  async findPaths(namespaceId: string, query: PathQuery): Promise<string[]> {
+    const prefix = query.dirPath === "/" ? "/" : query.dirPath + "/";
+    // Prefix and cursor are ranges over the (session_id, path) key; the regex
+    // only runs on the rows inside them
+    let sql = `
+      SELECT path FROM vfs_nodes
+      WHERE session_id = $1
+        AND path LIKE $2 || '%'
+        AND path != $3`;
+    const params: unknown[] = [namespaceId, prefix, query.dirPath];
+
+    if (query.regex !== undefined) {
+      params.push(query.regex);
+      sql += ` AND path ~ $${params.length}`;
+    }
+    if (query.nodeType) {
+      params.push(query.nodeType);
+      sql += ` AND node_type = $${params.length}`;
+    }
+    if (query.after !== undefined) {
+      params.push(query.after);
+      sql += ` AND path > $${params.length}`;
+    }
+    sql += ` ORDER BY path`;
+    if (query.limit !== undefined) {
+      params.push(query.limit);
+      sql += ` LIMIT $${params.length}`;
+    }
+
+    const { rows } = await this.query<{ path: string }>(sql, params, namespaceId);
     return rows.map((r) => r.path);
   }
 
   async grepContent(
     namespaceId: string,
     pattern: string,
-    pathFilter?: string,
+    paths?: string[],
+    opts: GrepOptions = {},
   ): Promise<GrepMatch[]> {
     // Line-level matching is done entirely in PostgreSQL to avoid
     // ReDoS risk from JS RegExp on user-supplied patterns.
+    const op = opts.ignoreCase ? "~*" : "~";
+    const params: unknown[] = [namespaceId, pattern, opts.before ?? 0, opts.after ?? 0, opts.limit ?? null];
+    const { rows } = await this.query<{
+      path: string;
+      line_number: number;
+      line: string;
+      before: string[];
+      after: string[];
+    }>(
+      `WITH matched_files AS (
+         SELECT path, regexp_split_to_array(content, E'\\n') AS lines
+         FROM vfs_nodes
+         WHERE ${grepFilterSql(op, paths, params)}
+       )
+       SELECT f.path, t.n::integer AS line_number, t.line,
+              f.lines[greatest(t.n::integer - $3::integer, 1):t.n::integer - 1] AS before,
+              f.lines[t.n::integer + 1:t.n::integer + $4::integer] AS after
+       FROM matched_files f, unnest(f.lines) WITH ORDINALITY AS t(line, n)
+       WHERE t.line ${op} $2
+       ORDER BY f.path, t.n
+       LIMIT $5`,
+      params,
+      namespaceId,
+    );
+
+    const matches: GrepMatch[] = rows.map((r) => ({
+      path: r.path,
+      lineNumber: r.line_number,
+      line: r.line,
+      ...(opts.before && { before: r.before }),
+      ...(opts.after && { after: r.after }),
+    }));
+
+    if (!this.blobStore) return matches;
+
+    // Offloaded files can't be matched in SQL: fetch them and match in-process
+    const offloaded = grepFiles(pattern, await this.offloadedFiles(namespaceId, paths), opts);
+    if (offloaded.length === 0) return matches;
+    return [...matches, ...offloaded]
+      .sort((a, b) => (a.path === b.path ? a.lineNumber - b.lineNumber : a.path < b.path ? -1 : 1))
+      .slice(0, opts.limit);
+  }
+
+  async grepCount(
+    namespaceId: string,
+    pattern: string,
+    paths?: string[],
+    opts: GrepOptions = {},
+  ): Promise<GrepCount[]> {
+    const op = opts.ignoreCase ? "~*" : "~";
+    const params: unknown[] = [namespaceId, pattern, opts.limit ?? null];
+    const { rows } = await this.query<GrepCount>(
+      `WITH matched_files AS (
+         SELECT path, content FROM vfs_nodes
+         WHERE ${grepFilterSql(op, paths, params)}
+       )
+       SELECT f.path, count(*)::integer AS count
+       FROM matched_files f, regexp_split_to_table(f.content, E'\\n') AS t(line)
+       WHERE t.line ${op} $2
+       GROUP BY f.path
+       ORDER BY f.path
+       LIMIT $3`,
+      params,
+      namespaceId,
+    );
+
+    if (!this.blobStore) return rows;
+
+    const files = await this.offloadedFiles(namespaceId, paths);
+    const offloaded = countMatches(grepFiles(pattern, files, { ignoreCase: opts.ignoreCase }));
+    if (offloaded.length === 0) return rows;
+    return [...rows, ...offloaded].sort((a, b) => (a.path < b.path ? -1 : 1)).slice(0, opts.limit);
+  }
+
+  /** Offloaded files, among `paths` if given, with their contents. */
+  private async offloadedFiles(
+    namespaceId: string,
+    paths?: string[],
+  ): Promise<{ path: string; content: string }[]> {
+    const blobStore = this.blobStore as BlobStore;
     let query = `
-      WITH matched_files AS (
-        SELECT path, content FROM vfs_nodes
-        WHERE session_id = $1
-          AND node_type = 'file'
-          AND content IS NOT NULL
-          AND content ~ $2`;
-    const params: unknown[] = [namespaceId, pattern];
+      SELECT path, content_key FROM vfs_nodes
+      WHERE session_id = $1
+        AND node_type = 'file'
+        AND content_key IS NOT NULL`;
+    const params: unknown[] = [namespaceId];
 
-    if (pathFilter) {
-      query += ` AND path LIKE $3`;
-      params.push(pathFilter);
+    if (paths) {
+      query += ` AND path = ANY($2::text[])`;
+      params.push(paths);
     }
 
-    query += `
-      )
-      SELECT f.path, t.ordinality::integer AS line_number, t.line
-      FROM matched_files f,
-           regexp_split_to_table(f.content, E'\\n') WITH ORDINALITY AS t(line, ordinality)
-      WHERE t.line ~ $2
-      ORDER BY f.path, t.ordinality`;
+    query += ` ORDER BY path`;
 
-    const { rows } = await this.query<{ path: string; line_number: number; line: string }>(
+    const { rows } = await this.query<{ path: string; content_key: string }>(
       query,
       params,
       namespaceId,
     );
 
-    return rows.map((r) => ({
+    return mapConcurrent(rows, async (r) => ({
       path: r.path,
-      lineNumber: r.line_number,
-      line: r.line,
+      content: await blobStore.get(r.content_key),
     }));
   }
+
+  // ── Full-text search ───────────────────────────────────────
+
+  async searchText(namespaceId: string, query: string, opts: TextSearchOptions): Promise<TextSearchResult> {
+    const language = opts.language ?? SEARCH_LANGUAGE;
+    // The indexed column only serves its own language; others parse contents per query
+    const vector =
+      language === SEARCH_LANGUAGE
+        ? `n.search_vector`
+        : `to_tsvector($2::regconfig, left(COALESCE(n.content, ''), ${SEARCH_INDEXED_CHARS}))`;
+    const params: unknown[] = [namespaceId, language, query, opts.limit ?? null];
+    let filter = "";
+    if (opts.paths) {
+      params.push(opts.paths);
+      filter = ` AND n.path = ANY($${params.length}::text[])`;
+    }
+
+    try {
+      // Snippets are only worked out for the files that make the cut
+      const { rows } = await this.query<TextSearchHit>(
+        `WITH q AS (SELECT websearch_to_tsquery($2::regconfig, $3) AS query),
+         hits AS (
+           SELECT n.path, n.content, ts_rank_cd(${vector}, q.query, 1) AS rank
+           FROM vfs_nodes n, q
+           WHERE n.session_id = $1 AND n.node_type = 'file' AND ${vector} @@ q.query${filter}
+           ORDER BY rank DESC, n.path
+           LIMIT $4
+         )
+         SELECT h.path, h.rank,
+                ts_headline($2::regconfig, left(h.content, ${SEARCH_INDEXED_CHARS}), q.query, '${SNIPPET_OPTIONS}') AS snippet
+         FROM hits h, q
+         ORDER BY h.rank DESC, h.path`,
+        params,
+        namespaceId,
+      );
+      // Offloaded contents aren't in the row, so nothing indexes them
+      const { rows: skipped } = await this.query<{ count: number }>(
+        `SELECT count(*)::integer AS count FROM vfs_nodes
+         WHERE session_id = $1 AND node_type = 'file' AND content IS NULL AND content_key IS NOT NULL
+           AND ($2::text[] IS NULL OR path = ANY($2::text[]))`,
+        [namespaceId, opts.paths ?? null],
+        namespaceId,
+      );
+      return { hits: rows, skippedOffloaded: skipped[0].count };
+    } catch (e) {
+      // undefined_object: no text search configuration by that name
+      if ((e as { code?: string }).code === "42704") {
+        throw new VfsError("EINVAL", `Unknown search language: ${language}`);
+      }
+      throw e;
+    }
+  }
+
+  // ── Semantic search ────────────────────────────────────────
+
+  async searchEmbeddings(
+    namespaceId: string,
+    query: string,
+    opts: { paths?: string[]; limit: number },
+  ): Promise<SemanticMatch[]> {
+    if (!this.embeddings) {
+      throw new VfsError("ENOTSUP", "Semantic search needs an embedding provider (set VFS_EMBEDDINGS)");
+    }
+    await this.embedStale(namespaceId, opts.paths);
+    const [vector] = await this.embeddings.embed([query]);
+    // A query with no features is equally far from everything
+    if (vector.every((v) => v === 0)) return [];
+
+    const params: unknown[] = [namespaceId, this.embeddings.model];
+    let filter = "";
+    if (opts.paths) {
+      params.push(opts.paths);
+      filter = ` AND n.path = ANY($${params.length}::text[])`;
+    }
+
+    if (await this.hasVectorColumn()) {
+      params.push(JSON.stringify(vector), opts.limit);
+      const q = `$${params.length - 1}::vector`;
+      const { rows } = await this.query<{ path: string; score: number; start_line: number; end_line: number }>(
+        `SELECT n.path, 1 - (e.vec <=> ${q}) AS score, e.start_line, e.end_line
+         FROM vfs_embeddings e JOIN vfs_nodes n ON n.id = e.node_id
+         WHERE e.session_id = $1 AND e.model = $2 AND e.vec IS NOT NULL${filter}
+         ORDER BY e.vec <=> ${q}, n.path, e.chunk
+         LIMIT $${params.length}`,
+        params,
+        namespaceId,
+      );
+      return rows.map((r) => ({ path: r.path, score: r.score, startLine: r.start_line, endLine: r.end_line }));
+    }
+
+    const { rows } = await this.query<{ path: string; start_line: number; end_line: number; embedding: number[] }>(
+      `SELECT n.path, e.start_line, e.end_line, e.embedding
+       FROM vfs_embeddings e JOIN vfs_nodes n ON n.id = e.node_id
+       WHERE e.session_id = $1 AND e.model = $2 AND cardinality(e.embedding) > 0${filter}`,
+      params,
+      namespaceId,
+    );
+    return rows
+      .map((r) => ({
+        path: r.path,
+        score: cosineSimilarity(vector, r.embedding),
+        startLine: r.start_line,
+        endLine: r.end_line,
+      }))
+      .sort((a, b) =>
+        b.score !== a.score ? b.score - a.score : a.path === b.path ? a.startLine - b.startLine : a.path < b.path ? -1 : 1,
+      )
+      .slice(0, opts.limit);
+  }
+
+  private hasVectorColumn(): Promise<boolean> {
+    this.vectorColumn ??= this.pool
+      .query(
+        `SELECT 1 FROM pg_attribute
+         WHERE attrelid = to_regclass('vfs_embeddings') AND attname = 'vec' AND NOT attisdropped`,
+      )
+      .then((r) => (r.rowCount ?? 0) > 0);
+    return this.vectorColumn;
+  }
+
+  /**
+   * Bring a just-written file's embeddings up to date, from `written` if the
+   * caller has the whole content. A failure doesn't fail the write: the chunks
+   * stay stale and the next search embeds them again.
+   */
+  private async embedWritten(
+    namespaceId: string,
+    path: string,
+    written?: { content: string; etag: string },
+  ): Promise<void> {
+    if (!this.embeddings) return;
+    try {
+      if (written) {
+        await this.embedFile(namespaceId, path, written.content, written.etag);
+      } else {
+        await this.embedStale(namespaceId, [path]);
+      }
+    } catch (e) {
+      console.error(`[vfs] Failed to embed ${path}:`, e);
+    }
+  }
+
+  /**
+   * Embed files (among `paths` if given) that have no chunks from the current
+   * model for their current content, e.g. ones copied, restored or written
+   * before embeddings were set up.
+   */
+  private async embedStale(namespaceId: string, paths?: string[]): Promise<void> {
+    const embeddings = this.embeddings as EmbeddingProvider;
+    const params: unknown[] = [namespaceId, embeddings.model];
+    let filter = "";
+    if (paths) {
+      params.push(paths);
+      filter = ` AND n.path = ANY($${params.length}::text[])`;
+    }
+    const { rows } = await this.query<{ path: string; content: string | null; content_key: string | null; etag: string }>(
+      `SELECT n.path, n.content, n.content_key, COALESCE(md5(n.content), md5(n.content_key)) AS etag
+       FROM vfs_nodes n
+       WHERE n.session_id = $1 AND n.node_type = 'file'${filter}
+         AND NOT EXISTS (
+           SELECT 1 FROM vfs_embeddings e
+           WHERE e.node_id = n.id AND e.model = $2
+             AND e.etag = COALESCE(md5(n.content), md5(n.content_key))
+         )
+       ORDER BY n.path`,
+      params,
+      namespaceId,
+    );
+    for (const r of rows) {
+      const content = r.content_key && this.blobStore ? await this.blobStore.get(r.content_key) : (r.content ?? "");
+      await this.embedFile(namespaceId, r.path, content, r.etag);
+    }
+  }
+
+  /**
+   * Replace a file's chunks with ones embedded from `content`, recorded under
+   * its `etag`. A file with nothing to embed keeps one empty row so it doesn't
+   * read as stale.
+   */
+  private async embedFile(namespaceId: string, path: string, content: string, etag: string): Promise<void> {
+    const embeddings = this.embeddings as EmbeddingProvider;
+    const chunks = chunkText(content);
+    const vectors = chunks.length > 0 ? await embeddings.embed(chunks.map((c) => c.text)) : [];
+    const rows =
+      chunks.length > 0
+        ? chunks.map((c, i) => ({ startLine: c.startLine, endLine: c.endLine, embedding: vectors[i] }))
+        : [{ startLine: 0, endLine: 0, embedding: [] }];
+    const withVector = await this.hasVectorColumn();
+
+    await this.transaction(namespaceId, async (client) => {
+      // The row lock keeps concurrent writers of one file from interleaving their chunks
+      const { rows: nodes } = await client.query<{ id: string }>(
+        `SELECT id FROM vfs_nodes WHERE session_id = $1 AND path = $2 AND node_type = 'file' FOR UPDATE`,
+        [namespaceId, path],
+      );
+      if (nodes.length === 0) return;
+      await client.query(`DELETE FROM vfs_embeddings WHERE node_id = $1`, [nodes[0].id]);
+      await client.query(
+        `INSERT INTO vfs_embeddings
+           (node_id, session_id, chunk, start_line, end_line, model, etag, embedding${withVector ? ", vec" : ""})
+         SELECT $1, $2, c.ord - 1, (c.value->>'startLine')::integer, (c.value->>'endLine')::integer, $3, $4,
+                ARRAY(SELECT json_array_elements_text(c.value->'embedding')::real)${
+                  withVector ? `, NULLIF(c.value->>'embedding', '[]')::vector` : ""
+                }
+         FROM json_array_elements($5::json) WITH ORDINALITY AS c(value, ord)`,
+        [nodes[0].id, namespaceId, embeddings.model, etag, JSON.stringify(rows)],
+      );
+    });
+  }
 }
@@ -0,0 +1,20 @@
+import type { FileSlice, ReadRange } from "./interface.js";
+
+/** Lines of `content`, each with its terminating newline (the last may have none). */
+function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** Take `range` out of a file's full content, for backends that can't slice in storage. */
+export function sliceContent(content: string, etag: string | null, range: ReadRange): FileSlice {
+  if (range.unit === "bytes") {
+    const bytes = Buffer.from(content, "utf8");
+    const start = Math.min(range.start, bytes.length);
+    const end = range.count === undefined ? bytes.length : start + range.count;
+    return { content: bytes.subarray(start, end).toString("utf8"), start, total: bytes.length, etag };
+  }
+  const lines = splitLines(content);
+  const first = range.start < 0 ? Math.max(lines.length + range.start, 0) : Math.min(range.start - 1, lines.length);
+  const end = range.count === undefined ? lines.length : first + range.count;
+  return { content: lines.slice(first, end).join(""), start: first + 1, total: lines.length, etag };
+}
@@ -3,11 +3,24 @@
  * Kept as string constants so they work reliably with npx / bundled installs.
  */
 
+/** Text search configuration the `search_vector` column is built with. */
+export const SEARCH_LANGUAGE = "english";
+
+/**
+ * Characters of each file that `search_vector` covers. Keeps the tsvector well
+ * under PostgreSQL's 1 MB limit, so large files can still be written.
+ */
+export const SEARCH_INDEXED_CHARS = 100_000;
+
 export const SCHEMA_SQL = `
 -- Sessions / namespaces table
 CREATE TABLE IF NOT EXISTS vfs_sessions (
     id TEXT PRIMARY KEY,
     is_persistent BOOLEAN NOT NULL DEFAULT false,
+    tenant_id TEXT,
+    acl JSONB,
+    history_max_versions INTEGER,
+    history_max_age_days INTEGER,
     created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
@@ -18,11 +31,121 @@ CREATE TABLE IF NOT EXISTS vfs_nodes (
     path TEXT NOT NULL,
     node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
     content TEXT,
+    content_key TEXT,
     created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
     updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
     UNIQUE (session_id, path)
 );
 
+-- File revision history: one row per change to a file, newest = highest id
+CREATE TABLE IF NOT EXISTS vfs_revisions (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    op TEXT NOT NULL CHECK (op IN ('write', 'append', 'delete', 'move')),
+    content TEXT,
+    content_key TEXT,
+    size INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Namespace snapshots: a named, point-in-time copy of every node
+CREATE TABLE IF NOT EXISTS vfs_snapshots (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (session_id, name)
+);
+
+-- Nodes captured by a snapshot (offloaded contents share the node's object key)
+CREATE TABLE IF NOT EXISTS vfs_snapshot_nodes (
+    snapshot_id BIGINT NOT NULL REFERENCES vfs_snapshots(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    content TEXT,
+    content_key TEXT,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (snapshot_id, path)
+);
+
+-- Trash: subtrees removed by rm while trash is enabled
+CREATE TABLE IF NOT EXISTS vfs_trash (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    deleted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Nodes of a trashed subtree, at their original paths
+CREATE TABLE IF NOT EXISTS vfs_trash_nodes (
+    trash_id BIGINT NOT NULL REFERENCES vfs_trash(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    content TEXT,
+    content_key TEXT,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (trash_id, path)
+);
+
+-- Embeddings of file chunks for semantic search, dropped with their node.
+-- etag is the content they were computed from; stale rows are recomputed.
+CREATE TABLE IF NOT EXISTS vfs_embeddings (
+    node_id BIGINT NOT NULL REFERENCES vfs_nodes(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    chunk INTEGER NOT NULL,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    model TEXT NOT NULL,
+    etag TEXT NOT NULL,
+    embedding REAL[] NOT NULL,
+    PRIMARY KEY (node_id, chunk)
+);
+
+-- Path locks held by a session until they expire
+CREATE TABLE IF NOT EXISTS vfs_locks (
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    mandatory BOOLEAN NOT NULL DEFAULT false,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (session_id, path)
+);
+
+-- Columns added after the initial release (no-ops on fresh databases)
+-- content_key: object-store key when content is offloaded (content is then NULL)
+ALTER TABLE vfs_nodes ADD COLUMN IF NOT EXISTS content_key TEXT;
+-- tenant_id: owning tenant (NULL = single-tenant / unauthenticated)
+ALTER TABLE vfs_sessions ADD COLUMN IF NOT EXISTS tenant_id TEXT;
+-- acl: store access control list {owner, readers, writers} (NULL = unrestricted)
+ALTER TABLE vfs_sessions ADD COLUMN IF NOT EXISTS acl JSONB;
+-- history_*: per-namespace revision retention (NULL = server default)
+ALTER TABLE vfs_sessions ADD COLUMN IF NOT EXISTS history_max_versions INTEGER;
+ALTER TABLE vfs_sessions ADD COLUMN IF NOT EXISTS history_max_age_days INTEGER;
+-- search_vector: full-text index of inline file contents, for the search tool
+ALTER TABLE vfs_nodes ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('${SEARCH_LANGUAGE}', left(COALESCE(content, ''), ${SEARCH_INDEXED_CHARS}))
+    ) STORED;
+
+-- Store listing per tenant
+CREATE INDEX IF NOT EXISTS idx_vfs_sessions_tenant
+    ON vfs_sessions (tenant_id) WHERE is_persistent;
+
+-- Embeddings searched within a namespace
+CREATE INDEX IF NOT EXISTS idx_vfs_embeddings_session
+    ON vfs_embeddings (session_id, model);
+
+-- Revisions of one file, newest first
+CREATE INDEX IF NOT EXISTS idx_vfs_revisions_path
+    ON vfs_revisions (session_id, path, id DESC);
+
 -- Prefix index for ls/rm (LIKE 'prefix%' queries)
 CREATE INDEX IF NOT EXISTS idx_vfs_nodes_path_prefix
     ON vfs_nodes (session_id, path text_pattern_ops);
@@ -32,6 +155,11 @@ CREATE EXTENSION IF NOT EXISTS pg_trgm;
 CREATE INDEX IF NOT EXISTS idx_vfs_nodes_content_trgm
     ON vfs_nodes USING gin (content gin_trgm_ops)
     WHERE node_type = 'file' AND content IS NOT NULL;
+
+-- Full-text index for search
+CREATE INDEX IF NOT EXISTS idx_vfs_nodes_search
+    ON vfs_nodes USING gin (search_vector)
+    WHERE node_type = 'file';
 `;
 
 export const RLS_SQL = `
@@ -45,34 +173,179 @@ END
 $$;
 
 GRANT USAGE ON SCHEMA public TO vfs_app;
-GRANT ALL ON vfs_sessions, vfs_nodes TO vfs_app;
+GRANT ALL ON vfs_sessions, vfs_nodes, vfs_revisions, vfs_snapshots, vfs_snapshot_nodes,
+    vfs_trash, vfs_trash_nodes, vfs_locks, vfs_embeddings TO vfs_app;
 GRANT USAGE ON ALL SEQUENCES IN SCHEMA public TO vfs_app;
 
--- Enable RLS on both tables
+-- Enable RLS on all tables
 ALTER TABLE vfs_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE vfs_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_snapshot_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_trash ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_trash_nodes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vfs_embeddings ENABLE ROW LEVEL SECURITY;
 
 -- Drop existing policies if re-running
 DROP POLICY IF EXISTS vfs_sessions_isolation ON vfs_sessions;
 DROP POLICY IF EXISTS vfs_nodes_isolation ON vfs_nodes;
+DROP POLICY IF EXISTS vfs_revisions_isolation ON vfs_revisions;
+DROP POLICY IF EXISTS vfs_snapshots_isolation ON vfs_snapshots;
+DROP POLICY IF EXISTS vfs_snapshot_nodes_isolation ON vfs_snapshot_nodes;
+DROP POLICY IF EXISTS vfs_trash_isolation ON vfs_trash;
+DROP POLICY IF EXISTS vfs_trash_nodes_isolation ON vfs_trash_nodes;
+DROP POLICY IF EXISTS vfs_locks_isolation ON vfs_locks;
+DROP POLICY IF EXISTS vfs_embeddings_isolation ON vfs_embeddings;
 
+-- A caller sees its own session plus the persistent stores of its own tenant.
+-- app.vfs_tenant_id is '' (or unset) for single-tenant / unauthenticated use.
 CREATE POLICY vfs_sessions_isolation ON vfs_sessions
     USING (
-        id = current_setting('app.vfs_session_id', true)
-        OR is_persistent = true
+        tenant_id IS NOT DISTINCT FROM NULLIF(current_setting('app.vfs_tenant_id', true), '')
+        AND (id = current_setting('app.vfs_session_id', true) OR is_persistent = true)
     )
     WITH CHECK (
-        id = current_setting('app.vfs_session_id', true)
-        OR is_persistent = true
+        tenant_id IS NOT DISTINCT FROM NULLIF(current_setting('app.vfs_tenant_id', true), '')
+        AND (id = current_setting('app.vfs_session_id', true) OR is_persistent = true)
     );
 
+-- Nodes, revisions, snapshots, trash, locks and embeddings follow their namespace (the subquery is itself filtered by the policy above)
 CREATE POLICY vfs_nodes_isolation ON vfs_nodes
-    USING (
-        session_id = current_setting('app.vfs_session_id', true)
-        OR session_id IN (SELECT id FROM vfs_sessions WHERE is_persistent = true)
-    )
-    WITH CHECK (
-        session_id = current_setting('app.vfs_session_id', true)
-        OR session_id IN (SELECT id FROM vfs_sessions WHERE is_persistent = true)
-    );
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_revisions_isolation ON vfs_revisions
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_snapshots_isolation ON vfs_snapshots
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_snapshot_nodes_isolation ON vfs_snapshot_nodes
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_trash_isolation ON vfs_trash
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_trash_nodes_isolation ON vfs_trash_nodes
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_locks_isolation ON vfs_locks
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+
+CREATE POLICY vfs_embeddings_isolation ON vfs_embeddings
+    USING (session_id IN (SELECT id FROM vfs_sessions))
+    WITH CHECK (session_id IN (SELECT id FROM vfs_sessions));
+`;
+
+/**
+ * SQLite equivalent of SCHEMA_SQL. Timestamps are ISO-8601 TEXT (UTC, ms precision)
+ * and the (session_id, path) unique index doubles as the prefix index.
+ */
+export const SQLITE_SCHEMA_SQL = `
+-- Sessions / namespaces table
+CREATE TABLE IF NOT EXISTS vfs_sessions (
+    id TEXT PRIMARY KEY,
+    is_persistent INTEGER NOT NULL DEFAULT 0,
+    tenant_id TEXT,
+    acl TEXT,
+    history_max_versions INTEGER,
+    history_max_age_days INTEGER,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+-- Filesystem nodes (files + directories)
+CREATE TABLE IF NOT EXISTS vfs_nodes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    content TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    UNIQUE (session_id, path)
+);
+
+-- File revision history: one row per change to a file, newest = highest id
+CREATE TABLE IF NOT EXISTS vfs_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    op TEXT NOT NULL CHECK (op IN ('write', 'append', 'delete', 'move')),
+    content TEXT,
+    size INTEGER,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+-- Namespace snapshots: a named, point-in-time copy of every node
+CREATE TABLE IF NOT EXISTS vfs_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    UNIQUE (session_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS vfs_snapshot_nodes (
+    snapshot_id INTEGER NOT NULL REFERENCES vfs_snapshots(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    content TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (snapshot_id, path)
+);
+
+-- Trash: subtrees removed by rm while trash is enabled
+CREATE TABLE IF NOT EXISTS vfs_trash (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    deleted_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS vfs_trash_nodes (
+    trash_id INTEGER NOT NULL REFERENCES vfs_trash(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    node_type TEXT NOT NULL CHECK (node_type IN ('file', 'directory')),
+    content TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (trash_id, path)
+);
+
+-- Path locks held by a session until they expire
+CREATE TABLE IF NOT EXISTS vfs_locks (
+    session_id TEXT NOT NULL REFERENCES vfs_sessions(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    mandatory INTEGER NOT NULL DEFAULT 0,
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    PRIMARY KEY (session_id, path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vfs_revisions_path
+    ON vfs_revisions (session_id, path, id DESC);
 `;
+
+/**
+ * Columns added to SQLITE_SCHEMA_SQL after the initial release, applied to
+ * older database files on init (SQLite has no ADD COLUMN IF NOT EXISTS).
+ */
+export const SQLITE_ADDED_COLUMNS: { table: string; column: string; definition: string }[] = [
+  { table: "vfs_sessions", column: "tenant_id", definition: "TEXT" },
+  { table: "vfs_sessions", column: "acl", definition: "TEXT" },
+  { table: "vfs_sessions", column: "history_max_versions", definition: "INTEGER" },
+  { table: "vfs_sessions", column: "history_max_age_days", definition: "INTEGER" },
+];
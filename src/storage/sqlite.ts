@@ -0,0 +1,1032 @@
+import Database from "better-sqlite3";
+import type {
+  StorageBackend,
+  VfsNode,
+  NodeInfo,
+  ListChildrenOptions,
+  ReadRange,
+  FileSlice,
+  GrepMatch,
+  GrepCount,
+  GrepOptions,
+  PathQuery,
+  StoreAcl,
+  FileRevision,
+  HistoryRetention,
+  SnapshotInfo,
+  SnapshotChange,
+  TrashEntry,
+  FileLock,
+  WriteMode,
+} from "./interface.js";
+import { SQLITE_SCHEMA_SQL, SQLITE_ADDED_COLUMNS } from "./schema.js";
+import { countMatches, grepFiles, requiredLiteral } from "./grep.js";
+import { notAStoreError, scopedNamespaceId, unscopedName } from "./namespace.js";
+import { parseStoreAcl } from "./acl.js";
+import { DEFAULT_HISTORY_RETENTION } from "./history.js";
+import { contentEtag, etagMismatch } from "./etag.js";
+import { destinationExists, writeModeError } from "./modes.js";
+import { sliceContent } from "./range.js";
+import { descendantPrefix, lockedError } from "./locks.js";
+import { TransactionGate, gateCalls } from "./gate.js";
+import { VfsError } from "../errors.js";
+
+export interface SqliteBackendOptions {
+  /** Database file path, or `:memory:` for a throwaway database. */
+  filename: string;
+  /** Revision retention for namespaces that haven't set their own. */
+  historyRetention?: HistoryRetention;
+}
+
+interface NodeRow {
+  path: string;
+  node_type: "file" | "directory";
+  content: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface InfoRow {
+  path: string;
+  node_type: "file" | "directory";
+  size: number | null;
+  etag: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RevisionRow {
+  id: number;
+  op: FileRevision["op"];
+  size: number | null;
+  created_at: string;
+}
+
+interface SnapshotRow {
+  id: number;
+  name: string;
+  created_at: string;
+  files: number;
+}
+
+interface TrashRow {
+  id: number;
+  path: string;
+  node_type: "file" | "directory";
+  deleted_at: string;
+  files: number;
+}
+
+interface LockRow {
+  path: string;
+  owner: string;
+  mandatory: number;
+  expires_at: string;
+  created_at: string;
+}
+
+const LOCK_COLUMNS = `path, owner, mandatory, expires_at, created_at`;
+
+/** Selects trash entries as TrashRow from `vfs_trash t`; append the WHERE clause. */
+const TRASH_SELECT = `
+  SELECT t.id, t.path, t.node_type, t.deleted_at,
+         (SELECT COUNT(*) FROM vfs_trash_nodes n
+          WHERE n.trash_id = t.id AND n.node_type = 'file') AS files
+  FROM vfs_trash t`;
+
+const NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+/** Content matched per grepFiles call, each with its own regex timeout. */
+const GREP_BATCH_CHARS = 4_000_000;
+
+/** Statement writing a file under each WriteMode; it returns no row when the mode forbids the write. */
+const WRITE_FILE_SQL: Record<WriteMode, string> = {
+  upsert: `
+    INSERT INTO vfs_nodes (session_id, path, node_type, content)
+    VALUES (@ns, @path, 'file', @content)
+    ON CONFLICT (session_id, path)
+    DO UPDATE SET content = excluded.content, updated_at = ${NOW}
+    RETURNING path`,
+  create_only: `
+    INSERT INTO vfs_nodes (session_id, path, node_type, content)
+    VALUES (@ns, @path, 'file', @content)
+    ON CONFLICT (session_id, path) DO NOTHING
+    RETURNING path`,
+  overwrite_only: `
+    UPDATE vfs_nodes SET content = @content, updated_at = ${NOW}
+    WHERE session_id = @ns AND path = @path AND node_type = 'file'
+    RETURNING path`,
+};
+
+function toRevision(r: RevisionRow): FileRevision {
+  return { version: r.id, op: r.op, size: r.size, createdAt: new Date(r.created_at) };
+}
+
+function toSnapshot(r: SnapshotRow): SnapshotInfo {
+  return { name: r.name, createdAt: new Date(r.created_at), files: r.files };
+}
+
+function toTrashEntry(r: TrashRow): TrashEntry {
+  return { id: r.id, path: r.path, nodeType: r.node_type, deletedAt: new Date(r.deleted_at), files: r.files };
+}
+
+function toLock(r: LockRow): FileLock {
+  return {
+    path: r.path,
+    owner: r.owner,
+    mandatory: r.mandatory === 1,
+    expiresAt: new Date(r.expires_at),
+    createdAt: new Date(r.created_at),
+  };
+}
+
+function toNode(r: NodeRow): VfsNode {
+  return {
+    path: r.path,
+    nodeType: r.node_type,
+    content: r.content,
+    etag: r.content === null ? null : contentEtag(r.content),
+    createdAt: new Date(r.created_at),
+    updatedAt: new Date(r.updated_at),
+  };
+}
+
+function toNodeInfo(r: InfoRow): NodeInfo {
+  return {
+    path: r.path,
+    nodeType: r.node_type,
+    size: r.node_type === "file" ? r.size : null,
+    etag: r.etag,
+    createdAt: new Date(r.created_at),
+    updatedAt: new Date(r.updated_at),
+  };
+}
+
+/**
+ * Half-open range `[prefix, upper)` covering every path that starts with `prefix`.
+ * `prefix` always ends in `/`, and `0` is the character right after `/`,
+ * so the range stays index-friendly without LIKE wildcard escaping.
+ */
+function prefixRange(prefix: string): [string, string] {
+  return [prefix, prefix.slice(0, -1) + "0"];
+}
+
+export class SqliteBackend implements StorageBackend {
+  private db: Database.Database;
+  /** Cache of already-provisioned namespaces to avoid repeated INSERT on every call. */
+  private knownNamespaces = new Map<string, boolean>();
+  /** Last compiled grep pattern — grep evaluates one pattern against many rows. */
+  private lastRegex: { source: string; re: RegExp } | null = null;
+  private defaultRetention: HistoryRetention;
+
+  /** Keeps other callers' statements out of a withTransaction on the shared connection. */
+  private gate = new TransactionGate();
+
+  constructor(opts: SqliteBackendOptions) {
+    this.defaultRetention = opts.historyRetention ?? DEFAULT_HISTORY_RETENTION;
+    this.db = new Database(opts.filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    // regexp(pattern, value[, flags]), also behind the REGEXP operator. Only for
+    // regexes built here (from globs); user patterns go through grepFiles' timeout
+    this.db.function("regexp", { deterministic: true, varargs: true }, (pattern, value, flags = "") => {
+      if (typeof pattern !== "string" || typeof value !== "string" || typeof flags !== "string") return 0;
+      return this.regex(pattern, flags).test(value) ? 1 : 0;
+    });
+    // md5(content) as in PostgreSQL, so listings get etags without returning content
+    this.db.function("md5", { deterministic: true }, (value) => (typeof value === "string" ? contentEtag(value) : null));
+    return gateCalls(this, this.gate);
+  }
+
+  private regex(pattern: string, flags: string): RegExp {
+    if (this.lastRegex?.source !== pattern || this.lastRegex.re.flags !== flags) {
+      this.lastRegex = { source: pattern, re: new RegExp(pattern, flags) };
+    }
+    return this.lastRegex.re;
+  }
+
+  // ── Lifecycle ──────────────────────────────────────────────
+
+  /** Auto-initialize database schema. Runs CREATE IF NOT EXISTS — safe to call repeatedly. */
+  async initSchema(): Promise<void> {
+    this.db.exec(SQLITE_SCHEMA_SQL);
+    for (const { table, column, definition } of SQLITE_ADDED_COLUMNS) {
+      const columns = this.db.pragma(`table_info(${table})`) as { name: string }[];
+      if (!columns.some((c) => c.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  // ── Session / store management ─────────────────────────────
+
+  /** The namespace's row if it exists, after checking it belongs to `tenant`. */
+  private ownedRow(name: string, tenant?: string): { is_persistent: number; acl: string | null } | undefined {
+    const row = this.db
+      .prepare(`SELECT tenant_id, is_persistent, acl FROM vfs_sessions WHERE id = ?`)
+      .get(scopedNamespaceId(name, tenant)) as
+      | { tenant_id: string | null; is_persistent: number; acl: string | null }
+      | undefined;
+    if (row && row.tenant_id !== (tenant ?? null)) {
+      throw new VfsError("EACCES", `Namespace belongs to another tenant: ${name}`);
+    }
+    return row;
+  }
+
+  private ensureNamespace(
+    name: string,
+    persistent: boolean,
+    tenant?: string,
+    acl?: StoreAcl,
+  ): string {
+    const id = scopedNamespaceId(name, tenant);
+    const known = this.knownNamespaces.get(id);
+    if (known !== undefined) {
+      if (persistent && !known) throw notAStoreError(name);
+      return id;
+    }
+    this.db
+      .prepare(
+        `INSERT INTO vfs_sessions (id, is_persistent, tenant_id, acl) VALUES (?, ?, ?, ?)
+         ON CONFLICT (id) DO NOTHING`,
+      )
+      .run(id, persistent ? 1 : 0, tenant ?? null, acl ? JSON.stringify(acl) : null);
+    const isStore = this.ownedRow(name, tenant)?.is_persistent === 1;
+    if (persistent && !isStore) throw notAStoreError(name);
+    this.insertDirSync(id, "/");
+    this.knownNamespaces.set(id, isStore);
+    return id;
+  }
+
+  async ensureSession(id: string, tenant?: string): Promise<string> {
+    return this.ensureNamespace(id, false, tenant);
+  }
+
+  async ensureStore(name: string, tenant?: string, acl?: StoreAcl): Promise<string> {
+    return this.ensureNamespace(name, true, tenant, acl);
+  }
+
+  async getStoreAcl(name: string, tenant?: string): Promise<StoreAcl | null> {
+    const row = this.ownedRow(name, tenant);
+    if (!row) return null;
+    if (!row.is_persistent) throw notAStoreError(name);
+    return parseStoreAcl(row.acl);
+  }
+
+  async setStoreAcl(name: string, acl: StoreAcl, tenant?: string): Promise<void> {
+    this.ownedRow(name, tenant);
+    this.db
+      .prepare(`UPDATE vfs_sessions SET acl = ? WHERE id = ?`)
+      .run(JSON.stringify(acl), scopedNamespaceId(name, tenant));
+  }
+
+  async resolveNamespace(sessionId: string, store?: string, tenant?: string): Promise<string> {
+    if (store) {
+      return this.ensureStore(store, tenant);
+    }
+    return this.ensureSession(sessionId, tenant);
+  }
+
+  async listStores(tenant?: string): Promise<string[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT id FROM vfs_sessions
+         WHERE is_persistent = 1 AND tenant_id IS ?
+         ORDER BY id`,
+      )
+      .all(tenant ?? null) as { id: string }[];
+    return rows.map((r) => unscopedName(r.id, tenant));
+  }
+
+  // ── Node operations ────────────────────────────────────────
+
+  async getNode(namespaceId: string, path: string): Promise<VfsNode | null> {
+    const row = this.db
+      .prepare(
+        `SELECT path, node_type, content, created_at, updated_at
+         FROM vfs_nodes WHERE session_id = ? AND path = ?`,
+      )
+      .get(namespaceId, path) as NodeRow | undefined;
+    return row ? toNode(row) : null;
+  }
+
+  async readRange(namespaceId: string, path: string, range: ReadRange): Promise<FileSlice | null> {
+    const node = await this.getNode(namespaceId, path);
+    return node?.nodeType === "file" ? sliceContent(node.content ?? "", node.etag, range) : null;
+  }
+
+  async countChildren(namespaceId: string, dirPath: string): Promise<number> {
+    const prefix = dirPath === "/" ? "/" : dirPath + "/";
+    const [lo, hi] = prefixRange(prefix);
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM vfs_nodes
+         WHERE session_id = ?
+           AND path >= ? AND path < ?
+           AND instr(substr(path, length(?) + 1), '/') = 0
+           AND path != ?`,
+      )
+      .get(namespaceId, lo, hi, prefix, dirPath) as { count: number };
+    return row.count;
+  }
+
+  async listChildren(namespaceId: string, dirPath: string, opts: ListChildrenOptions = {}): Promise<NodeInfo[]> {
+    const prefix = dirPath === "/" ? "/" : dirPath + "/";
+    const [lo, hi] = prefixRange(prefix);
+    const order = opts.order ?? "name";
+    const size = `COALESCE(length(content), 0)`;
+    // Timestamps are all written in one ISO format, so they sort as text.
+    const rank = order === "mtime" ? "updated_at" : order === "size" ? size : null;
+    const params: unknown[] = [namespaceId, lo, hi, prefix, dirPath];
+    let after = "";
+    if (opts.after) {
+      after = `(node_type = 'file', path) > (?, ?)`;
+      const tie = [opts.after.type === "file" ? 1 : 0, prefix + opts.after.name];
+      if (rank) {
+        const key = order === "mtime" ? new Date(opts.after.mtime).toISOString() : opts.after.size;
+        after = `${rank} < ? OR (${rank} = ? AND ${after})`;
+        params.push(key, key);
+      }
+      params.push(...tie);
+      after = `AND (${after})`;
+    }
+    if (opts.limit !== undefined) params.push(opts.limit);
+    const rows = this.db
+      .prepare(
+        `SELECT path, node_type,
+                ${opts.details || order === "size" ? size : "NULL"} AS size,
+                ${opts.details ? "md5(content)" : "NULL"} AS etag,
+                created_at, updated_at
+         FROM vfs_nodes
+         WHERE session_id = ?
+           AND path >= ? AND path < ?
+           AND instr(substr(path, length(?) + 1), '/') = 0
+           AND path != ?
+           ${after}
+         ORDER BY ${rank ? `${rank} DESC, ` : ""}node_type = 'file', path
+         ${opts.limit !== undefined ? "LIMIT ?" : ""}`,
+      )
+      .all(...params) as InfoRow[];
+    return rows.map(toNodeInfo);
+  }
+
+  async listTree(namespaceId: string, dirPath: string): Promise<NodeInfo[]> {
+    const [lo, hi] = prefixRange(dirPath === "/" ? "/" : dirPath + "/");
+    const rows = this.db
+      .prepare(
+        `SELECT path, node_type, COALESCE(length(content), 0) AS size, md5(content) AS etag, created_at, updated_at
+         FROM vfs_nodes
+         WHERE session_id = ? AND path >= ? AND path < ? AND path != ?
+         ORDER BY path`,
+      )
+      .all(namespaceId, lo, hi, dirPath) as InfoRow[];
+    return rows.map(toNodeInfo);
+  }
+
+  /**
+   * Throw ECONFLICT unless the node at `path` has etag `ifMatch` (no-op when undefined).
+   * Runs inside the caller's transaction, which must be IMMEDIATE so no other
+   * connection can write between the check and the change.
+   */
+  private checkEtag(namespaceId: string, path: string, ifMatch: string | undefined): void {
+    if (ifMatch === undefined) return;
+    const row = this.db
+      .prepare(`SELECT content FROM vfs_nodes WHERE session_id = ? AND path = ?`)
+      .get(namespaceId, path) as { content: string | null } | undefined;
+    const current = row?.content ?? null;
+    if (current === null || contentEtag(current) !== ifMatch) throw etagMismatch(path);
+  }
+
+  async upsertFile(
+    namespaceId: string,
+    path: string,
+    content: string,
+    opts: { ifMatch?: string; mode?: WriteMode } = {},
+  ): Promise<string> {
+    const mode = opts.mode ?? "upsert";
+    return this.db.transaction(() => {
+      this.checkEtag(namespaceId, path, opts.ifMatch);
+      const written = this.db.prepare(WRITE_FILE_SQL[mode]).get({ ns: namespaceId, path, content });
+      if (!written) throw writeModeError(path, mode);
+      this.recordFiles(namespaceId, path, "write");
+      return contentEtag(content);
+    }).immediate();
+  }
+
+  async appendFile(
+    namespaceId: string,
+    path: string,
+    content: string,
+    ifMatch?: string,
+  ): Promise<string> {
+    return this.db.transaction(() => {
+      this.checkEtag(namespaceId, path, ifMatch);
+      const row = this.db
+        .prepare(
+          `INSERT INTO vfs_nodes (session_id, path, node_type, content)
+           VALUES (?, ?, 'file', ?)
+           ON CONFLICT (session_id, path)
+           DO UPDATE SET content = COALESCE(vfs_nodes.content, '') || excluded.content,
+                         updated_at = ${NOW}
+           RETURNING content`,
+        )
+        .get(namespaceId, path, content) as { content: string };
+      this.recordFiles(namespaceId, path, "append");
+      return contentEtag(row.content);
+    }).immediate();
+  }
+
+  private insertDirSync(namespaceId: string, path: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO vfs_nodes (session_id, path, node_type)
+         VALUES (?, ?, 'directory')
+         ON CONFLICT (session_id, path) DO NOTHING`,
+      )
+      .run(namespaceId, path);
+  }
+
+  async insertDir(namespaceId: string, path: string): Promise<void> {
+    this.insertDirSync(namespaceId, path);
+  }
+
+  async deleteNode(namespaceId: string, path: string, ifMatch?: string): Promise<number> {
+    const [lo, hi] = prefixRange(path + "/");
+    return this.db.transaction(() => {
+      this.checkEtag(namespaceId, path, ifMatch);
+      this.recordFiles(namespaceId, path, "delete");
+      const { changes } = this.db
+        .prepare(
+          `DELETE FROM vfs_nodes
+           WHERE session_id = ? AND (path = ? OR (path >= ? AND path < ?))`,
+        )
+        .run(namespaceId, path, lo, hi);
+      return changes;
+    }).immediate();
+  }
+
+  async moveNode(
+    namespaceId: string,
+    sourcePath: string,
+    destPath: string,
+    opts: { ifMatch?: string; overwrite?: boolean } = {},
+  ): Promise<void> {
+    // Same single-statement rewrite as PostgresBackend: the source node
+    // becomes destPath and descendants get the sourcePath prefix replaced.
+    // Moved files get a `delete` at their old path and a `move` at the new one.
+    const [lo, hi] = prefixRange(sourcePath + "/");
+    this.db.transaction(() => {
+      this.checkEtag(namespaceId, sourcePath, opts.ifMatch);
+      const replaced = this.db
+        .prepare(`SELECT node_type FROM vfs_nodes WHERE session_id = ? AND path = ?`)
+        .get(namespaceId, destPath) as { node_type: "file" | "directory" } | undefined;
+      if (replaced) {
+        if (!(opts.overwrite && replaced.node_type === "file")) throw destinationExists(destPath);
+        this.db.prepare(`DELETE FROM vfs_nodes WHERE session_id = ? AND path = ?`).run(namespaceId, destPath);
+      }
+      this.recordFiles(namespaceId, sourcePath, "delete");
+      this.db
+        .prepare(
+          `UPDATE vfs_nodes
+           SET path = ? || substr(path, length(?) + 1),
+               updated_at = ${NOW}
+           WHERE session_id = ?
+             AND (path = ? OR (path >= ? AND path < ?))`,
+        )
+        .run(destPath, sourcePath, namespaceId, sourcePath, lo, hi);
+      this.recordFiles(namespaceId, destPath, "move");
+    }).immediate();
+  }
+
+  async copyNode(
+    sourceNamespaceId: string,
+    sourcePath: string,
+    destNamespaceId: string,
+    destPath: string,
+    opts: { overwrite?: boolean; preserveTimestamps?: boolean } = {},
+  ): Promise<number> {
+    // Inserts a copy of every node at or beneath sourcePath, prefix rewritten as in moveNode
+    const [lo, hi] = prefixRange(sourcePath + "/");
+    const timestamps = opts.preserveTimestamps ? "created_at, updated_at" : `${NOW}, ${NOW}`;
+    return this.db.transaction(() => {
+      const replaced = this.db
+        .prepare(`SELECT node_type FROM vfs_nodes WHERE session_id = ? AND path = ?`)
+        .get(destNamespaceId, destPath) as { node_type: "file" | "directory" } | undefined;
+      if (replaced) {
+        if (!(opts.overwrite && replaced.node_type === "file")) throw destinationExists(destPath);
+        this.db.prepare(`DELETE FROM vfs_nodes WHERE session_id = ? AND path = ?`).run(destNamespaceId, destPath);
+      }
+      const { changes } = this.db
+        .prepare(
+          `INSERT INTO vfs_nodes (session_id, path, node_type, content, created_at, updated_at)
+           SELECT ?, ? || substr(path, length(?) + 1), node_type, content, ${timestamps}
+           FROM vfs_nodes
+           WHERE session_id = ?
+             AND (path = ? OR (path >= ? AND path < ?))`,
+        )
+        .run(destNamespaceId, destPath, sourcePath, sourceNamespaceId, sourcePath, lo, hi);
+      this.recordFiles(destNamespaceId, destPath, "write");
+      return changes;
+    }).immediate();
+  }
+
+  // ── History ────────────────────────────────────────────────
+
+  private retention(namespaceId: string): HistoryRetention {
+    const row = this.db
+      .prepare(`SELECT history_max_versions, history_max_age_days FROM vfs_sessions WHERE id = ?`)
+      .get(namespaceId) as
+      | { history_max_versions: number | null; history_max_age_days: number | null }
+      | undefined;
+    if (!row || row.history_max_versions === null) return { ...this.defaultRetention };
+    return { maxVersions: row.history_max_versions, maxAgeDays: row.history_max_age_days };
+  }
+
+  /**
+   * Record the current state of every file at or beneath `path` as an `op`
+   * revision (content and size are left empty for deletes), then prune.
+   * Runs inside the caller's transaction.
+   */
+  private recordFiles(namespaceId: string, path: string, op: FileRevision["op"]): void {
+    const retention = this.retention(namespaceId);
+    if (retention.maxVersions === 0) return;
+    const [lo, hi] = prefixRange(path + "/");
+    const recorded = op === "delete" ? "NULL" : "content";
+    this.db
+      .prepare(
+        `INSERT INTO vfs_revisions (session_id, path, op, content, size)
+         SELECT session_id, path, ?, ${recorded}, length(${recorded})
+         FROM vfs_nodes
+         WHERE session_id = ? AND node_type = 'file'
+           AND (path = ? OR (path >= ? AND path < ?))
+         ORDER BY path`,
+      )
+      .run(op, namespaceId, path, lo, hi);
+    this.prune(namespaceId, retention, path);
+  }
+
+  /**
+   * Apply `retention` to the history of `path` and everything beneath it, or
+   * the whole namespace, and collapse runs of appends into their newest revision.
+   */
+  private prune(namespaceId: string, retention: HistoryRetention, path: string | null): void {
+    const [lo, hi] = path === null ? ["", ""] : prefixRange(path + "/");
+    const cutoff = retention.maxAgeDays === null ? null : `-${retention.maxAgeDays} days`;
+    this.db
+      .prepare(
+        `DELETE FROM vfs_revisions WHERE id IN (
+           SELECT id FROM (
+             SELECT id, created_at, superseded,
+                    row_number() OVER (PARTITION BY path, superseded ORDER BY id DESC) AS rn
+             FROM (
+               -- An append followed by another append is superseded by it
+               SELECT id, path, created_at,
+                      COALESCE(op = 'append' AND lag(op) OVER (PARTITION BY path ORDER BY id DESC) = 'append', 0)
+                        AS superseded
+               FROM vfs_revisions
+               WHERE session_id = ?
+                 AND (? IS NULL OR path = ? OR (path >= ? AND path < ?))
+             )
+           )
+           WHERE superseded
+              OR rn > ?
+              OR (? IS NOT NULL AND created_at < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?))
+         )`,
+      )
+      .run(namespaceId, path, path, lo, hi, retention.maxVersions, cutoff, cutoff);
+  }
+
+  async listRevisions(namespaceId: string, path: string): Promise<FileRevision[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT id, op, size, created_at FROM vfs_revisions
+         WHERE session_id = ? AND path = ?
+         ORDER BY id DESC`,
+      )
+      .all(namespaceId, path) as RevisionRow[];
+    return rows.map(toRevision);
+  }
+
+  async getRevision(
+    namespaceId: string,
+    path: string,
+    version: number,
+  ): Promise<{ revision: FileRevision; content: string | null } | null> {
+    const row = this.db
+      .prepare(
+        `SELECT id, op, size, created_at, content FROM vfs_revisions
+         WHERE session_id = ? AND path = ? AND id = ?`,
+      )
+      .get(namespaceId, path, version) as (RevisionRow & { content: string | null }) | undefined;
+    return row ? { revision: toRevision(row), content: row.content } : null;
+  }
+
+  async getHistoryRetention(namespaceId: string): Promise<HistoryRetention> {
+    return this.retention(namespaceId);
+  }
+
+  async setHistoryRetention(namespaceId: string, retention: HistoryRetention): Promise<void> {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE vfs_sessions SET history_max_versions = ?, history_max_age_days = ? WHERE id = ?`,
+        )
+        .run(retention.maxVersions, retention.maxAgeDays, namespaceId);
+      this.prune(namespaceId, retention, null);
+    })();
+  }
+
+  // ── Transactions ───────────────────────────────────────────
+
+  /**
+   * The other methods do all their work synchronously, so while `fn` only awaits
+   * this backend nothing else can run on the connection before it settles.
+   * Their own transactions nest inside as savepoints.
+   */
+  async withTransaction<T>(_namespaceId: string, fn: () => Promise<T>): Promise<T> {
+    return this.gate.transaction(async () => {
+      if (this.db.inTransaction) return fn();
+      this.db.exec("BEGIN IMMEDIATE");
+      try {
+        const result = await fn();
+        this.db.exec("COMMIT");
+        return result;
+      } catch (e) {
+        if (this.db.inTransaction) this.db.exec("ROLLBACK");
+        throw e;
+      }
+    });
+  }
+
+  // ── Snapshots ──────────────────────────────────────────────
+
+  private snapshotRow(namespaceId: string, name: string): SnapshotRow {
+    const row = this.db
+      .prepare(
+        `SELECT s.id, s.name, s.created_at,
+                (SELECT COUNT(*) FROM vfs_snapshot_nodes n
+                 WHERE n.snapshot_id = s.id AND n.node_type = 'file') AS files
+         FROM vfs_snapshots s WHERE s.session_id = ? AND s.name = ?`,
+      )
+      .get(namespaceId, name) as SnapshotRow | undefined;
+    if (!row) {
+      throw new VfsError("ENOENT", `No such snapshot: ${name}`);
+    }
+    return row;
+  }
+
+  async createSnapshot(namespaceId: string, name: string): Promise<SnapshotInfo> {
+    return this.db.transaction(() => {
+      const { changes, lastInsertRowid } = this.db
+        .prepare(
+          `INSERT INTO vfs_snapshots (session_id, name) VALUES (?, ?)
+           ON CONFLICT (session_id, name) DO NOTHING`,
+        )
+        .run(namespaceId, name);
+      if (changes === 0) {
+        throw new VfsError("EEXIST", `Snapshot already exists: ${name}`);
+      }
+      this.db
+        .prepare(
+          `INSERT INTO vfs_snapshot_nodes
+             (snapshot_id, session_id, path, node_type, content, created_at, updated_at)
+           SELECT ?, session_id, path, node_type, content, created_at, updated_at
+           FROM vfs_nodes WHERE session_id = ?`,
+        )
+        .run(lastInsertRowid, namespaceId);
+      return toSnapshot(this.snapshotRow(namespaceId, name));
+    })();
+  }
+
+  async listSnapshots(namespaceId: string): Promise<SnapshotInfo[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT s.id, s.name, s.created_at,
+                (SELECT COUNT(*) FROM vfs_snapshot_nodes n
+                 WHERE n.snapshot_id = s.id AND n.node_type = 'file') AS files
+         FROM vfs_snapshots s WHERE s.session_id = ?
+         ORDER BY s.id`,
+      )
+      .all(namespaceId) as SnapshotRow[];
+    return rows.map(toSnapshot);
+  }
+
+  async rollbackSnapshot(namespaceId: string, name: string): Promise<SnapshotInfo> {
+    return this.db.transaction(() => {
+      const snapshot = this.snapshotRow(namespaceId, name);
+      this.db.prepare(`DELETE FROM vfs_nodes WHERE session_id = ?`).run(namespaceId);
+      this.db
+        .prepare(
+          `INSERT INTO vfs_nodes (session_id, path, node_type, content, created_at, updated_at)
+           SELECT session_id, path, node_type, content, created_at, updated_at
+           FROM vfs_snapshot_nodes WHERE snapshot_id = ?`,
+        )
+        .run(snapshot.id);
+      return toSnapshot(snapshot);
+    })();
+  }
+
+  async diffSnapshots(namespaceId: string, from: string, to: string | null): Promise<SnapshotChange[]> {
+    const before = this.snapshotRow(namespaceId, from);
+    const after = to === null ? null : this.snapshotRow(namespaceId, to);
+    const rows = this.db
+      .prepare(
+        `WITH a AS (
+           SELECT path, node_type, content FROM vfs_snapshot_nodes WHERE snapshot_id = ?
+         ), b AS (
+           SELECT path, node_type, content FROM vfs_snapshot_nodes
+           WHERE ? IS NOT NULL AND snapshot_id = ?
+           UNION ALL
+           SELECT path, node_type, content FROM vfs_nodes
+           WHERE ? IS NULL AND session_id = ?
+         )
+         SELECT COALESCE(b.path, a.path) AS path,
+                CASE WHEN a.path IS NULL THEN 'added'
+                     WHEN b.path IS NULL THEN 'removed'
+                     ELSE 'modified' END AS change,
+                COALESCE(b.node_type, a.node_type) AS node_type
+         FROM a FULL JOIN b ON a.path = b.path
+         WHERE a.path IS NULL OR b.path IS NULL
+            OR a.node_type <> b.node_type
+            OR a.content IS NOT b.content
+         ORDER BY 1`,
+      )
+      .all(before.id, after?.id ?? null, after?.id ?? null, after?.id ?? null, namespaceId) as {
+      path: string;
+      change: SnapshotChange["change"];
+      node_type: SnapshotChange["nodeType"];
+    }[];
+    return rows.map((r) => ({ path: r.path, change: r.change, nodeType: r.node_type }));
+  }
+
+  // ── Trash ──────────────────────────────────────────────────
+
+  private trashRow(namespaceId: string, id: number): TrashRow {
+    const row = this.db
+      .prepare(`${TRASH_SELECT} WHERE t.session_id = ? AND t.id = ?`)
+      .get(namespaceId, id) as TrashRow | undefined;
+    if (!row) {
+      throw new VfsError("ENOENT", `No such trash entry: ${id}`);
+    }
+    return row;
+  }
+
+  async trashNode(namespaceId: string, path: string, ifMatch?: string): Promise<number> {
+    const [lo, hi] = prefixRange(path + "/");
+    return this.db.transaction(() => {
+      this.checkEtag(namespaceId, path, ifMatch);
+      const { changes, lastInsertRowid } = this.db
+        .prepare(
+          `INSERT INTO vfs_trash (session_id, path, node_type)
+           SELECT session_id, path, node_type FROM vfs_nodes WHERE session_id = ? AND path = ?`,
+        )
+        .run(namespaceId, path);
+      if (changes === 0) {
+        throw new VfsError("ENOENT", `No such file or directory: ${path}`);
+      }
+      this.db
+        .prepare(
+          `INSERT INTO vfs_trash_nodes
+             (trash_id, session_id, path, node_type, content, created_at, updated_at)
+           SELECT ?, session_id, path, node_type, content, created_at, updated_at
+           FROM vfs_nodes
+           WHERE session_id = ? AND (path = ? OR (path >= ? AND path < ?))`,
+        )
+        .run(lastInsertRowid, namespaceId, path, lo, hi);
+      this.recordFiles(namespaceId, path, "delete");
+      return this.db
+        .prepare(
+          `DELETE FROM vfs_nodes
+           WHERE session_id = ? AND (path = ? OR (path >= ? AND path < ?))`,
+        )
+        .run(namespaceId, path, lo, hi).changes;
+    }).immediate();
+  }
+
+  async listTrash(namespaceId: string): Promise<TrashEntry[]> {
+    const rows = this.db
+      .prepare(`${TRASH_SELECT} WHERE t.session_id = ? ORDER BY t.id DESC`)
+      .all(namespaceId) as TrashRow[];
+    return rows.map(toTrashEntry);
+  }
+
+  async restoreTrash(namespaceId: string, id: number, destPath: string): Promise<TrashEntry> {
+    return this.db.transaction(() => {
+      const entry = this.trashRow(namespaceId, id);
+      this.db
+        .prepare(
+          `INSERT INTO vfs_nodes (session_id, path, node_type, content, created_at, updated_at)
+           SELECT session_id, ? || substr(path, length(?) + 1), node_type, content, created_at, ${NOW}
+           FROM vfs_trash_nodes WHERE trash_id = ?`,
+        )
+        .run(destPath, entry.path, id);
+      this.db.prepare(`DELETE FROM vfs_trash WHERE id = ?`).run(id);
+      this.recordFiles(namespaceId, destPath, "write");
+      return toTrashEntry(entry);
+    })();
+  }
+
+  async purgeTrash(namespaceId: string, filter: { id?: number; maxAgeDays?: number }): Promise<number> {
+    const cutoff = filter.maxAgeDays === undefined ? null : `-${filter.maxAgeDays} days`;
+    const { changes } = this.db
+      .prepare(
+        `DELETE FROM vfs_trash
+         WHERE session_id = ?
+           AND (? IS NULL OR id = ?)
+           AND (? IS NULL OR deleted_at < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?))`,
+      )
+      .run(namespaceId, filter.id ?? null, filter.id ?? null, cutoff, cutoff);
+    return changes;
+  }
+
+  // ── Locks ──────────────────────────────────────────────────
+
+  private lockRow(namespaceId: string, path: string): LockRow | undefined {
+    return this.db
+      .prepare(`SELECT ${LOCK_COLUMNS} FROM vfs_locks WHERE session_id = ? AND path = ? AND expires_at > ${NOW}`)
+      .get(namespaceId, path) as LockRow | undefined;
+  }
+
+  async acquireLock(
+    namespaceId: string,
+    path: string,
+    owner: string,
+    ttlSeconds: number,
+    mandatory: boolean,
+  ): Promise<FileLock> {
+    return this.db.transaction(() => {
+      const held = this.lockRow(namespaceId, path);
+      if (held && held.owner !== owner) {
+        throw lockedError(path, toLock(held));
+      }
+      // A renewal keeps created_at; an expired lock is replaced as if it were absent
+      const row = this.db
+        .prepare(
+          `INSERT INTO vfs_locks (session_id, path, owner, mandatory, expires_at, created_at)
+           VALUES (@ns, @path, @owner, @mandatory, strftime('%Y-%m-%dT%H:%M:%fZ', 'now', @ttl), @createdAt)
+           ON CONFLICT (session_id, path) DO UPDATE
+             SET owner = excluded.owner, mandatory = excluded.mandatory,
+                 expires_at = excluded.expires_at, created_at = excluded.created_at
+           RETURNING ${LOCK_COLUMNS}`,
+        )
+        .get({
+          ns: namespaceId,
+          path,
+          owner,
+          mandatory: mandatory ? 1 : 0,
+          ttl: `+${ttlSeconds} seconds`,
+          createdAt: held?.created_at ?? new Date().toISOString(),
+        }) as LockRow;
+      return toLock(row);
+    }).immediate();
+  }
+
+  async releaseLock(namespaceId: string, path: string, owner: string): Promise<void> {
+    this.db.transaction(() => {
+      const held = this.lockRow(namespaceId, path);
+      if (!held) {
+        throw new VfsError("ENOENT", `Not locked: ${path}`);
+      }
+      if (held.owner !== owner) {
+        throw lockedError(path, toLock(held));
+      }
+      this.db.prepare(`DELETE FROM vfs_locks WHERE session_id = ? AND path = ?`).run(namespaceId, path);
+    }).immediate();
+  }
+
+  async listLocks(namespaceId: string): Promise<FileLock[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT ${LOCK_COLUMNS} FROM vfs_locks
+         WHERE session_id = ? AND expires_at > ${NOW}
+         ORDER BY path`,
+      )
+      .all(namespaceId) as LockRow[];
+    return rows.map(toLock);
+  }
+
+  async blockingLock(namespaceId: string, path: string, owner: string): Promise<FileLock | null> {
+    const [lo, hi] = prefixRange(descendantPrefix(path));
+    const row = this.db
+      .prepare(
+        `SELECT ${LOCK_COLUMNS} FROM vfs_locks
+         WHERE session_id = @ns AND mandatory = 1 AND owner <> @owner AND expires_at > ${NOW}
+           AND (path = @path
+                OR substr(@path, 1, length(path) + 1) = path || '/'
+                OR (path >= @lo AND path < @hi))
+         ORDER BY path LIMIT 1`,
+      )
+      .get({ ns: namespaceId, path, owner, lo, hi }) as LockRow | undefined;
+    return row ? toLock(row) : null;
+  }
+
+  // ── Search ─────────────────────────────────────────────────
+
+  async findPaths(namespaceId: string, query: PathQuery): Promise<string[]> {
+    const [lo, hi] = prefixRange(query.dirPath === "/" ? "/" : query.dirPath + "/");
+    let sql = `
+      SELECT path FROM vfs_nodes
+      WHERE session_id = ? AND path >= ? AND path < ? AND path != ?`;
+    const params: unknown[] = [namespaceId, lo, hi, query.dirPath];
+
+    if (query.regex !== undefined) {
+      sql += ` AND regexp(?, path, '')`;
+      params.push(query.regex);
+    }
+    if (query.nodeType) {
+      sql += ` AND node_type = ?`;
+      params.push(query.nodeType);
+    }
+    if (query.after !== undefined) {
+      sql += ` AND path > ?`;
+      params.push(query.after);
+    }
+    sql += ` ORDER BY path`;
+    if (query.limit !== undefined) {
+      sql += ` LIMIT ?`;
+      params.push(query.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as { path: string }[];
+    return rows.map((r) => r.path);
+  }
+
+  async grepContent(
+    namespaceId: string,
+    pattern: string,
+    paths?: string[],
+    opts: GrepOptions = {},
+  ): Promise<GrepMatch[]> {
+    const matches: GrepMatch[] = [];
+    for (const files of this.grepBatches(namespaceId, pattern, paths, opts.ignoreCase)) {
+      const limit = opts.limit === undefined ? undefined : opts.limit - matches.length;
+      matches.push(...grepFiles(pattern, files, { ...opts, limit }));
+      if (opts.limit !== undefined && matches.length >= opts.limit) break;
+    }
+    return matches;
+  }
+
+  async grepCount(
+    namespaceId: string,
+    pattern: string,
+    paths?: string[],
+    opts: GrepOptions = {},
+  ): Promise<GrepCount[]> {
+    const counts: GrepCount[] = [];
+    for (const files of this.grepBatches(namespaceId, pattern, paths, opts.ignoreCase)) {
+      counts.push(...countMatches(grepFiles(pattern, files, { ignoreCase: opts.ignoreCase })));
+      if (opts.limit !== undefined && counts.length >= opts.limit) break;
+    }
+    return opts.limit === undefined ? counts : counts.slice(0, opts.limit);
+  }
+
+  /**
+   * Files to grep, sorted by path and read a batch at a time, each batch
+   * matched by one grepFiles call under its timeout. The regex itself isn't
+   * run in SQL, where a regexp() call would have no time limit; files are
+   * only narrowed to those containing the literal text every match needs.
+   */
+  private *grepBatches(
+    namespaceId: string,
+    pattern: string,
+    paths: string[] | undefined,
+    ignoreCase = false,
+  ): Generator<{ path: string; content: string }[]> {
+    let query = `
+      SELECT path, content FROM vfs_nodes
+      WHERE session_id = ?
+        AND node_type = 'file'
+        AND content IS NOT NULL`;
+    const params: unknown[] = [namespaceId];
+
+    if (paths) {
+      query += ` AND path IN (SELECT value FROM json_each(?))`;
+      params.push(JSON.stringify(paths));
+    }
+    const literal = requiredLiteral(pattern, ignoreCase);
+    if (literal !== null) {
+      // lower() folds ASCII only, which is all requiredLiteral returns when ignoring case
+      query += ignoreCase ? ` AND instr(lower(content), ?) > 0` : ` AND instr(content, ?) > 0`;
+      params.push(ignoreCase ? literal.toLowerCase() : literal);
+    }
+
+    query += ` ORDER BY path`;
+
+    let batch: { path: string; content: string }[] = [];
+    let chars = 0;
+    for (const row of this.db.prepare(query).iterate(...params) as IterableIterator<{ path: string; content: string }>) {
+      batch.push(row);
+      chars += row.content.length;
+      if (chars >= GREP_BATCH_CHARS) {
+        yield batch;
+        batch = [];
+        chars = 0;
+      }
+    }
+    if (batch.length > 0) yield batch;
+  }
+}
@@ -1,9 +1,17 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { VirtualFS, VfsError } from "./vfs.js";
+import { VirtualFS, VfsError, type BatchOperation, type ReadRange, type TreeNode } from "./vfs.js";
+import { MAX_FUZZ } from "./patch.js";
 
 const MAX_CONTENT_BYTES = 10 * 1024 * 1024; // 10 MB
 const MAX_PATTERN_LENGTH = 500;
+const MAX_LOCK_TTL_SECONDS = 24 * 60 * 60;
+const MAX_BATCH_OPERATIONS = 500;
+const DEFAULT_GREP_RESULTS = 1_000;
+const MAX_GREP_RESULTS = 10_000;
+const MAX_GREP_CONTEXT = 100;
+const DEFAULT_SEARCH_RESULTS = 10;
+const MAX_SEARCH_RESULTS = 100;
 
 function ok(data: unknown) {
   return { content: [{ type: "text" as const, text: JSON.stringify(data) }] };
@@ -19,9 +27,127 @@ const storeParam = z
   .describe(
     "Named persistent store for cross-session access. " +
       "Sessions are ephemeral (one per MCP connection); named stores persist indefinitely. " +
-      "Omit to use the session's own namespace.",
+      "Omit to use the session's own namespace. " +
+      "Access is governed by the store's ACL; EACCES if the caller lacks it.",
   );
 
+const ifMatchParam = z
+  .string()
+  .optional()
+  .describe(
+    "Only apply the change if the file's current etag equals this value (from read, stat or a previous write). " +
+      "Errors with ECONFLICT if the file has changed, is missing or is a directory.",
+  );
+
+const writeModeParam = z
+  .enum(["create_only", "overwrite_only", "upsert"])
+  .optional()
+  .describe(
+    "create_only: fail if the path exists; overwrite_only: fail unless the file exists; " +
+      "upsert (default): create or overwrite",
+  );
+
+/** One batch step; fields match the arguments of the tool of the same name. */
+const batchOperation = z.discriminatedUnion("op", [
+  z.object({
+    op: z.literal("write"),
+    path: z.string(),
+    content: z.string().max(MAX_CONTENT_BYTES),
+    mode: writeModeParam,
+    if_match: ifMatchParam,
+  }),
+  z.object({
+    op: z.literal("append"),
+    path: z.string(),
+    content: z.string().max(MAX_CONTENT_BYTES),
+    if_match: ifMatchParam,
+  }),
+  z.object({
+    op: z.literal("mkdir"),
+    path: z.string(),
+  }),
+  z.object({
+    op: z.literal("rm"),
+    path: z.string(),
+    permanent: z.boolean().optional(),
+    if_match: ifMatchParam,
+  }),
+  z.object({
+    op: z.literal("mv"),
+    source: z.string(),
+    destination: z.string(),
+    overwrite: z.boolean().optional(),
+    if_match: ifMatchParam,
+  }),
+]);
+
+/** Convert a batch step from the tool's snake_case arguments. */
+function toBatchOperation(step: z.infer<typeof batchOperation>): BatchOperation {
+  if (step.op === "mkdir") return step;
+  const { if_match, ...rest } = step;
+  return { ...rest, ifMatch: if_match };
+}
+
+/** Arguments of the read tool that select part of a file. */
+interface ReadRangeArgs {
+  offset?: number;
+  limit?: number;
+  head?: number;
+  tail?: number;
+  byte_offset?: number;
+  byte_limit?: number;
+  line_numbers?: boolean;
+}
+
+/**
+ * The range a read asks for, undefined for the whole file, or an error message
+ * when it combines ways of selecting lines or bytes that don't go together.
+ */
+function toReadRange(args: ReadRangeArgs): ReadRange | undefined | string {
+  const byLines = args.offset !== undefined || args.limit !== undefined;
+  const byBytes = args.byte_offset !== undefined || args.byte_limit !== undefined;
+  const chosen = [byLines, args.head !== undefined, args.tail !== undefined, byBytes].filter(Boolean).length;
+  if (chosen > 1) return "Use only one of offset/limit, head, tail or byte_offset/byte_limit";
+  if (byBytes && args.line_numbers) return "line_numbers cannot be combined with a byte range";
+
+  if (byBytes) return { unit: "bytes", start: args.byte_offset ?? 0, count: args.byte_limit };
+  if (args.head !== undefined) return { unit: "lines", start: 1, count: args.head };
+  if (args.tail !== undefined) return { unit: "lines", start: -args.tail };
+  if (byLines || args.line_numbers) return { unit: "lines", start: args.offset ?? 1, count: args.limit };
+  return undefined;
+}
+
+/** Prefix each line with its number, as `cat -n` does. */
+function numberLines(content: string, firstLine: number): string {
+  if (content === "") return "";
+  const terminated = content.endsWith("\n");
+  const lines = (terminated ? content.slice(0, -1) : content).split("\n");
+  const numbered = lines.map((line, i) => `${String(firstLine + i).padStart(6)}\t${line}`);
+  return numbered.join("\n") + (terminated ? "\n" : "");
+}
+
+/** What a tree line says about a node: a file's size, or a directory's totals. */
+function treeDetails(node: TreeNode): string {
+  if (node.type === "file") return `(${node.size} bytes)`;
+  return `(${node.dirs} dirs, ${node.files} files, ${node.size} bytes)`;
+}
+
+/** Render a tree listing as indented text in the style of tree(1). */
+function renderTree(root: TreeNode): string {
+  const lines = [`${root.path} ${treeDetails(root)}`];
+  const visit = (node: TreeNode, indent: string) => {
+    const children = node.children ?? [];
+    children.forEach((child, i) => {
+      const last = i === children.length - 1;
+      const name = child.type === "directory" ? child.name + "/" : child.name;
+      lines.push(`${indent}${last ? "└── " : "├── "}${name} ${treeDetails(child)}`);
+      visit(child, indent + (last ? "    " : "│   "));
+    });
+  };
+  visit(root, "");
+  return lines.join("\n");
+}
+
 /**
  * Resolve the session ID from MCP transport context.
  * Priority: extra.sessionId (transport-provided) > fallbackSessionId (env or auto-generated UUID)
@@ -40,18 +166,62 @@ export function registerTools(
 
   server.tool(
     "read",
-    "Read the contents of a file. Returns the file content and size in bytes. " +
-      "Errors: ENOENT if the file does not exist, EISDIR if the path is a directory.",
+    "Read the contents of a file. Returns the file content, size in bytes and etag. " +
+      "Pass the etag as if_match to write, append, mv or rm to make them fail if the file changed meanwhile. " +
+      "Pass a version from the history tool to read an earlier revision (no etag is returned). " +
+      "For large files, read part of them: offset/limit select lines, head and tail the first or last lines, " +
+      "byte_offset/byte_limit a range of UTF-8 bytes (characters cut at either end read as U+FFFD). " +
+      "Partial reads also return start_line, end_line and total_lines (or byte_offset and total_bytes). " +
+      "line_numbers prefixes each line with its number, like cat -n. " +
+      "Errors: ENOENT if the file (or version) does not exist, EISDIR if the path is a directory, " +
+      "EINVAL if more than one kind of range is given.",
     {
       path: z.string().describe("Absolute path to the file (e.g. /src/index.ts)"),
+      version: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Revision to read, as listed by the history tool. Omit for the current content."),
+      offset: z.number().int().positive().optional().describe("First line to read (1-based)"),
+      limit: z.number().int().positive().optional().describe("Maximum number of lines to read"),
+      head: z.number().int().positive().optional().describe("Read only the first N lines"),
+      tail: z.number().int().positive().optional().describe("Read only the last N lines"),
+      byte_offset: z.number().int().min(0).optional().describe("First byte to read (0-based)"),
+      byte_limit: z.number().int().positive().optional().describe("Maximum number of bytes to read"),
+      line_numbers: z.boolean().optional().describe("Prefix each line with its line number"),
       store: storeParam,
     },
     { readOnlyHint: true },
-    async ({ path, store }, extra) => {
+    async ({ path, version, store, ...rangeArgs }, extra) => {
       try {
+        const range = toReadRange(rangeArgs);
+        if (typeof range === "string") return err(`EINVAL: ${range}`);
         const sid = resolveSession(extra, fallbackSessionId);
-        const content = await vfs.read(sid, path, store);
-        return ok({ content, size: content.length });
+        if (range !== undefined) {
+          const slice = await vfs.readRange(sid, path, range, store, version);
+          const etag = version === undefined ? { etag: slice.etag } : {};
+          if (range.unit === "bytes") {
+            const { content } = slice;
+            return ok({ content, size: content.length, ...etag, byte_offset: slice.start, total_bytes: slice.total });
+          }
+          const content = rangeArgs.line_numbers ? numberLines(slice.content, slice.start) : slice.content;
+          const endLine = range.count === undefined ? slice.total : Math.min(slice.start + range.count - 1, slice.total);
+          return ok({
+            content,
+            size: slice.content.length,
+            ...etag,
+            start_line: slice.start,
+            end_line: endLine,
+            total_lines: slice.total,
+          });
+        }
+        if (version !== undefined) {
+          const content = await vfs.read(sid, path, store, version);
+          return ok({ content, size: content.length });
+        }
+        const { content, etag } = await vfs.readWithEtag(sid, path, store);
+        return ok({ content, size: content.length, etag });
       } catch (e) {
         if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
         return err("Internal server error");
@@ -65,19 +235,25 @@ export function registerTools(
     "write",
     "Write content to a file, creating it if it doesn't exist. " +
       "Parent directories are created automatically (mkdir -p). " +
-      "Overwrites existing file content entirely. " +
-      "Errors: EISDIR if the path is an existing directory, EINVAL if writing to root.",
+      "Overwrites existing file content entirely. Returns the file's new etag. " +
+      "Use mode create_only to claim a path (e.g. a lock file): of several racing writers exactly one succeeds. " +
+      "Errors: EISDIR if the path is an existing directory, EINVAL if writing to root, " +
+      "EEXIST if mode is create_only and the path exists, ENOENT if mode is overwrite_only and no file exists, " +
+      "EBUSY if another session holds a mandatory lock on the path (see lock), " +
+      "ECONFLICT if if_match is given and the file's etag differs.",
     {
       path: z.string().describe("Absolute path to the file (e.g. /notes/todo.md)"),
       content: z.string().max(MAX_CONTENT_BYTES).describe("Full content to write (max 10 MB per call)"),
+      mode: writeModeParam,
+      if_match: ifMatchParam,
       store: storeParam,
     },
     { idempotentHint: true },
-    async ({ path, content, store }, extra) => {
+    async ({ path, content, mode, if_match, store }, extra) => {
       try {
         const sid = resolveSession(extra, fallbackSessionId);
-        const result = await vfs.write(sid, path, content, store);
-        return ok({ path, size: content.length, has_parents: result.has_parents });
+        const result = await vfs.write(sid, path, content, store, { ifMatch: if_match, mode });
+        return ok({ path, size: content.length, has_parents: result.has_parents, etag: result.etag });
       } catch (e) {
         if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
         return err("Internal server error");
@@ -92,18 +268,115 @@ export function registerTools(
     "Append content to the end of a file. Creates the file if it doesn't exist. " +
       "Parent directories are created automatically. " +
       "Useful for logs or incrementally building files. " +
-      "The 10 MB limit is per call — total file size is not capped. " +
-      "Errors: EISDIR if the path is an existing directory, EINVAL if appending to root.",
+      "The 10 MB limit is per call — total file size is not capped. Returns the file's new etag. " +
+      "Errors: EISDIR if the path is an existing directory, EINVAL if appending to root, " +
+      "EBUSY if another session holds a mandatory lock on the path (see lock), " +
+      "ECONFLICT if if_match is given and the file's etag differs.",
     {
       path: z.string().describe("Absolute path to the file to append to"),
       content: z.string().max(MAX_CONTENT_BYTES).describe("Content to append (max 10 MB per call)"),
+      if_match: ifMatchParam,
       store: storeParam,
     },
-    async ({ path, content, store }, extra) => {
+    async ({ path, content, if_match, store }, extra) => {
       try {
         const sid = resolveSession(extra, fallbackSessionId);
-        await vfs.append(sid, path, content, store);
-        return ok({ path, appended_bytes: content.length });
+        const { etag } = await vfs.append(sid, path, content, store, { ifMatch: if_match });
+        return ok({ path, appended_bytes: content.length, etag });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── edit ────────────────────────────────────────────────────
+
+  server.tool(
+    "edit",
+    "Replace exact text in an existing file without rewriting it: old_string must occur exactly once " +
+      "(include surrounding lines to make it unique), or set replace_all to replace every occurrence. " +
+      "Pass edits instead to make several replacements in one call; they apply in order, all or none. " +
+      "Changes other writers make meanwhile (e.g. appends) are preserved. " +
+      "Returns the number of replacements and the file's new etag. " +
+      "Errors: ENOENT if the file does not exist, EISDIR if the path is a directory, " +
+      "EINVAL if old_string is not found, is ambiguous or equals new_string, " +
+      "EBUSY if another session holds a mandatory lock on the path, " +
+      "ECONFLICT if if_match is given and the file's etag differs.",
+    {
+      path: z.string().describe("Absolute path to the file to edit"),
+      old_string: z.string().optional().describe("Exact text to replace (whitespace and indentation included)"),
+      new_string: z.string().optional().describe("Replacement text"),
+      replace_all: z.boolean().optional().describe("Replace every occurrence of old_string (default false)"),
+      edits: z
+        .array(
+          z.object({
+            old_string: z.string(),
+            new_string: z.string(),
+            replace_all: z.boolean().optional(),
+          }),
+        )
+        .min(1)
+        .optional()
+        .describe("Several replacements, applied in order; use instead of old_string/new_string"),
+      if_match: ifMatchParam,
+      store: storeParam,
+    },
+    async ({ path, old_string, new_string, replace_all, edits, if_match, store }, extra) => {
+      try {
+        const single =
+          old_string !== undefined && new_string !== undefined ? [{ old_string, new_string, replace_all }] : null;
+        const steps = edits ?? single;
+        if (!steps || (edits && (old_string !== undefined || new_string !== undefined))) {
+          return err("EINVAL: Pass either old_string and new_string, or edits");
+        }
+        const sid = resolveSession(extra, fallbackSessionId);
+        const result = await vfs.edit(
+          sid,
+          path,
+          steps.map((e) => ({ oldString: e.old_string, newString: e.new_string, replaceAll: e.replace_all })),
+          store,
+          { ifMatch: if_match },
+        );
+        return ok({ path, ...result });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── patch ───────────────────────────────────────────────────
+
+  server.tool(
+    "patch",
+    "Apply a unified diff (as produced by diff -u or git diff), which may cover several files: " +
+      "creates (--- /dev/null), modifies, renames (git rename headers) and deletes (+++ /dev/null) files. " +
+      "git's a/ and b/ path prefixes are stripped. Hunks that moved are found nearby, and up to fuzz " +
+      "context lines at either end may be ignored. All files are patched in one transaction, or none are. " +
+      "Set dry_run to check the patch without changing anything: each file reports every hunk's " +
+      "applied flag, offset and fuzz, and an error if the file itself is the problem. " +
+      "Errors: EINVAL if the diff is malformed or binary, " +
+      "ECONFLICT if any hunk does not apply or a file is missing, already exists or changed while patching, " +
+      "EBUSY if another session holds a mandatory lock on a patched path, " +
+      "ENOTSUP if the storage backend does not support transactions (dry runs still work).",
+    {
+      patch: z.string().max(MAX_CONTENT_BYTES).describe("Unified diff text"),
+      dry_run: z.boolean().optional().describe("Report how each hunk would apply without changing anything"),
+      fuzz: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_FUZZ)
+        .optional()
+        .describe(`Context lines that may be ignored at each end of a hunk (default 2, max ${MAX_FUZZ})`),
+      store: storeParam,
+    },
+    async ({ patch, dry_run, fuzz, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const result = await vfs.patch(sid, patch, store, { dryRun: dry_run, fuzz });
+        return ok({ dry_run: dry_run ?? false, ...result });
       } catch (e) {
         if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
         return err("Internal server error");
@@ -117,7 +390,7 @@ export function registerTools(
     "stat",
     "Check whether a path exists and get metadata about it. " +
       "Returns exists (boolean), and if it exists: type (file or directory), " +
-      "size (bytes, for files), or children count (for directories). " +
+      "size and etag (for files), or children count (for directories). " +
       "Never errors — returns {exists: false} for missing paths.",
     {
       path: z.string().describe("Absolute path to check"),
@@ -141,19 +414,91 @@ export function registerTools(
   server.tool(
     "ls",
     "List the contents of a directory. Returns an array of entries, each with " +
-      "a name and type (file or directory). Entries are sorted with directories first, " +
-      "then alphabetically. " +
+      "a name and type (file or directory), plus size, etag and timestamps with long=true. " +
+      "Entries are sorted with directories first, then by name (uppercase before lowercase), unless sort says otherwise. " +
+      "Large directories can be listed a page at a time with limit and cursor. " +
       "Errors: ENOENT if the directory does not exist, ENOTDIR if the path is a file.",
     {
       path: z.string().describe("Absolute path to the directory to list (e.g. / or /src)"),
+      long: z
+        .boolean()
+        .optional()
+        .describe("Include size, etag (content hash), created_at and updated_at for each entry (like ls -l)"),
+      sort: z
+        .enum(["name", "mtime", "size"])
+        .optional()
+        .describe("name (default): directories first, then by name; mtime: newest first; size: largest first"),
+      limit: z.number().int().min(1).optional().describe("Maximum entries to return. Omit to list everything"),
+      cursor: z
+        .string()
+        .optional()
+        .describe("next_cursor from the previous call, to get the next page (use the same sort)"),
       store: storeParam,
     },
     { readOnlyHint: true },
-    async ({ path, store }, extra) => {
+    async ({ path, long, sort, limit, cursor, store }, extra) => {
       try {
         const sid = resolveSession(extra, fallbackSessionId);
-        const entries = await vfs.ls(sid, path, store);
-        return ok({ entries });
+        const page = await vfs.lsPage(sid, path, store, { long, sort, limit, cursor });
+        const entries = page.entries.map((e) =>
+          long
+            ? {
+                name: e.name,
+                type: e.type,
+                size: e.size,
+                etag: e.etag,
+                created_at: e.createdAt?.toISOString(),
+                updated_at: e.updatedAt?.toISOString(),
+              }
+            : e,
+        );
+        return ok({ entries, next_cursor: page.nextCursor });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── tree ────────────────────────────────────────────────────
+
+  server.tool(
+    "tree",
+    "Recursively list a directory in one call. Every file has its size, and every " +
+      "directory the total size and file/directory counts of everything below it. " +
+      "Returns a nested JSON tree, or indented text like tree(1) with format=text. " +
+      "Errors: ENOENT if the path does not exist.",
+    {
+      path: z.string().describe("Absolute path of the directory to list (e.g. / or /src)"),
+      max_depth: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Levels below the path to list; deeper directories still count toward the totals. Omit for no limit"),
+      include: z
+        .array(z.string().max(MAX_PATTERN_LENGTH))
+        .optional()
+        .describe(
+          "Globs of files to list (e.g. *.ts); directories without a match are left out. " +
+            "Patterns without a slash match names, others match absolute paths",
+        ),
+      exclude: z
+        .array(z.string().max(MAX_PATTERN_LENGTH))
+        .optional()
+        .describe("Globs of files and directories to leave out, with everything inside them (e.g. node_modules)"),
+      format: z
+        .enum(["json", "text"])
+        .optional()
+        .describe("json (default): nested entries; text: indented listing"),
+      store: storeParam,
+    },
+    { readOnlyHint: true },
+    async ({ path, max_depth, include, exclude, format, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const tree = await vfs.tree(sid, path, store, { maxDepth: max_depth, include, exclude });
+        return ok({ tree: format === "text" ? renderTree(tree) : tree });
       } catch (e) {
         if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
         return err("Internal server error");
@@ -191,19 +536,24 @@ export function registerTools(
   server.tool(
     "rm",
     "Remove a file or directory. Directories are removed recursively including all descendants. " +
-      "This operation is non-recoverable — there is no undo or trash. " +
-      "Returns the total number of nodes deleted. " +
-      "Errors: ENOENT if the path does not exist, EINVAL if attempting to remove root.",
+      "When the server has trash enabled, removed paths go to the trash (see trash_list) unless permanent is set. " +
+      "Deleted files can be brought back with the history and restore tools while their history is retained. " +
+      "Returns the total number of nodes deleted and whether they were moved to the trash. " +
+      "Errors: ENOENT if the path does not exist, EINVAL if attempting to remove root, " +
+      "EBUSY if another session holds a mandatory lock on the path or anything under it, " +
+      "ECONFLICT if if_match is given and the file's etag differs.",
     {
       path: z.string().describe("Absolute path to remove"),
+      permanent: z.boolean().optional().describe("Delete permanently even when trash is enabled"),
+      if_match: ifMatchParam,
       store: storeParam,
     },
     { destructiveHint: true },
-    async ({ path, store }, extra) => {
+    async ({ path, permanent, if_match, store }, extra) => {
       try {
         const sid = resolveSession(extra, fallbackSessionId);
-        const deleted = await vfs.rm(sid, path, store);
-        return ok({ path, deleted });
+        const deleted = await vfs.rm(sid, path, store, { permanent, ifMatch: if_match });
+        return ok({ path, deleted, trashed: vfs.trashEnabled && !permanent });
       } catch (e) {
         if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
         return err("Internal server error");
@@ -217,17 +567,23 @@ export function registerTools(
     "mv",
     "Move or rename a file or directory. Moves all descendants when moving a directory. " +
       "Parent directories at the destination are created automatically. " +
-      "Errors: ENOENT if source doesn't exist, EEXIST if destination already exists, " +
-      "EINVAL if moving root or moving a directory into itself.",
+      "Set overwrite to atomically replace an existing destination file. " +
+      "Errors: ENOENT if source doesn't exist, EEXIST if destination already exists (without overwrite), " +
+      "EISDIR/ENOTDIR if overwrite would replace a directory or put a directory in place of a file, " +
+      "EINVAL if moving root or moving a directory into itself, " +
+      "EBUSY if another session holds a mandatory lock on the source or destination, " +
+      "ECONFLICT if if_match is given and the source file's etag differs.",
     {
       source: z.string().describe("Absolute path of the file or directory to move"),
       destination: z.string().describe("Absolute path of the new location"),
+      overwrite: z.boolean().optional().describe("Replace the destination if it is an existing file (default false)"),
+      if_match: ifMatchParam,
       store: storeParam,
     },
-    async ({ source, destination, store }, extra) => {
+    async ({ source, destination, overwrite, if_match, store }, extra) => {
       try {
         const sid = resolveSession(extra, fallbackSessionId);
-        await vfs.move(sid, source, destination, store);
+        await vfs.move(sid, source, destination, store, { ifMatch: if_match, overwrite });
         return ok({ source, destination });
       } catch (e) {
         if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
@@ -236,23 +592,111 @@ export function registerTools(
     },
   );
 
+  // ── cp ──────────────────────────────────────────────────────
+
+  server.tool(
+    "cp",
+    "Copy a file or directory (recursively, with all descendants). " +
+      "Set source_store and/or dest_store to copy between the session and a store, or between stores, " +
+      "e.g. to save session work to a persistent store or seed a session from one. " +
+      "Parent directories at the destination are created automatically. " +
+      "Set overwrite to replace an existing destination file. Copies are timestamped now " +
+      "unless preserve_timestamps is set. Returns the number of files and directories copied. " +
+      "Errors: ENOENT if source doesn't exist, EEXIST if destination already exists (without overwrite), " +
+      "EISDIR/ENOTDIR if overwrite would replace a directory or put a directory in place of a file, " +
+      "EINVAL if copying root or copying a directory into itself, " +
+      "EBUSY if another session holds a mandatory lock on the destination, " +
+      "EACCES if the caller cannot read source_store or write dest_store.",
+    {
+      source: z.string().describe("Absolute path of the file or directory to copy"),
+      destination: z.string().describe("Absolute path of the copy"),
+      source_store: z.string().optional().describe("Store to copy from; omit for the session's own namespace"),
+      dest_store: z.string().optional().describe("Store to copy into; omit for the session's own namespace"),
+      overwrite: z.boolean().optional().describe("Replace the destination if it is an existing file (default false)"),
+      preserve_timestamps: z
+        .boolean()
+        .optional()
+        .describe("Keep the source's creation and modification times (default false)"),
+    },
+    async ({ source, destination, source_store, dest_store, overwrite, preserve_timestamps }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const copied = await vfs.copy(sid, source, destination, {
+          sourceStore: source_store,
+          destStore: dest_store,
+          overwrite,
+          preserveTimestamps: preserve_timestamps,
+        });
+        return ok({ source, destination, copied });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── batch ───────────────────────────────────────────────────
+
+  server.tool(
+    "batch",
+    "Apply a list of write, append, mkdir, rm and mv operations in order, all-or-nothing: " +
+      "they run in one transaction, so if any fails none of them take effect. " +
+      "Each operation takes the same arguments as the tool of the same name (op names the tool) " +
+      "and sees the effects of the ones before it. Use it to create or reorganize many files at once. " +
+      "Returns one result per operation, shaped like that tool's result plus op. " +
+      "Errors: the failing operation's error, prefixed with its 1-based position; " +
+      "ENOTSUP if the storage backend has no transactions.",
+    {
+      operations: z
+        .array(batchOperation)
+        .min(1)
+        .max(MAX_BATCH_OPERATIONS)
+        .describe(
+          'Operations in order, e.g. [{"op":"mkdir","path":"/src"},{"op":"write","path":"/src/a.ts","content":"..."}]',
+        ),
+      store: storeParam,
+    },
+    { destructiveHint: true },
+    async ({ operations, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const results = await vfs.batch(sid, operations.map(toBatchOperation), store);
+        return ok({ results, count: results.length });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
   // ── glob ────────────────────────────────────────────────────
 
   server.tool(
     "glob",
     "Find files matching a glob pattern. Supports wildcards (*.ts), " +
       "recursive matching (**/*.md), and brace expansion ({py,json}). " +
-      "Returns an array of matching file paths. Only matches files, not directories.",
+      "Returns an array of matching paths, sorted. Matches files unless type says otherwise. " +
+      "Large result sets can be fetched a page at a time with limit and cursor.",
     {
       pattern: z.string().max(MAX_PATTERN_LENGTH).describe("Glob pattern (e.g. **/*.ts, /src/**/*.{js,ts})"),
+      type: z
+        .enum(["file", "directory", "any"])
+        .optional()
+        .describe("Match files (default), directories, or both"),
+      ignore: z
+        .array(z.string().max(MAX_PATTERN_LENGTH))
+        .optional()
+        .describe("Globs of paths to leave out (e.g. **/node_modules/**)"),
+      limit: z.number().int().min(1).optional().describe("Maximum paths to return. Omit to return every match"),
+      cursor: z.string().optional().describe("next_cursor from the previous call, to get the next page"),
       store: storeParam,
     },
     { readOnlyHint: true },
-    async ({ pattern, store }, extra) => {
+    async ({ pattern, type, ignore, limit, cursor, store }, extra) => {
       try {
         const sid = resolveSession(extra, fallbackSessionId);
-        const files = await vfs.glob(sid, pattern, store);
-        return ok({ files, count: files.length });
+        const page = await vfs.globPage(sid, pattern, store, { type, ignore, limit, cursor });
+        return ok({ files: page.paths, count: page.paths.length, next_cursor: page.nextCursor });
       } catch (e) {
         if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
         return err("Internal server error");
@@ -266,7 +710,9 @@ export function registerTools(
     "grep",
     "Search file contents using a regular expression. Returns matching lines with " +
       "file path and line number. Optimized for fast content search across all files. " +
-      "Optionally filter which files to search with a path glob.",
+      "Optionally filter which files to search with a path glob. Supports case-insensitive and " +
+      "fixed-string matching, context lines, and listing only matching files or per-file counts. " +
+      `Results stop at max_results (default ${DEFAULT_GREP_RESULTS}), with truncated=true when more were found.`,
     {
       pattern: z
         .string()
@@ -275,15 +721,185 @@ export function registerTools(
       path_filter: z
         .string()
         .optional()
-        .describe("Glob pattern to limit which files are searched (e.g. /src/**)"),
+        .describe("Glob pattern to limit which files are searched, matched like glob (e.g. /src/**/*.{ts,js})"),
+      case_insensitive: z.boolean().optional().describe("Match regardless of case (like grep -i)"),
+      fixed_string: z
+        .boolean()
+        .optional()
+        .describe("Search for the pattern as literal text instead of a regex (like grep -F)"),
+      context: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_GREP_CONTEXT)
+        .optional()
+        .describe("Lines of context before and after each match (like grep -C)"),
+      before_context: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_GREP_CONTEXT)
+        .optional()
+        .describe("Lines of context before each match (like grep -B); overrides context"),
+      after_context: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_GREP_CONTEXT)
+        .optional()
+        .describe("Lines of context after each match (like grep -A); overrides context"),
+      max_results: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_GREP_RESULTS)
+        .optional()
+        .describe(`Maximum matching lines (or files, in the other output modes) to return (default ${DEFAULT_GREP_RESULTS})`),
+      output_mode: z
+        .enum(["content", "files_with_matches", "count"])
+        .optional()
+        .describe(
+          "content (default): matching lines; files_with_matches: only the paths of matching files (like grep -l); " +
+            "count: matching lines per file (like grep -c)",
+        ),
+      store: storeParam,
+    },
+    { readOnlyHint: true },
+    async (
+      {
+        pattern,
+        path_filter,
+        case_insensitive,
+        fixed_string,
+        context,
+        before_context,
+        after_context,
+        max_results,
+        output_mode,
+        store,
+      },
+      extra,
+    ) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const result = await vfs.grepWithOptions(sid, pattern, {
+          pathFilter: path_filter,
+          store,
+          ignoreCase: case_insensitive,
+          fixedString: fixed_string,
+          before: before_context ?? context,
+          after: after_context ?? context,
+          maxResults: max_results ?? DEFAULT_GREP_RESULTS,
+          mode: output_mode,
+        });
+        switch (result.mode) {
+          case "content":
+            return ok({ matches: result.matches, count: result.matches.length, truncated: result.truncated });
+          case "files_with_matches":
+            return ok({ files: result.files, count: result.files.length, truncated: result.truncated });
+          case "count":
+            return ok({
+              counts: result.counts,
+              total: result.counts.reduce((sum, c) => sum + c.count, 0),
+              truncated: result.truncated,
+            });
+        }
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── search ──────────────────────────────────────────────────
+
+  server.tool(
+    "search",
+    "Full-text search over file contents, for finding notes by topic rather than by exact pattern. " +
+      "Returns the best-matching files, most relevant first, each with a rank and a snippet " +
+      "of the passages that matched (matched words in **). Words are stemmed, so 'migrating' " +
+      "finds 'migration'. Files offloaded to object storage are not indexed; skipped_offloaded " +
+      "counts those in scope, which grep can still search. Errors: EINVAL for an unknown language, " +
+      "ENOTSUP if the storage backend has no full-text index (only PostgreSQL has one).",
+    {
+      query: z
+        .string()
+        .max(MAX_PATTERN_LENGTH)
+        .describe('Words to look for; "quoted phrases", OR between alternatives and -word to exclude'),
+      path_filter: z
+        .string()
+        .optional()
+        .describe("Glob pattern to limit which files are searched, matched like glob (e.g. /notes/**)"),
+      language: z
+        .string()
+        .optional()
+        .describe("Text search language for stemming and stop words (default english; simple disables both)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_SEARCH_RESULTS)
+        .optional()
+        .describe(`Maximum files to return (default ${DEFAULT_SEARCH_RESULTS})`),
       store: storeParam,
     },
     { readOnlyHint: true },
-    async ({ pattern, path_filter, store }, extra) => {
+    async ({ query, path_filter, language, limit, store }, extra) => {
       try {
         const sid = resolveSession(extra, fallbackSessionId);
-        const matches = await vfs.grep(sid, pattern, path_filter, store);
-        return ok({ matches, count: matches.length });
+        const { hits, skippedOffloaded } = await vfs.search(sid, query, {
+          store,
+          pathFilter: path_filter,
+          language,
+          limit: limit ?? DEFAULT_SEARCH_RESULTS,
+        });
+        return ok({ results: hits, count: hits.length, skipped_offloaded: skippedOffloaded });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  server.tool(
+    "semantic_search",
+    "Search file contents by meaning rather than by exact words. Files are split into chunks " +
+      "of lines, and the chunks whose embeddings are most similar to the query's come first, " +
+      "each with its path, line range, text and a similarity score (at most 1). Files changed " +
+      "since they were last embedded are embedded before searching. " +
+      "Errors: ENOTSUP if the storage backend has no embedding provider configured.",
+    {
+      query: z.string().max(MAX_PATTERN_LENGTH).describe("What to look for, in plain words"),
+      path_filter: z
+        .string()
+        .optional()
+        .describe("Glob pattern to limit which files are searched, matched like glob (e.g. /notes/**)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_SEARCH_RESULTS)
+        .optional()
+        .describe(`Maximum chunks to return (default ${DEFAULT_SEARCH_RESULTS})`),
+      store: storeParam,
+    },
+    { readOnlyHint: true },
+    async ({ query, path_filter, limit, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const hits = await vfs.semanticSearch(sid, query, {
+          store,
+          pathFilter: path_filter,
+          limit: limit ?? DEFAULT_SEARCH_RESULTS,
+        });
+        const results = hits.map((h) => ({
+          path: h.path,
+          score: h.score,
+          start_line: h.startLine,
+          end_line: h.endLine,
+          text: h.text,
+        }));
+        return ok({ results, count: results.length });
       } catch (e) {
         if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
         return err("Internal server error");
@@ -309,4 +925,460 @@ export function registerTools(
       }
     },
   );
+
+  // ── store_acl ───────────────────────────────────────────────
+
+  server.tool(
+    "store_acl",
+    "Show a store's access control list: its owner, read-only principals (readers) " +
+      "and read-write principals (writers). \"*\" means everyone. " +
+      "Errors: ENOENT if the store does not exist, EACCES without read access.",
+    {
+      store: z.string().describe("Name of the store"),
+    },
+    { readOnlyHint: true },
+    async ({ store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const acl = await vfs.storeAcl(sid, store);
+        return ok({ store, ...acl });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── store_grant ─────────────────────────────────────────────
+
+  server.tool(
+    "store_grant",
+    "Grant a principal read-only or read-write access to a store, replacing any access " +
+      "it already had. Only the store owner or an admin may do this. " +
+      "Returns the updated ACL. " +
+      "Errors: ENOENT if the store does not exist, EACCES if the caller is not the owner or an admin.",
+    {
+      store: z.string().describe("Name of the store"),
+      principal: z.string().min(1).describe("Principal to grant access to, or \"*\" for everyone"),
+      access: z.enum(["read", "write"]).describe("read = read-only, write = read-write"),
+    },
+    async ({ store, principal, access }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const acl = await vfs.grantStoreAccess(sid, store, principal, access);
+        return ok({ store, ...acl });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── store_revoke ────────────────────────────────────────────
+
+  server.tool(
+    "store_revoke",
+    "Revoke all access a principal was granted to a store. Revoking \"*\" closes the store " +
+      "to everyone not granted access by name; the owner always keeps access. " +
+      "Only the store owner or an admin may do this. Returns the updated ACL. " +
+      "Errors: ENOENT if the store does not exist, EACCES if the caller is not the owner or an admin.",
+    {
+      store: z.string().describe("Name of the store"),
+      principal: z.string().min(1).describe("Principal to revoke, or \"*\" for the everyone grant"),
+    },
+    { destructiveHint: true },
+    async ({ store, principal }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const acl = await vfs.revokeStoreAccess(sid, store, principal);
+        return ok({ store, ...acl });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── history ─────────────────────────────────────────────────
+
+  server.tool(
+    "history",
+    "List the recorded revisions of a file, newest first, including files that have since been " +
+      "deleted. Each revision has a version, the operation (write, append, delete, move), " +
+      "the size after the change and a timestamp. Consecutive appends are kept as one revision, the newest. " +
+      "Errors: ENOTSUP if the storage backend keeps no history.",
+    {
+      path: z.string().describe("Absolute path to the file"),
+      store: storeParam,
+    },
+    { readOnlyHint: true },
+    async ({ path, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const revisions = await vfs.history(sid, path, store);
+        return ok({
+          path,
+          revisions: revisions.map((r) => ({
+            version: r.version,
+            op: r.op,
+            size: r.size,
+            created_at: r.createdAt.toISOString(),
+          })),
+          count: revisions.length,
+        });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── restore ─────────────────────────────────────────────────
+
+  server.tool(
+    "restore",
+    "Restore a file to the content it had at an earlier version (from the history tool). " +
+      "Works for deleted files too. The restore is recorded as a new revision, so it can be undone. " +
+      "Errors: ENOENT if the version does not exist or is a deletion, EISDIR if the path is now a directory, " +
+      "EBUSY if another session holds a mandatory lock on the path, " +
+      "ENOTSUP if the storage backend keeps no history.",
+    {
+      path: z.string().describe("Absolute path to the file"),
+      version: z.number().int().positive().describe("Version to restore, as listed by the history tool"),
+      store: storeParam,
+    },
+    async ({ path, version, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const { size } = await vfs.restore(sid, path, version, store);
+        return ok({ path, version, size });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── history_retention ───────────────────────────────────────
+
+  server.tool(
+    "history_retention",
+    "Show or change how much file history the session or store keeps. " +
+      "With no settings, returns the current retention. max_versions caps the revisions kept per file " +
+      "(0 turns history off); max_age_days drops older revisions (null keeps them regardless of age). " +
+      "Existing history is pruned immediately to match. " +
+      "Errors: EINVAL for invalid settings, ENOTSUP if the storage backend keeps no history.",
+    {
+      max_versions: z.number().int().min(0).optional().describe("Revisions kept per file"),
+      max_age_days: z
+        .number()
+        .int()
+        .positive()
+        .nullable()
+        .optional()
+        .describe("Prune revisions older than this many days; null for no age limit"),
+      store: storeParam,
+    },
+    async ({ max_versions, max_age_days, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        let retention = await vfs.historyRetention(sid, store);
+        if (max_versions !== undefined || max_age_days !== undefined) {
+          retention = {
+            maxVersions: max_versions ?? retention.maxVersions,
+            maxAgeDays: max_age_days !== undefined ? max_age_days : retention.maxAgeDays,
+          };
+          await vfs.setHistoryRetention(sid, retention, store);
+        }
+        return ok({ max_versions: retention.maxVersions, max_age_days: retention.maxAgeDays });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── snapshot ────────────────────────────────────────────────
+
+  server.tool(
+    "snapshot",
+    "Checkpoint every file and directory in the session or store under a name, " +
+      "e.g. before a risky multi-step change. Use rollback to return to it. " +
+      "Errors: EEXIST if a snapshot with that name exists, ENOTSUP if the storage backend has no snapshots.",
+    {
+      name: z.string().min(1).max(255).describe("Snapshot name, unique within the session or store"),
+      store: storeParam,
+    },
+    async ({ name, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const snapshot = await vfs.snapshot(sid, name, store);
+        return ok({ name, created_at: snapshot.createdAt.toISOString(), files: snapshot.files });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── snapshots ───────────────────────────────────────────────
+
+  server.tool(
+    "snapshots",
+    "List the snapshots of the session or store, oldest first, with the number of files each captured. " +
+      "Errors: ENOTSUP if the storage backend has no snapshots.",
+    {
+      store: storeParam,
+    },
+    { readOnlyHint: true },
+    async ({ store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const snapshots = await vfs.snapshots(sid, store);
+        return ok({
+          snapshots: snapshots.map((s) => ({
+            name: s.name,
+            created_at: s.createdAt.toISOString(),
+            files: s.files,
+          })),
+          count: snapshots.length,
+        });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── rollback ────────────────────────────────────────────────
+
+  server.tool(
+    "rollback",
+    "Return the whole session or store to a snapshot: files created since are removed, and changed or " +
+      "deleted files get their snapshot content back. All at once — nothing is partially rolled back. " +
+      "The snapshot is kept. Check what will change with snapshot_diff first. " +
+      "Errors: ENOENT if the snapshot does not exist, EBUSY if another session holds a mandatory lock " +
+      "anywhere in the session or store, ENOTSUP if the storage backend has no snapshots.",
+    {
+      name: z.string().describe("Snapshot to roll back to"),
+      store: storeParam,
+    },
+    { destructiveHint: true },
+    async ({ name, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const snapshot = await vfs.rollback(sid, name, store);
+        return ok({ name, created_at: snapshot.createdAt.toISOString(), files: snapshot.files });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── snapshot_diff ───────────────────────────────────────────
+
+  server.tool(
+    "snapshot_diff",
+    "List the paths that were added, removed or modified between two snapshots, " +
+      "or between a snapshot and the current state when `to` is omitted. " +
+      "Errors: ENOENT if a snapshot does not exist, ENOTSUP if the storage backend has no snapshots.",
+    {
+      from: z.string().describe("Earlier snapshot"),
+      to: z.string().optional().describe("Later snapshot; omit to compare against the current state"),
+      store: storeParam,
+    },
+    { readOnlyHint: true },
+    async ({ from, to, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const changes = await vfs.snapshotDiff(sid, from, to, store);
+        return ok({
+          from,
+          to: to ?? null,
+          changes: changes.map((c) => ({ path: c.path, change: c.change, type: c.nodeType })),
+          count: changes.length,
+        });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── trash_list ──────────────────────────────────────────────
+
+  server.tool(
+    "trash_list",
+    "List what rm moved to the trash of the session or store, most recently deleted first: " +
+      "each entry's id, original path, type, deletion time and number of files. " +
+      "Errors: ENOTSUP if the storage backend has no trash.",
+    {
+      store: storeParam,
+    },
+    { readOnlyHint: true },
+    async ({ store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const entries = await vfs.trashList(sid, store);
+        return ok({
+          entries: entries.map((e) => ({
+            id: e.id,
+            path: e.path,
+            type: e.nodeType,
+            deleted_at: e.deletedAt.toISOString(),
+            files: e.files,
+          })),
+          count: entries.length,
+        });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── trash_restore ───────────────────────────────────────────
+
+  server.tool(
+    "trash_restore",
+    "Restore a trash entry (with all its contents) to its original path, or to destination if given. " +
+      "Missing parent directories are created. " +
+      "Errors: ENOENT if the entry does not exist, EEXIST if the target path is taken " +
+      "(retry with a different destination), EBUSY if another session holds a mandatory lock on it, " +
+      "ENOTSUP if the storage backend has no trash.",
+    {
+      id: z.number().int().positive().describe("Trash entry ID from trash_list"),
+      destination: z.string().optional().describe("Absolute path to restore to instead of the original path"),
+      store: storeParam,
+    },
+    async ({ id, destination, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const entry = await vfs.trashRestore(sid, id, destination, store);
+        return ok({ id, path: entry.restoredTo, original_path: entry.path, files: entry.files });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── trash_purge ─────────────────────────────────────────────
+
+  server.tool(
+    "trash_purge",
+    "Permanently delete one trash entry, or empty the whole trash when id is omitted. " +
+      "Errors: ENOENT if the entry does not exist, ENOTSUP if the storage backend has no trash.",
+    {
+      id: z.number().int().positive().optional().describe("Trash entry ID; omit to empty the trash"),
+      store: storeParam,
+    },
+    { destructiveHint: true },
+    async ({ id, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const purged = await vfs.trashPurge(sid, id, store);
+        return ok({ purged });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── lock ────────────────────────────────────────────────────
+
+  server.tool(
+    "lock",
+    "Lock a path for ttl_seconds, or renew this session's lock on it. The path need not exist. " +
+      "Locks are advisory (visible through locks) unless mandatory is set: then other sessions' " +
+      "write, append, rm, mv, restore and trash_restore on the path, anything under it or a parent " +
+      "directory, and their rollbacks of the whole session or store, fail with EBUSY " +
+      "until the lock is released or expires. Most useful on shared stores. " +
+      "Errors: EBUSY if another session holds the lock, EINVAL if locking root, " +
+      "ENOTSUP if the storage backend has no locks.",
+    {
+      path: z.string().describe("Absolute path to lock"),
+      ttl_seconds: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_LOCK_TTL_SECONDS)
+        .optional()
+        .describe("Lease length in seconds (default 300, max 86400); lock again to renew"),
+      mandatory: z.boolean().optional().describe("Make other sessions' changes fail with EBUSY (default false)"),
+      store: storeParam,
+    },
+    async ({ path, ttl_seconds, mandatory, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const lock = await vfs.lock(sid, path, store, { ttlSeconds: ttl_seconds, mandatory });
+        return ok({
+          path: lock.path,
+          owner: lock.owner,
+          mandatory: lock.mandatory,
+          expires_at: lock.expiresAt.toISOString(),
+        });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── unlock ──────────────────────────────────────────────────
+
+  server.tool(
+    "unlock",
+    "Release this session's lock on a path. " +
+      "Errors: ENOENT if the path is not locked, EBUSY if another session holds the lock, " +
+      "ENOTSUP if the storage backend has no locks.",
+    {
+      path: z.string().describe("Absolute path to unlock"),
+      store: storeParam,
+    },
+    async ({ path, store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        await vfs.unlock(sid, path, store);
+        return ok({ path, unlocked: true });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
+
+  // ── locks ───────────────────────────────────────────────────
+
+  server.tool(
+    "locks",
+    "List the unexpired locks in the session or store, sorted by path: " +
+      "each lock's path, owner session, whether it is mandatory, expiry and creation time. " +
+      "Errors: ENOTSUP if the storage backend has no locks.",
+    {
+      store: storeParam,
+    },
+    { readOnlyHint: true },
+    async ({ store }, extra) => {
+      try {
+        const sid = resolveSession(extra, fallbackSessionId);
+        const locks = await vfs.locks(sid, store);
+        return ok({
+          locks: locks.map((l) => ({
+            path: l.path,
+            owner: l.owner,
+            mandatory: l.mandatory,
+            expires_at: l.expiresAt.toISOString(),
+            created_at: l.createdAt.toISOString(),
+          })),
+          count: locks.length,
+        });
+      } catch (e) {
+        if (e instanceof VfsError) return err(`${e.code}: ${e.message}`);
+        return err("Internal server error");
+      }
+    },
+  );
 }
@@ -1,42 +1,410 @@
 import picomatch from "picomatch";
-import type { StorageBackend, GrepMatch } from "./storage/index.js";
+import type {
+  StorageBackend,
+  GrepMatch,
+  GrepCount,
+  StoreAcl,
+  FileRevision,
+  HistoryRetention,
+  SnapshotInfo,
+  SnapshotChange,
+  TrashEntry,
+  FileLock,
+  WriteMode,
+  ReadRange,
+  FileSlice,
+  ChildKey,
+  ChildOrder,
+  PathQuery,
+  TextSearchResult,
+  SemanticMatch,
+} from "./storage/index.js";
 import { validatePath, ancestorPaths, basename, parentPath } from "./paths.js";
+import { VfsError } from "./errors.js";
+import { isValidTenantId } from "./storage/namespace.js";
+import { defaultStoreAcl, hasAccess, type StoreAccess } from "./storage/acl.js";
+import { etagMismatch } from "./storage/etag.js";
+import { destinationExists, writeModeError } from "./storage/modes.js";
+import { lockedError } from "./storage/locks.js";
+import { sliceContent } from "./storage/range.js";
+import { childKey } from "./storage/listing.js";
+import { applyEdits, type TextEdit } from "./edit.js";
+import { globBase, globRegex } from "./glob.js";
+import { applyHunks, parsePatch, DEFAULT_FUZZ, type FilePatch, type HunkResult } from "./patch.js";
 
-/** Filesystem error with a POSIX-style error code. */
-export class VfsError extends Error {
-  constructor(
-    public readonly code: string,
-    message: string,
-  ) {
-    super(message);
-    this.name = "VfsError";
-  }
-}
+export { VfsError };
+export type { ReadRange };
 
 export interface LsEntry {
   name: string;
   type: "file" | "directory";
+  // Only in `long` listings:
+  /** Size of a file; null for directories. */
+  size?: number | null;
+  /** Current etag (content hash) of a file; null for directories. */
+  etag?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Order of an `ls` listing: `name` lists directories first, then by name;
+ * `mtime` puts the most recently modified first, and `size` the largest.
+ */
+export type LsSort = ChildOrder;
+
+export interface LsOptions {
+  /** Include size, etag and timestamps in every entry. */
+  long?: boolean;
+  sort?: LsSort;
+  /** Entries per page. Omit to list the whole directory at once. */
+  limit?: number;
+  /** `nextCursor` of the previous page, to continue after it. */
+  cursor?: string;
+}
+
+export interface LsPage {
+  entries: LsEntry[];
+  /** Pass as `cursor` to get the next page; null once the listing is complete. */
+  nextCursor: string | null;
+}
+
+export interface GlobOptions {
+  /** Match files (the default), directories, or both. */
+  type?: "file" | "directory" | "any";
+  /** Globs whose matches are left out, even if the pattern matches them. */
+  ignore?: string[];
+  /** Paths per page. Omit to return every match at once. */
+  limit?: number;
+  /** `nextCursor` of the previous page, to continue after it. */
+  cursor?: string;
+}
+
+export interface GlobPage {
+  /** Matching paths, sorted. */
+  paths: string[];
+  /** Pass as `cursor` to get the next page; null once every match has been returned. */
+  nextCursor: string | null;
+}
+
+/** One node of a `tree` listing. */
+export interface TreeNode {
+  name: string;
+  path: string;
+  type: "file" | "directory";
+  /** Size of a file, or the total size of the files below a directory. */
+  size: number;
+  /** Files below a directory, at any depth. */
+  files?: number;
+  /** Directories below a directory, at any depth. */
+  dirs?: number;
+  /** Entries of a directory within the depth limit, directories first; omitted below it. */
+  children?: TreeNode[];
+}
+
+/** Options of `grepWithOptions`, after grep's flags. */
+export interface GrepSearchOptions {
+  /** Glob limiting which files are searched, matched as `glob` matches. */
+  pathFilter?: string;
+  store?: string;
+  /** Match regardless of case (-i). */
+  ignoreCase?: boolean;
+  /** Search for the pattern as literal text rather than a regex (-F). */
+  fixedString?: boolean;
+  /** Lines of context before each match (-B). */
+  before?: number;
+  /** Lines of context after each match (-A). */
+  after?: number;
+  /** Return at most this many matching lines (files, in the other modes); the rest is reported as truncated. */
+  maxResults?: number;
+  /** `content` (default) returns matching lines, `files_with_matches` paths (-l), `count` lines per file (-c). */
+  mode?: "content" | "files_with_matches" | "count";
+}
+
+/** Options of `search`. */
+export interface SearchOptions {
+  store?: string;
+  /** Glob limiting which files are searched, matched as `glob` matches. */
+  pathFilter?: string;
+  /** Text search configuration to use, e.g. `english` (the default), `german` or `simple`. */
+  language?: string;
+  /** Return at most this many files. Omit for all matches. */
+  limit?: number;
 }
 
+/** Options of `semanticSearch`. */
+export interface SemanticSearchOptions {
+  store?: string;
+  /** Glob limiting which files are searched, matched as `glob` matches. */
+  pathFilter?: string;
+  /** Return at most this many chunks. */
+  limit: number;
+}
+
+/** A chunk `semanticSearch` found, with its text. */
+export interface SemanticSearchHit extends SemanticMatch {
+  /** The chunk's lines, each with its terminating newline. */
+  text: string;
+}
+
+/** What `grepWithOptions` found, in the shape its mode asks for. */
+export type GrepResult =
+  | { mode: "content"; matches: GrepMatch[]; truncated: boolean }
+  | { mode: "files_with_matches"; files: string[]; truncated: boolean }
+  | { mode: "count"; counts: GrepCount[]; truncated: boolean };
+
 export interface StatResult {
   exists: boolean;
   type?: "file" | "directory";
   size?: number;
+  /** Current etag of a file; pass it as `ifMatch` to write only if nothing changed since. */
+  etag?: string;
   children?: number;
 }
 
+/** One step of a `batch`. Fields mirror the arguments of the method of the same name. */
+export type BatchOperation =
+  | { op: "write"; path: string; content: string; mode?: WriteMode; ifMatch?: string }
+  | { op: "append"; path: string; content: string; ifMatch?: string }
+  | { op: "mkdir"; path: string }
+  | { op: "rm"; path: string; permanent?: boolean; ifMatch?: string }
+  | { op: "mv"; source: string; destination: string; overwrite?: boolean; ifMatch?: string };
+
+/** What a `batch` step did, in the shape of the corresponding tool's result. */
+export type BatchResult =
+  | { op: "write"; path: string; size: number; has_parents: boolean; etag: string }
+  | { op: "append"; path: string; appended_bytes: number; etag: string }
+  | { op: "mkdir"; path: string; already_existed: boolean }
+  | { op: "rm"; path: string; deleted: number; trashed: boolean }
+  | { op: "mv"; source: string; destination: string };
+
+/** What a `patch` does (or, in a dry run, would do) to one file. */
+export interface PatchFileResult {
+  path: string;
+  /** Previous path of a renamed file. */
+  from?: string;
+  action: "create" | "modify" | "rename" | "delete";
+  hunks: HunkResult[];
+  /** Why the file can't be patched at all, e.g. it is missing or already exists. */
+  error?: string;
+}
+
+export interface PatchResult {
+  applied: boolean;
+  files: PatchFileResult[];
+}
+
+export interface VirtualFSOptions {
+  /** Tenant whose sessions and stores this instance operates on. Omit for single-tenant use. */
+  tenant?: string;
+  /**
+   * Caller identity checked against store ACLs. Defaults to the session ID of
+   * each call, which is what unauthenticated (stdio) callers are known by.
+   */
+  principal?: string;
+  /** Principals that may access and administer every store, and create stores when auto-creation is off. */
+  admins?: string[];
+  /** Create a store on first use (default true). When false, only admins can create stores. */
+  autoCreateStores?: boolean;
+  /**
+   * Move what `rm` removes into the namespace's trash instead of deleting it.
+   * Entries older than `maxAgeDays` are purged automatically; null keeps them until purged.
+   */
+  trash?: { maxAgeDays: number | null };
+}
+
+/**
+ * Fail early, before any side effects such as creating parent directories, when
+ * an `ifMatch` precondition already doesn't hold. The backend re-checks it atomically.
+ */
+function checkIfMatch(path: string, etag: string | null, ifMatch: string | undefined): void {
+  if (ifMatch !== undefined && etag !== ifMatch) throw etagMismatch(path);
+}
+
+/** Order of directory listings: directories first, then by name. */
+function compareEntries(
+  a: { name: string; type: "file" | "directory" },
+  b: { name: string; type: "file" | "directory" },
+): number {
+  if (a.type !== b.type) {
+    return a.type === "directory" ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+}
+
+/** An opaque cursor pointing just past `key`. */
+function encodeLsCursor(sort: LsSort, key: ChildKey): string {
+  return Buffer.from(JSON.stringify({ sort, ...key })).toString("base64url");
+}
+
+function decodeLsCursor(cursor: string, sort: LsSort): ChildKey {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    decoded = null;
+  }
+  const key = decoded as Partial<ChildKey> & { sort?: unknown };
+  if (
+    typeof key !== "object" ||
+    key === null ||
+    typeof key.name !== "string" ||
+    (key.type !== "file" && key.type !== "directory") ||
+    typeof key.size !== "number" ||
+    typeof key.mtime !== "number"
+  ) {
+    throw new VfsError("EINVAL", "Invalid cursor");
+  }
+  if (key.sort !== sort) {
+    throw new VfsError("EINVAL", `Cursor is for a listing sorted by ${String(key.sort)}, not ${sort}`);
+  }
+  return { name: key.name, type: key.type, size: key.size, mtime: key.mtime };
+}
+
+/** An opaque cursor pointing just past `path` in a glob's results. */
+function encodeGlobCursor(path: string): string {
+  return Buffer.from(JSON.stringify({ after: path })).toString("base64url");
+}
+
+function decodeGlobCursor(cursor: string): string {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    decoded = null;
+  }
+  const after = (decoded as { after?: unknown } | null)?.after;
+  if (typeof after !== "string") {
+    throw new VfsError("EINVAL", "Invalid cursor");
+  }
+  return after;
+}
+
+/** Match paths against `tree` globs: patterns without a slash match names, others absolute paths. */
+function treeMatcher(patterns: string[] | undefined): ((path: string) => boolean) | null {
+  if (!patterns?.length) return null;
+  const matchers = patterns.map((pattern) => {
+    const isMatch = picomatch(pattern, { dot: true });
+    return pattern.includes("/") ? isMatch : (path: string) => isMatch(basename(path));
+  });
+  return (path) => matchers.some((isMatch) => isMatch(path));
+}
+
+/**
+ * Fill in a directory's totals from its whole subtree, then drop the children
+ * of directories at `maxDepth`. With `prune`, directories left without any
+ * files are removed.
+ */
+function summarizeTree(dir: TreeNode, depth: number, maxDepth: number | undefined, prune: boolean): void {
+  const kept: TreeNode[] = [];
+  let size = 0;
+  let files = 0;
+  let dirs = 0;
+  for (const child of dir.children ?? []) {
+    if (child.type === "directory") {
+      summarizeTree(child, depth + 1, maxDepth, prune);
+      if (prune && child.files === 0) continue;
+      files += child.files ?? 0;
+      dirs += 1 + (child.dirs ?? 0);
+    } else {
+      files++;
+    }
+    size += child.size;
+    kept.push(child);
+  }
+  dir.size = size;
+  dir.files = files;
+  dir.dirs = dirs;
+  if (maxDepth !== undefined && depth >= maxDepth) delete dir.children;
+  else dir.children = kept.sort(compareEntries);
+}
+
+/** Attempts `edit` makes before giving up on a file that keeps changing under it. */
+const MAX_EDIT_ATTEMPTS = 5;
+
+/** Lease length of a lock taken without an explicit TTL. */
+const DEFAULT_LOCK_TTL_SECONDS = 300;
+
 /**
  * Virtual filesystem with POSIX-like semantics.
  * Stateless w.r.t. session — each method takes sessionId as a parameter.
  * Sessions are auto-provisioned on first use.
  */
-const MAX_GLOB_PATHS = 10_000;
-
 export class VirtualFS {
-  constructor(private backend: StorageBackend) {}
+  constructor(
+    private backend: StorageBackend,
+    private opts: VirtualFSOptions = {},
+  ) {
+    if (opts.tenant !== undefined && !isValidTenantId(opts.tenant)) {
+      throw new Error(`Invalid tenant ID: ${opts.tenant}`);
+    }
+    if (opts.trash && !backend.trashNode) {
+      throw new Error("Trash is enabled but the storage backend does not support it");
+    }
+  }
+
+  /** Whether `rm` moves removed paths to the trash by default. */
+  get trashEnabled(): boolean {
+    return this.opts.trash !== undefined;
+  }
+
+  /**
+   * A view of the same backend scoped to `tenant`'s sessions and stores,
+   * acting as `principal` (or as each call's session ID when omitted).
+   */
+  forTenant(tenant: string, principal?: string): VirtualFS {
+    return new VirtualFS(this.backend, { ...this.opts, tenant, principal });
+  }
+
+  private async ns(sessionId: string, store: string | undefined, access: StoreAccess): Promise<string> {
+    if (store) {
+      await this.authorize(sessionId, store, access);
+    }
+    return this.backend.resolveNamespace(sessionId, store, this.opts.tenant);
+  }
+
+  // ── Access control ─────────────────────────────────────────
 
-  private ns(sessionId: string, store?: string): Promise<string> {
-    return this.backend.resolveNamespace(sessionId, store);
+  private principal(sessionId: string): string {
+    return this.opts.principal ?? sessionId;
+  }
+
+  private isAdmin(principal: string): boolean {
+    return this.opts.admins?.includes(principal) ?? false;
+  }
+
+  /**
+   * Check the caller's access to a store. A store that doesn't exist yet is
+   * created, owned by the caller, unless auto-creation is disabled.
+   */
+  private async authorize(sessionId: string, store: string, access: StoreAccess): Promise<void> {
+    const principal = this.principal(sessionId);
+    let acl = await this.backend.getStoreAcl(store, this.opts.tenant);
+    if (!acl) {
+      if (this.opts.autoCreateStores === false && !this.isAdmin(principal)) {
+        throw new VfsError("EACCES", `Store does not exist and auto-creation is disabled: ${store}`);
+      }
+      await this.backend.ensureStore(store, this.opts.tenant, defaultStoreAcl(principal));
+      // Another caller may have created it first, with an ACL of its own
+      acl = await this.backend.getStoreAcl(store, this.opts.tenant);
+      if (!acl) throw new VfsError("ENOENT", `No such store: ${store}`);
+    }
+    if (!this.isAdmin(principal) && !hasAccess(acl, principal, access)) {
+      throw new VfsError("EACCES", `No ${access} access to store: ${store}`);
+    }
+  }
+
+  /** Load a store's ACL for the owner or an admin to change. */
+  private async aclForAdmin(sessionId: string, store: string): Promise<StoreAcl> {
+    const principal = this.principal(sessionId);
+    const acl = await this.backend.getStoreAcl(store, this.opts.tenant);
+    if (!acl) {
+      throw new VfsError("ENOENT", `No such store: ${store}`);
+    }
+    if (acl.owner !== principal && !this.isAdmin(principal)) {
+      throw new VfsError("EACCES", `Only the store owner or an admin can change access to: ${store}`);
+    }
+    return acl;
   }
 
   private async ensureParents(
@@ -52,7 +420,7 @@ export class VirtualFS {
 
   async stat(sessionId: string, path: string, store?: string): Promise<StatResult> {
     const p = validatePath(path);
-    const nsId = await this.ns(sessionId, store);
+    const nsId = await this.ns(sessionId, store, "read");
     const node = await this.backend.getNode(nsId, p);
 
     if (!node) {
@@ -64,6 +432,7 @@ export class VirtualFS {
         exists: true,
         type: "file",
         size: (node.content ?? "").length,
+        etag: node.etag ?? undefined,
       };
     }
 
@@ -75,9 +444,56 @@ export class VirtualFS {
     };
   }
 
-  async read(sessionId: string, path: string, store?: string): Promise<string> {
+  /** Read a file, or the content it had at `version` (see `history`). */
+  async read(sessionId: string, path: string, store?: string, version?: number): Promise<string> {
     const p = validatePath(path);
-    const nsId = await this.ns(sessionId, store);
+    const nsId = await this.ns(sessionId, store, "read");
+    if (version !== undefined) {
+      return this.revisionContent(nsId, p, version);
+    }
+    return (await this.readFile(nsId, p)).content;
+  }
+
+  /** Read a file together with its current etag. */
+  async readWithEtag(
+    sessionId: string,
+    path: string,
+    store?: string,
+  ): Promise<{ content: string; etag: string | null }> {
+    const p = validatePath(path);
+    const nsId = await this.ns(sessionId, store, "read");
+    return this.readFile(nsId, p);
+  }
+
+  /**
+   * Read part of a file (see ReadRange), e.g. the last lines of a long log,
+   * without transferring the rest from storage. With `version`, slices that
+   * revision instead (its etag is null).
+   */
+  async readRange(
+    sessionId: string,
+    path: string,
+    range: ReadRange,
+    store?: string,
+    version?: number,
+  ): Promise<FileSlice> {
+    const p = validatePath(path);
+    const nsId = await this.ns(sessionId, store, "read");
+    if (version !== undefined) {
+      return sliceContent(await this.revisionContent(nsId, p, version), null, range);
+    }
+    const slice = await this.backend.readRange(nsId, p, range);
+    if (slice === null) {
+      const node = await this.backend.getNode(nsId, p);
+      if (node?.nodeType === "directory") {
+        throw new VfsError("EISDIR", `Is a directory: ${p}`);
+      }
+      throw new VfsError("ENOENT", `No such file: ${p}`);
+    }
+    return slice;
+  }
+
+  private async readFile(nsId: string, p: string): Promise<{ content: string; etag: string | null }> {
     const node = await this.backend.getNode(nsId, p);
 
     if (!node) {
@@ -86,59 +502,147 @@ export class VirtualFS {
     if (node.nodeType === "directory") {
       throw new VfsError("EISDIR", `Is a directory: ${p}`);
     }
-    return node.content ?? "";
+    return { content: node.content ?? "", etag: node.etag };
   }
 
+  /**
+   * Create or overwrite a file. With `ifMatch`, the write only happens if the
+   * file's current etag is still that value, and fails with ECONFLICT otherwise.
+   * `mode` can require that nothing exists at the path yet (EEXIST otherwise)
+   * or that a file does (ENOENT otherwise).
+   */
   async write(
     sessionId: string,
     path: string,
     content: string,
     store?: string,
-  ): Promise<{ has_parents: boolean }> {
+    opts: { ifMatch?: string; mode?: WriteMode } = {},
+  ): Promise<{ has_parents: boolean; etag: string }> {
     const p = validatePath(path);
+    const nsId = await this.ns(sessionId, store, "write");
+    return this.writeIn(nsId, sessionId, p, content, opts);
+  }
+
+  private async writeIn(
+    nsId: string,
+    sessionId: string,
+    p: string,
+    content: string,
+    opts: { ifMatch?: string; mode?: WriteMode },
+  ): Promise<{ has_parents: boolean; etag: string }> {
     if (p === "/") {
       throw new VfsError("EINVAL", "Cannot write to root directory");
     }
+    await this.checkLocks(nsId, sessionId, p);
 
-    const nsId = await this.ns(sessionId, store);
-
+    const mode = opts.mode ?? "upsert";
     const existing = await this.backend.getNode(nsId, p);
+    if (mode === "create_only" && existing) {
+      throw writeModeError(p, mode);
+    }
     if (existing?.nodeType === "directory") {
       throw new VfsError("EISDIR", `Is a directory: ${p}`);
     }
+    if (mode === "overwrite_only" && !existing) {
+      throw writeModeError(p, mode);
+    }
+    checkIfMatch(p, existing?.etag ?? null, opts.ifMatch);
 
     const ancestors = ancestorPaths(p);
     const hasParents = ancestors.length > 1;
     await this.ensureParents(nsId, p);
-    await this.backend.upsertFile(nsId, p, content);
-    return { has_parents: hasParents };
+    const etag = await this.backend.upsertFile(nsId, p, content, { ifMatch: opts.ifMatch, mode });
+    return { has_parents: hasParents, etag };
   }
 
+  /** Append to a file, creating it if needed. `ifMatch` works as for `write`. */
   async append(
     sessionId: string,
     path: string,
     content: string,
     store?: string,
-  ): Promise<void> {
+    opts: { ifMatch?: string } = {},
+  ): Promise<{ etag: string }> {
     const p = validatePath(path);
+    const nsId = await this.ns(sessionId, store, "write");
+    return this.appendIn(nsId, sessionId, p, content, opts);
+  }
+
+  private async appendIn(
+    nsId: string,
+    sessionId: string,
+    p: string,
+    content: string,
+    opts: { ifMatch?: string },
+  ): Promise<{ etag: string }> {
     if (p === "/") {
       throw new VfsError("EINVAL", "Cannot append to root directory");
     }
-
-    const nsId = await this.ns(sessionId, store);
+    await this.checkLocks(nsId, sessionId, p);
 
     const existing = await this.backend.getNode(nsId, p);
     if (existing?.nodeType === "directory") {
       throw new VfsError("EISDIR", `Is a directory: ${p}`);
     }
 
+    checkIfMatch(p, existing?.etag ?? null, opts.ifMatch);
+
     await this.ensureParents(nsId, p);
-    await this.backend.appendFile(nsId, p, content);
+    return { etag: await this.backend.appendFile(nsId, p, content, opts.ifMatch) };
+  }
+
+  /**
+   * Replace exact strings in an existing file (see applyEdits); returns how many
+   * occurrences were replaced. The result is written back only if the file is
+   * unchanged since it was read, so a concurrent write or append is never lost:
+   * the edits are redone on the new content instead. With `ifMatch` nothing is
+   * retried and a changed file fails with ECONFLICT.
+   */
+  async edit(
+    sessionId: string,
+    path: string,
+    edits: TextEdit[],
+    store?: string,
+    opts: { ifMatch?: string } = {},
+  ): Promise<{ replacements: number; size: number; etag: string }> {
+    const p = validatePath(path);
+    const nsId = await this.ns(sessionId, store, "write");
+    await this.checkLocks(nsId, sessionId, p);
+
+    for (let attempt = 1; ; attempt++) {
+      const { content, etag } = await this.readFile(nsId, p);
+      checkIfMatch(p, etag, opts.ifMatch);
+      const edited = applyEdits(p, content, edits);
+      try {
+        const newEtag = await this.backend.upsertFile(nsId, p, edited.content, {
+          ifMatch: etag ?? undefined,
+          mode: "overwrite_only",
+        });
+        return { replacements: edited.replacements, size: edited.content.length, etag: newEtag };
+      } catch (e) {
+        const raced = e instanceof VfsError && e.code === "ECONFLICT";
+        if (!raced || opts.ifMatch !== undefined || attempt >= MAX_EDIT_ATTEMPTS) throw e;
+      }
+    }
   }
 
   async ls(sessionId: string, path: string, store?: string): Promise<LsEntry[]> {
+    return (await this.lsPage(sessionId, path, store)).entries;
+  }
+
+  /**
+   * List a directory a page at a time. Pages continue from the cursor's
+   * position in the sort order, so entries created or removed between calls
+   * don't shift the ones after them.
+   */
+  async lsPage(sessionId: string, path: string, store?: string, opts: LsOptions = {}): Promise<LsPage> {
     const p = validatePath(path);
-    const nsId = await this.ns(sessionId, store);
+    const sort = opts.sort ?? "name";
+    if (opts.limit !== undefined && (!Number.isInteger(opts.limit) || opts.limit < 1)) {
+      throw new VfsError("EINVAL", `limit must be a positive integer, got ${opts.limit}`);
+    }
+    const after = opts.cursor === undefined ? undefined : decodeLsCursor(opts.cursor, sort);
+    const nsId = await this.ns(sessionId, store, "read");
     const node = await this.backend.getNode(nsId, p);
 
     if (!node) {
@@ -148,16 +652,81 @@ export class VirtualFS {
       throw new VfsError("ENOTDIR", `Not a directory: ${p}`);
     }
 
-    const children = await this.backend.listChildren(nsId, p);
+    // One entry past the page tells whether another page follows.
+    const children = await this.backend.listChildren(nsId, p, {
+      details: opts.long,
+      order: sort,
+      after,
+      limit: opts.limit === undefined ? undefined : opts.limit + 1,
+    });
+    const page = opts.limit === undefined ? children : children.slice(0, opts.limit);
 
-    return children
-      .map((c) => ({ name: basename(c.path), type: c.nodeType }))
-      .sort((a, b) => {
-        if (a.type !== b.type) {
-          return a.type === "directory" ? -1 : 1;
-        }
-        return a.name.localeCompare(b.name);
-      });
+    return {
+      entries: page.map((info) =>
+        opts.long
+          ? {
+              name: basename(info.path),
+              type: info.nodeType,
+              size: info.size,
+              etag: info.etag,
+              createdAt: info.createdAt,
+              updatedAt: info.updatedAt,
+            }
+          : { name: basename(info.path), type: info.nodeType },
+      ),
+      nextCursor: page.length < children.length ? encodeLsCursor(sort, childKey(page[page.length - 1])) : null,
+    };
+  }
+
+  /**
+   * Everything below `path` as a nested listing, read in one backend call.
+   * Directories carry the size, file and directory counts of their whole
+   * subtree, even where `maxDepth` (levels below `path`) cuts off their children.
+   * `include` keeps only matching files (and the directories leading to them);
+   * `exclude` drops matching files and directories with all they contain.
+   */
+  async tree(
+    sessionId: string,
+    path: string,
+    store?: string,
+    opts: { maxDepth?: number; include?: string[]; exclude?: string[] } = {},
+  ): Promise<TreeNode> {
+    const p = validatePath(path);
+    if (opts.maxDepth !== undefined && (!Number.isInteger(opts.maxDepth) || opts.maxDepth < 0)) {
+      throw new VfsError("EINVAL", `max_depth must be a non-negative integer, got ${opts.maxDepth}`);
+    }
+    const nsId = await this.ns(sessionId, store, "read");
+    const root = await this.backend.getNode(nsId, p);
+
+    if (!root) {
+      throw new VfsError("ENOENT", `No such file or directory: ${p}`);
+    }
+    if (root.nodeType === "file") {
+      return { name: basename(p), path: p, type: "file", size: (root.content ?? "").length };
+    }
+
+    const isIncluded = treeMatcher(opts.include);
+    const isExcluded = treeMatcher(opts.exclude);
+
+    const top: TreeNode = { name: basename(p), path: p, type: "directory", size: 0, children: [] };
+    const dirs = new Map([[p, top]]);
+    // Sorted by code unit, every directory comes before its contents
+    const nodes = (await this.backend.listTree(nsId, p)).sort((a, b) => (a.path < b.path ? -1 : 1));
+    for (const node of nodes) {
+      // No parent means an excluded directory
+      const parent = dirs.get(parentPath(node.path));
+      if (!parent || isExcluded?.(node.path)) continue;
+      if (node.nodeType === "directory") {
+        const dir: TreeNode = { name: basename(node.path), path: node.path, type: "directory", size: 0, children: [] };
+        dirs.set(node.path, dir);
+        parent.children?.push(dir);
+      } else if (!isIncluded || isIncluded(node.path)) {
+        parent.children?.push({ name: basename(node.path), path: node.path, type: "file", size: node.size ?? 0 });
+      }
+    }
+
+    summarizeTree(top, 0, opts.maxDepth, isIncluded !== null);
+    return top;
   }
 
   async mkdir(
@@ -167,8 +736,12 @@ export class VirtualFS {
   ): Promise<{ already_existed: boolean }> {
     const p = validatePath(path);
     if (p === "/") return { already_existed: true };
+    const nsId = await this.ns(sessionId, store, "write");
+    return this.mkdirIn(nsId, p);
+  }
 
-    const nsId = await this.ns(sessionId, store);
+  private async mkdirIn(nsId: string, p: string): Promise<{ already_existed: boolean }> {
+    if (p === "/") return { already_existed: true };
 
     const existing = await this.backend.getNode(nsId, p);
     if (existing?.nodeType === "file") {
@@ -181,31 +754,69 @@ export class VirtualFS {
     return { already_existed: alreadyExisted };
   }
 
-  async rm(sessionId: string, path: string, store?: string): Promise<number> {
+  /**
+   * Remove a node and its descendants, returning how many were removed. With trash
+   * enabled they go to the trash unless `permanent` is set. `ifMatch` works as for `write`.
+   */
+  async rm(
+    sessionId: string,
+    path: string,
+    store?: string,
+    opts: { permanent?: boolean; ifMatch?: string } = {},
+  ): Promise<number> {
     const p = validatePath(path);
+    const nsId = await this.ns(sessionId, store, "write");
+    return this.rmIn(nsId, sessionId, p, opts);
+  }
+
+  private async rmIn(
+    nsId: string,
+    sessionId: string,
+    p: string,
+    opts: { permanent?: boolean; ifMatch?: string },
+  ): Promise<number> {
     if (p === "/") {
       throw new VfsError("EINVAL", "Cannot remove root directory");
     }
-
-    const nsId = await this.ns(sessionId, store);
     const node = await this.backend.getNode(nsId, p);
 
     if (!node) {
       throw new VfsError("ENOENT", `No such file or directory: ${p}`);
     }
+    checkIfMatch(p, node.etag, opts.ifMatch);
+    await this.checkLocks(nsId, sessionId, p);
 
-    return this.backend.deleteNode(nsId, p);
+    if (this.opts.trash && !opts.permanent) {
+      await this.expireTrash(nsId);
+      return this.trashBackend().trashNode(nsId, p, opts.ifMatch);
+    }
+    return this.backend.deleteNode(nsId, p, opts.ifMatch);
   }
 
+  /**
+   * Move a file or directory. `ifMatch` is checked against the source, as for `write`.
+   * An existing destination is an error unless `overwrite` is set and both are files.
+   */
   async move(
     sessionId: string,
     source: string,
     destination: string,
     store?: string,
+    opts: { ifMatch?: string; overwrite?: boolean } = {},
   ): Promise<void> {
     const src = validatePath(source);
     const dest = validatePath(destination);
+    const nsId = await this.ns(sessionId, store, "write");
+    await this.moveIn(nsId, sessionId, src, dest, opts);
+  }
 
+  private async moveIn(
+    nsId: string,
+    sessionId: string,
+    src: string,
+    dest: string,
+    opts: { ifMatch?: string; overwrite?: boolean },
+  ): Promise<void> {
     if (src === "/") {
       throw new VfsError("EINVAL", "Cannot move root directory");
     }
@@ -216,16 +827,27 @@ export class VirtualFS {
       throw new VfsError("EINVAL", "Cannot move a directory into itself");
     }
 
-    const nsId = await this.ns(sessionId, store);
-
     const srcNode = await this.backend.getNode(nsId, src);
     if (!srcNode) {
       throw new VfsError("ENOENT", `No such file or directory: ${src}`);
     }
+    checkIfMatch(src, srcNode.etag, opts.ifMatch);
+    await this.checkLocks(nsId, sessionId, src);
+    await this.checkLocks(nsId, sessionId, dest);
 
     const destNode = await this.backend.getNode(nsId, dest);
     if (destNode) {
-      throw new VfsError("EEXIST", `Destination already exists: ${dest}`);
+      if (!opts.overwrite) {
+        throw destinationExists(dest);
+      }
+      if (destNode.nodeType === "directory") {
+        throw new VfsError("EISDIR", `Cannot overwrite a directory: ${dest}`);
+      }
+      if (srcNode.nodeType === "directory") {
+        throw new VfsError("ENOTDIR", `Cannot overwrite a file with a directory: ${dest}`);
+      }
+      // Like rename(2): moving a file onto itself changes nothing
+      if (dest === src) return;
     }
 
     const destParent = parentPath(dest);
@@ -233,20 +855,276 @@ export class VirtualFS {
       await this.ensureParents(nsId, dest);
     }
 
-    await this.backend.moveNode(nsId, src, dest);
+    await this.backend.moveNode(nsId, src, dest, { ifMatch: opts.ifMatch, overwrite: opts.overwrite });
+  }
+
+  /**
+   * Copy a file or directory tree, optionally between namespaces: `sourceStore`
+   * and `destStore` name the stores to copy from and to (omit either for the
+   * session itself), so scratch work can be promoted into a store, or a session
+   * seeded from one, in a single step. Conflicts are handled as for `move`.
+   * Copies are timestamped now unless `preserveTimestamps` is set.
+   * Returns the number of files and directories copied.
+   */
+  async copy(
+    sessionId: string,
+    source: string,
+    destination: string,
+    opts: { sourceStore?: string; destStore?: string; overwrite?: boolean; preserveTimestamps?: boolean } = {},
+  ): Promise<number> {
+    const src = validatePath(source);
+    const dest = validatePath(destination);
+    if (src === "/") {
+      throw new VfsError("EINVAL", "Cannot copy root directory");
+    }
+    if (dest === "/") {
+      throw new VfsError("EINVAL", "Cannot copy to root directory");
+    }
+    const srcNs = await this.ns(sessionId, opts.sourceStore, "read");
+    const destNs = await this.ns(sessionId, opts.destStore, "write");
+    if (srcNs === destNs && dest.startsWith(src + "/")) {
+      throw new VfsError("EINVAL", "Cannot copy a directory into itself");
+    }
+
+    const srcNode = await this.backend.getNode(srcNs, src);
+    if (!srcNode) {
+      throw new VfsError("ENOENT", `No such file or directory: ${src}`);
+    }
+    await this.checkLocks(destNs, sessionId, dest);
+
+    const destNode = await this.backend.getNode(destNs, dest);
+    if (destNode) {
+      if (!opts.overwrite) {
+        throw destinationExists(dest);
+      }
+      if (destNode.nodeType === "directory") {
+        throw new VfsError("EISDIR", `Cannot overwrite a directory: ${dest}`);
+      }
+      if (srcNode.nodeType === "directory") {
+        throw new VfsError("ENOTDIR", `Cannot overwrite a file with a directory: ${dest}`);
+      }
+      // As with move, a file copied onto itself stays as it is
+      if (srcNs === destNs && dest === src) return 0;
+    }
+
+    if (parentPath(dest) !== "/") {
+      await this.ensureParents(destNs, dest);
+    }
+    return this.backend.copyNode(srcNs, src, destNs, dest, {
+      overwrite: opts.overwrite,
+      preserveTimestamps: opts.preserveTimestamps,
+    });
+  }
+
+  /**
+   * Apply `operations` in order as one transaction: either all of them take effect
+   * or, if one fails, none do. The error names the failing operation (1-based).
+   * Each operation behaves exactly like the method of the same name.
+   */
+  async batch(sessionId: string, operations: BatchOperation[], store?: string): Promise<BatchResult[]> {
+    if (!this.backend.withTransaction) {
+      throw new VfsError("ENOTSUP", "This storage backend does not support transactions");
+    }
+    const nsId = await this.ns(sessionId, store, "write");
+    return this.backend.withTransaction(nsId, async () => {
+      const results: BatchResult[] = [];
+      for (const [i, op] of operations.entries()) {
+        try {
+          results.push(await this.runOperation(nsId, sessionId, op));
+        } catch (e) {
+          if (!(e instanceof VfsError)) throw e;
+          throw new VfsError(e.code, `Operation ${i + 1} (${op.op}) failed: ${e.message}`);
+        }
+      }
+      return results;
+    });
+  }
+
+  /**
+   * Apply a unified diff (see parsePatch), creating, modifying, renaming and
+   * deleting files. Hunks may land at an offset or with fuzz (see applyHunks).
+   * Either every hunk of every file applies and all the changes are made in one
+   * transaction, or nothing changes and the call fails with ECONFLICT naming
+   * what didn't apply. With `dryRun` nothing is written; the result reports
+   * how each hunk would apply instead.
+   */
+  async patch(
+    sessionId: string,
+    diff: string,
+    store?: string,
+    opts: { dryRun?: boolean; fuzz?: number } = {},
+  ): Promise<PatchResult> {
+    const files = parsePatch(diff);
+    const nsId = await this.ns(sessionId, store, opts.dryRun ? "read" : "write");
+    const { results, operations } = await this.planPatch(nsId, files, opts.fuzz ?? DEFAULT_FUZZ);
+    if (opts.dryRun) return { applied: false, files: results };
+    if (!this.backend.withTransaction) {
+      throw new VfsError("ENOTSUP", "This storage backend does not support transactions");
+    }
+
+    const failures = results.flatMap((r) => {
+      const failed = r.hunks.filter((h) => !h.applied).map((h) => h.hunk);
+      if (r.error !== undefined) return [`${r.path}: ${r.error}`];
+      return failed.length > 0 ? [`${r.path}: hunk ${failed.join(", ")} failed`] : [];
+    });
+    if (failures.length > 0) {
+      throw new VfsError("ECONFLICT", `Patch does not apply, nothing was changed (${failures.join("; ")})`);
+    }
+    await this.backend.withTransaction(nsId, async () => {
+      for (const op of operations) await this.runOperation(nsId, sessionId, op);
+    });
+    return { applied: true, files: results };
+  }
+
+  /**
+   * Work out each file's patched content and the operations that write it.
+   * Files read here are written back only if their etag still matches, so a
+   * change made in between fails the patch rather than being overwritten.
+   */
+  private async planPatch(
+    nsId: string,
+    files: FilePatch[],
+    fuzz: number,
+  ): Promise<{ results: PatchFileResult[]; operations: BatchOperation[] }> {
+    // Content earlier sections leave at a path (null once removed), so later ones build on it
+    const planned = new Map<string, string | null>();
+    const current = async (p: string): Promise<{ content: string; etag?: string } | null> => {
+      const content = planned.get(p);
+      if (content !== undefined) return content === null ? null : { content };
+      const node = await this.backend.getNode(nsId, p);
+      if (!node) return null;
+      if (node.nodeType === "directory") throw new VfsError("EISDIR", `Is a directory: ${p}`);
+      return { content: node.content ?? "", etag: node.etag ?? undefined };
+    };
+
+    const results: PatchFileResult[] = [];
+    const operations: BatchOperation[] = [];
+    for (const file of files) {
+      const to = file.newPath === null ? null : validatePath(file.newPath);
+      // Without git's rename headers, differing names (say foo.orig and foo) patch the new one
+      const from = file.oldPath === null ? null : file.rename || to === null ? validatePath(file.oldPath) : to;
+      const result: PatchFileResult = {
+        path: to ?? from ?? "/",
+        action: from === null ? "create" : to === null ? "delete" : from !== to ? "rename" : "modify",
+        hunks: [],
+      };
+      if (result.action === "rename" && from !== null) result.from = from;
+      results.push(result);
+
+      try {
+        const source = from === null ? null : await current(from);
+        if (from !== null && source === null) {
+          result.error = `No such file: ${from}`;
+          continue;
+        }
+        if (to !== null && to !== from && (await current(to)) !== null) {
+          result.error = `File already exists: ${to}`;
+          continue;
+        }
+        const patched = applyHunks(source?.content ?? "", file.hunks, fuzz);
+        result.hunks = patched.results;
+        if (patched.results.some((h) => !h.applied)) continue;
+
+        if (to === null) {
+          if (patched.content !== "") {
+            result.error = "File has content the patch does not remove";
+            continue;
+          }
+          planned.set(result.path, null);
+          operations.push({ op: "rm", path: result.path, ifMatch: source?.etag });
+          continue;
+        }
+        if (from !== null && from !== to) {
+          planned.set(from, null);
+          operations.push({ op: "mv", source: from, destination: to, ifMatch: source?.etag });
+          if (file.hunks.length === 0) {
+            planned.set(to, patched.content);
+            continue;
+          }
+        }
+        operations.push({
+          op: "write",
+          path: to,
+          content: patched.content,
+          mode: from === null ? "create_only" : "overwrite_only",
+          // A renamed file's etag was checked by the move
+          ifMatch: from === to ? source?.etag : undefined,
+        });
+        planned.set(to, patched.content);
+      } catch (e) {
+        if (!(e instanceof VfsError)) throw e;
+        result.error = e.message;
+      }
+    }
+    return { results, operations };
+  }
+
+  private async runOperation(nsId: string, sessionId: string, op: BatchOperation): Promise<BatchResult> {
+    switch (op.op) {
+      case "write": {
+        const result = await this.writeIn(nsId, sessionId, validatePath(op.path), op.content, op);
+        return { op: "write", path: op.path, size: op.content.length, ...result };
+      }
+      case "append": {
+        const { etag } = await this.appendIn(nsId, sessionId, validatePath(op.path), op.content, op);
+        return { op: "append", path: op.path, appended_bytes: op.content.length, etag };
+      }
+      case "mkdir": {
+        const result = await this.mkdirIn(nsId, validatePath(op.path));
+        return { op: "mkdir", path: op.path, ...result };
+      }
+      case "rm": {
+        const deleted = await this.rmIn(nsId, sessionId, validatePath(op.path), op);
+        return { op: "rm", path: op.path, deleted, trashed: this.trashEnabled && !op.permanent };
+      }
+      case "mv": {
+        await this.moveIn(nsId, sessionId, validatePath(op.source), validatePath(op.destination), op);
+        return { op: "mv", source: op.source, destination: op.destination };
+      }
+    }
   }
 
   async glob(sessionId: string, pattern: string, store?: string): Promise<string[]> {
-    const nsId = await this.ns(sessionId, store);
-    const allPaths = await this.backend.allFilePaths(nsId);
-    if (allPaths.length > MAX_GLOB_PATHS) {
-      throw new VfsError(
-        "EINVAL",
-        `Too many files (${allPaths.length}) to glob — maximum is ${MAX_GLOB_PATHS}. Use grep with path_filter to narrow your search.`,
-      );
+    return (await this.globPage(sessionId, pattern, store)).paths;
+  }
+
+  /**
+   * Glob a page at a time. The backend narrows to paths under the pattern's
+   * literal directories that pass a regex compiled from it (in SQL, for the
+   * database backends); picomatch then matches exactly, with the ignores.
+   * Pages continue after the cursor's path, in path order.
+   */
+  async globPage(sessionId: string, pattern: string, store?: string, opts: GlobOptions = {}): Promise<GlobPage> {
+    if (opts.limit !== undefined && (!Number.isInteger(opts.limit) || opts.limit < 1)) {
+      throw new VfsError("EINVAL", `limit must be a positive integer, got ${opts.limit}`);
     }
-    const isMatch = picomatch(pattern);
-    return allPaths.filter((p) => isMatch(p));
+    let after = opts.cursor === undefined ? undefined : decodeGlobCursor(opts.cursor);
+    const nsId = await this.ns(sessionId, store, "read");
+
+    const isMatch = picomatch(pattern, { ignore: opts.ignore });
+    const type = opts.type ?? "file";
+    const query: PathQuery = {
+      dirPath: globBase(pattern),
+      regex: globRegex(pattern) ?? undefined,
+      nodeType: type === "any" ? undefined : type,
+    };
+    // One more than wanted tells whether there is another page
+    const wanted = opts.limit === undefined ? undefined : opts.limit + 1;
+
+    const paths: string[] = [];
+    for (;;) {
+      const batch = await this.backend.findPaths(nsId, { ...query, after, limit: wanted });
+      paths.push(...batch.filter((p) => isMatch(p)));
+      // The regex can let through paths picomatch rejects: keep reading until the page fills
+      if (wanted === undefined || batch.length < wanted || paths.length >= wanted) break;
+      after = batch[batch.length - 1];
+    }
+
+    const page = paths.slice(0, opts.limit);
+    return {
+      paths: page,
+      nextCursor: page.length < paths.length ? encodeGlobCursor(page[page.length - 1]) : null,
+    };
   }
 
   async grep(
@@ -255,28 +1133,474 @@ export class VirtualFS {
     pathFilter?: string,
     store?: string,
   ): Promise<GrepMatch[]> {
+    const target = await this.grepTarget(sessionId, pattern, { pathFilter, store });
+    return this.backend.grepContent(target.nsId, target.regex, target.paths);
+  }
+
+  /**
+   * grep with its flags: case-insensitive and fixed-string matching, context
+   * lines, a cap on results and the -l/-c output modes. Matching stays in the
+   * backend (in SQL, for PostgreSQL), which also applies the cap.
+   */
+  async grepWithOptions(sessionId: string, pattern: string, opts: GrepSearchOptions = {}): Promise<GrepResult> {
+    for (const [name, value] of [
+      ["before", opts.before],
+      ["after", opts.after],
+    ] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new VfsError("EINVAL", `${name} must be a non-negative integer, got ${value}`);
+      }
+    }
+    if (opts.maxResults !== undefined && (!Number.isInteger(opts.maxResults) || opts.maxResults < 1)) {
+      throw new VfsError("EINVAL", `maxResults must be a positive integer, got ${opts.maxResults}`);
+    }
+
+    const { nsId, regex, paths } = await this.grepTarget(sessionId, pattern, opts);
+    // One more than wanted tells whether there was more
+    const limit = opts.maxResults === undefined ? undefined : opts.maxResults + 1;
+    const truncated = (found: unknown[]) => limit !== undefined && found.length >= limit;
+    const mode = opts.mode ?? "content";
+
+    if (mode === "content") {
+      const matches = await this.backend.grepContent(nsId, regex, paths, {
+        ignoreCase: opts.ignoreCase,
+        before: opts.before,
+        after: opts.after,
+        limit,
+      });
+      return { mode, matches: matches.slice(0, opts.maxResults), truncated: truncated(matches) };
+    }
+
+    const counts = await this.backend.grepCount(nsId, regex, paths, { ignoreCase: opts.ignoreCase, limit });
+    const kept = counts.slice(0, opts.maxResults);
+    return mode === "count"
+      ? { mode, counts: kept, truncated: truncated(counts) }
+      : { mode, files: kept.map((c) => c.path), truncated: truncated(counts) };
+  }
+
+  /** Namespace, regex and (with a path filter) the files a grep hands to the backend. */
+  private async grepTarget(
+    sessionId: string,
+    pattern: string,
+    opts: Pick<GrepSearchOptions, "pathFilter" | "store" | "ignoreCase" | "fixedString">,
+  ): Promise<{ nsId: string; regex: string; paths: string[] | undefined }> {
+    // Literal text, escaped so PostgreSQL and JS regexes both match it as is
+    const regex = opts.fixedString ? pattern.replace(/[\\^$.|?*+()[\]{}]/g, "\\$&") : pattern;
     // Validate the regex pattern before sending to PostgreSQL.
     // This gives a clear error message for invalid patterns instead of
     // a raw SQL error, and acts as a basic sanity check.
     try {
-      new RegExp(pattern);
+      new RegExp(regex, opts.ignoreCase ? "i" : "");
     } catch {
       throw new VfsError("EINVAL", `Invalid regex pattern: ${pattern}`);
     }
 
-    const nsId = await this.ns(sessionId, store);
+    const nsId = await this.ns(sessionId, opts.store, "read");
 
-    let sqlPathFilter: string | undefined;
-    if (pathFilter) {
-      // Escape SQL LIKE metacharacters before converting glob wildcards
-      const escaped = pathFilter.replace(/%/g, "\\%").replace(/_/g, "\\_");
-      sqlPathFilter = escaped.replace(/\*\*/g, "%").replace(/\*/g, "%");
+    const paths = opts.pathFilter ? await this.globFiles(nsId, opts.pathFilter) : undefined;
+    return { nsId, regex, paths };
+  }
+
+  /** Every file matching `pattern`, for searches limited by a path filter. */
+  private async globFiles(nsId: string, pattern: string): Promise<string[]> {
+    // The backend narrows to likely matches and picomatch decides exactly
+    const isMatch = picomatch(pattern);
+    const candidates = await this.backend.findPaths(nsId, {
+      dirPath: globBase(pattern),
+      regex: globRegex(pattern) ?? undefined,
+      nodeType: "file",
+    });
+    return candidates.filter((p) => isMatch(p));
+  }
+
+  /**
+   * Full-text search: files whose words match `query`, most relevant first,
+   * each with a snippet of the passages that matched. The query takes words,
+   * "quoted phrases", `or` and `-word`. Files offloaded to object storage
+   * aren't indexed; the result counts those it skipped. Needs a backend with
+   * a full-text index (PostgreSQL); others throw ENOTSUP.
+   */
+  async search(sessionId: string, query: string, opts: SearchOptions = {}): Promise<TextSearchResult> {
+    if (!this.backend.searchText) {
+      throw new VfsError("ENOTSUP", "This storage backend does not support full-text search");
+    }
+    if (query.trim() === "") {
+      throw new VfsError("EINVAL", "Search query must not be empty");
+    }
+    if (opts.language !== undefined && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(opts.language)) {
+      throw new VfsError("EINVAL", `Invalid search language: ${opts.language}`);
+    }
+    if (opts.limit !== undefined && (!Number.isInteger(opts.limit) || opts.limit < 1)) {
+      throw new VfsError("EINVAL", `limit must be a positive integer, got ${opts.limit}`);
     }
 
-    return this.backend.grepContent(nsId, pattern, sqlPathFilter);
+    const nsId = await this.ns(sessionId, opts.store, "read");
+    const paths = opts.pathFilter ? await this.globFiles(nsId, opts.pathFilter) : undefined;
+    if (paths?.length === 0) return { hits: [], skippedOffloaded: 0 };
+    return this.backend.searchText(nsId, query, { language: opts.language, paths, limit: opts.limit });
+  }
+
+  /**
+   * Semantic search: chunks of files whose embeddings are closest to the
+   * query's, most similar first. Needs a backend with an embedding provider
+   * (PostgreSQL with VFS_EMBEDDINGS); others throw ENOTSUP.
+   */
+  async semanticSearch(sessionId: string, query: string, opts: SemanticSearchOptions): Promise<SemanticSearchHit[]> {
+    if (!this.backend.searchEmbeddings) {
+      throw new VfsError("ENOTSUP", "This storage backend does not support semantic search");
+    }
+    if (query.trim() === "") {
+      throw new VfsError("EINVAL", "Search query must not be empty");
+    }
+    if (!Number.isInteger(opts.limit) || opts.limit < 1) {
+      throw new VfsError("EINVAL", `limit must be a positive integer, got ${opts.limit}`);
+    }
+
+    const nsId = await this.ns(sessionId, opts.store, "read");
+    const paths = opts.pathFilter ? await this.globFiles(nsId, opts.pathFilter) : undefined;
+    if (paths?.length === 0) return [];
+    const matches = await this.backend.searchEmbeddings(nsId, query, { paths, limit: opts.limit });
+    const hits: SemanticSearchHit[] = [];
+    for (const m of matches) {
+      const slice = await this.backend.readRange(nsId, m.path, {
+        unit: "lines",
+        start: m.startLine,
+        count: m.endLine - m.startLine + 1,
+      });
+      // Skip files deleted since they were ranked
+      if (slice) hits.push({ ...m, text: slice.content });
+    }
+    return hits;
   }
 
   async listStores(): Promise<string[]> {
-    return this.backend.listStores();
+    return this.backend.listStores(this.opts.tenant);
+  }
+
+  // ── Store ACL administration ───────────────────────────────
+
+  /** A store's ACL; visible to anyone who can read the store. */
+  async storeAcl(sessionId: string, store: string): Promise<StoreAcl> {
+    const principal = this.principal(sessionId);
+    const acl = await this.backend.getStoreAcl(store, this.opts.tenant);
+    if (!acl) {
+      throw new VfsError("ENOENT", `No such store: ${store}`);
+    }
+    if (!this.isAdmin(principal) && !hasAccess(acl, principal, "read")) {
+      throw new VfsError("EACCES", `No read access to store: ${store}`);
+    }
+    return acl;
+  }
+
+  /**
+   * Give `grantee` read-only or read-write access to a store, replacing any
+   * access it already had. `*` grants to everyone.
+   */
+  async grantStoreAccess(
+    sessionId: string,
+    store: string,
+    grantee: string,
+    access: StoreAccess,
+  ): Promise<StoreAcl> {
+    if (!grantee) {
+      throw new VfsError("EINVAL", "Grantee must not be empty");
+    }
+    const acl = await this.aclForAdmin(sessionId, store);
+    const readers = acl.readers.filter((p) => p !== grantee);
+    const writers = acl.writers.filter((p) => p !== grantee);
+    (access === "write" ? writers : readers).push(grantee);
+    const updated = { owner: acl.owner, readers, writers };
+    await this.backend.setStoreAcl(store, updated, this.opts.tenant);
+    return updated;
+  }
+
+  /**
+   * Remove every grant to `grantee`. Revoking `*` closes the store to everyone
+   * not listed by name; the owner always keeps access.
+   */
+  async revokeStoreAccess(sessionId: string, store: string, grantee: string): Promise<StoreAcl> {
+    const acl = await this.aclForAdmin(sessionId, store);
+    const updated = {
+      owner: acl.owner,
+      readers: acl.readers.filter((p) => p !== grantee),
+      writers: acl.writers.filter((p) => p !== grantee),
+    };
+    await this.backend.setStoreAcl(store, updated, this.opts.tenant);
+    return updated;
+  }
+
+  // ── History ────────────────────────────────────────────────
+
+  /** The backend's history support, or ENOTSUP if it keeps none. */
+  private historyBackend(): Required<
+    Pick<StorageBackend, "listRevisions" | "getRevision" | "getHistoryRetention" | "setHistoryRetention">
+  > {
+    const { listRevisions, getRevision, getHistoryRetention, setHistoryRetention } = this.backend;
+    if (!listRevisions || !getRevision || !getHistoryRetention || !setHistoryRetention) {
+      throw new VfsError("ENOTSUP", "This storage backend does not keep file history");
+    }
+    return {
+      listRevisions: listRevisions.bind(this.backend),
+      getRevision: getRevision.bind(this.backend),
+      getHistoryRetention: getHistoryRetention.bind(this.backend),
+      setHistoryRetention: setHistoryRetention.bind(this.backend),
+    };
+  }
+
+  private async revisionContent(nsId: string, p: string, version: number): Promise<string> {
+    const found = await this.historyBackend().getRevision(nsId, p, version);
+    if (!found) {
+      throw new VfsError("ENOENT", `No version ${version} of ${p}`);
+    }
+    if (found.content === null) {
+      throw new VfsError("ENOENT", `${p} was deleted at version ${version}`);
+    }
+    return found.content;
+  }
+
+  /** Recorded revisions of a file, newest first — including files since deleted. */
+  async history(sessionId: string, path: string, store?: string): Promise<FileRevision[]> {
+    const p = validatePath(path);
+    const nsId = await this.ns(sessionId, store, "read");
+    return this.historyBackend().listRevisions(nsId, p);
+  }
+
+  /** Make `version` of a file current again. The restore is itself recorded as a new revision. */
+  async restore(
+    sessionId: string,
+    path: string,
+    version: number,
+    store?: string,
+  ): Promise<{ size: number }> {
+    const p = validatePath(path);
+    const nsId = await this.ns(sessionId, store, "write");
+    await this.checkLocks(nsId, sessionId, p);
+    const content = await this.revisionContent(nsId, p, version);
+
+    const existing = await this.backend.getNode(nsId, p);
+    if (existing?.nodeType === "directory") {
+      throw new VfsError("EISDIR", `Is a directory: ${p}`);
+    }
+
+    await this.ensureParents(nsId, p);
+    await this.backend.upsertFile(nsId, p, content);
+    return { size: content.length };
+  }
+
+  async historyRetention(sessionId: string, store?: string): Promise<HistoryRetention> {
+    const nsId = await this.ns(sessionId, store, "read");
+    return this.historyBackend().getHistoryRetention(nsId);
+  }
+
+  /** Change how much history the namespace keeps; existing history is pruned to match. */
+  async setHistoryRetention(
+    sessionId: string,
+    retention: HistoryRetention,
+    store?: string,
+  ): Promise<void> {
+    if (!Number.isInteger(retention.maxVersions) || retention.maxVersions < 0) {
+      throw new VfsError("EINVAL", "max_versions must be a non-negative integer");
+    }
+    if (
+      retention.maxAgeDays !== null &&
+      (!Number.isInteger(retention.maxAgeDays) || retention.maxAgeDays < 1)
+    ) {
+      throw new VfsError("EINVAL", "max_age_days must be a positive integer");
+    }
+    const nsId = await this.ns(sessionId, store, "write");
+    await this.historyBackend().setHistoryRetention(nsId, retention);
+  }
+
+  // ── Snapshots ──────────────────────────────────────────────
+
+  /** The backend's snapshot support, or ENOTSUP if it has none. */
+  private snapshotBackend(): Required<
+    Pick<StorageBackend, "createSnapshot" | "listSnapshots" | "rollbackSnapshot" | "diffSnapshots">
+  > {
+    const { createSnapshot, listSnapshots, rollbackSnapshot, diffSnapshots } = this.backend;
+    if (!createSnapshot || !listSnapshots || !rollbackSnapshot || !diffSnapshots) {
+      throw new VfsError("ENOTSUP", "This storage backend does not support snapshots");
+    }
+    return {
+      createSnapshot: createSnapshot.bind(this.backend),
+      listSnapshots: listSnapshots.bind(this.backend),
+      rollbackSnapshot: rollbackSnapshot.bind(this.backend),
+      diffSnapshots: diffSnapshots.bind(this.backend),
+    };
+  }
+
+  /** Checkpoint the whole session or store under `name` (unique within it). */
+  async snapshot(sessionId: string, name: string, store?: string): Promise<SnapshotInfo> {
+    if (!name) {
+      throw new VfsError("EINVAL", "Snapshot name must not be empty");
+    }
+    const nsId = await this.ns(sessionId, store, "write");
+    return this.snapshotBackend().createSnapshot(nsId, name);
+  }
+
+  async snapshots(sessionId: string, store?: string): Promise<SnapshotInfo[]> {
+    const nsId = await this.ns(sessionId, store, "read");
+    return this.snapshotBackend().listSnapshots(nsId);
+  }
+
+  /**
+   * Put every file and directory back the way it was when `name` was taken.
+   * Changes since then are discarded; the snapshot is kept for further rollbacks.
+   */
+  async rollback(sessionId: string, name: string, store?: string): Promise<SnapshotInfo> {
+    const nsId = await this.ns(sessionId, store, "write");
+    // A rollback can change any path, so any other session's mandatory lock blocks it
+    const locks = (await this.backend.listLocks?.(nsId)) ?? [];
+    const blocking = locks.find((l) => l.mandatory && l.owner !== sessionId);
+    if (blocking) throw lockedError(blocking.path, blocking);
+    return this.snapshotBackend().rollbackSnapshot(nsId, name);
+  }
+
+  /** What changed from snapshot `from` to snapshot `to`, or to the current state when `to` is omitted. */
+  async snapshotDiff(
+    sessionId: string,
+    from: string,
+    to?: string,
+    store?: string,
+  ): Promise<SnapshotChange[]> {
+    const nsId = await this.ns(sessionId, store, "read");
+    return this.snapshotBackend().diffSnapshots(nsId, from, to ?? null);
+  }
+
+  // ── Trash ──────────────────────────────────────────────────
+
+  /** The backend's trash support, or ENOTSUP if it has none. */
+  private trashBackend(): Required<
+    Pick<StorageBackend, "trashNode" | "listTrash" | "restoreTrash" | "purgeTrash">
+  > {
+    const { trashNode, listTrash, restoreTrash, purgeTrash } = this.backend;
+    if (!trashNode || !listTrash || !restoreTrash || !purgeTrash) {
+      throw new VfsError("ENOTSUP", "This storage backend does not support trash");
+    }
+    return {
+      trashNode: trashNode.bind(this.backend),
+      listTrash: listTrash.bind(this.backend),
+      restoreTrash: restoreTrash.bind(this.backend),
+      purgeTrash: purgeTrash.bind(this.backend),
+    };
+  }
+
+  /** Purge entries past the configured age. Runs whenever the namespace's trash is used. */
+  private async expireTrash(nsId: string): Promise<void> {
+    const maxAgeDays = this.opts.trash?.maxAgeDays ?? null;
+    if (maxAgeDays !== null) {
+      await this.trashBackend().purgeTrash(nsId, { maxAgeDays });
+    }
+  }
+
+  async trashList(sessionId: string, store?: string): Promise<TrashEntry[]> {
+    const nsId = await this.ns(sessionId, store, "read");
+    await this.expireTrash(nsId);
+    return this.trashBackend().listTrash(nsId);
+  }
+
+  /**
+   * Put a trashed subtree back at its original path, or at `destination`.
+   * Throws EEXIST if the target path is taken, so the caller can pick another.
+   */
+  async trashRestore(
+    sessionId: string,
+    id: number,
+    destination?: string,
+    store?: string,
+  ): Promise<TrashEntry & { restoredTo: string }> {
+    const nsId = await this.ns(sessionId, store, "write");
+    await this.expireTrash(nsId);
+    const trash = this.trashBackend();
+    const entry = (await trash.listTrash(nsId)).find((e) => e.id === id);
+    if (!entry) {
+      throw new VfsError("ENOENT", `No such trash entry: ${id}`);
+    }
+
+    const dest = validatePath(destination ?? entry.path);
+    if (dest === "/") {
+      throw new VfsError("EINVAL", "Cannot restore to root directory");
+    }
+    if (await this.backend.getNode(nsId, dest)) {
+      throw new VfsError("EEXIST", `Path already exists: ${dest} (restore to another destination)`);
+    }
+    await this.checkLocks(nsId, sessionId, dest);
+
+    await this.ensureParents(nsId, dest);
+    await trash.restoreTrash(nsId, id, dest);
+    return { ...entry, restoredTo: dest };
+  }
+
+  /** Permanently delete one trash entry, or the whole trash when `id` is omitted. */
+  async trashPurge(sessionId: string, id?: number, store?: string): Promise<number> {
+    const nsId = await this.ns(sessionId, store, "write");
+    const purged = await this.trashBackend().purgeTrash(nsId, { id });
+    if (id !== undefined && purged === 0) {
+      throw new VfsError("ENOENT", `No such trash entry: ${id}`);
+    }
+    return purged;
+  }
+
+  // ── Locks ──────────────────────────────────────────────────
+
+  /** The backend's lock support, or ENOTSUP if it has none. */
+  private lockBackend(): Required<Pick<StorageBackend, "acquireLock" | "releaseLock" | "listLocks">> {
+    const { acquireLock, releaseLock, listLocks } = this.backend;
+    if (!acquireLock || !releaseLock || !listLocks) {
+      throw new VfsError("ENOTSUP", "This storage backend does not support locks");
+    }
+    return {
+      acquireLock: acquireLock.bind(this.backend),
+      releaseLock: releaseLock.bind(this.backend),
+      listLocks: listLocks.bind(this.backend),
+    };
+  }
+
+  /**
+   * Throw EBUSY if another session holds a mandatory lock on `path`, an ancestor
+   * or a descendant. Checked before the change rather than atomically with it,
+   * so a lock taken concurrently with a write may not stop that write.
+   */
+  private async checkLocks(nsId: string, sessionId: string, path: string): Promise<void> {
+    const lock = await this.backend.blockingLock?.(nsId, path, sessionId);
+    if (lock) throw lockedError(path, lock);
+  }
+
+  /**
+   * Lock `path` for `ttlSeconds`, or renew the calling session's lock on it.
+   * Locks are advisory unless `mandatory`, in which case other sessions' writes,
+   * appends, moves, removals and restores at or under the path (and their
+   * snapshot rollbacks of the whole namespace) fail with EBUSY until the
+   * lock is released or expires. The path doesn't need to exist yet.
+   */
+  async lock(
+    sessionId: string,
+    path: string,
+    store?: string,
+    opts: { ttlSeconds?: number; mandatory?: boolean } = {},
+  ): Promise<FileLock> {
+    const p = validatePath(path);
+    if (p === "/") {
+      throw new VfsError("EINVAL", "Cannot lock root directory");
+    }
+    const ttlSeconds = opts.ttlSeconds ?? DEFAULT_LOCK_TTL_SECONDS;
+    if (!(ttlSeconds > 0)) {
+      throw new VfsError("EINVAL", `Lock TTL must be positive: ${ttlSeconds}`);
+    }
+    const nsId = await this.ns(sessionId, store, "write");
+    return this.lockBackend().acquireLock(nsId, p, sessionId, ttlSeconds, opts.mandatory ?? false);
+  }
+
+  /** Release the calling session's lock on `path`. */
+  async unlock(sessionId: string, path: string, store?: string): Promise<void> {
+    const p = validatePath(path);
+    const nsId = await this.ns(sessionId, store, "write");
+    await this.lockBackend().releaseLock(nsId, p, sessionId);
+  }
+
+  /** Unexpired locks in the namespace, sorted by path. */
+  async locks(sessionId: string, store?: string): Promise<FileLock[]> {
+    const nsId = await this.ns(sessionId, store, "read");
+    return this.lockBackend().listLocks(nsId);
   }
 }
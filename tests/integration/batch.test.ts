@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import { contentEtag } from "../../src/storage/etag.js";
+import { getTestBackend, releaseContainer } from "../helpers/pg-container.js";
+
+let backend: PostgresBackend;
+let vfs: VirtualFS;
+
+beforeAll(async () => {
+  backend = await getTestBackend();
+  vfs = new VirtualFS(backend);
+});
+
+afterAll(async () => {
+  await backend.close();
+  await releaseContainer();
+});
+
+describe("batch", () => {
+  it("applies operations in order and reports each result", async () => {
+    const s = "batch-results";
+    await vfs.write(s, "/old.txt", "old");
+    const results = await vfs.batch(s, [
+      { op: "mkdir", path: "/app" },
+      { op: "write", path: "/app/src/index.ts", content: "export {};" },
+      { op: "append", path: "/app/src/index.ts", content: "\n" },
+      { op: "mv", source: "/old.txt", destination: "/app/README.md" },
+      { op: "rm", path: "/app/README.md" },
+    ]);
+
+    expect(results).toEqual([
+      { op: "mkdir", path: "/app", already_existed: false },
+      { op: "write", path: "/app/src/index.ts", size: 10, has_parents: true, etag: contentEtag("export {};") },
+      { op: "append", path: "/app/src/index.ts", appended_bytes: 1, etag: contentEtag("export {};\n") },
+      { op: "mv", source: "/old.txt", destination: "/app/README.md" },
+      { op: "rm", path: "/app/README.md", deleted: 1, trashed: false },
+    ]);
+    expect(await vfs.read(s, "/app/src/index.ts")).toBe("export {};\n");
+    expect((await vfs.stat(s, "/old.txt")).exists).toBe(false);
+  });
+
+  it("leaves nothing behind when an operation fails", async () => {
+    const s = "batch-rollback";
+    await vfs.write(s, "/keep.txt", "original");
+    const attempt = vfs.batch(s, [
+      { op: "write", path: "/keep.txt", content: "changed" },
+      { op: "write", path: "/new/deep/file.txt", content: "new" },
+      { op: "rm", path: "/missing.txt" },
+    ]);
+
+    await expect(attempt).rejects.toMatchObject({
+      code: "ENOENT",
+      message: expect.stringMatching(/^Operation 3 \(rm\) failed: /),
+    });
+    expect(await vfs.read(s, "/keep.txt")).toBe("original");
+    expect((await vfs.stat(s, "/new")).exists).toBe(false);
+    expect(await vfs.history(s, "/keep.txt")).toHaveLength(1);
+  });
+
+  it("checks if_match against the state left by earlier operations", async () => {
+    const s = "batch-etag";
+    const { etag } = await vfs.write(s, "/doc.md", "v1");
+    await expect(
+      vfs.batch(s, [
+        { op: "write", path: "/doc.md", content: "v2", ifMatch: etag },
+        { op: "write", path: "/doc.md", content: "v3", ifMatch: etag },
+      ]),
+    ).rejects.toMatchObject({ code: "ECONFLICT" });
+    expect(await vfs.read(s, "/doc.md")).toBe("v1");
+
+    await vfs.batch(s, [
+      { op: "write", path: "/doc.md", content: "v2", ifMatch: etag },
+      { op: "write", path: "/doc.md", content: "v3", ifMatch: contentEtag("v2") },
+    ]);
+    expect(await vfs.read(s, "/doc.md")).toBe("v3");
+  });
+
+  it("rolls back conflicts the backend raises inside nested transactions", async () => {
+    const s = "batch-nested";
+    await vfs.write(s, "/a.txt", "a");
+    await vfs.write(s, "/b.txt", "b");
+    const ns = await backend.ensureSession(s);
+    // Straight to the backend, so the conflict comes from its own transaction
+    await expect(
+      backend.withTransaction(ns, async () => {
+        await backend.upsertFile(ns, "/a.txt", "a2");
+        await backend.moveNode(ns, "/a.txt", "/b.txt");
+      }),
+    ).rejects.toMatchObject({ code: "EEXIST" });
+    expect(await vfs.read(s, "/a.txt")).toBe("a");
+  });
+
+  it("respects locks and trash like the individual operations", async () => {
+    const store = "batch-shared";
+    await vfs.write("alice", "/locked.txt", "mine", store);
+    await vfs.lock("alice", "/locked.txt", store, { mandatory: true });
+    await expect(
+      vfs.batch("bob", [{ op: "write", path: "/locked.txt", content: "theirs" }], store),
+    ).rejects.toMatchObject({ code: "EBUSY" });
+
+    const trashed = new VirtualFS(backend, { trash: { maxAgeDays: null } });
+    await trashed.write("bob", "/draft.txt", "draft", store);
+    const [result] = await trashed.batch("bob", [{ op: "rm", path: "/draft.txt" }], store);
+    expect(result).toMatchObject({ trashed: true });
+    expect(await trashed.trashList("bob", store)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { VirtualFS, VfsError } from "../../src/vfs.js";
+import { DiskBackend } from "../../src/storage/disk.js";
+import { contentEtag } from "../../src/storage/etag.js";
+
+let root: string;
+let backend: DiskBackend;
+let vfs: VirtualFS;
+const S = "disk-session";
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "vfs-disk-"));
+  backend = new DiskBackend({ root });
+  vfs = new VirtualFS(backend);
+});
+
+afterAll(async () => {
+  await backend.close();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("DiskBackend", () => {
+  it("stores files as real files under the session directory", async () => {
+    await vfs.write(S, "/notes/todo.md", "# Tasks\n");
+    await vfs.append(S, "/notes/todo.md", "- ship\n");
+
+    const host = path.join(root, "sessions", S, "notes", "todo.md");
+    expect(fs.readFileSync(host, "utf8")).toBe("# Tasks\n- ship\n");
+    expect(await vfs.read(S, "/notes/todo.md")).toBe("# Tasks\n- ship\n");
+  });
+
+  it("keeps stores in their own subtree and lists them", async () => {
+    await vfs.write(S, "/shared.txt", "shared", "disk-store");
+    expect(fs.existsSync(path.join(root, "stores", "disk-store", "shared.txt"))).toBe(true);
+    expect(await vfs.read("another-session", "/shared.txt", "disk-store")).toBe("shared");
+    expect(await vfs.listStores()).toEqual(["disk-store"]);
+    await expect(vfs.read("another-session", "/shared.txt", S)).rejects.toMatchObject({ code: "EACCES" });
+  });
+
+  it("keeps store ACLs beside the store trees", async () => {
+    await vfs.write(S, "/f.txt", "f", "disk-acl");
+    await vfs.grantStoreAccess(S, "disk-acl", "disk-reader", "read");
+    await vfs.revokeStoreAccess(S, "disk-acl", "*");
+
+    const aclFile = path.join(root, "acls", "disk-acl.json");
+    expect(JSON.parse(fs.readFileSync(aclFile, "utf8"))).toEqual({
+      owner: S,
+      readers: ["disk-reader"],
+      writers: [],
+    });
+    expect(await vfs.read("disk-reader", "/f.txt", "disk-acl")).toBe("f");
+    await expect(vfs.write("disk-reader", "/f.txt", "x", "disk-acl")).rejects.toMatchObject({ code: "EACCES" });
+    expect(await vfs.ls(S, "/", "disk-acl")).toEqual([{ name: "f.txt", type: "file" }]);
+  });
+
+  it("lists directories dirs-first and counts children", async () => {
+    await vfs.write(S, "/src/index.ts", "code");
+    await vfs.mkdir(S, "/src/lib");
+    expect(await vfs.ls(S, "/src")).toEqual([
+      { name: "lib", type: "directory" },
+      { name: "index.ts", type: "file" },
+    ]);
+    expect(await vfs.stat(S, "/src")).toEqual({ exists: true, type: "directory", children: 2 });
+  });
+
+  it("keeps insertDir idempotent", async () => {
+    expect(await vfs.mkdir(S, "/idem")).toEqual({ already_existed: false });
+    expect(await vfs.mkdir(S, "/idem")).toEqual({ already_existed: true });
+  });
+
+  it("counts every removed node on recursive delete", async () => {
+    await vfs.write(S, "/dir/a.txt", "a");
+    await vfs.write(S, "/dir/sub/b.txt", "b");
+    expect(await vfs.rm(S, "/dir")).toBe(4);
+    expect(fs.existsSync(path.join(root, "sessions", S, "dir"))).toBe(false);
+  });
+
+  it("moves a subtree with a single rename", async () => {
+    await vfs.write(S, "/movedir/sub/b.txt", "b");
+    await vfs.move(S, "/movedir", "/deep/moved");
+    expect(await vfs.read(S, "/deep/moved/sub/b.txt")).toBe("b");
+    await expect(vfs.ls(S, "/movedir")).rejects.toThrow(VfsError);
+  });
+
+  it("globs and greps across files", async () => {
+    await vfs.write(S, "/grep/data.txt", "foo123\nbar456\nfoo789\n");
+    await vfs.write(S, "/grep/other.md", "foo000\n");
+
+    expect(await vfs.glob(S, "/grep/*")).toEqual(["/grep/data.txt", "/grep/other.md"]);
+    expect((await vfs.globPage(S, "/gr*", undefined, { type: "directory" })).paths).toEqual(["/grep"]);
+    expect(await vfs.glob(S, "/missing/**")).toEqual([]);
+    expect(await vfs.grep(S, "foo\\d+", "/grep/*.txt")).toEqual([
+      { path: "/grep/data.txt", lineNumber: 1, line: "foo123" },
+      { path: "/grep/data.txt", lineNumber: 3, line: "foo789" },
+    ]);
+  });
+
+  it("confines dot-named stores to the stores directory", async () => {
+    await vfs.write(S, "/x.txt", "x", "..");
+    expect(fs.existsSync(path.join(root, "stores", "%2E%2E", "x.txt"))).toBe(true);
+    expect(await vfs.listStores()).toContain("..");
+  });
+
+  it("refuses paths that escape the namespace through a symlink", async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), "vfs-outside-"));
+    try {
+      fs.symlinkSync(outside, path.join(root, "sessions", S, "escape"));
+
+      await expect(vfs.write(S, "/escape/pwned.txt", "x")).rejects.toMatchObject({ code: "EACCES" });
+      expect(fs.existsSync(path.join(outside, "pwned.txt"))).toBe(false);
+      expect((await vfs.ls(S, "/")).some((e) => e.name === "escape")).toBe(false);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("reports that file history is not supported", async () => {
+    await vfs.write(S, "/versioned.txt", "v1");
+    await expect(vfs.history(S, "/versioned.txt")).rejects.toMatchObject({ code: "ENOTSUP" });
+    await expect(vfs.read(S, "/versioned.txt", undefined, 1)).rejects.toMatchObject({ code: "ENOTSUP" });
+  });
+
+  it("reports that snapshots are not supported", async () => {
+    await expect(vfs.snapshot(S, "checkpoint")).rejects.toMatchObject({ code: "ENOTSUP" });
+  });
+
+  it("reports that locks are not supported, and writes without checking any", async () => {
+    await expect(vfs.lock(S, "/locked.txt")).rejects.toMatchObject({ code: "ENOTSUP" });
+    await expect(vfs.locks(S)).rejects.toMatchObject({ code: "ENOTSUP" });
+    await vfs.write(S, "/locked.txt", "fine");
+  });
+
+  it("reports that batches are not supported", async () => {
+    await expect(vfs.batch(S, [{ op: "mkdir", path: "/batched" }])).rejects.toMatchObject({ code: "ENOTSUP" });
+    expect((await vfs.stat(S, "/batched")).exists).toBe(false);
+  });
+
+  it("dry-runs patches but cannot apply them without transactions", async () => {
+    await vfs.write(S, "/patched.txt", "a\n");
+    const diff = "--- a/patched.txt\n+++ b/patched.txt\n@@ -1 +1 @@\n-a\n+b\n";
+    expect((await vfs.patch(S, diff, undefined, { dryRun: true })).files[0].hunks[0].applied).toBe(true);
+    await expect(vfs.patch(S, diff)).rejects.toMatchObject({ code: "ENOTSUP" });
+    expect(await vfs.read(S, "/patched.txt")).toBe("a\n");
+  });
+
+  it("refuses to enable trash it cannot keep", () => {
+    expect(() => new VirtualFS(backend, { trash: { maxAgeDays: 30 } })).toThrow(/does not support/);
+  });
+
+  it("serializes conditional writes so only one racer wins", async () => {
+    const { etag } = await vfs.write(S, "/cas.txt", "0");
+    const results = await Promise.allSettled(
+      ["1", "2", "3"].map((v) => vfs.write(S, "/cas.txt", v, undefined, { ifMatch: etag })),
+    );
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    expect((await vfs.stat(S, "/cas.txt")).etag).toBe(contentEtag(await vfs.read(S, "/cas.txt")));
+  });
+
+  it("claims paths with create_only and refuses to clobber on move", async () => {
+    await vfs.write(S, "/job.lock", "a", undefined, { mode: "create_only" });
+    await expect(backend.upsertFile(S, "/job.lock", "b", { mode: "create_only" })).rejects.toMatchObject({
+      code: "EEXIST",
+    });
+    await vfs.write(S, "/next.lock", "b");
+    await expect(backend.moveNode(S, "/next.lock", "/job.lock")).rejects.toMatchObject({ code: "EEXIST" });
+    await vfs.move(S, "/next.lock", "/job.lock", undefined, { overwrite: true });
+    expect(fs.readFileSync(path.join(root, "sessions", S, "job.lock"), "utf8")).toBe("b");
+  });
+
+  it("edits a file in place", async () => {
+    await vfs.write(S, "/edit.txt", "hello world");
+    await vfs.edit(S, "/edit.txt", [{ oldString: "world", newString: "disk" }]);
+    expect(fs.readFileSync(path.join(root, "sessions", S, "edit.txt"), "utf8")).toBe("hello disk");
+  });
+
+  it("greps host files with flags and modes", async () => {
+    await vfs.write(S, "/g/a.txt", "Alpha\nbeta\n");
+    await vfs.write(S, "/g/b.txt", "ALPHA\n");
+    expect(await vfs.grepWithOptions(S, "alpha", { pathFilter: "/g/*", ignoreCase: true, mode: "files_with_matches" })).toEqual({
+      mode: "files_with_matches",
+      files: ["/g/a.txt", "/g/b.txt"],
+      truncated: false,
+    });
+    await vfs.write(S, "/g/sub/c.txt", "alpha");
+    expect((await vfs.grep(S, "alpha", "/g/sub/*")).map((m) => m.path)).toEqual(["/g/sub/c.txt"]);
+    expect(await vfs.grep(S, "alpha", "/missing/**")).toEqual([]);
+  });
+
+  it("lists host files with metadata, newest first", async () => {
+    await vfs.write(S, "/ls-long/old.txt", "old");
+    const { etag } = await vfs.write(S, "/ls-long/new.txt", "newer");
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(path.join(root, "sessions", S, "ls-long", "new.txt"), later, later);
+
+    const { entries } = await vfs.lsPage(S, "/ls-long", undefined, { long: true, sort: "mtime" });
+    expect(entries[0]).toMatchObject({ name: "new.txt", size: 5, etag, updatedAt: later });
+    expect(entries[1].name).toBe("old.txt");
+  });
+
+  it("lists a tree of host files, skipping symlinks", async () => {
+    await vfs.write(S, "/listed/a.txt", "aa");
+    await vfs.write(S, "/listed/sub/b.txt", "bbb");
+    fs.symlinkSync("/etc", path.join(root, "sessions", S, "listed", "etc"));
+
+    const tree = await vfs.tree(S, "/listed");
+    expect(tree).toMatchObject({ size: 5, files: 2, dirs: 1 });
+    expect(tree.children?.map((c) => c.name)).toEqual(["sub", "a.txt"]);
+  });
+
+  it("copies trees into stores without following symlinks", async () => {
+    await vfs.write(S, "/copied/a.txt", "a");
+    await vfs.write(S, "/copied/sub/b.txt", "b");
+    fs.symlinkSync("/etc/hostname", path.join(root, "sessions", S, "copied", "link"));
+
+    expect(await vfs.copy(S, "/copied", "/backup", { destStore: "disk-copy-store" })).toBe(4);
+    expect(fs.readFileSync(path.join(root, "stores", "disk-copy-store", "backup", "sub", "b.txt"), "utf8")).toBe("b");
+    expect(fs.existsSync(path.join(root, "stores", "disk-copy-store", "backup", "link"))).toBe(false);
+    await expect(vfs.copy(S, "/copied", "/backup", { destStore: "disk-copy-store" })).rejects.toMatchObject({
+      code: "EEXIST",
+    });
+  });
+});
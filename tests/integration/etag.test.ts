@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import { contentEtag } from "../../src/storage/etag.js";
+import { getTestBackend, releaseContainer } from "../helpers/pg-container.js";
+
+let backend: PostgresBackend;
+let vfs: VirtualFS;
+
+beforeAll(async () => {
+  backend = await getTestBackend();
+  vfs = new VirtualFS(backend);
+});
+
+afterAll(async () => {
+  await backend.close();
+  await releaseContainer();
+});
+
+describe("etags", () => {
+  it("returns the content's etag from read, stat, write and append", async () => {
+    const s = "etag-values";
+    const { etag } = await vfs.write(s, "/a.txt", "héllo");
+    expect(etag).toBe(contentEtag("héllo"));
+    expect(await vfs.readWithEtag(s, "/a.txt")).toEqual({ content: "héllo", etag });
+    expect((await vfs.stat(s, "/a.txt")).etag).toBe(etag);
+
+    const appended = await vfs.append(s, "/a.txt", "!");
+    expect(appended.etag).toBe(contentEtag("héllo!"));
+    expect((await vfs.stat(s, "/a.txt")).etag).toBe(appended.etag);
+  });
+
+  it("applies a write only while if_match still holds", async () => {
+    const s = "etag-write";
+    const { etag } = await vfs.write(s, "/doc.md", "v1");
+    const next = await vfs.write(s, "/doc.md", "v2", undefined, { ifMatch: etag });
+
+    await expect(vfs.write(s, "/doc.md", "v3", undefined, { ifMatch: etag })).rejects.toMatchObject({
+      code: "ECONFLICT",
+    });
+    expect(await vfs.read(s, "/doc.md")).toBe("v2");
+    await vfs.append(s, "/doc.md", "+", undefined, { ifMatch: next.etag });
+    expect(await vfs.read(s, "/doc.md")).toBe("v2+");
+  });
+
+  it("never matches a missing file or a directory, and creates nothing", async () => {
+    const s = "etag-missing";
+    const ifMatch = contentEtag("");
+    await expect(vfs.write(s, "/new/file.txt", "", undefined, { ifMatch })).rejects.toMatchObject({
+      code: "ECONFLICT",
+    });
+    expect((await vfs.stat(s, "/new")).exists).toBe(false);
+
+    await vfs.mkdir(s, "/dir");
+    await expect(vfs.rm(s, "/dir", undefined, { ifMatch })).rejects.toMatchObject({ code: "ECONFLICT" });
+    expect((await vfs.stat(s, "/dir")).exists).toBe(true);
+  });
+
+  it("guards mv and rm on the source file's etag", async () => {
+    const s = "etag-mv-rm";
+    const { etag } = await vfs.write(s, "/a.txt", "a");
+    await vfs.write(s, "/b.txt", "b");
+
+    await expect(vfs.move(s, "/a.txt", "/c.txt", undefined, { ifMatch: "stale" })).rejects.toMatchObject({
+      code: "ECONFLICT",
+    });
+    await vfs.move(s, "/a.txt", "/c.txt", undefined, { ifMatch: etag });
+    expect(await vfs.read(s, "/c.txt")).toBe("a");
+
+    await expect(vfs.rm(s, "/b.txt", undefined, { ifMatch: etag })).rejects.toMatchObject({
+      code: "ECONFLICT",
+    });
+    expect(await vfs.rm(s, "/c.txt", undefined, { ifMatch: etag })).toBe(1);
+  });
+
+  it("lets exactly one of several racing conditional writes win", async () => {
+    const s = "etag-race";
+    const { etag } = await vfs.write(s, "/counter", "0");
+    const results = await Promise.allSettled(
+      Array.from({ length: 8 }, (_, i) => vfs.write(s, "/counter", `${i + 1}`, undefined, { ifMatch: etag })),
+    );
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    for (const r of results) {
+      if (r.status === "rejected") expect(r.reason).toMatchObject({ code: "ECONFLICT" });
+    }
+    expect(await vfs.read(s, "/counter")).not.toBe("0");
+  });
+
+  it("checks if_match before moving a file to the trash", async () => {
+    const trashed = new VirtualFS(backend, { trash: { maxAgeDays: null } });
+    const s = "etag-trash";
+    const { etag } = await trashed.write(s, "/draft.md", "draft");
+    await trashed.write(s, "/draft.md", "edited");
+
+    await expect(trashed.rm(s, "/draft.md", undefined, { ifMatch: etag })).rejects.toMatchObject({
+      code: "ECONFLICT",
+    });
+    expect(await trashed.trashList(s)).toEqual([]);
+  });
+});
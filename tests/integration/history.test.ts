@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import { getTestBackend, releaseContainer } from "../helpers/pg-container.js";
+
+let backend: PostgresBackend;
+let vfs: VirtualFS;
+
+beforeAll(async () => {
+  backend = await getTestBackend();
+  vfs = new VirtualFS(backend);
+});
+
+afterAll(async () => {
+  await backend.close();
+  await releaseContainer();
+});
+
+describe("file revision history", () => {
+  it("records writes, appends and deletes newest first", async () => {
+    const s = "hist-record";
+    await vfs.write(s, "/notes.md", "v1");
+    await vfs.append(s, "/notes.md", "+more");
+    await vfs.write(s, "/notes.md", "v3");
+    await vfs.rm(s, "/notes.md");
+
+    const revisions = await vfs.history(s, "/notes.md");
+    expect(revisions.map((r) => [r.op, r.size])).toEqual([
+      ["delete", null],
+      ["write", 2],
+      ["append", 7],
+      ["write", 2],
+    ]);
+    const versions = revisions.map((r) => r.version);
+    expect([...versions].sort((a, b) => b - a)).toEqual(versions);
+  });
+
+  it("keeps one revision for a run of appends, recoverable after a clobber", async () => {
+    const s = "hist-appends";
+    await vfs.write(s, "/build.log", "start\n");
+    for (const line of ["one\n", "two\n", "three\n"]) await vfs.append(s, "/build.log", line);
+    await vfs.write(s, "/build.log", "clobbered");
+
+    const revisions = await vfs.history(s, "/build.log");
+    expect(revisions.map((r) => r.op)).toEqual(["write", "append", "write"]);
+    expect(await vfs.read(s, "/build.log", undefined, revisions[1].version)).toBe("start\none\ntwo\nthree\n");
+  });
+
+  it("reads earlier versions and refuses deleted or unknown ones", async () => {
+    const s = "hist-read";
+    await vfs.write(s, "/f.txt", "good");
+    await vfs.write(s, "/f.txt", "clobbered");
+    await vfs.rm(s, "/f.txt");
+    const [deleted, bad, good] = await vfs.history(s, "/f.txt");
+
+    expect(await vfs.read(s, "/f.txt", undefined, good.version)).toBe("good");
+    expect(await vfs.read(s, "/f.txt", undefined, bad.version)).toBe("clobbered");
+    await expect(vfs.read(s, "/f.txt", undefined, deleted.version)).rejects.toMatchObject({ code: "ENOENT" });
+    await expect(vfs.read(s, "/f.txt", undefined, 999_999_999)).rejects.toMatchObject({ code: "ENOENT" });
+  });
+
+  it("restores a clobbered file and records the restore", async () => {
+    const s = "hist-restore";
+    await vfs.write(s, "/config.json", '{"ok":true}');
+    await vfs.write(s, "/config.json", "garbage");
+    const [, good] = await vfs.history(s, "/config.json");
+
+    expect(await vfs.restore(s, "/config.json", good.version)).toEqual({ size: 11 });
+    expect(await vfs.read(s, "/config.json")).toBe('{"ok":true}');
+    expect((await vfs.history(s, "/config.json")).map((r) => r.op)).toEqual(["write", "write", "write"]);
+  });
+
+  it("brings back files removed with their directory", async () => {
+    const s = "hist-rm-dir";
+    await vfs.write(s, "/src/a.ts", "a");
+    await vfs.write(s, "/src/lib/b.ts", "b");
+    await vfs.rm(s, "/src");
+
+    const [deleted, written] = await vfs.history(s, "/src/lib/b.ts");
+    expect(deleted.op).toBe("delete");
+    await vfs.restore(s, "/src/lib/b.ts", written.version);
+    expect(await vfs.read(s, "/src/lib/b.ts")).toBe("b");
+  });
+
+  it("records moves at both paths", async () => {
+    const s = "hist-move";
+    await vfs.write(s, "/old/f.txt", "moved");
+    await vfs.move(s, "/old", "/new");
+
+    expect((await vfs.history(s, "/old/f.txt")).map((r) => r.op)).toEqual(["delete", "write"]);
+    const [moved] = await vfs.history(s, "/new/f.txt");
+    expect(moved).toMatchObject({ op: "move", size: 5 });
+    expect(await vfs.read(s, "/new/f.txt", undefined, moved.version)).toBe("moved");
+  });
+
+  it("keeps at most max_versions revisions per file", async () => {
+    const s = "hist-retention";
+    await vfs.setHistoryRetention(s, { maxVersions: 2, maxAgeDays: null });
+    for (let i = 1; i <= 4; i++) {
+      await vfs.write(s, "/f.txt", `v${i}`);
+    }
+    const revisions = await vfs.history(s, "/f.txt");
+    expect(revisions).toHaveLength(2);
+    expect(await vfs.read(s, "/f.txt", undefined, revisions[1].version)).toBe("v3");
+
+    // Tightening retention prunes what is already there
+    await vfs.setHistoryRetention(s, { maxVersions: 1, maxAgeDays: 30 });
+    expect(await vfs.history(s, "/f.txt")).toHaveLength(1);
+    expect(await vfs.historyRetention(s)).toEqual({ maxVersions: 1, maxAgeDays: 30 });
+  });
+
+  it("keeps no history when max_versions is 0", async () => {
+    const s = "hist-off";
+    await vfs.setHistoryRetention(s, { maxVersions: 0, maxAgeDays: null });
+    await vfs.write(s, "/f.txt", "x");
+    await vfs.rm(s, "/f.txt");
+    expect(await vfs.history(s, "/f.txt")).toEqual([]);
+  });
+
+  it("scopes retention and history to the namespace", async () => {
+    await vfs.setHistoryRetention("hist-a", { maxVersions: 0, maxAgeDays: null });
+    expect(await vfs.historyRetention("hist-b")).toEqual({ maxVersions: 20, maxAgeDays: null });
+
+    await vfs.write("hist-b", "/shared.md", "store", "hist-store");
+    expect(await vfs.history("hist-a", "/shared.md", "hist-store")).toHaveLength(1);
+    expect(await vfs.history("hist-a", "/shared.md")).toEqual([]);
+  });
+
+  it("rejects invalid retention settings", async () => {
+    await expect(vfs.setHistoryRetention("hist-bad", { maxVersions: -1, maxAgeDays: null })).rejects.toMatchObject({
+      code: "EINVAL",
+    });
+    await expect(vfs.setHistoryRetention("hist-bad", { maxVersions: 5, maxAgeDays: 0 })).rejects.toMatchObject({
+      code: "EINVAL",
+    });
+  });
+});
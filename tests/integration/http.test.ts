@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { VirtualFS } from "../../src/vfs.js";
+import { InMemoryBackend } from "../../src/storage/memory.js";
+import { registerTools } from "../../src/tools.js";
+import { startHttpServer, type RunningHttpServer } from "../../src/http.js";
+import { TokenAuth } from "../../src/auth.js";
+
+let httpServer: RunningHttpServer;
+
+beforeAll(async () => {
+  const vfs = new VirtualFS(new InMemoryBackend());
+  httpServer = await startHttpServer(
+    () => {
+      const server = new McpServer({ name: "test-vfs", version: "0.0.1" });
+      registerTools(server, vfs, "unused-fallback");
+      return server;
+    },
+    { host: "127.0.0.1", port: 0 },
+  );
+});
+
+afterAll(async () => {
+  await httpServer.close();
+});
+
+async function connect(url = httpServer.url, token?: string): Promise<Client> {
+  const client = new Client({ name: "test-client", version: "0.0.1" });
+  const requestInit = token ? { headers: { Authorization: `Bearer ${token}` } } : undefined;
+  await client.connect(new StreamableHTTPClientTransport(url, { requestInit }));
+  return client;
+}
+
+async function callTool(client: Client, name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+  return { text, isError: result.isError };
+}
+
+describe("Streamable HTTP transport", () => {
+  it("gives each connected agent its own session namespace", async () => {
+    const a = await connect();
+    const b = await connect();
+    try {
+      await callTool(a, "write", { path: "/whoami.txt", content: "agent A" });
+      await callTool(b, "write", { path: "/whoami.txt", content: "agent B" });
+
+      expect(JSON.parse((await callTool(a, "read", { path: "/whoami.txt" })).text).content).toBe("agent A");
+      expect(JSON.parse((await callTool(b, "read", { path: "/whoami.txt" })).text).content).toBe("agent B");
+    } finally {
+      await a.close();
+      await b.close();
+    }
+  });
+
+  it("shares named stores across HTTP sessions", async () => {
+    const a = await connect();
+    const b = await connect();
+    try {
+      await callTool(a, "write", { path: "/note.md", content: "shared", store: "http-store" });
+      const { text } = await callTool(b, "read", { path: "/note.md", store: "http-store" });
+      expect(JSON.parse(text).content).toBe("shared");
+    } finally {
+      await a.close();
+      await b.close();
+    }
+  });
+
+  it("serves concurrent calls from many agents", async () => {
+    const clients = await Promise.all(Array.from({ length: 5 }, () => connect()));
+    try {
+      await Promise.all(
+        clients.map((c, i) => callTool(c, "write", { path: "/id.txt", content: String(i) })),
+      );
+      const reads = await Promise.all(clients.map((c) => callTool(c, "read", { path: "/id.txt" })));
+      expect(reads.map((r) => JSON.parse(r.text).content)).toEqual(["0", "1", "2", "3", "4"]);
+    } finally {
+      await Promise.all(clients.map((c) => c.close()));
+    }
+  });
+
+  it("rejects requests for unknown sessions", async () => {
+    const res = await fetch(httpServer.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "mcp-session-id": "does-not-exist",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("rejects non-initialize requests without a session", async () => {
+    const res = await fetch(httpServer.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("Streamable HTTP transport with bearer-token auth", () => {
+  let authServer: RunningHttpServer;
+
+  beforeAll(async () => {
+    const vfs = new VirtualFS(new InMemoryBackend());
+    authServer = await startHttpServer(
+      (identity) => {
+        const server = new McpServer({ name: "test-vfs", version: "0.0.1" });
+        const scoped = identity ? vfs.forTenant(identity.tenant, identity.principal) : vfs;
+        registerTools(server, scoped, "unused-fallback");
+        return server;
+      },
+      {
+        host: "127.0.0.1",
+        port: 0,
+        auth: TokenAuth.parse("alice=alice-token,bob=bob-token"),
+      },
+    );
+  });
+
+  afterAll(async () => {
+    await authServer.close();
+  });
+
+  function initialize(headers: Record<string, string>) {
+    return fetch(authServer.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "raw", version: "0.0.1" },
+        },
+      }),
+    });
+  }
+
+  it("rejects requests without a valid token", async () => {
+    const missing = await initialize({});
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+
+    const wrong = await initialize({ Authorization: "Bearer not-a-token" });
+    expect(wrong.status).toBe(401);
+  });
+
+  it("scopes stores to the token's tenant", async () => {
+    const alice = await connect(authServer.url, "alice-token");
+    const alice2 = await connect(authServer.url, "alice-token");
+    const bob = await connect(authServer.url, "bob-token");
+    try {
+      await callTool(alice, "write", { path: "/memo.md", content: "alice", store: "memory" });
+      await callTool(bob, "write", { path: "/memo.md", content: "bob", store: "memory" });
+
+      expect(JSON.parse((await callTool(alice2, "read", { path: "/memo.md", store: "memory" })).text).content).toBe("alice");
+      expect(JSON.parse((await callTool(bob, "read", { path: "/memo.md", store: "memory" })).text).content).toBe("bob");
+      expect(JSON.parse((await callTool(bob, "stores", {})).text)).toEqual({ stores: ["memory"], count: 1 });
+    } finally {
+      await alice.close();
+      await alice2.close();
+      await bob.close();
+    }
+  });
+
+  it("does not let one tenant's token drive another tenant's session", async () => {
+    const init = await initialize({ Authorization: "Bearer alice-token" });
+    expect(init.status).toBe(200);
+    const sessionId = init.headers.get("mcp-session-id");
+    expect(sessionId).toBeTruthy();
+    await init.body?.cancel();
+
+    const res = await fetch(authServer.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: "Bearer bob-token",
+        "mcp-session-id": sessionId ?? "",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import { getTestBackend, releaseContainer } from "../helpers/pg-container.js";
+
+let backend: PostgresBackend;
+let vfs: VirtualFS;
+
+beforeAll(async () => {
+  backend = await getTestBackend();
+  vfs = new VirtualFS(backend);
+});
+
+afterAll(async () => {
+  await backend.close();
+  await releaseContainer();
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("locks", () => {
+  it("lets one session hold a lock, renew it and release it", async () => {
+    const store = "lock-basics";
+    const first = await vfs.lock("alice", "/report.md", store, { ttlSeconds: 60 });
+    expect(first).toMatchObject({ path: "/report.md", owner: "alice", mandatory: false });
+    expect(first.expiresAt.getTime() - Date.now()).toBeGreaterThan(55_000);
+
+    await expect(vfs.lock("bob", "/report.md", store)).rejects.toMatchObject({ code: "EBUSY" });
+    await expect(vfs.unlock("bob", "/report.md", store)).rejects.toMatchObject({ code: "EBUSY" });
+
+    const renewed = await vfs.lock("alice", "/report.md", store, { ttlSeconds: 600, mandatory: true });
+    expect(renewed.createdAt).toEqual(first.createdAt);
+    expect(renewed.expiresAt.getTime()).toBeGreaterThan(first.expiresAt.getTime());
+    expect(await vfs.locks("bob", store)).toEqual([renewed]);
+
+    await vfs.unlock("alice", "/report.md", store);
+    expect(await vfs.locks("bob", store)).toEqual([]);
+    await expect(vfs.unlock("alice", "/report.md", store)).rejects.toMatchObject({ code: "ENOENT" });
+  });
+
+  it("blocks other sessions' changes under a mandatory lock", async () => {
+    const store = "lock-mandatory";
+    await vfs.write("alice", "/docs/spec.md", "v1", store);
+    await vfs.write("alice", "/docs/notes.md", "n", store);
+    await vfs.lock("alice", "/docs/spec.md", store, { mandatory: true });
+
+    await expect(vfs.write("bob", "/docs/spec.md", "v2", store)).rejects.toMatchObject({ code: "EBUSY" });
+    await expect(vfs.append("bob", "/docs/spec.md", "!", store)).rejects.toMatchObject({ code: "EBUSY" });
+    await expect(vfs.rm("bob", "/docs", store)).rejects.toMatchObject({ code: "EBUSY" });
+    await expect(vfs.move("bob", "/docs/spec.md", "/spec.md", store)).rejects.toMatchObject({ code: "EBUSY" });
+    await expect(
+      vfs.move("bob", "/docs/notes.md", "/docs/spec.md", store, { overwrite: true }),
+    ).rejects.toMatchObject({ code: "EBUSY" });
+    expect(await vfs.read("bob", "/docs/spec.md", store)).toBe("v1");
+
+    // The holder and unlocked siblings are unaffected
+    await vfs.write("alice", "/docs/spec.md", "v2", store);
+    await vfs.write("bob", "/docs/notes.md", "n2", store);
+    expect(await vfs.read("bob", "/docs/spec.md", store)).toBe("v2");
+  });
+
+  it("blocks other sessions' restores of locked revisions", async () => {
+    const store = "lock-restore";
+    await vfs.write("alice", "/config.json", "old", store);
+    await vfs.write("alice", "/config.json", "new", store);
+    const [, old] = await vfs.history("alice", "/config.json", store);
+    await vfs.lock("alice", "/config.json", store, { mandatory: true });
+
+    await expect(vfs.restore("bob", "/config.json", old.version, store)).rejects.toMatchObject({ code: "EBUSY" });
+    expect(await vfs.read("bob", "/config.json", store)).toBe("new");
+    await vfs.restore("alice", "/config.json", old.version, store);
+    expect(await vfs.read("bob", "/config.json", store)).toBe("old");
+  });
+
+  it("blocks other sessions' rollbacks while anything is locked", async () => {
+    const store = "lock-rollback";
+    await vfs.write("alice", "/a.txt", "a1", store);
+    await vfs.snapshot("alice", "before", store);
+    await vfs.write("alice", "/deep/b.txt", "b", store);
+    await vfs.lock("alice", "/deep/b.txt", store, { mandatory: true });
+
+    await expect(vfs.rollback("bob", "before", store)).rejects.toMatchObject({
+      code: "EBUSY",
+      message: expect.stringContaining("/deep/b.txt"),
+    });
+    expect(await vfs.read("bob", "/deep/b.txt", store)).toBe("b");
+    await vfs.rollback("alice", "before", store);
+    expect((await vfs.stat("bob", "/deep/b.txt", store)).exists).toBe(false);
+  });
+
+  it("blocks other sessions' trash restores onto locked paths", async () => {
+    const store = "lock-trash";
+    const trashing = new VirtualFS(backend, { trash: { maxAgeDays: 30 } });
+    await trashing.write("alice", "/draft.md", "draft", store);
+    await trashing.rm("alice", "/draft.md", store);
+    await trashing.lock("alice", "/draft.md", store, { mandatory: true });
+    const [entry] = await trashing.trashList("bob", store);
+
+    await expect(trashing.trashRestore("bob", entry.id, undefined, store)).rejects.toMatchObject({ code: "EBUSY" });
+    expect((await trashing.stat("bob", "/draft.md", store)).exists).toBe(false);
+    await trashing.trashRestore("bob", entry.id, "/elsewhere.md", store);
+    expect(await trashing.read("bob", "/elsewhere.md", store)).toBe("draft");
+  });
+
+  it("extends a directory lock to everything under it", async () => {
+    const store = "lock-directory";
+    await vfs.lock("alice", "/build", store, { mandatory: true });
+    await expect(vfs.write("bob", "/build/out/app.js", "x", store)).rejects.toMatchObject({
+      code: "EBUSY",
+      message: expect.stringContaining("via /build"),
+    });
+    expect((await vfs.stat("bob", "/build", store)).exists).toBe(false);
+  });
+
+  it("leaves advisory locks unenforced", async () => {
+    const store = "lock-advisory";
+    await vfs.lock("alice", "/shared.txt", store);
+    await vfs.write("bob", "/shared.txt", "bob was here", store);
+    expect(await vfs.read("alice", "/shared.txt", store)).toBe("bob was here");
+  });
+
+  it("treats an expired lock as released", async () => {
+    const store = "lock-expiry";
+    await vfs.write("alice", "/cache.json", "{}", store);
+    await vfs.lock("alice", "/cache.json", store, { ttlSeconds: 1, mandatory: true });
+    await sleep(1100);
+
+    expect(await vfs.locks("bob", store)).toEqual([]);
+    await vfs.write("bob", "/cache.json", "[]", store);
+    const taken = await vfs.lock("bob", "/cache.json", store);
+    expect(taken.owner).toBe("bob");
+  });
+
+  it("rejects locking root and non-positive TTLs", async () => {
+    await expect(vfs.lock("alice", "/")).rejects.toMatchObject({ code: "EINVAL" });
+    await expect(vfs.lock("alice", "/a", undefined, { ttlSeconds: 0 })).rejects.toMatchObject({
+      code: "EINVAL",
+    });
+  });
+});
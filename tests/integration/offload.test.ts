@@ -0,0 +1,323 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import type { BlobStore } from "../../src/storage/blob.js";
+import { getTestBackend, getConnectionUri, releaseContainer } from "../helpers/pg-container.js";
+
+/** In-process stand-in for an S3 bucket. */
+class MapBlobStore implements BlobStore {
+  objects = new Map<string, string>();
+
+  async put(key: string, body: string): Promise<void> {
+    this.objects.set(key, body);
+  }
+
+  async get(key: string): Promise<string> {
+    const body = this.objects.get(key);
+    if (body === undefined) throw new Error(`NoSuchKey: ${key}`);
+    return body;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) this.objects.delete(key);
+  }
+}
+
+let schemaBackend: PostgresBackend;
+let backend: PostgresBackend;
+let blobs: MapBlobStore;
+let vfs: VirtualFS;
+const S = "offload-session";
+
+beforeAll(async () => {
+  schemaBackend = await getTestBackend();
+  blobs = new MapBlobStore();
+  backend = new PostgresBackend({
+    connectionString: getConnectionUri(),
+    enableRls: false,
+    blobStore: blobs,
+    // Objects are dropped as soon as nothing references them; history would keep them
+    historyRetention: { maxVersions: 0, maxAgeDays: null },
+  });
+  vfs = new VirtualFS(backend);
+});
+
+afterAll(async () => {
+  await backend.close();
+  await schemaBackend.close();
+  await releaseContainer();
+});
+
+describe("content offload to object storage", () => {
+  it("keeps only the object key in vfs_nodes", async () => {
+    await vfs.write(S, "/big.log", "payload");
+    expect(await vfs.read(S, "/big.log")).toBe("payload");
+
+    // A backend without the blob store sees the row but not inline content
+    const node = await schemaBackend.getNode(S, "/big.log");
+    expect(node?.nodeType).toBe("file");
+    expect(node?.content).toBeNull();
+    expect([...blobs.objects.values()]).toContain("payload");
+  });
+
+  it("slices offloaded files after fetching them", async () => {
+    await vfs.write(S, "/sliced.log", "a\nb\nc\n");
+    expect(await vfs.readRange(S, "/sliced.log", { unit: "lines", start: -2 })).toMatchObject({
+      content: "b\nc\n",
+      start: 2,
+      total: 3,
+    });
+    expect((await vfs.readRange(S, "/sliced.log", { unit: "bytes", start: 2, count: 1 })).content).toBe("b");
+  });
+
+  it("replaces the object on overwrite and drops the old one", async () => {
+    await vfs.write(S, "/v.txt", "v1");
+    const before = blobs.objects.size;
+    await vfs.write(S, "/v.txt", "v2");
+    expect(blobs.objects.size).toBe(before);
+    expect(await vfs.read(S, "/v.txt")).toBe("v2");
+  });
+
+  it("drops exactly the objects concurrent writers replaced", async () => {
+    const s = "offload-write-race";
+    await Promise.all(Array.from({ length: 10 }, (_, i) => vfs.write(s, "/race.txt", `v${i}`)));
+    await Promise.all(Array.from({ length: 10 }, (_, i) => vfs.write(s, "/race.txt", `w${i}`)));
+    const keys = [...blobs.objects.keys()].filter((k) => k.startsWith(`${s}/`));
+    expect(keys).toHaveLength(1);
+    expect(blobs.objects.get(keys[0])).toBe(await vfs.read(s, "/race.txt"));
+  });
+
+  it("appends to offloaded and previously inline files", async () => {
+    await vfs.append(S, "/append.log", "a\n");
+    await vfs.append(S, "/append.log", "b\n");
+    expect(await vfs.read(S, "/append.log")).toBe("a\nb\n");
+
+    await schemaBackend.upsertFile(S, "/inline.log", "inline\n");
+    await vfs.append(S, "/inline.log", "offloaded\n");
+    expect(await vfs.read(S, "/inline.log")).toBe("inline\noffloaded\n");
+  });
+
+  it("does not lose concurrent appends", async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => vfs.append(S, "/race.log", `${i}\n`)),
+    );
+    const lines = (await vfs.read(S, "/race.log")).trim().split("\n");
+    expect(lines.sort()).toEqual(["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"]);
+  });
+
+  it("greps across offloaded and inline files", async () => {
+    await vfs.write(S, "/grep/offloaded.txt", "foo1\nbar\n");
+    await schemaBackend.upsertFile(S, "/grep/inline.txt", "foo2\n");
+
+    expect(await vfs.grep(S, "foo\\d", "/grep/*")).toEqual([
+      { path: "/grep/inline.txt", lineNumber: 1, line: "foo2" },
+      { path: "/grep/offloaded.txt", lineNumber: 1, line: "foo1" },
+    ]);
+  });
+
+  it("moves without touching objects and deletes them with the subtree", async () => {
+    await vfs.write(S, "/tree/a.txt", "a");
+    await vfs.write(S, "/tree/sub/b.txt", "b");
+    await vfs.move(S, "/tree", "/moved");
+    expect(await vfs.read(S, "/moved/sub/b.txt")).toBe("b");
+
+    const before = blobs.objects.size;
+    expect(await vfs.rm(S, "/moved")).toBe(4);
+    expect(blobs.objects.size).toBe(before - 2);
+  });
+
+  it("keeps objects referenced by history until they are pruned", async () => {
+    const H = "offload-history";
+    await vfs.setHistoryRetention(H, { maxVersions: 2, maxAgeDays: null });
+    await vfs.write(H, "/doc.md", "first draft");
+    await vfs.write(H, "/doc.md", "second draft");
+    const [, first] = await vfs.history(H, "/doc.md");
+    expect(await vfs.read(H, "/doc.md", undefined, first.version)).toBe("first draft");
+    expect([...blobs.objects.values()]).toContain("first draft");
+
+    await vfs.setHistoryRetention(H, { maxVersions: 0, maxAgeDays: null });
+    expect([...blobs.objects.values()]).not.toContain("first draft");
+    await vfs.rm(H, "/doc.md");
+    expect([...blobs.objects.values()]).not.toContain("second draft");
+  });
+
+  it("shares objects with snapshots and restores them on rollback", async () => {
+    const N = "offload-snapshot";
+    await vfs.write(N, "/model.bin", "weights v1");
+    const before = blobs.objects.size;
+    await vfs.snapshot(N, "v1");
+    expect(blobs.objects.size).toBe(before);
+
+    await vfs.write(N, "/model.bin", "weights v2");
+    expect([...blobs.objects.values()]).toContain("weights v1");
+
+    await vfs.rollback(N, "v1");
+    expect(await vfs.read(N, "/model.bin")).toBe("weights v1");
+    expect([...blobs.objects.values()]).not.toContain("weights v2");
+  });
+
+  it("keeps trashed objects until the trash is purged", async () => {
+    const trashed = new VirtualFS(backend, { trash: { maxAgeDays: null } });
+    const N = "offload-trash";
+    await trashed.write(N, "/report.pdf", "report body");
+    await trashed.rm(N, "/report.pdf");
+    expect([...blobs.objects.values()]).toContain("report body");
+
+    const [entry] = await trashed.trashList(N);
+    await trashed.trashRestore(N, entry.id);
+    expect(await trashed.read(N, "/report.pdf")).toBe("report body");
+
+    await trashed.rm(N, "/report.pdf");
+    await trashed.trashPurge(N);
+    expect([...blobs.objects.values()]).not.toContain("report body");
+  });
+
+  it("gives offloaded files a new etag on every change", async () => {
+    const first = await vfs.write(S, "/cas.bin", "same");
+    const second = await vfs.write(S, "/cas.bin", "same", undefined, { ifMatch: first.etag });
+    expect(second.etag).not.toBe(first.etag);
+    expect((await vfs.readWithEtag(S, "/cas.bin")).etag).toBe(second.etag);
+
+    await expect(vfs.append(S, "/cas.bin", "!", undefined, { ifMatch: first.etag })).rejects.toMatchObject({
+      code: "ECONFLICT",
+    });
+    const appended = await vfs.append(S, "/cas.bin", "!", undefined, { ifMatch: second.etag });
+    expect((await vfs.stat(S, "/cas.bin")).etag).toBe(appended.etag);
+    expect(await vfs.read(S, "/cas.bin")).toBe("same!");
+  });
+
+  it("gives copies their own objects, also in other namespaces", async () => {
+    await vfs.write(S, "/cp/data.bin", "copied payload");
+    await vfs.copy(S, "/cp", "/cp-copy");
+    await vfs.copy(S, "/cp", "/cp", { destStore: "offload-copy-store" });
+    expect([...blobs.objects.values()].filter((v) => v === "copied payload")).toHaveLength(3);
+
+    await vfs.rm(S, "/cp");
+    expect(await vfs.read(S, "/cp-copy/data.bin")).toBe("copied payload");
+    expect(await vfs.read(S, "/cp/data.bin", "offload-copy-store")).toBe("copied payload");
+  });
+
+  it("sizes offloaded files in tree listings, with or without history", async () => {
+    const H = "offload-tree";
+    await vfs.setHistoryRetention(H, { maxVersions: 5, maxAgeDays: null });
+    await vfs.write(H, "/t/kept.bin", "four");
+    await vfs.write(S, "/t/unkept.bin", "seven!!");
+
+    expect(await vfs.tree(H, "/t")).toMatchObject({ size: 4, children: [{ name: "kept.bin", size: 4 }] });
+    expect(await vfs.tree(S, "/t")).toMatchObject({ size: 7, children: [{ name: "unkept.bin", size: 7 }] });
+  });
+
+  it("lists offloaded files with sizes and etags but no content", async () => {
+    await vfs.write(S, "/ls/one.bin", "first");
+    const { etag } = await vfs.write(S, "/ls/two.bin", "second!");
+    const { entries } = await vfs.lsPage(S, "/ls", undefined, { long: true, sort: "size" });
+    expect(entries.map(({ name, size, etag }) => ({ name, size, etag }))).toEqual([
+      { name: "two.bin", size: 7, etag },
+      { name: "one.bin", size: 5, etag: expect.any(String) },
+    ]);
+  });
+
+  it("fetches objects only for the sizes a listing needs", async () => {
+    const L = "offload-ls-pages";
+    await vfs.write(L, "/p/a.bin", "a");
+    await vfs.write(L, "/p/b.bin", "bbb");
+    await vfs.write(L, "/p/c.bin", "cc");
+    const get = vi.spyOn(blobs, "get");
+    try {
+      const plain = await vfs.lsPage(L, "/p", undefined, { limit: 2 });
+      expect(plain.entries.map((e) => e.name)).toEqual(["a.bin", "b.bin"]);
+      expect(get).not.toHaveBeenCalled();
+
+      // The page, and the entry past it that shows another page follows
+      await vfs.lsPage(L, "/p", undefined, { long: true, limit: 1 });
+      expect(get).toHaveBeenCalledTimes(2);
+
+      // Sizes no revision kept are read from every object to order by them
+      const first = await vfs.lsPage(L, "/p", undefined, { sort: "size", limit: 2 });
+      const rest = await vfs.lsPage(L, "/p", undefined, { sort: "size", cursor: first.nextCursor ?? undefined });
+      expect([...first.entries, ...rest.entries].map((e) => e.name)).toEqual(["b.bin", "c.bin", "a.bin"]);
+    } finally {
+      get.mockRestore();
+    }
+  });
+
+  it("drops the objects of appends a later append superseded", async () => {
+    const A = "offload-appends";
+    await vfs.setHistoryRetention(A, { maxVersions: 5, maxAgeDays: null });
+    await vfs.write(A, "/grow.log", "a");
+    await vfs.append(A, "/grow.log", "b");
+    await vfs.append(A, "/grow.log", "c");
+
+    expect((await vfs.history(A, "/grow.log")).map((r) => r.op)).toEqual(["append", "write"]);
+    const stored = [...blobs.objects.values()];
+    expect(stored).toContain("abc");
+    expect(stored).not.toContain("ab");
+  });
+
+  it("counts the offloaded files full-text search skipped", async () => {
+    const T = "offload-search";
+    await vfs.write(T, "/kb/offloaded.md", "Quarterly planning notes");
+    await new VirtualFS(schemaBackend).write(T, "/kb/inline.md", "Quarterly budget");
+
+    const result = await vfs.search(T, "quarterly");
+    expect(result.hits.map((h) => h.path)).toEqual(["/kb/inline.md"]);
+    expect(result.skippedOffloaded).toBe(1);
+    expect((await vfs.search(T, "quarterly", { pathFilter: "/kb/inline.md" })).skippedOffloaded).toBe(0);
+  });
+
+  it("merges offloaded files into capped and counted grep results", async () => {
+    const G = "offload-grep";
+    await vfs.write(G, "/b.log", "WARN b1\nwarn b2\n");
+    await vfs.write(G, "/a.log", "warn a1\n");
+    // Inline content written without the blob store
+    await new VirtualFS(schemaBackend).write(G, "/c.log", "Warn c1\n");
+
+    const capped = await vfs.grepWithOptions(G, "warn", { ignoreCase: true, maxResults: 2, after: 1 });
+    expect(capped).toEqual({
+      mode: "content",
+      truncated: true,
+      matches: [
+        { path: "/a.log", lineNumber: 1, line: "warn a1", after: [""] },
+        { path: "/b.log", lineNumber: 1, line: "WARN b1", after: ["warn b2"] },
+      ],
+    });
+    expect(await vfs.grepWithOptions(G, "warn", { ignoreCase: true, mode: "count" })).toMatchObject({
+      counts: [
+        { path: "/a.log", count: 1 },
+        { path: "/b.log", count: 2 },
+        { path: "/c.log", count: 1 },
+      ],
+    });
+  });
+
+  it("drops the replaced object when a move overwrites a file", async () => {
+    await vfs.write(S, "/ow/new.bin", "replacement");
+    await vfs.write(S, "/ow/old.bin", "replaced");
+    await vfs.move(S, "/ow/new.bin", "/ow/old.bin", undefined, { overwrite: true });
+    expect(await vfs.read(S, "/ow/old.bin")).toBe("replacement");
+    expect([...blobs.objects.values()]).not.toContain("replaced");
+
+    await expect(vfs.write(S, "/ow/old.bin", "x", undefined, { mode: "create_only" })).rejects.toMatchObject({
+      code: "EEXIST",
+    });
+    expect([...blobs.objects.values()]).not.toContain("x");
+  });
+
+  it("drops objects uploaded by a batch that rolls back, and keeps replaced ones until it commits", async () => {
+    await vfs.write(S, "/batch/kept.txt", "kept v1");
+    await expect(
+      vfs.batch(S, [
+        { op: "write", path: "/batch/kept.txt", content: "kept v2" },
+        { op: "write", path: "/batch/new.txt", content: "uncommitted" },
+        { op: "rm", path: "/batch/missing.txt" },
+      ]),
+    ).rejects.toMatchObject({ code: "ENOENT" });
+    expect(await vfs.read(S, "/batch/kept.txt")).toBe("kept v1");
+    expect([...blobs.objects.values()]).not.toContain("uncommitted");
+    expect([...blobs.objects.values()]).not.toContain("kept v2");
+
+    await vfs.batch(S, [{ op: "write", path: "/batch/kept.txt", content: "kept v2" }]);
+    expect(await vfs.read(S, "/batch/kept.txt")).toBe("kept v2");
+    expect([...blobs.objects.values()]).not.toContain("kept v1");
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import { getTestBackend, releaseContainer } from "../helpers/pg-container.js";
+
+let backend: PostgresBackend;
+let vfs: VirtualFS;
+
+beforeAll(async () => {
+  backend = await getTestBackend();
+  vfs = new VirtualFS(backend);
+});
+
+afterAll(async () => {
+  await backend.close();
+  await releaseContainer();
+});
+
+const MULTI_FILE = `diff --git a/src/config.ts b/src/config.ts
+--- a/src/config.ts
++++ b/src/config.ts
+@@ -1,3 +1,3 @@
+ export const host = "localhost";
+-export const port = 80;
++export const port = 8080;
+ export const debug = false;
+diff --git a/docs/setup.md b/docs/setup.md
+new file mode 100644
+--- /dev/null
++++ b/docs/setup.md
+@@ -0,0 +1 @@
++Run npm start.
+diff --git a/TODO b/NOTES
+similarity index 80%
+rename from TODO
+rename to NOTES
+--- a/TODO
++++ b/NOTES
+@@ -1,2 +1,2 @@
+ notes
+-- write docs
++- ship
+diff --git a/legacy.js b/legacy.js
+deleted file mode 100644
+--- a/legacy.js
++++ /dev/null
+@@ -1 +0,0 @@
+-module.exports = {};
+`;
+
+async function seed(s: string): Promise<void> {
+  await vfs.write(s, "/src/config.ts", 'export const host = "localhost";\nexport const port = 80;\nexport const debug = false;\n');
+  await vfs.write(s, "/TODO", "notes\n- write docs\n");
+  await vfs.write(s, "/legacy.js", "module.exports = {};\n");
+}
+
+describe("patch", () => {
+  it("creates, modifies, renames and deletes files from one diff", async () => {
+    const s = "patch-multi";
+    await seed(s);
+    const result = await vfs.patch(s, MULTI_FILE);
+
+    expect(result.applied).toBe(true);
+    expect(result.files.map(({ path, from, action }) => ({ path, from, action }))).toEqual([
+      { path: "/src/config.ts", from: undefined, action: "modify" },
+      { path: "/docs/setup.md", from: undefined, action: "create" },
+      { path: "/NOTES", from: "/TODO", action: "rename" },
+      { path: "/legacy.js", from: undefined, action: "delete" },
+    ]);
+    expect(await vfs.read(s, "/src/config.ts")).toContain("port = 8080");
+    expect(await vfs.read(s, "/docs/setup.md")).toBe("Run npm start.\n");
+    expect(await vfs.read(s, "/NOTES")).toBe("notes\n- ship\n");
+    expect((await vfs.stat(s, "/TODO")).exists).toBe(false);
+    expect((await vfs.stat(s, "/legacy.js")).exists).toBe(false);
+  });
+
+  it("changes nothing when any hunk fails, and names it", async () => {
+    const s = "patch-atomic";
+    await seed(s);
+    await vfs.write(s, "/legacy.js", "module.exports = { changed: true };\n");
+
+    await expect(vfs.patch(s, MULTI_FILE)).rejects.toMatchObject({
+      code: "ECONFLICT",
+      message: expect.stringContaining("/legacy.js: hunk 1 failed"),
+    });
+    expect(await vfs.read(s, "/src/config.ts")).toContain("port = 80;");
+    expect((await vfs.stat(s, "/docs/setup.md")).exists).toBe(false);
+    expect((await vfs.stat(s, "/TODO")).exists).toBe(true);
+  });
+
+  it("reports per-hunk outcomes on a dry run without writing", async () => {
+    const s = "patch-dry-run";
+    await seed(s);
+    await vfs.write(s, "/docs/setup.md", "already here");
+    await vfs.write(s, "/src/config.ts", '// header\nexport const host = "localhost";\nexport const port = 80;\nexport const debug = false;\n');
+
+    const result = await vfs.patch(s, MULTI_FILE, undefined, { dryRun: true });
+    expect(result.applied).toBe(false);
+    expect(result.files[0].hunks).toEqual([{ hunk: 1, applied: true, offset: 1, fuzz: 0 }]);
+    expect(result.files[1].error).toBe("File already exists: /docs/setup.md");
+    expect(result.files[2].hunks[0].applied).toBe(true);
+    expect(await vfs.read(s, "/src/config.ts")).toContain("port = 80;");
+    expect((await vfs.stat(s, "/NOTES")).exists).toBe(false);
+  });
+
+  it("applies with fuzz only up to the requested factor", async () => {
+    const s = "patch-fuzz";
+    await vfs.write(s, "/f.txt", "a\nB\nc\nd\ne\n");
+    const diff = "--- a/f.txt\n+++ b/f.txt\n@@ -1,5 +1,5 @@\n a\n b\n-c\n+C\n d\n e\n";
+
+    await expect(vfs.patch(s, diff, undefined, { fuzz: 0 })).rejects.toMatchObject({ code: "ECONFLICT" });
+    const result = await vfs.patch(s, diff);
+    expect(result.files[0].hunks[0]).toMatchObject({ applied: true, fuzz: 2 });
+    expect(await vfs.read(s, "/f.txt")).toBe("a\nB\nC\nd\ne\n");
+  });
+
+  it("builds on earlier sections that touch the same file", async () => {
+    const s = "patch-same-file";
+    await vfs.write(s, "/a.txt", "1\n2\n");
+    const diff =
+      "--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-1\n+one\n" +
+      "--- a/a.txt\n+++ b/a.txt\n@@ -2 +2 @@\n-2\n+two\n";
+    await vfs.patch(s, diff);
+    expect(await vfs.read(s, "/a.txt")).toBe("one\ntwo\n");
+  });
+
+  it("reports missing files and directories instead of patching them", async () => {
+    const s = "patch-missing";
+    await vfs.mkdir(s, "/dir");
+    const diff = "--- a/nope.txt\n+++ b/nope.txt\n@@ -1 +1 @@\n-x\n+y\n--- a/dir\n+++ b/dir\n@@ -1 +1 @@\n-x\n+y\n";
+    const result = await vfs.patch(s, diff, undefined, { dryRun: true });
+    expect(result.files.map((f) => f.error)).toEqual(["No such file: /nope.txt", "Is a directory: /dir"]);
+  });
+
+  it("rejects malformed diffs with EINVAL", async () => {
+    await expect(vfs.patch("patch-malformed", "not a diff")).rejects.toMatchObject({ code: "EINVAL" });
+  });
+});
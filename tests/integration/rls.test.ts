@@ -102,6 +102,58 @@ describe("Row Level Security", () => {
     }
   });
 
+  it("copies between a session and a store with RLS", async () => {
+    const backend = new PostgresBackend({
+      connectionString: appConnectionUri(),
+      enableRls: true,
+    });
+    const vfs = new VirtualFS(backend);
+
+    try {
+      await vfs.write("rls-cp", "/draft/notes.md", "scratch work");
+      expect(await vfs.copy("rls-cp", "/draft", "/kept", { destStore: "rls-cp-store" })).toBe(2);
+      expect(await vfs.read("rls-cp-other", "/kept/notes.md", "rls-cp-store")).toBe("scratch work");
+
+      expect(await vfs.copy("rls-cp-other", "/kept/notes.md", "/seed.md", { sourceStore: "rls-cp-store" })).toBe(1);
+      expect(await vfs.read("rls-cp-other", "/seed.md")).toBe("scratch work");
+    } finally {
+      await backend.close();
+    }
+  });
+
+  it("persistent stores are invisible to other tenants with RLS", async () => {
+    const backendA = new PostgresBackend({
+      connectionString: appConnectionUri(),
+      enableRls: true,
+    });
+    const backendB = new PostgresBackend({
+      connectionString: appConnectionUri(),
+      enableRls: true,
+    });
+
+    const alice = new VirtualFS(backendA, { tenant: "rls-alice" });
+    const bob = new VirtualFS(backendB, { tenant: "rls-bob" });
+    const untenanted = new VirtualFS(backendB);
+
+    try {
+      await alice.write("rls-A", "/memo.md", "alice's note", "rls-tenant-store");
+      await bob.write("rls-B", "/memo.md", "bob's note", "rls-tenant-store");
+
+      expect(await alice.read("rls-A2", "/memo.md", "rls-tenant-store")).toBe("alice's note");
+      expect(await bob.read("rls-B2", "/memo.md", "rls-tenant-store")).toBe("bob's note");
+      expect(await bob.listStores()).toEqual(["rls-tenant-store"]);
+      expect(await untenanted.listStores()).not.toContain("rls-alice/rls-tenant-store");
+
+      // Addressing alice's store by its qualified ID is refused, not leaked
+      await expect(
+        untenanted.read("rls-C", "/memo.md", "rls-alice/rls-tenant-store"),
+      ).rejects.toMatchObject({ code: "EACCES" });
+    } finally {
+      await backendA.close();
+      await backendB.close();
+    }
+  });
+
   it("raw SQL without session variable returns no rows (RLS blocks)", async () => {
     // Connect as vfs_app without setting the session variable
     const appPool = new Pool({ connectionString: appConnectionUri() });
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import { getTestBackend, releaseContainer } from "../helpers/pg-container.js";
+
+let backend: PostgresBackend;
+let vfs: VirtualFS;
+
+const S = "search-session";
+
+beforeAll(async () => {
+  backend = await getTestBackend();
+  vfs = new VirtualFS(backend);
+  await vfs.write(
+    S,
+    "/notes/billing.md",
+    "# Billing migration\nWe are migrating invoices to the new ledger. The billing migration finishes in March.\n",
+  );
+  await vfs.write(S, "/notes/standup.md", "Standup: the migration of the search index is blocked. Billing is fine.\n");
+  await vfs.write(S, "/notes/archive/ledger.md", "Old ledger notes, kept for reference.\n");
+  await vfs.write(S, "/src/billing.ts", "export function migrateBilling() {}\n");
+});
+
+afterAll(async () => {
+  await backend.close();
+  await releaseContainer();
+});
+
+describe("search", () => {
+  it("ranks files by relevance, with highlighted snippets", async () => {
+    const { hits: results } = await vfs.search(S, "billing migration");
+    expect(results.map((r) => r.path)).toEqual(["/notes/billing.md", "/notes/standup.md"]);
+    expect(results[0].rank).toBeGreaterThan(results[1].rank);
+    expect(results[0].snippet).toContain("**Billing** **migration**");
+  });
+
+  it("stems words and takes phrases, OR and exclusions", async () => {
+    expect((await vfs.search(S, "migrations")).hits.map((r) => r.path)).toEqual(["/notes/billing.md", "/notes/standup.md"]);
+    expect((await vfs.search(S, '"billing migration"')).hits.map((r) => r.path)).toEqual(["/notes/billing.md"]);
+    expect((await vfs.search(S, "ledger -invoices")).hits.map((r) => r.path)).toEqual(["/notes/archive/ledger.md"]);
+    expect((await vfs.search(S, "standup or reference")).hits.map((r) => r.path).sort()).toEqual([
+      "/notes/archive/ledger.md",
+      "/notes/standup.md",
+    ]);
+  });
+
+  it("filters by path glob and caps the results", async () => {
+    expect((await vfs.search(S, "ledger", { pathFilter: "/notes/*.md" })).hits.map((r) => r.path)).toEqual([
+      "/notes/billing.md",
+    ]);
+    expect((await vfs.search(S, "ledger", { pathFilter: "/nowhere/**" })).hits).toEqual([]);
+    expect((await vfs.search(S, "billing", { limit: 1 })).hits).toHaveLength(1);
+  });
+
+  it("searches in another language configuration", async () => {
+    // simple does no stemming, so only the exact word matches
+    expect((await vfs.search(S, "migrations", { language: "simple" })).hits).toEqual([]);
+    expect((await vfs.search(S, "migrating", { language: "simple" })).hits.map((r) => r.path)).toEqual([
+      "/notes/billing.md",
+    ]);
+    await expect(vfs.search(S, "x", { language: "klingon" })).rejects.toMatchObject({ code: "EINVAL" });
+    await expect(vfs.search(S, "x", { language: "english; drop" })).rejects.toMatchObject({ code: "EINVAL" });
+  });
+
+  it("indexes rewritten and appended files", async () => {
+    await vfs.write(S, "/notes/todo.md", "buy milk\n");
+    await vfs.append(S, "/notes/todo.md", "renew passport\n");
+    expect((await vfs.search(S, "passport")).hits.map((r) => r.path)).toEqual(["/notes/todo.md"]);
+    await vfs.write(S, "/notes/todo.md", "nothing left\n");
+    expect((await vfs.search(S, "passport")).hits).toEqual([]);
+  });
+
+  it("rejects empty queries", async () => {
+    await expect(vfs.search(S, "  ")).rejects.toMatchObject({ code: "EINVAL" });
+  });
+});
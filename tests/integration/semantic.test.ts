@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import { HashedNgramEmbeddings } from "../../src/storage/embeddings.js";
+import { getTestBackend, getConnectionUri, releaseContainer } from "../helpers/pg-container.js";
+
+let plainBackend: PostgresBackend;
+let backend: PostgresBackend;
+let vfs: VirtualFS;
+
+const S = "semantic-session";
+
+beforeAll(async () => {
+  plainBackend = await getTestBackend();
+  backend = new PostgresBackend({
+    connectionString: getConnectionUri(),
+    enableRls: false,
+    embeddings: new HashedNgramEmbeddings(),
+  });
+  await backend.initSchema();
+  vfs = new VirtualFS(backend);
+  await vfs.write(S, "/notes/billing.md", "# Billing\nInvoices are migrated to the new ledger in March.\n");
+  await vfs.write(S, "/notes/garden.md", "Tomatoes and basil grow well on the balcony.\n");
+  await vfs.write(S, "/src/ledger.ts", "export function migrateInvoices(ledger: Ledger) {}\n");
+});
+
+afterAll(async () => {
+  await backend.close();
+  await plainBackend.close();
+  await releaseContainer();
+});
+
+describe("semantic search", () => {
+  it("ranks chunks by similarity, with their lines and text", async () => {
+    const results = await vfs.semanticSearch(S, "invoice migration to the ledger", { limit: 10 });
+    expect(results[0]).toMatchObject({
+      path: "/notes/billing.md",
+      startLine: 1,
+      endLine: 3,
+      text: "# Billing\nInvoices are migrated to the new ledger in March.\n",
+    });
+    expect(results.map((r) => r.path).indexOf("/notes/garden.md")).toBe(results.length - 1);
+    expect(results[0].score).toBeLessThanOrEqual(1);
+    expect(results[0].score).toBeGreaterThan(results[results.length - 1].score);
+  });
+
+  it("limits results and filters by path", async () => {
+    expect(await vfs.semanticSearch(S, "ledger", { limit: 1 })).toHaveLength(1);
+    const results = await vfs.semanticSearch(S, "ledger", { pathFilter: "/src/**", limit: 10 });
+    expect(results.map((r) => r.path)).toEqual(["/src/ledger.ts"]);
+    expect(await vfs.semanticSearch(S, "ledger", { pathFilter: "/none/**", limit: 10 })).toEqual([]);
+  });
+
+  it("re-embeds files when they are written or appended to", async () => {
+    const s = "semantic-rewrite";
+    await vfs.write(s, "/a.md", "Tomatoes and basil.\n");
+    await vfs.write(s, "/b.md", "Quarterly revenue report.\n");
+    expect((await vfs.semanticSearch(s, "tomatoes", { limit: 1 }))[0].path).toBe("/a.md");
+
+    await vfs.write(s, "/a.md", "Revenue forecast.\n");
+    await vfs.append(s, "/b.md", "Tomatoes, tomatoes, tomatoes.\n");
+    const [hit] = await vfs.semanticSearch(s, "tomatoes", { limit: 1 });
+    expect(hit).toMatchObject({ path: "/b.md", text: "Quarterly revenue report.\nTomatoes, tomatoes, tomatoes.\n" });
+  });
+
+  it("embeds files written without a provider on first search", async () => {
+    const s = "semantic-backfill";
+    await new VirtualFS(plainBackend).write(s, "/old.md", "Written before embeddings were set up.\n");
+    expect((await vfs.semanticSearch(s, "embeddings set up", { limit: 5 })).map((r) => r.path)).toEqual(["/old.md"]);
+  });
+
+  it("splits long files into chunks of lines", async () => {
+    const s = "semantic-chunks";
+    const filler = Array.from({ length: 40 }, (_, i) => `Filler line ${i} about nothing in particular.`);
+    await vfs.write(s, "/long.md", [...filler, "The deployment pipeline runs on Kubernetes.", ...filler].join("\n"));
+    const [hit] = await vfs.semanticSearch(s, "kubernetes deployment pipeline", { limit: 1 });
+    expect(hit.startLine).toBeGreaterThan(1);
+    expect(hit.text).toContain("Kubernetes");
+    expect(hit.endLine).toBeLessThan(81);
+  });
+
+  it("drops embeddings with their files and skips empty ones", async () => {
+    const s = "semantic-delete";
+    await vfs.write(s, "/gone.md", "Tomatoes.\n");
+    await vfs.write(s, "/empty.md", "");
+    await vfs.rm(s, "/gone.md");
+    expect(await vfs.semanticSearch(s, "tomatoes", { limit: 5 })).toEqual([]);
+  });
+
+  it("needs a provider and a query", async () => {
+    await expect(new VirtualFS(plainBackend).semanticSearch(S, "ledger", { limit: 5 })).rejects.toMatchObject({
+      code: "ENOTSUP",
+    });
+    await expect(vfs.semanticSearch(S, "  ", { limit: 5 })).rejects.toMatchObject({ code: "EINVAL" });
+    await expect(vfs.semanticSearch(S, "ledger", { limit: 0 })).rejects.toMatchObject({ code: "EINVAL" });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import { getTestBackend, releaseContainer } from "../helpers/pg-container.js";
+
+let backend: PostgresBackend;
+let vfs: VirtualFS;
+
+beforeAll(async () => {
+  backend = await getTestBackend();
+  vfs = new VirtualFS(backend);
+});
+
+afterAll(async () => {
+  await backend.close();
+  await releaseContainer();
+});
+
+describe("namespace snapshots", () => {
+  it("rolls back every change made after the snapshot", async () => {
+    const s = "snap-rollback";
+    await vfs.write(s, "/src/app.ts", "v1");
+    await vfs.write(s, "/README.md", "readme");
+    expect(await vfs.snapshot(s, "before-refactor")).toMatchObject({ name: "before-refactor", files: 2 });
+
+    await vfs.write(s, "/src/app.ts", "broken");
+    await vfs.rm(s, "/README.md");
+    await vfs.write(s, "/src/new/helper.ts", "helper");
+
+    expect(await vfs.rollback(s, "before-refactor")).toMatchObject({ files: 2 });
+    expect(await vfs.read(s, "/src/app.ts")).toBe("v1");
+    expect(await vfs.read(s, "/README.md")).toBe("readme");
+    expect((await vfs.stat(s, "/src/new")).exists).toBe(false);
+    expect(await vfs.ls(s, "/src")).toEqual([{ name: "app.ts", type: "file" }]);
+
+    // The snapshot survives and can be rolled back to again
+    await vfs.write(s, "/src/app.ts", "broken again");
+    await vfs.rollback(s, "before-refactor");
+    expect(await vfs.read(s, "/src/app.ts")).toBe("v1");
+  });
+
+  it("lists snapshots oldest first and refuses duplicate names", async () => {
+    const s = "snap-list";
+    await vfs.write(s, "/a.txt", "a");
+    await vfs.snapshot(s, "one");
+    await vfs.write(s, "/b.txt", "b");
+    await vfs.snapshot(s, "two");
+
+    const snapshots = await vfs.snapshots(s);
+    expect(snapshots.map((x) => [x.name, x.files])).toEqual([
+      ["one", 1],
+      ["two", 2],
+    ]);
+    expect(snapshots[0].createdAt).toBeInstanceOf(Date);
+    await expect(vfs.snapshot(s, "one")).rejects.toMatchObject({ code: "EEXIST" });
+    await expect(vfs.snapshot(s, "")).rejects.toMatchObject({ code: "EINVAL" });
+  });
+
+  it("diffs two snapshots or a snapshot against the current state", async () => {
+    const s = "snap-diff";
+    await vfs.write(s, "/keep.txt", "same");
+    await vfs.write(s, "/edit.txt", "old");
+    await vfs.write(s, "/gone.txt", "bye");
+    await vfs.snapshot(s, "a");
+
+    await vfs.write(s, "/edit.txt", "new");
+    await vfs.rm(s, "/gone.txt");
+    await vfs.write(s, "/dir/added.txt", "hi");
+    await vfs.snapshot(s, "b");
+
+    expect(await vfs.snapshotDiff(s, "a", "b")).toEqual([
+      { path: "/dir", change: "added", nodeType: "directory" },
+      { path: "/dir/added.txt", change: "added", nodeType: "file" },
+      { path: "/edit.txt", change: "modified", nodeType: "file" },
+      { path: "/gone.txt", change: "removed", nodeType: "file" },
+    ]);
+    expect(await vfs.snapshotDiff(s, "b")).toEqual([]);
+
+    await vfs.write(s, "/keep.txt", "changed");
+    expect(await vfs.snapshotDiff(s, "b")).toEqual([
+      { path: "/keep.txt", change: "modified", nodeType: "file" },
+    ]);
+  });
+
+  it("reports unknown snapshots as ENOENT", async () => {
+    const s = "snap-missing";
+    await expect(vfs.rollback(s, "nope")).rejects.toMatchObject({ code: "ENOENT" });
+    await vfs.snapshot(s, "real");
+    await expect(vfs.snapshotDiff(s, "real", "nope")).rejects.toMatchObject({ code: "ENOENT" });
+  });
+
+  it("keeps snapshots of different namespaces apart", async () => {
+    await vfs.write("snap-x", "/f.txt", "x");
+    await vfs.snapshot("snap-x", "shared-name");
+    await vfs.write("snap-y", "/f.txt", "y", "snap-store");
+    await vfs.snapshot("snap-y", "shared-name", "snap-store");
+
+    await vfs.write("snap-x", "/f.txt", "x2");
+    await vfs.write("snap-y", "/f.txt", "y2", "snap-store");
+    await vfs.rollback("snap-x", "shared-name");
+
+    expect(await vfs.read("snap-x", "/f.txt")).toBe("x");
+    expect(await vfs.read("snap-y", "/f.txt", "snap-store")).toBe("y2");
+    expect(await vfs.snapshots("snap-z", "snap-store")).toHaveLength(1);
+  });
+});
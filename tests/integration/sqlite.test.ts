@@ -0,0 +1,372 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { VirtualFS, VfsError } from "../../src/vfs.js";
+import { SqliteBackend } from "../../src/storage/sqlite.js";
+import { contentEtag } from "../../src/storage/etag.js";
+
+let tmpDir: string;
+let backend: SqliteBackend;
+let vfs: VirtualFS;
+const S = "sqlite-session";
+
+beforeAll(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "vfs-sqlite-"));
+  backend = new SqliteBackend({ filename: path.join(tmpDir, "vfs.db") });
+  await backend.initSchema();
+  vfs = new VirtualFS(backend);
+});
+
+afterAll(async () => {
+  await backend.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("SqliteBackend", () => {
+  it("writes, appends and reads back a file", async () => {
+    await vfs.write(S, "/log.txt", "line1\n");
+    await vfs.append(S, "/log.txt", "line2\n");
+    expect(await vfs.read(S, "/log.txt")).toBe("line1\nline2\n");
+  });
+
+  it("lists immediate children only, dirs first", async () => {
+    await vfs.write(S, "/src/index.ts", "code");
+    await vfs.write(S, "/src/lib/helper.ts", "help");
+    expect(await vfs.ls(S, "/src")).toEqual([
+      { name: "lib", type: "directory" },
+      { name: "index.ts", type: "file" },
+    ]);
+    expect(await vfs.stat(S, "/src")).toEqual({ exists: true, type: "directory", children: 2 });
+  });
+
+  it("does not treat LIKE metacharacters in paths as wildcards", async () => {
+    await vfs.write(S, "/a_b/x.txt", "x");
+    await vfs.write(S, "/aXb/y.txt", "y");
+    expect(await vfs.ls(S, "/a_b")).toEqual([{ name: "x.txt", type: "file" }]);
+    expect(await vfs.rm(S, "/a_b")).toBe(2);
+    expect(await vfs.read(S, "/aXb/y.txt")).toBe("y");
+  });
+
+  it("removes a directory recursively and reports the count", async () => {
+    await vfs.write(S, "/dir/a.txt", "a");
+    await vfs.write(S, "/dir/sub/b.txt", "b");
+    await vfs.write(S, "/dir-sibling.txt", "keep");
+    expect(await vfs.rm(S, "/dir")).toBe(4);
+    expect(await vfs.read(S, "/dir-sibling.txt")).toBe("keep");
+  });
+
+  it("moves a directory and all descendants", async () => {
+    await vfs.write(S, "/movedir/a.txt", "a");
+    await vfs.write(S, "/movedir/sub/b.txt", "b");
+    await vfs.move(S, "/movedir", "/moved/here");
+
+    expect(await vfs.read(S, "/moved/here/sub/b.txt")).toBe("b");
+    await expect(vfs.ls(S, "/movedir")).rejects.toThrow(VfsError);
+  });
+
+  it("globs file paths", async () => {
+    const files = await vfs.glob(S, "/src/**/*.ts");
+    expect(files).toEqual(["/src/index.ts", "/src/lib/helper.ts"]);
+    expect((await vfs.globPage(S, "/src/*", undefined, { type: "directory" })).paths).toEqual(["/src/lib"]);
+    const page = await vfs.globPage(S, "**/*.ts", undefined, { limit: 1, ignore: ["/src/index.ts"] });
+    expect(page).toMatchObject({ paths: ["/src/lib/helper.ts"] });
+  });
+
+  it("greps by regex with line numbers and path filter", async () => {
+    await vfs.write(S, "/grep/data.txt", "foo123\nbar456\nfoo789\n");
+    await vfs.write(S, "/grep/other.md", "foo000\n");
+
+    const matches = await vfs.grep(S, "foo\\d+", "/grep/*.txt");
+    expect(matches).toEqual([
+      { path: "/grep/data.txt", lineNumber: 1, line: "foo123" },
+      { path: "/grep/data.txt", lineNumber: 3, line: "foo789" },
+    ]);
+  });
+
+  it("path filters are case-sensitive", async () => {
+    await vfs.write(S, "/Case/File.txt", "needle");
+    expect(await vfs.grep(S, "needle", "/case/*")).toEqual([]);
+  });
+
+  it("isolates sessions and lists stores", async () => {
+    await vfs.write("sqlite-other", "/log.txt", "other");
+    await vfs.write(S, "/shared.txt", "shared", "sqlite-store");
+
+    expect(await vfs.read(S, "/log.txt")).toBe("line1\nline2\n");
+    expect(await vfs.read("sqlite-other", "/shared.txt", "sqlite-store")).toBe("shared");
+    expect(await vfs.listStores()).toEqual(["sqlite-store"]);
+    await expect(vfs.read("sqlite-other", "/shared.txt", S)).rejects.toMatchObject({ code: "EACCES" });
+  });
+
+  it("enforces store ACLs", async () => {
+    await vfs.write(S, "/f.txt", "f", "sqlite-acl");
+    await vfs.revokeStoreAccess(S, "sqlite-acl", "*");
+    await vfs.grantStoreAccess(S, "sqlite-acl", "sqlite-reader", "read");
+
+    expect(await vfs.read("sqlite-reader", "/f.txt", "sqlite-acl")).toBe("f");
+    await expect(vfs.rm("sqlite-reader", "/f.txt", "sqlite-acl")).rejects.toMatchObject({ code: "EACCES" });
+    await expect(vfs.read("sqlite-other", "/f.txt", "sqlite-acl")).rejects.toMatchObject({ code: "EACCES" });
+  });
+
+  it("persists data across reopening the database file", async () => {
+    const reopened = new SqliteBackend({ filename: path.join(tmpDir, "vfs.db") });
+    try {
+      expect(await new VirtualFS(reopened).read(S, "/log.txt")).toBe("line1\nline2\n");
+      expect(await reopened.getStoreAcl("sqlite-acl")).toEqual({
+        owner: S,
+        readers: ["sqlite-reader"],
+        writers: [],
+      });
+    } finally {
+      await reopened.close();
+    }
+  });
+
+  it("collapses consecutive appends into one revision", async () => {
+    await vfs.write(S, "/applog/a.log", "a");
+    for (const more of ["b", "c"]) await vfs.append(S, "/applog/a.log", more);
+    await vfs.rm(S, "/applog/a.log");
+
+    const revisions = await vfs.history(S, "/applog/a.log");
+    expect(revisions.map((r) => [r.op, r.size])).toEqual([
+      ["delete", null],
+      ["append", 3],
+      ["write", 1],
+    ]);
+    expect(await vfs.read(S, "/applog/a.log", undefined, revisions[1].version)).toBe("abc");
+  });
+
+  it("records history and restores earlier versions", async () => {
+    await vfs.write(S, "/hist/f.txt", "v1");
+    await vfs.write(S, "/hist/f.txt", "v2");
+    await vfs.move(S, "/hist", "/hist2");
+
+    const [deleted, , first] = await vfs.history(S, "/hist/f.txt");
+    expect(deleted.op).toBe("delete");
+    expect((await vfs.history(S, "/hist2/f.txt")).map((r) => r.op)).toEqual(["move"]);
+    expect(await vfs.read(S, "/hist/f.txt", undefined, first.version)).toBe("v1");
+
+    await vfs.restore(S, "/hist/f.txt", first.version);
+    expect(await vfs.read(S, "/hist/f.txt")).toBe("v1");
+
+    await vfs.setHistoryRetention(S, { maxVersions: 1, maxAgeDays: null });
+    expect(await vfs.history(S, "/hist/f.txt")).toHaveLength(1);
+    await vfs.setHistoryRetention(S, { maxVersions: 20, maxAgeDays: null });
+  });
+
+  it("snapshots and rolls back a namespace", async () => {
+    const N = "sqlite-snap";
+    await vfs.write(N, "/a.txt", "a");
+    await vfs.snapshot(N, "start");
+    await vfs.write(N, "/a.txt", "changed");
+    await vfs.write(N, "/b/c.txt", "c");
+
+    expect(await vfs.snapshotDiff(N, "start")).toEqual([
+      { path: "/a.txt", change: "modified", nodeType: "file" },
+      { path: "/b", change: "added", nodeType: "directory" },
+      { path: "/b/c.txt", change: "added", nodeType: "file" },
+    ]);
+    await vfs.rollback(N, "start");
+    expect(await vfs.read(N, "/a.txt")).toBe("a");
+    expect((await vfs.stat(N, "/b")).exists).toBe(false);
+    await expect(vfs.snapshot(N, "start")).rejects.toMatchObject({ code: "EEXIST" });
+  });
+
+  it("trashes, restores and purges removed paths", async () => {
+    const trashed = new VirtualFS(backend, { trash: { maxAgeDays: 7 } });
+    const N = "sqlite-trash";
+    await trashed.write(N, "/t/a.txt", "a");
+    await trashed.write(N, "/t/b.txt", "b");
+    expect(await trashed.rm(N, "/t")).toBe(3);
+    await trashed.write(N, "/gone.txt", "gone");
+    await trashed.rm(N, "/gone.txt");
+
+    const entries = await trashed.trashList(N);
+    expect(entries.map((e) => [e.path, e.files])).toEqual([
+      ["/gone.txt", 1],
+      ["/t", 2],
+    ]);
+    await trashed.trashRestore(N, entries[1].id);
+    expect(await trashed.read(N, "/t/b.txt")).toBe("b");
+    expect(await trashed.trashPurge(N)).toBe(1);
+    expect(await trashed.trashList(N)).toEqual([]);
+  });
+
+  it("applies conditional writes only while the etag matches", async () => {
+    const { etag } = await vfs.write(S, "/cas.txt", "v1");
+    const next = await vfs.append(S, "/cas.txt", "+", undefined, { ifMatch: etag });
+    expect(next.etag).toBe(contentEtag("v1+"));
+    await expect(vfs.move(S, "/cas.txt", "/moved.txt", undefined, { ifMatch: etag })).rejects.toMatchObject({
+      code: "ECONFLICT",
+    });
+    expect(await vfs.rm(S, "/cas.txt", undefined, { ifMatch: next.etag })).toBe(1);
+  });
+
+  it("honours write modes and move overwrite", async () => {
+    const ns = await backend.ensureSession(S);
+    await vfs.write(S, "/job.lock", "a", undefined, { mode: "create_only" });
+    // Straight to the backend, as if another writer got past VirtualFS's own checks
+    await expect(backend.upsertFile(ns, "/job.lock", "b", { mode: "create_only" })).rejects.toMatchObject({
+      code: "EEXIST",
+    });
+    await expect(backend.upsertFile(ns, "/none.txt", "b", { mode: "overwrite_only" })).rejects.toMatchObject({
+      code: "ENOENT",
+    });
+    await vfs.write(S, "/next.lock", "b");
+    await expect(backend.moveNode(ns, "/next.lock", "/job.lock")).rejects.toMatchObject({ code: "EEXIST" });
+    await vfs.move(S, "/next.lock", "/job.lock", undefined, { overwrite: true });
+    expect(await vfs.read(S, "/job.lock")).toBe("b");
+  });
+
+  it("enforces mandatory locks and renews them for their owner", async () => {
+    const first = await vfs.lock(S, "/locked/a.txt", "sqlite-locks", { ttlSeconds: 30, mandatory: true });
+    await expect(vfs.write("other", "/locked/a.txt", "x", "sqlite-locks")).rejects.toMatchObject({
+      code: "EBUSY",
+    });
+    await vfs.mkdir("other", "/elsewhere", "sqlite-locks");
+    await expect(vfs.move("other", "/elsewhere", "/locked", "sqlite-locks")).rejects.toMatchObject({
+      code: "EBUSY",
+    });
+
+    const renewed = await vfs.lock(S, "/locked/a.txt", "sqlite-locks", { ttlSeconds: 120, mandatory: true });
+    expect(renewed.createdAt).toEqual(first.createdAt);
+    expect(renewed.expiresAt.getTime()).toBeGreaterThan(first.expiresAt.getTime());
+    await vfs.unlock(S, "/locked/a.txt", "sqlite-locks");
+    await vfs.write("other", "/locked/a.txt", "x", "sqlite-locks");
+    expect(await vfs.locks(S, "sqlite-locks")).toEqual([]);
+  });
+
+  it("applies a batch all-or-nothing", async () => {
+    await vfs.write(S, "/batch/a.txt", "a");
+    await expect(
+      vfs.batch(S, [
+        { op: "append", path: "/batch/a.txt", content: "+" },
+        { op: "write", path: "/batch/b.txt", content: "b" },
+        { op: "write", path: "/batch", content: "not a file" },
+      ]),
+    ).rejects.toMatchObject({ code: "EISDIR", message: expect.stringContaining("Operation 3 (write)") });
+    expect(await vfs.read(S, "/batch/a.txt")).toBe("a");
+    expect((await vfs.stat(S, "/batch/b.txt")).exists).toBe(false);
+
+    const results = await vfs.batch(S, [
+      { op: "append", path: "/batch/a.txt", content: "+" },
+      { op: "rm", path: "/batch/a.txt", permanent: true },
+    ]);
+    expect(results[1]).toEqual({ op: "rm", path: "/batch/a.txt", deleted: 1, trashed: false });
+  });
+
+  it("keeps other callers' writes out of a failing batch", async () => {
+    const store = "sqlite-batch-race";
+    const [batch, write] = await Promise.allSettled([
+      vfs.batch(
+        "batcher",
+        [
+          { op: "write", path: "/1.txt", content: "1" },
+          { op: "write", path: "/2.txt", content: "2" },
+          { op: "write", path: "/3.txt", content: "3" },
+          { op: "rm", path: "/missing" },
+        ],
+        store,
+      ),
+      vfs.write("bystander", "/other.txt", "kept", store),
+    ]);
+    expect(batch.status).toBe("rejected");
+    expect(write.status).toBe("fulfilled");
+    expect(await vfs.read("bystander", "/other.txt", store)).toBe("kept");
+    expect((await vfs.stat("bystander", "/1.txt", store)).exists).toBe(false);
+  });
+
+  it("copies trees within and across namespaces", async () => {
+    await vfs.write(S, "/tpl/a.md", "a");
+    await vfs.write(S, "/tpl/sub/b.md", "b");
+    expect(await vfs.copy(S, "/tpl", "/tpl-copy")).toBe(4);
+    expect(await vfs.copy(S, "/tpl", "/templates", { destStore: "sqlite-copy-store" })).toBe(4);
+    expect(await vfs.read("elsewhere", "/templates/sub/b.md", "sqlite-copy-store")).toBe("b");
+    await expect(vfs.copy(S, "/tpl/a.md", "/tpl-copy/a.md")).rejects.toMatchObject({ code: "EEXIST" });
+    expect((await vfs.history(S, "/tpl-copy/a.md"))[0].op).toBe("write");
+  });
+
+  it("greps files narrowed by the pattern's literal text", async () => {
+    await vfs.write(S, "/narrow/a.log", "Disk FULL on sda\nok\n");
+    await vfs.write(S, "/narrow/b.log", "disk full on sdb\n");
+    await vfs.write(S, "/narrow/c.log", "nothing here\n");
+    const paths = async (pattern: string, opts: { ignoreCase?: boolean; fixedString?: boolean } = {}) => {
+      const result = await vfs.grepWithOptions(S, pattern, { ...opts, pathFilter: "/narrow/*", mode: "files" });
+      return result.mode === "files" ? result.files : [];
+    };
+    expect(await paths("disk full on sd[ab]")).toEqual(["/narrow/b.log"]);
+    expect(await paths("disk full", { ignoreCase: true })).toEqual(["/narrow/a.log", "/narrow/b.log"]);
+    expect(await paths("FULL on sd?", { fixedString: true })).toEqual([]);
+    expect(await paths("(full|here)")).toEqual(["/narrow/b.log", "/narrow/c.log"]);
+  });
+
+  it("greps large stores a batch of files at a time", async () => {
+    const filler = "x".repeat(2_500_000);
+    for (const name of ["a", "b", "c"]) await vfs.write(S, `/batches/${name}.txt`, `${filler}\nneedle ${name}\n`);
+    const capped = await vfs.grepWithOptions(S, "needle", { pathFilter: "/batches/*", maxResults: 2 });
+    expect(capped).toMatchObject({ truncated: true, matches: [{ line: "needle a" }, { line: "needle b" }] });
+    const counts = await vfs.grepWithOptions(S, "needle \\w", { pathFilter: "/batches/*", mode: "count" });
+    expect(counts).toMatchObject({ truncated: false, counts: [{ count: 1 }, { count: 1 }, { count: 1 }] });
+  });
+
+  it("aborts catastrophically backtracking grep patterns", async () => {
+    await vfs.write(S, "/redos/a.txt", "a".repeat(40) + "!");
+    const timedOut = { code: "EINVAL", message: expect.stringMatching(/exceeded/) };
+    await expect(vfs.grep(S, "^(a+)+$", "/redos/*")).rejects.toMatchObject(timedOut);
+    await expect(
+      vfs.grepWithOptions(S, "^(a+)+$", { pathFilter: "/redos/*", mode: "count" }),
+    ).rejects.toMatchObject(timedOut);
+  });
+
+  it("greps case-insensitively with context and counts", async () => {
+    await vfs.write(S, "/g/log.txt", "start\nERROR one\nok\nerror two\n");
+    const result = await vfs.grepWithOptions(S, "error", { pathFilter: "/g/*", ignoreCase: true, before: 1 });
+    expect(result.mode === "content" && result.matches).toEqual([
+      { path: "/g/log.txt", lineNumber: 2, line: "ERROR one", before: ["start"] },
+      { path: "/g/log.txt", lineNumber: 4, line: "error two", before: ["ok"] },
+    ]);
+    expect(await vfs.grepWithOptions(S, "error", { pathFilter: "/g/*", mode: "count" })).toMatchObject({
+      counts: [{ path: "/g/log.txt", count: 1 }],
+    });
+  });
+
+  it("greps only files matching a glob path filter", async () => {
+    await vfs.write(S, "/gf/a.ts", "x");
+    await vfs.write(S, "/gf/a.md", "x");
+    await vfs.write(S, "/gf/sub/b.ts", "x");
+    expect((await vfs.grep(S, "x", "/gf/*.{ts,js}")).map((m) => m.path)).toEqual(["/gf/a.ts"]);
+  });
+
+  it("lists directories in long format without reading contents back", async () => {
+    const { etag } = await vfs.write(S, "/long/f.txt", "sqlite");
+    await vfs.mkdir(S, "/long/d");
+    const { entries } = await vfs.lsPage(S, "/long", undefined, { long: true });
+    expect(entries).toMatchObject([
+      { name: "d", type: "directory", size: null, etag: null },
+      { name: "f.txt", type: "file", size: 6, etag },
+    ]);
+  });
+
+  it("pages size and modification time orders in SQL", async () => {
+    for (const name of ["c", "a", "b"]) await vfs.write(S, `/pages/${name}.txt`, "same");
+    await vfs.write(S, "/pages/big.txt", "bigger");
+    for (const sort of ["size", "mtime"] as const) {
+      const first = await vfs.lsPage(S, "/pages", undefined, { sort, limit: 2 });
+      const rest = await vfs.lsPage(S, "/pages", undefined, { sort, cursor: first.nextCursor ?? undefined });
+      const all = await vfs.lsPage(S, "/pages", undefined, { sort });
+      expect([...first.entries, ...rest.entries]).toEqual(all.entries);
+    }
+    const bySize = await vfs.lsPage(S, "/pages", undefined, { sort: "size" });
+    expect(bySize.entries.map((e) => e.name)).toEqual(["big.txt", "a.txt", "b.txt", "c.txt"]);
+  });
+
+  it("lists a tree with aggregated sizes", async () => {
+    await vfs.write(S, "/tree/a.txt", "aa");
+    await vfs.write(S, "/tree/sub/b.txt", "bbb");
+    await vfs.write(S, "/tree-sibling/c.txt", "c");
+    const tree = await vfs.tree(S, "/tree", undefined, { exclude: ["a.txt"] });
+    expect(tree).toMatchObject({ size: 3, files: 1, dirs: 1 });
+    expect(tree.children?.[0].children).toEqual([{ name: "b.txt", path: "/tree/sub/b.txt", type: "file", size: 3 }]);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
 import { VirtualFS, VfsError } from "../../src/vfs.js";
 import { PostgresBackend } from "../../src/storage/postgres.js";
 import { getTestBackend, releaseContainer } from "../helpers/pg-container.js";
@@ -148,3 +148,77 @@ describe("session auto-provisioning", () => {
     expect(content).toBe("hello");
   });
 });
+
+describe("store access control", () => {
+  it("new stores are owned by their creator and open to everyone", async () => {
+    await vfs.write("acl-owner", "/a.txt", "a", "acl-open");
+    expect(await vfs.storeAcl("acl-other", "acl-open")).toEqual({
+      owner: "acl-owner",
+      readers: [],
+      writers: ["*"],
+    });
+    await vfs.write("acl-other", "/b.txt", "b", "acl-open");
+  });
+
+  it("enforces read-only and read-write grants", async () => {
+    await vfs.write("acl-owner", "/doc.md", "v1", "acl-locked");
+    await vfs.revokeStoreAccess("acl-owner", "acl-locked", "*");
+    await vfs.grantStoreAccess("acl-owner", "acl-locked", "acl-reader", "read");
+    await vfs.grantStoreAccess("acl-owner", "acl-locked", "acl-writer", "write");
+
+    expect(await vfs.read("acl-reader", "/doc.md", "acl-locked")).toBe("v1");
+    await expect(vfs.write("acl-reader", "/doc.md", "v2", "acl-locked")).rejects.toMatchObject({ code: "EACCES" });
+    await expect(vfs.rm("acl-reader", "/doc.md", "acl-locked")).rejects.toMatchObject({ code: "EACCES" });
+
+    await vfs.write("acl-writer", "/doc.md", "v2", "acl-locked");
+    expect(await vfs.read("acl-owner", "/doc.md", "acl-locked")).toBe("v2");
+
+    await expect(vfs.ls("acl-stranger", "/", "acl-locked")).rejects.toMatchObject({ code: "EACCES" });
+    await expect(vfs.grep("acl-stranger", "v2", undefined, "acl-locked")).rejects.toMatchObject({ code: "EACCES" });
+  });
+
+  it("only the owner may grant and revoke", async () => {
+    await vfs.write("acl-owner", "/x.txt", "x", "acl-admin");
+    await expect(
+      vfs.grantStoreAccess("acl-other", "acl-admin", "acl-other", "write"),
+    ).rejects.toMatchObject({ code: "EACCES" });
+    await expect(vfs.revokeStoreAccess("acl-other", "acl-admin", "*")).rejects.toMatchObject({ code: "EACCES" });
+    await expect(vfs.storeAcl("acl-owner", "acl-missing")).rejects.toMatchObject({ code: "ENOENT" });
+  });
+
+  it("treats stores created without an ACL as unrestricted", async () => {
+    await backend.ensureStore("acl-legacy");
+    expect(await vfs.storeAcl("anyone", "acl-legacy")).toEqual({ owner: null, readers: [], writers: ["*"] });
+    await expect(vfs.revokeStoreAccess("anyone", "acl-legacy", "*")).rejects.toMatchObject({ code: "EACCES" });
+
+    const admin = new VirtualFS(backend, { admins: ["ops"] });
+    await admin.revokeStoreAccess("ops", "acl-legacy", "*");
+    await expect(vfs.read("anyone", "/x", "acl-legacy")).rejects.toMatchObject({ code: "EACCES" });
+  });
+
+  it("refuses to open a session as a store", async () => {
+    await vfs.write("acl-private", "/secret.txt", "s");
+    await expect(vfs.read("acl-intruder", "/secret.txt", "acl-private")).rejects.toMatchObject({ code: "EACCES" });
+    await expect(vfs.write("acl-intruder", "/x.txt", "x", "acl-private")).rejects.toMatchObject({ code: "EACCES" });
+    await expect(vfs.storeAcl("acl-intruder", "acl-private")).rejects.toMatchObject({ code: "EACCES" });
+    expect(await vfs.ls("acl-private", "/")).toHaveLength(1);
+  });
+
+  it("checks the ACL of a store someone else created first", async () => {
+    await vfs.write("acl-owner", "/x.txt", "x", "acl-race");
+    await vfs.revokeStoreAccess("acl-owner", "acl-race", "*");
+    // As if the owner created it between the stranger's lookup and creation attempt
+    vi.spyOn(backend, "getStoreAcl").mockResolvedValueOnce(null);
+    await expect(vfs.read("acl-stranger", "/x.txt", "acl-race")).rejects.toMatchObject({ code: "EACCES" });
+  });
+
+  it("refuses to create stores when auto-creation is disabled", async () => {
+    const strict = new VirtualFS(backend, { autoCreateStores: false, admins: ["ops"] });
+    await expect(strict.write("agent", "/f.txt", "f", "acl-strict")).rejects.toMatchObject({ code: "EACCES" });
+    expect(await vfs.listStores()).not.toContain("acl-strict");
+
+    await strict.stat("ops", "/", "acl-strict");
+    await strict.write("agent", "/f.txt", "f", "acl-strict");
+    expect(await strict.read("agent", "/f.txt", "acl-strict")).toBe("f");
+  });
+});
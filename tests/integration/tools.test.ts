@@ -49,7 +49,7 @@ async function callTool(name: string, args: Record<string, unknown> = {}): Promi
 }
 
 describe("MCP tool e2e via in-memory transport", () => {
-  it("lists all 11 tools", async () => {
+  it("lists all 34 tools", async () => {
     const { tools } = await client.listTools();
     const names = tools.map((t) => t.name);
     expect(names).toContain("read");
@@ -63,7 +63,30 @@ describe("MCP tool e2e via in-memory transport", () => {
     expect(names).toContain("glob");
     expect(names).toContain("grep");
     expect(names).toContain("stores");
-    expect(tools).toHaveLength(11);
+    expect(names).toContain("store_acl");
+    expect(names).toContain("store_grant");
+    expect(names).toContain("store_revoke");
+    expect(names).toContain("history");
+    expect(names).toContain("restore");
+    expect(names).toContain("history_retention");
+    expect(names).toContain("snapshot");
+    expect(names).toContain("snapshots");
+    expect(names).toContain("rollback");
+    expect(names).toContain("snapshot_diff");
+    expect(names).toContain("trash_list");
+    expect(names).toContain("trash_restore");
+    expect(names).toContain("trash_purge");
+    expect(names).toContain("lock");
+    expect(names).toContain("unlock");
+    expect(names).toContain("locks");
+    expect(names).toContain("batch");
+    expect(names).toContain("edit");
+    expect(names).toContain("patch");
+    expect(names).toContain("cp");
+    expect(names).toContain("tree");
+    expect(names).toContain("search");
+    expect(names).toContain("semantic_search");
+    expect(tools).toHaveLength(34);
   });
 
   it("tool schemas do not include session_id", async () => {
@@ -107,6 +130,7 @@ describe("MCP tool e2e via in-memory transport", () => {
       exists: true,
       type: "file",
       size: 27,
+      etag: expect.stringMatching(/^[0-9a-f]{32}$/),
     });
   });
 
@@ -149,6 +173,17 @@ describe("MCP tool e2e via in-memory transport", () => {
     expect(data.count).toBeGreaterThanOrEqual(2);
   });
 
+  it("glob matches directories and pages with a cursor", async () => {
+    const first = await callTool("glob", { pattern: "/project/**", type: "any", limit: 1 });
+    const page = first.data as { files: string[]; count: number; next_cursor: string | null };
+    expect(page).toMatchObject({ files: ["/project/hello.ts"], count: 1 });
+    const rest = await callTool("glob", { pattern: "/project/**", type: "any", cursor: page.next_cursor });
+    const data = rest.data as { files: string[]; next_cursor: string | null };
+    expect(data.files).toEqual(expect.arrayContaining(["/project/src", "/project/src/index.ts"]));
+    expect(data.files).not.toContain("/project/hello.ts");
+    expect(data.next_cursor).toBeNull();
+  });
+
   it("grep finds content matches", async () => {
     const result = await callTool("grep", { pattern: "hello" });
     const data = result.data as { matches: Array<{ path: string; lineNumber: number; line: string }>; count: number };
@@ -244,6 +279,29 @@ describe("MCP tool e2e via in-memory transport", () => {
     expect(data.entries).toEqual([]);
   });
 
+  it("search ranks files with snippets", async () => {
+    await callTool("write", { path: "/kb/deploy.md", content: "Deploying the billing service needs a migration." });
+    await callTool("write", { path: "/kb/other.md", content: "Nothing relevant." });
+
+    const result = await callTool("search", { query: "billing migrations", path_filter: "/kb/**" });
+    const data = result.data as {
+      results: Array<{ path: string; rank: number; snippet: string }>;
+      count: number;
+      skipped_offloaded: number;
+    };
+    expect(data.count).toBe(1);
+    expect(data.skipped_offloaded).toBe(0);
+    expect(data.results[0]).toMatchObject({ path: "/kb/deploy.md", snippet: expect.stringContaining("**billing**") });
+
+    const bad = await callTool("search", { query: "x", language: "klingon" });
+    expect(bad).toEqual({ isError: true, data: expect.stringContaining("EINVAL") });
+  });
+
+  it("semantic_search needs an embedding provider", async () => {
+    const result = await callTool("semantic_search", { query: "billing" });
+    expect(result).toEqual({ isError: true, data: expect.stringContaining("ENOTSUP") });
+  });
+
   it("grep with path_filter", async () => {
     await callTool("write", { path: "/src/app.ts", content: "const x = 42;" });
     await callTool("write", { path: "/docs/guide.md", content: "const y = 42;" });
@@ -256,4 +314,395 @@ describe("MCP tool e2e via in-memory transport", () => {
     expect(data.matches.some((m) => m.path === "/src/app.ts")).toBe(true);
     expect(data.matches.some((m) => m.path === "/docs/guide.md")).toBe(false);
   });
+
+  it("store_grant and store_revoke manage access, reported as EACCES", async () => {
+    await callTool("write", { path: "/secret.md", content: "s", store: "mcp-acl" });
+
+    const revoked = await callTool("store_revoke", { store: "mcp-acl", principal: "*" });
+    expect(revoked.data).toEqual({ store: "mcp-acl", owner: FALLBACK_SESSION, readers: [], writers: [] });
+
+    const granted = await callTool("store_grant", { store: "mcp-acl", principal: "mcp-peer", access: "read" });
+    expect(granted.data).toEqual({
+      store: "mcp-acl",
+      owner: FALLBACK_SESSION,
+      readers: ["mcp-peer"],
+      writers: [],
+    });
+    expect((await callTool("store_acl", { store: "mcp-acl" })).data).toEqual(granted.data);
+
+    const peer = new VirtualFS(backend);
+    expect(await peer.read("mcp-peer", "/secret.md", "mcp-acl")).toBe("s");
+    await expect(peer.write("mcp-peer", "/secret.md", "x", "mcp-acl")).rejects.toMatchObject({ code: "EACCES" });
+    await expect(peer.read("mcp-stranger", "/secret.md", "mcp-acl")).rejects.toMatchObject({ code: "EACCES" });
+  });
+
+  it("store_grant by a non-owner returns EACCES", async () => {
+    await new VirtualFS(backend).write("mcp-someone-else", "/f.txt", "f", "mcp-foreign");
+    const result = await callTool("store_grant", { store: "mcp-foreign", principal: "me", access: "write" });
+    expect(result.isError).toBe(true);
+    expect(result.data).toMatch(/^EACCES: /);
+  });
+
+  it("history, read at a version and restore recover an overwritten file", async () => {
+    await callTool("write", { path: "/hist.md", content: "keep me" });
+    await callTool("write", { path: "/hist.md", content: "oops" });
+
+    const history = (await callTool("history", { path: "/hist.md" })).data as {
+      revisions: Array<{ version: number; op: string; size: number; created_at: string }>;
+      count: number;
+    };
+    expect(history.count).toBe(2);
+    const original = history.revisions[1];
+    expect(original).toMatchObject({ op: "write", size: 7 });
+
+    expect((await callTool("read", { path: "/hist.md", version: original.version })).data).toMatchObject({
+      content: "keep me",
+    });
+    expect((await callTool("restore", { path: "/hist.md", version: original.version })).data).toEqual({
+      path: "/hist.md",
+      version: original.version,
+      size: 7,
+    });
+    expect((await callTool("read", { path: "/hist.md" })).data).toMatchObject({ content: "keep me" });
+  });
+
+  it("history_retention reads and updates the namespace settings", async () => {
+    expect((await callTool("history_retention", { store: "mcp-hist" })).data).toEqual({
+      max_versions: 20,
+      max_age_days: null,
+    });
+    const updated = await callTool("history_retention", { store: "mcp-hist", max_versions: 5, max_age_days: 7 });
+    expect(updated.data).toEqual({ max_versions: 5, max_age_days: 7 });
+  });
+
+  it("snapshot, snapshot_diff and rollback undo a multi-step change", async () => {
+    const store = "mcp-snap";
+    await callTool("write", { path: "/config.json", content: "{}", store });
+    const created = await callTool("snapshot", { name: "safe", store });
+    expect(created.data).toMatchObject({ name: "safe", files: 1 });
+
+    await callTool("write", { path: "/config.json", content: "{broken", store });
+    await callTool("write", { path: "/extra.txt", content: "x", store });
+
+    const diff = await callTool("snapshot_diff", { from: "safe", store });
+    expect(diff.data).toEqual({
+      from: "safe",
+      to: null,
+      changes: [
+        { path: "/config.json", change: "modified", type: "file" },
+        { path: "/extra.txt", change: "added", type: "file" },
+      ],
+      count: 2,
+    });
+
+    expect((await callTool("rollback", { name: "safe", store })).data).toMatchObject({ name: "safe", files: 1 });
+    expect((await callTool("read", { path: "/config.json", store })).data).toMatchObject({ content: "{}" });
+    expect((await callTool("snapshots", { store })).data).toMatchObject({ count: 1 });
+
+    const missing = await callTool("rollback", { name: "nope", store });
+    expect(missing.isError).toBe(true);
+    expect(missing.data).toMatch(/^ENOENT: /);
+  });
+
+  it("if_match turns a stale read-modify-write into ECONFLICT", async () => {
+    await callTool("write", { path: "/shared.md", content: "base" });
+    const { etag } = (await callTool("read", { path: "/shared.md" })).data as { etag: string };
+
+    const mine = await callTool("write", { path: "/shared.md", content: "mine", if_match: etag });
+    expect(mine.data).toMatchObject({ etag: expect.not.stringMatching(etag) });
+    const theirs = await callTool("append", { path: "/shared.md", content: "theirs", if_match: etag });
+    expect(theirs.isError).toBe(true);
+    expect(theirs.data).toMatch(/^ECONFLICT: /);
+
+    const rm = await callTool("rm", { path: "/shared.md", if_match: (mine.data as { etag: string }).etag });
+    expect(rm.data).toMatchObject({ deleted: 1 });
+  });
+
+  it("write mode create_only and mv overwrite", async () => {
+    const claim = { path: "/queue/job-7.lock", content: "me", mode: "create_only" };
+    expect((await callTool("write", claim)).isError).toBe(false);
+    const again = await callTool("write", claim);
+    expect(again.isError).toBe(true);
+    expect(again.data).toMatch(/^EEXIST: /);
+
+    await callTool("write", { path: "/queue/job-7.next", content: "next" });
+    const refused = await callTool("mv", { source: "/queue/job-7.next", destination: "/queue/job-7.lock" });
+    expect(refused.data).toMatch(/^EEXIST: /);
+    await callTool("mv", { source: "/queue/job-7.next", destination: "/queue/job-7.lock", overwrite: true });
+    expect((await callTool("read", { path: "/queue/job-7.lock" })).data).toMatchObject({ content: "next" });
+  });
+
+  it("lock, locks and unlock a path in a shared store", async () => {
+    const store = "tools-locks";
+    const locked = await callTool("lock", { path: "/release.md", ttl_seconds: 120, mandatory: true, store });
+    expect(locked.data).toMatchObject({ path: "/release.md", owner: FALLBACK_SESSION, mandatory: true });
+
+    const listed = (await callTool("locks", { store })).data as { locks: Array<{ path: string }>; count: number };
+    expect(listed.count).toBe(1);
+    expect(listed.locks[0]).toMatchObject({ path: "/release.md", owner: FALLBACK_SESSION });
+
+    // Another session sharing the store is locked out; the holder is not
+    const other = new VirtualFS(backend);
+    await expect(other.write("mcp-other-session", "/release.md", "x", store)).rejects.toMatchObject({
+      code: "EBUSY",
+    });
+    expect((await callTool("write", { path: "/release.md", content: "notes", store })).isError).toBe(false);
+
+    expect((await callTool("unlock", { path: "/release.md", store })).data).toEqual({
+      path: "/release.md",
+      unlocked: true,
+    });
+    const again = await callTool("unlock", { path: "/release.md", store });
+    expect(again.data).toMatch(/^ENOENT: /);
+  });
+
+  it("edit replaces a unique string or several in one call", async () => {
+    await callTool("write", { path: "/edit/app.py", content: "DEBUG = True\nPORT = 80\nPORT_ALT = 80\n" });
+    const single = await callTool("edit", { path: "/edit/app.py", old_string: "DEBUG = True", new_string: "DEBUG = False" });
+    expect(single.data).toMatchObject({ path: "/edit/app.py", replacements: 1, etag: expect.any(String) });
+
+    const ambiguous = await callTool("edit", { path: "/edit/app.py", old_string: "80", new_string: "8080" });
+    expect(ambiguous.data).toMatch(/^EINVAL: old_string occurs 2 times/);
+
+    const multi = await callTool("edit", {
+      path: "/edit/app.py",
+      edits: [
+        { old_string: "80", new_string: "8080", replace_all: true },
+        { old_string: "PORT_ALT", new_string: "FALLBACK_PORT" },
+      ],
+    });
+    expect(multi.data).toMatchObject({ replacements: 3 });
+    expect((await callTool("read", { path: "/edit/app.py" })).data).toMatchObject({
+      content: "DEBUG = False\nPORT = 8080\nFALLBACK_PORT = 8080\n",
+    });
+
+    const neither = await callTool("edit", { path: "/edit/app.py", old_string: "DEBUG" });
+    expect(neither.data).toMatch(/^EINVAL: /);
+  });
+
+  it("read returns line ranges, numbered lines and byte ranges", async () => {
+    await callTool("write", { path: "/ranged/server.log", content: "boot\nlisten\nrequest\nshutdown\n" });
+
+    const tail = await callTool("read", { path: "/ranged/server.log", tail: 2, line_numbers: true });
+    expect(tail.data).toMatchObject({
+      content: "     3\trequest\n     4\tshutdown\n",
+      start_line: 3,
+      end_line: 4,
+      total_lines: 4,
+      etag: expect.any(String),
+    });
+    const window = await callTool("read", { path: "/ranged/server.log", offset: 2, limit: 1 });
+    expect(window.data).toMatchObject({ content: "listen\n", start_line: 2, end_line: 2 });
+    const bytes = await callTool("read", { path: "/ranged/server.log", byte_offset: 5, byte_limit: 6 });
+    expect(bytes.data).toMatchObject({ content: "listen", byte_offset: 5, total_bytes: 29 });
+
+    const mixed = await callTool("read", { path: "/ranged/server.log", head: 1, tail: 1 });
+    expect(mixed.data).toMatch(/^EINVAL: /);
+  });
+
+  it("cp copies session work into a store", async () => {
+    await callTool("write", { path: "/work/summary.md", content: "# Summary" });
+    const copied = await callTool("cp", { source: "/work", destination: "/summaries", dest_store: "tools-cp-store" });
+    expect(copied.data).toEqual({ source: "/work", destination: "/summaries", copied: 2 });
+    expect((await callTool("read", { path: "/summaries/summary.md", store: "tools-cp-store" })).data).toMatchObject({
+      content: "# Summary",
+    });
+
+    const again = await callTool("cp", { source: "/work", destination: "/summaries", dest_store: "tools-cp-store" });
+    expect(again.data).toMatch(/^EEXIST: /);
+  });
+
+  it("grep takes flags, context and output modes", async () => {
+    await callTool("write", { path: "/grep-opts/a.py", content: "import os\nprint(ERR)\nexit(1)\n" });
+    await callTool("write", { path: "/grep-opts/b.py", content: "err = None\nerr = 1\n" });
+
+    const content = await callTool("grep", {
+      pattern: "err",
+      path_filter: "/grep-opts/*",
+      case_insensitive: true,
+      context: 1,
+      max_results: 2,
+    });
+    expect(content.data).toEqual({
+      matches: [
+        { path: "/grep-opts/a.py", lineNumber: 2, line: "print(ERR)", before: ["import os"], after: ["exit(1)"] },
+        { path: "/grep-opts/b.py", lineNumber: 1, line: "err = None", before: [], after: ["err = 1"] },
+      ],
+      count: 2,
+      truncated: true,
+    });
+
+    const files = await callTool("grep", { pattern: "exit(1)", fixed_string: true, output_mode: "files_with_matches" });
+    expect(files.data).toEqual({ files: ["/grep-opts/a.py"], count: 1, truncated: false });
+    const counts = await callTool("grep", { pattern: "err", path_filter: "/grep-opts/*", output_mode: "count" });
+    expect(counts.data).toEqual({ counts: [{ path: "/grep-opts/b.py", count: 2 }], total: 2, truncated: false });
+  });
+
+  it("ls long lists metadata and pages with next_cursor", async () => {
+    await callTool("write", { path: "/ls-long/a.md", content: "alpha" });
+    await callTool("write", { path: "/ls-long/b.md", content: "b" });
+
+    const first = await callTool("ls", { path: "/ls-long", long: true, sort: "size", limit: 1 });
+    const data = first.data as { entries: unknown[]; next_cursor: string };
+    expect(data.entries).toEqual([
+      {
+        name: "a.md",
+        type: "file",
+        size: 5,
+        etag: expect.any(String),
+        created_at: expect.any(String),
+        updated_at: expect.any(String),
+      },
+    ]);
+    const next = await callTool("ls", { path: "/ls-long", sort: "size", cursor: data.next_cursor });
+    expect(next.data).toEqual({ entries: [{ name: "b.md", type: "file" }], next_cursor: null });
+  });
+
+  it("tree lists a directory as JSON or indented text", async () => {
+    await callTool("write", { path: "/tree/src/app.ts", content: "app" });
+    await callTool("write", { path: "/tree/README.md", content: "readme" });
+
+    const json = await callTool("tree", { path: "/tree", include: ["*.ts"] });
+    expect(json.data).toEqual({
+      tree: {
+        name: "tree",
+        path: "/tree",
+        type: "directory",
+        size: 3,
+        files: 1,
+        dirs: 1,
+        children: [
+          {
+            name: "src",
+            path: "/tree/src",
+            type: "directory",
+            size: 3,
+            files: 1,
+            dirs: 0,
+            children: [{ name: "app.ts", path: "/tree/src/app.ts", type: "file", size: 3 }],
+          },
+        ],
+      },
+    });
+
+    const text = await callTool("tree", { path: "/tree", format: "text" });
+    expect(text.data).toEqual({
+      tree:
+        "/tree (1 dirs, 2 files, 9 bytes)\n" +
+        "├── src/ (0 dirs, 1 files, 3 bytes)\n" +
+        "│   └── app.ts (3 bytes)\n" +
+        "└── README.md (6 bytes)",
+    });
+
+    expect((await callTool("tree", { path: "/tree/missing" })).data).toMatch(/^ENOENT: /);
+  });
+
+  it("patch dry-runs and applies a unified diff", async () => {
+    await callTool("write", { path: "/patch/main.go", content: "package main\n\nfunc main() {}\n" });
+    const diff = "--- a/patch/main.go\n+++ b/patch/main.go\n@@ -3 +3 @@\n-func main() {}\n+func main() { run() }\n";
+
+    const dry = await callTool("patch", { patch: diff, dry_run: true });
+    expect(dry.data).toMatchObject({
+      dry_run: true,
+      applied: false,
+      files: [{ path: "/patch/main.go", action: "modify", hunks: [{ hunk: 1, applied: true, offset: 0, fuzz: 0 }] }],
+    });
+    expect((await callTool("patch", { patch: diff })).data).toMatchObject({ dry_run: false, applied: true });
+    expect((await callTool("read", { path: "/patch/main.go" })).data).toMatchObject({
+      content: "package main\n\nfunc main() { run() }\n",
+    });
+
+    const stale = await callTool("patch", { patch: diff });
+    expect(stale.data).toMatch(/^ECONFLICT: Patch does not apply/);
+  });
+
+  it("batch applies operations together or not at all", async () => {
+    const failed = await callTool("batch", {
+      operations: [
+        { op: "write", path: "/batch/a.md", content: "a" },
+        { op: "mv", source: "/batch/missing.md", destination: "/batch/b.md" },
+      ],
+    });
+    expect(failed.isError).toBe(true);
+    expect(failed.data).toMatch(/^ENOENT: Operation 2 \(mv\) failed: /);
+    expect((await callTool("stat", { path: "/batch/a.md" })).data).toEqual({ exists: false });
+
+    const applied = await callTool("batch", {
+      operations: [
+        { op: "write", path: "/batch/a.md", content: "a", mode: "create_only" },
+        { op: "mv", source: "/batch/a.md", destination: "/batch/b.md" },
+        { op: "append", path: "/batch/b.md", content: "b", if_match: "stale" },
+      ],
+    });
+    expect(applied.data).toMatch(/^ECONFLICT: Operation 3 \(append\)/);
+
+    const ok = await callTool("batch", {
+      operations: [
+        { op: "write", path: "/batch/a.md", content: "a" },
+        { op: "mv", source: "/batch/a.md", destination: "/batch/b.md" },
+      ],
+    });
+    expect(ok.data).toEqual({
+      results: [
+        { op: "write", path: "/batch/a.md", size: 1, has_parents: true, etag: expect.any(String) },
+        { op: "mv", source: "/batch/a.md", destination: "/batch/b.md" },
+      ],
+      count: 2,
+    });
+  });
+});
+
+describe("trash tools", () => {
+  let trashClient: Client;
+  let trashServer: McpServer;
+
+  beforeAll(async () => {
+    trashServer = new McpServer({ name: "test-vfs-trash", version: "0.0.1" });
+    registerTools(trashServer, new VirtualFS(backend, { trash: { maxAgeDays: 30 } }), "mcp-trash-session");
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    trashClient = new Client({ name: "test-client", version: "0.0.1" });
+    await trashServer.connect(serverTransport);
+    await trashClient.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await trashClient.close();
+    await trashServer.close();
+  });
+
+  async function call(name: string, args: Record<string, unknown> = {}): Promise<{ data: unknown; isError?: boolean }> {
+    const result = await trashClient.callTool({ name, arguments: args });
+    const text = (result.content as Array<{ type: string; text: string }>)[0].text;
+    return result.isError ? { data: text, isError: true } : { data: JSON.parse(text) };
+  }
+
+  it("rm moves to the trash, trash_restore handles conflicts, trash_purge empties it", async () => {
+    await call("write", { path: "/draft.md", content: "draft" });
+    expect((await call("rm", { path: "/draft.md" })).data).toEqual({ path: "/draft.md", deleted: 1, trashed: true });
+
+    const listed = (await call("trash_list")).data as {
+      entries: Array<{ id: number; path: string; type: string; deleted_at: string; files: number }>;
+      count: number;
+    };
+    expect(listed.count).toBe(1);
+    const [entry] = listed.entries;
+    expect(entry).toMatchObject({ path: "/draft.md", type: "file", files: 1 });
+
+    await call("write", { path: "/draft.md", content: "replacement" });
+    const conflict = await call("trash_restore", { id: entry.id });
+    expect(conflict.isError).toBe(true);
+    expect(conflict.data).toMatch(/^EEXIST: /);
+
+    expect((await call("trash_restore", { id: entry.id, destination: "/draft.old.md" })).data).toEqual({
+      id: entry.id,
+      path: "/draft.old.md",
+      original_path: "/draft.md",
+      files: 1,
+    });
+    expect((await call("read", { path: "/draft.old.md" })).data).toMatchObject({ content: "draft" });
+
+    expect((await call("rm", { path: "/draft.md", permanent: true })).data).toMatchObject({ trashed: false });
+    await call("rm", { path: "/draft.old.md" });
+    expect((await call("trash_purge")).data).toEqual({ purged: 1 });
+  });
 });
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import pg from "pg";
+import { VirtualFS } from "../../src/vfs.js";
+import { PostgresBackend } from "../../src/storage/postgres.js";
+import { getTestBackend, getConnectionUri, releaseContainer } from "../helpers/pg-container.js";
+
+let backend: PostgresBackend;
+let vfs: VirtualFS;
+
+beforeAll(async () => {
+  backend = await getTestBackend();
+  vfs = new VirtualFS(backend, { trash: { maxAgeDays: 30 } });
+});
+
+afterAll(async () => {
+  await backend.close();
+  await releaseContainer();
+});
+
+describe("trash", () => {
+  it("moves removed subtrees to the trash and restores them", async () => {
+    const s = "trash-restore";
+    await vfs.write(s, "/docs/a.md", "a");
+    await vfs.write(s, "/docs/sub/b.md", "b");
+
+    expect(await vfs.rm(s, "/docs")).toBe(4);
+    expect((await vfs.stat(s, "/docs")).exists).toBe(false);
+
+    const [entry] = await vfs.trashList(s);
+    expect(entry).toMatchObject({ path: "/docs", nodeType: "directory", files: 2 });
+    expect(entry.deletedAt).toBeInstanceOf(Date);
+
+    expect(await vfs.trashRestore(s, entry.id)).toMatchObject({ restoredTo: "/docs", files: 2 });
+    expect(await vfs.read(s, "/docs/sub/b.md")).toBe("b");
+    expect(await vfs.trashList(s)).toEqual([]);
+  });
+
+  it("refuses to restore over an existing path unless given another destination", async () => {
+    const s = "trash-conflict";
+    await vfs.write(s, "/notes.md", "old");
+    await vfs.rm(s, "/notes.md");
+    await vfs.write(s, "/notes.md", "new");
+    const [entry] = await vfs.trashList(s);
+
+    await expect(vfs.trashRestore(s, entry.id)).rejects.toMatchObject({ code: "EEXIST" });
+    await vfs.trashRestore(s, entry.id, "/recovered/notes.md");
+    expect(await vfs.read(s, "/recovered/notes.md")).toBe("old");
+    expect(await vfs.read(s, "/notes.md")).toBe("new");
+  });
+
+  it("lists entries newest first and purges one or all", async () => {
+    const s = "trash-purge";
+    for (const name of ["a", "b", "c"]) {
+      await vfs.write(s, `/${name}.txt`, name);
+      await vfs.rm(s, `/${name}.txt`);
+    }
+    const entries = await vfs.trashList(s);
+    expect(entries.map((e) => e.path)).toEqual(["/c.txt", "/b.txt", "/a.txt"]);
+
+    expect(await vfs.trashPurge(s, entries[1].id)).toBe(1);
+    await expect(vfs.trashPurge(s, entries[1].id)).rejects.toMatchObject({ code: "ENOENT" });
+    expect(await vfs.trashPurge(s)).toBe(2);
+    expect(await vfs.trashList(s)).toEqual([]);
+  });
+
+  it("deletes permanently when asked, and always without trash enabled", async () => {
+    const s = "trash-permanent";
+    await vfs.write(s, "/x.txt", "x");
+    await vfs.rm(s, "/x.txt", undefined, { permanent: true });
+    await new VirtualFS(backend).write(s, "/y.txt", "y");
+    await new VirtualFS(backend).rm(s, "/y.txt");
+    expect(await vfs.trashList(s)).toEqual([]);
+  });
+
+  it("expires entries older than the configured age", async () => {
+    const s = "trash-expiry";
+    await vfs.write(s, "/old.txt", "old");
+    await vfs.rm(s, "/old.txt");
+    const pool = new pg.Pool({ connectionString: getConnectionUri() });
+    try {
+      await pool.query(
+        `UPDATE vfs_trash SET deleted_at = now() - interval '31 days' WHERE session_id = $1`,
+        [s],
+      );
+    } finally {
+      await pool.end();
+    }
+    await vfs.write(s, "/fresh.txt", "fresh");
+    await vfs.rm(s, "/fresh.txt");
+
+    expect((await vfs.trashList(s)).map((e) => e.path)).toEqual(["/fresh.txt"]);
+  });
+
+  it("records trashing and restoring in file history", async () => {
+    const s = "trash-history";
+    await vfs.write(s, "/f.txt", "content");
+    await vfs.rm(s, "/f.txt");
+    const [entry] = await vfs.trashList(s);
+    await vfs.trashRestore(s, entry.id);
+
+    expect((await vfs.history(s, "/f.txt")).map((r) => [r.op, r.size])).toEqual([
+      ["write", 7],
+      ["delete", null],
+      ["write", 7],
+    ]);
+  });
+});
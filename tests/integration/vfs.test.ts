@@ -86,6 +86,101 @@ describe("write + read", () => {
   });
 });
 
+describe("readRange", () => {
+  const S = "test-session-range";
+  const LOG = "one\ntwo\nthree\n\nfive\n";
+
+  it("reads lines by offset and limit, head and tail", async () => {
+    const { etag } = await vfs.write(S, "/app.log", LOG);
+    expect(await vfs.readRange(S, "/app.log", { unit: "lines", start: 2, count: 2 })).toEqual({
+      content: "two\nthree\n",
+      start: 2,
+      total: 5,
+      etag,
+    });
+    expect((await vfs.readRange(S, "/app.log", { unit: "lines", start: 1, count: 1 })).content).toBe("one\n");
+    expect((await vfs.readRange(S, "/app.log", { unit: "lines", start: -2 })).content).toBe("\nfive\n");
+    expect(await vfs.readRange(S, "/app.log", { unit: "lines", start: 9 })).toMatchObject({ content: "", start: 6 });
+  });
+
+  it("counts an unterminated last line and keeps it as is", async () => {
+    await vfs.write(S, "/partial.log", "a\nb");
+    expect(await vfs.readRange(S, "/partial.log", { unit: "lines", start: -1 })).toMatchObject({
+      content: "b",
+      start: 2,
+      total: 2,
+    });
+    await vfs.write(S, "/empty.log", "");
+    expect(await vfs.readRange(S, "/empty.log", { unit: "lines", start: 1 })).toMatchObject({ content: "", total: 0 });
+  });
+
+  it("reads UTF-8 byte ranges", async () => {
+    await vfs.write(S, "/bytes.txt", "héllo wörld");
+    expect(await vfs.readRange(S, "/bytes.txt", { unit: "bytes", start: 7, count: 6 })).toMatchObject({
+      content: "wörld",
+      start: 7,
+      total: 13,
+    });
+    expect((await vfs.readRange(S, "/bytes.txt", { unit: "bytes", start: 0, count: 2 })).content).toBe("h\uFFFD");
+    expect((await vfs.readRange(S, "/bytes.txt", { unit: "bytes", start: 50 })).content).toBe("");
+  });
+
+  it("slices earlier versions and reports missing files and directories", async () => {
+    await vfs.write(S, "/versioned.log", "v1 line 1\nv1 line 2\n");
+    await vfs.write(S, "/versioned.log", "v2\n");
+    const [, first] = await vfs.history(S, "/versioned.log");
+    expect(await vfs.readRange(S, "/versioned.log", { unit: "lines", start: 2 }, undefined, first.version)).toEqual({
+      content: "v1 line 2\n",
+      start: 2,
+      total: 2,
+      etag: null,
+    });
+
+    await vfs.mkdir(S, "/logs");
+    await expect(vfs.readRange(S, "/logs", { unit: "lines", start: 1 })).rejects.toMatchObject({ code: "EISDIR" });
+    await expect(vfs.readRange(S, "/nope", { unit: "bytes", start: 0 })).rejects.toMatchObject({ code: "ENOENT" });
+  });
+});
+
+describe("write modes", () => {
+  const S = "test-session-write-modes";
+
+  it("create_only refuses an existing path with EEXIST", async () => {
+    await vfs.write(S, "/claimed.lock", "agent-1", undefined, { mode: "create_only" });
+    await expect(
+      vfs.write(S, "/claimed.lock", "agent-2", undefined, { mode: "create_only" }),
+    ).rejects.toMatchObject({ code: "EEXIST" });
+    await vfs.mkdir(S, "/claimed-dir");
+    await expect(
+      vfs.write(S, "/claimed-dir", "x", undefined, { mode: "create_only" }),
+    ).rejects.toMatchObject({ code: "EEXIST" });
+    expect(await vfs.read(S, "/claimed.lock")).toBe("agent-1");
+  });
+
+  it("create_only lets exactly one of several racing writers claim a path", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 8 }, (_, i) =>
+        vfs.write(S, "/queue/job-42.lock", `agent-${i}`, undefined, { mode: "create_only" }),
+      ),
+    );
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    for (const r of results) {
+      if (r.status === "rejected") expect(r.reason).toMatchObject({ code: "EEXIST" });
+    }
+  });
+
+  it("overwrite_only refuses a missing file with ENOENT and creates nothing", async () => {
+    await expect(
+      vfs.write(S, "/missing/file.txt", "x", undefined, { mode: "overwrite_only" }),
+    ).rejects.toMatchObject({ code: "ENOENT" });
+    expect((await vfs.stat(S, "/missing")).exists).toBe(false);
+
+    await vfs.write(S, "/present.txt", "v1");
+    await vfs.write(S, "/present.txt", "v2", undefined, { mode: "overwrite_only" });
+    expect(await vfs.read(S, "/present.txt")).toBe("v2");
+  });
+});
+
 describe("append", () => {
   const S = "test-session-append";
 
@@ -126,6 +221,60 @@ describe("append", () => {
   });
 });
 
+describe("edit", () => {
+  const S = "test-session-edit";
+
+  it("replaces text and records a revision", async () => {
+    await vfs.write(S, "/config.ts", "export const port = 3000;\nexport const host = 'localhost';\n");
+    const result = await vfs.edit(S, "/config.ts", [{ oldString: "3000", newString: "8080" }]);
+    expect(result.replacements).toBe(1);
+    expect(await vfs.read(S, "/config.ts")).toBe("export const port = 8080;\nexport const host = 'localhost';\n");
+    expect((await vfs.stat(S, "/config.ts")).etag).toBe(result.etag);
+    expect((await vfs.history(S, "/config.ts"))[0].op).toBe("write");
+  });
+
+  it("changes nothing when any edit fails", async () => {
+    await vfs.write(S, "/multi.txt", "one two two");
+    await expect(
+      vfs.edit(S, "/multi.txt", [
+        { oldString: "one", newString: "1" },
+        { oldString: "two", newString: "2" },
+      ]),
+    ).rejects.toMatchObject({ code: "EINVAL", message: expect.stringContaining("occurs 2 times") });
+    expect(await vfs.read(S, "/multi.txt")).toBe("one two two");
+  });
+
+  it("throws ENOENT for a missing file and EISDIR for a directory", async () => {
+    await expect(vfs.edit(S, "/nope.txt", [{ oldString: "a", newString: "b" }])).rejects.toMatchObject({
+      code: "ENOENT",
+    });
+    await vfs.mkdir(S, "/editdir");
+    await expect(vfs.edit(S, "/editdir", [{ oldString: "a", newString: "b" }])).rejects.toMatchObject({
+      code: "EISDIR",
+    });
+  });
+
+  it("keeps appends that race with edits", async () => {
+    await vfs.write(S, "/race.log", "status: pending\n");
+    await Promise.all([
+      vfs.edit(S, "/race.log", [{ oldString: "pending", newString: "done" }]),
+      ...Array.from({ length: 5 }, (_, i) => vfs.append(S, "/race.log", `line ${i}\n`)),
+    ]);
+    const lines = (await vfs.read(S, "/race.log")).trim().split("\n");
+    expect(lines[0]).toBe("status: done");
+    expect(lines.slice(1).sort()).toEqual(["line 0", "line 1", "line 2", "line 3", "line 4"]);
+  });
+
+  it("fails with ECONFLICT instead of retrying when if_match is stale", async () => {
+    const { etag } = await vfs.write(S, "/pinned.txt", "a");
+    await vfs.append(S, "/pinned.txt", "b");
+    await expect(
+      vfs.edit(S, "/pinned.txt", [{ oldString: "a", newString: "c" }], undefined, { ifMatch: etag }),
+    ).rejects.toMatchObject({ code: "ECONFLICT" });
+    expect(await vfs.read(S, "/pinned.txt")).toBe("ab");
+  });
+});
+
 describe("stat", () => {
   const S = "test-session-stat";
 
@@ -137,7 +286,12 @@ describe("stat", () => {
   it("returns file metadata with size", async () => {
     await vfs.write(S, "/file.txt", "hello");
     const result = await vfs.stat(S, "/file.txt");
-    expect(result).toEqual({ exists: true, type: "file", size: 5 });
+    expect(result).toEqual({
+      exists: true,
+      type: "file",
+      size: 5,
+      etag: "5d41402abc4b2a76b9719d911017c592", // md5("hello")
+    });
   });
 
   it("returns directory metadata with children count", async () => {
@@ -191,6 +345,79 @@ describe("ls", () => {
       expect((e as VfsError).code).toBe("ENOTDIR");
     }
   });
+
+  it("returns size, etag and timestamps in long listings", async () => {
+    const { etag } = await vfs.write(S, "/long/a.txt", "hello");
+    await vfs.mkdir(S, "/long/dir");
+    const { entries, nextCursor } = await vfs.lsPage(S, "/long", undefined, { long: true });
+    expect(entries).toEqual([
+      { name: "dir", type: "directory", size: null, etag: null, createdAt: expect.any(Date), updatedAt: expect.any(Date) },
+      { name: "a.txt", type: "file", size: 5, etag, createdAt: expect.any(Date), updatedAt: expect.any(Date) },
+    ]);
+    expect(nextCursor).toBeNull();
+  });
+
+  it("sorts by size or modification time", async () => {
+    await vfs.write(S, "/sorted/small.txt", "s");
+    await vfs.write(S, "/sorted/large.txt", "large");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await vfs.write(S, "/sorted/medium.txt", "med");
+
+    const bySize = await vfs.lsPage(S, "/sorted", undefined, { sort: "size" });
+    expect(bySize.entries.map((e) => e.name)).toEqual(["large.txt", "medium.txt", "small.txt"]);
+    const byMtime = await vfs.lsPage(S, "/sorted", undefined, { sort: "mtime" });
+    expect(byMtime.entries[0].name).toBe("medium.txt");
+  });
+
+  it("pages through size and modification time orders across ties", async () => {
+    for (const name of ["d", "B", "c", "a"]) {
+      await vfs.write(S, `/tied/${name}.txt`, "same");
+    }
+    await vfs.write(S, "/tied/big.txt", "bigger");
+    await vfs.mkdir(S, "/tied/sub");
+
+    for (const sort of ["size", "mtime"] as const) {
+      const names: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await vfs.lsPage(S, "/tied", undefined, { sort, limit: 2, cursor });
+        names.push(...page.entries.map((e) => e.name));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      const all = (await vfs.lsPage(S, "/tied", undefined, { sort })).entries.map((e) => e.name);
+      expect(names).toEqual(all);
+    }
+    const bySize = await vfs.lsPage(S, "/tied", undefined, { sort: "size" });
+    expect(bySize.entries.map((e) => e.name)).toEqual(["big.txt", "B.txt", "a.txt", "c.txt", "d.txt", "sub"]);
+  });
+
+  it("reads no sizes or etags for plain listings", async () => {
+    await vfs.write(S, "/plain/a.txt", "hello");
+    const [plain] = await backend.listChildren(S, "/plain");
+    expect(plain).toMatchObject({ path: "/plain/a.txt", size: null, etag: null });
+    const [detailed] = await backend.listChildren(S, "/plain", { details: true });
+    expect(detailed).toMatchObject({ path: "/plain/a.txt", size: 5, etag: expect.any(String) });
+  });
+
+  it("pages through a directory with cursors", async () => {
+    for (const name of ["e", "d", "c", "b", "a"]) {
+      await vfs.write(S, `/paged/${name}.txt`, name);
+    }
+    const first = await vfs.lsPage(S, "/paged", undefined, { limit: 2 });
+    expect(first.entries.map((e) => e.name)).toEqual(["a.txt", "b.txt"]);
+
+    // Removing an entry already listed doesn't shift the next page
+    await vfs.rm(S, "/paged/a.txt");
+    const second = await vfs.lsPage(S, "/paged", undefined, { limit: 2, cursor: first.nextCursor ?? undefined });
+    expect(second.entries.map((e) => e.name)).toEqual(["c.txt", "d.txt"]);
+    const last = await vfs.lsPage(S, "/paged", undefined, { limit: 2, cursor: second.nextCursor ?? undefined });
+    expect(last).toEqual({ entries: [{ name: "e.txt", type: "file" }], nextCursor: null });
+
+    await expect(
+      vfs.lsPage(S, "/paged", undefined, { sort: "size", cursor: first.nextCursor ?? undefined }),
+    ).rejects.toMatchObject({ code: "EINVAL" });
+    await expect(vfs.lsPage(S, "/paged", undefined, { cursor: "garbage" })).rejects.toMatchObject({ code: "EINVAL" });
+  });
 });
 
 describe("mkdir", () => {
@@ -328,6 +555,39 @@ describe("move", () => {
     }
   });
 
+  it("replaces an existing destination file when overwrite is set", async () => {
+    await vfs.write(S, "/ow-src.txt", "new");
+    await vfs.write(S, "/ow-dest.txt", "old");
+    await vfs.move(S, "/ow-src.txt", "/ow-dest.txt", undefined, { overwrite: true });
+    expect(await vfs.read(S, "/ow-dest.txt")).toBe("new");
+    expect((await vfs.stat(S, "/ow-src.txt")).exists).toBe(false);
+
+    await vfs.move(S, "/ow-dest.txt", "/ow-dest.txt", undefined, { overwrite: true });
+    expect(await vfs.read(S, "/ow-dest.txt")).toBe("new");
+  });
+
+  it("never overwrites a directory, or a file with a directory", async () => {
+    await vfs.write(S, "/ow-file.txt", "f");
+    await vfs.mkdir(S, "/ow-dir");
+    await expect(
+      vfs.move(S, "/ow-file.txt", "/ow-dir", undefined, { overwrite: true }),
+    ).rejects.toMatchObject({ code: "EISDIR" });
+    await expect(
+      vfs.move(S, "/ow-dir", "/ow-file.txt", undefined, { overwrite: true }),
+    ).rejects.toMatchObject({ code: "ENOTDIR" });
+  });
+
+  it("reports EEXIST to the loser of two moves racing to the same destination", async () => {
+    await vfs.write(S, "/race-a.txt", "a");
+    await vfs.write(S, "/race-b.txt", "b");
+    const results = await Promise.allSettled([
+      vfs.move(S, "/race-a.txt", "/race-dest.txt"),
+      vfs.move(S, "/race-b.txt", "/race-dest.txt"),
+    ]);
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    expect(results.find((r) => r.status === "rejected")).toMatchObject({ reason: { code: "EEXIST" } });
+  });
+
   it("throws EINVAL when moving root", async () => {
     try {
       await vfs.move(S, "/", "/newroot");
@@ -348,6 +608,136 @@ describe("move", () => {
   });
 });
 
+describe("copy", () => {
+  const S = "test-session-copy";
+
+  it("copies a file and leaves the source in place", async () => {
+    await vfs.write(S, "/src.txt", "original");
+    expect(await vfs.copy(S, "/src.txt", "/nested/dir/copy.txt")).toBe(1);
+    expect(await vfs.read(S, "/nested/dir/copy.txt")).toBe("original");
+    expect(await vfs.read(S, "/src.txt")).toBe("original");
+    expect((await vfs.history(S, "/nested/dir/copy.txt"))[0].op).toBe("write");
+  });
+
+  it("copies a directory tree, and the copy is independent", async () => {
+    await vfs.write(S, "/project/a.ts", "a");
+    await vfs.write(S, "/project/lib/b.ts", "b");
+    expect(await vfs.copy(S, "/project", "/project-copy")).toBe(4);
+    expect(await vfs.glob(S, "/project-copy/**")).toEqual(["/project-copy/a.ts", "/project-copy/lib/b.ts"]);
+
+    await vfs.write(S, "/project-copy/a.ts", "changed");
+    expect(await vfs.read(S, "/project/a.ts")).toBe("a");
+  });
+
+  it("copies between the session and stores", async () => {
+    await vfs.write(S, "/scratch/result.json", "{}");
+    await vfs.copy(S, "/scratch", "/results", { destStore: "copy-store" });
+    expect(await vfs.read("another-session", "/results/result.json", "copy-store")).toBe("{}");
+
+    await vfs.copy("another-session", "/results/result.json", "/seeded.json", { sourceStore: "copy-store" });
+    expect(await vfs.read("another-session", "/seeded.json")).toBe("{}");
+    await vfs.copy(S, "/results", "/archive/results", { sourceStore: "copy-store", destStore: "copy-archive" });
+    expect(await vfs.read(S, "/archive/results/result.json", "copy-archive")).toBe("{}");
+  });
+
+  it("keeps or resets timestamps", async () => {
+    await vfs.write(S, "/old.txt", "old");
+    const before = await backend.getNode(S, "/old.txt");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await vfs.copy(S, "/old.txt", "/kept.txt", { preserveTimestamps: true });
+    await vfs.copy(S, "/old.txt", "/fresh.txt");
+    expect((await backend.getNode(S, "/kept.txt"))?.updatedAt).toEqual(before?.updatedAt);
+    expect((await backend.getNode(S, "/fresh.txt"))?.updatedAt.getTime()).toBeGreaterThan(
+      before?.updatedAt.getTime() ?? Infinity,
+    );
+  });
+
+  it("follows move's conflict rules", async () => {
+    await vfs.write(S, "/c/one.txt", "one");
+    await vfs.write(S, "/c/two.txt", "two");
+    await vfs.mkdir(S, "/c/dir");
+
+    await expect(vfs.copy(S, "/c/one.txt", "/c/two.txt")).rejects.toMatchObject({ code: "EEXIST" });
+    await expect(vfs.copy(S, "/c/one.txt", "/c/dir", { overwrite: true })).rejects.toMatchObject({ code: "EISDIR" });
+    await expect(vfs.copy(S, "/c/dir", "/c/two.txt", { overwrite: true })).rejects.toMatchObject({
+      code: "ENOTDIR",
+    });
+    await expect(vfs.copy(S, "/c", "/c/dir/c")).rejects.toMatchObject({ code: "EINVAL" });
+    await expect(vfs.copy(S, "/c/missing", "/c/x")).rejects.toMatchObject({ code: "ENOENT" });
+
+    expect(await vfs.copy(S, "/c/one.txt", "/c/two.txt", { overwrite: true })).toBe(1);
+    expect(await vfs.read(S, "/c/two.txt")).toBe("one");
+  });
+});
+
+describe("tree", () => {
+  const S = "test-session-tree";
+
+  beforeAll(async () => {
+    await vfs.write(S, "/repo/README.md", "hello");
+    await vfs.write(S, "/repo/src/index.ts", "export {};");
+    await vfs.write(S, "/repo/src/lib/util.ts", "util");
+    await vfs.write(S, "/repo/src/lib/util.test.ts", "test");
+    await vfs.write(S, "/repo/node_modules/dep/index.js", "module");
+    await vfs.mkdir(S, "/repo/empty");
+  });
+
+  it("lists the whole subtree with sizes and counts", async () => {
+    const tree = await vfs.tree(S, "/repo");
+    expect(tree).toMatchObject({ name: "repo", type: "directory", size: 29, files: 5, dirs: 5 });
+    expect(tree.children?.map((c) => c.name)).toEqual(["empty", "node_modules", "src", "README.md"]);
+    const src = tree.children?.[2];
+    expect(src).toMatchObject({ path: "/repo/src", size: 18, files: 3, dirs: 1 });
+    expect(src?.children?.[0].children).toEqual([
+      { name: "util.test.ts", path: "/repo/src/lib/util.test.ts", type: "file", size: 4 },
+      { name: "util.ts", path: "/repo/src/lib/util.ts", type: "file", size: 4 },
+    ]);
+    expect(tree.children?.[0]).toEqual({
+      name: "empty",
+      path: "/repo/empty",
+      type: "directory",
+      size: 0,
+      files: 0,
+      dirs: 0,
+      children: [],
+    });
+  });
+
+  it("stops listing at max_depth but keeps the totals of what's below", async () => {
+    const tree = await vfs.tree(S, "/repo", undefined, { maxDepth: 1 });
+    expect(tree.children?.find((c) => c.name === "src")).toEqual({
+      name: "src",
+      path: "/repo/src",
+      type: "directory",
+      size: 18,
+      files: 3,
+      dirs: 1,
+    });
+    expect(await vfs.tree(S, "/repo", undefined, { maxDepth: 0 })).not.toHaveProperty("children");
+  });
+
+  it("filters with include and exclude globs", async () => {
+    const tree = await vfs.tree(S, "/repo", undefined, { include: ["*.ts"], exclude: ["node_modules", "*.test.ts"] });
+    expect(tree).toMatchObject({ size: 14, files: 2, dirs: 2 });
+    expect(tree.children?.map((c) => c.name)).toEqual(["src"]);
+
+    const byPath = await vfs.tree(S, "/repo", undefined, { include: ["/repo/src/lib/**"] });
+    expect(byPath).toMatchObject({ files: 2, dirs: 2 });
+  });
+
+  it("returns a file root on its own and rejects missing paths", async () => {
+    expect(await vfs.tree(S, "/repo/README.md")).toEqual({
+      name: "README.md",
+      path: "/repo/README.md",
+      type: "file",
+      size: 5,
+    });
+    await expect(vfs.tree(S, "/nope")).rejects.toMatchObject({ code: "ENOENT" });
+    await expect(vfs.tree(S, "/repo", undefined, { maxDepth: -1 })).rejects.toMatchObject({ code: "EINVAL" });
+  });
+});
+
 describe("glob", () => {
   const S = "test-session-glob";
 
@@ -374,6 +764,39 @@ describe("glob", () => {
     const matches = await vfs.glob(S, "**/*.xyz");
     expect(matches).toEqual([]);
   });
+
+  it("matches directories and leaves out ignored paths", async () => {
+    const s = "test-session-glob-types";
+    await vfs.write(s, "/pkg/a/index.ts", "");
+    await vfs.write(s, "/pkg/a/node_modules/dep/index.ts", "");
+    await vfs.write(s, "/pkg/b/index.ts", "");
+
+    expect((await vfs.globPage(s, "/pkg/*", undefined, { type: "directory" })).paths).toEqual(["/pkg/a", "/pkg/b"]);
+    expect((await vfs.globPage(s, "/pkg/a/*", undefined, { type: "any" })).paths).toEqual([
+      "/pkg/a/index.ts",
+      "/pkg/a/node_modules",
+    ]);
+    expect((await vfs.globPage(s, "**/index.ts", undefined, { ignore: ["**/node_modules/**"] })).paths).toEqual([
+      "/pkg/a/index.ts",
+      "/pkg/b/index.ts",
+    ]);
+  });
+
+  it("pages through matches with a cursor", async () => {
+    const s = "test-session-glob-pages";
+    for (const name of ["a", "b", ".c", ".d", "e"]) await vfs.write(s, `/p/${name}.ts`, "");
+    await vfs.write(s, "/p/f.md", "");
+
+    const first = await vfs.globPage(s, "/p/*.ts", undefined, { limit: 2 });
+    expect(first.paths).toEqual(["/p/a.ts", "/p/b.ts"]);
+    // Dotfiles pass the backend's filter but not picomatch's: the page still fills
+    const second = await vfs.globPage(s, "/p/*.ts", undefined, { limit: 2, cursor: first.nextCursor ?? undefined });
+    expect(second).toEqual({ paths: ["/p/e.ts"], nextCursor: null });
+
+    const negated = await vfs.globPage(s, "!/p/*.ts", undefined, { limit: 1 });
+    expect(negated.paths).toEqual(["/p/.c.ts"]);
+    await expect(vfs.globPage(s, "/p/*", undefined, { cursor: "nope" })).rejects.toMatchObject({ code: "EINVAL" });
+  });
 });
 
 describe("grep", () => {
@@ -407,6 +830,23 @@ describe("grep", () => {
     expect(matches.every((m) => m.path.startsWith("/src/main"))).toBe(true);
   });
 
+  it("matches path filters as glob does", async () => {
+    const s = "test-session-grep-globs";
+    await vfs.write(s, "/src/a.ts", "needle");
+    await vfs.write(s, "/src/b.js", "needle");
+    await vfs.write(s, "/src/deep/c.ts", "needle");
+    await vfs.write(s, "/src_old/d.ts", "needle");
+    const paths = async (filter: string) => (await vfs.grep(s, "needle", filter)).map((m) => m.path);
+
+    expect(await paths("/src/*.ts")).toEqual(["/src/a.ts"]);
+    expect(await paths("/src/**/*.ts")).toEqual(["/src/a.ts", "/src/deep/c.ts"]);
+    expect(await paths("/src/*.{ts,js}")).toEqual(["/src/a.ts", "/src/b.js"]);
+    expect(await paths("/src/[ab].*")).toEqual(["/src/a.ts", "/src/b.js"]);
+    expect(await paths("!/src/**")).toEqual(["/src_old/d.ts"]);
+    expect(await paths("**/*.ts")).toEqual(["/src/a.ts", "/src/deep/c.ts", "/src_old/d.ts"]);
+    expect(await paths("/nowhere/*")).toEqual([]);
+  });
+
   it("returns empty for no matches", async () => {
     const matches = await vfs.grep(S, "zzzznonexistent");
     expect(matches).toEqual([]);
@@ -422,6 +862,66 @@ describe("grep", () => {
   });
 });
 
+describe("grepWithOptions", () => {
+  const S = "test-session-grep-options";
+
+  beforeAll(async () => {
+    await vfs.write(S, "/app/server.ts", "import http\n// TODO: auth\nlisten(80)\n// todo: tls\nexport {}\n");
+    await vfs.write(S, "/app/client.ts", "fetch(url)\n// TODO(1.2): retry\n");
+    await vfs.write(S, "/app/notes.md", "nothing here\n");
+  });
+
+  it("matches case-insensitively and with context lines", async () => {
+    const result = await vfs.grepWithOptions(S, "todo", { ignoreCase: true, before: 1, after: 1 });
+    expect(result).toEqual({
+      mode: "content",
+      truncated: false,
+      matches: [
+        { path: "/app/client.ts", lineNumber: 2, line: "// TODO(1.2): retry", before: ["fetch(url)"], after: [""] },
+        { path: "/app/server.ts", lineNumber: 2, line: "// TODO: auth", before: ["import http"], after: ["listen(80)"] },
+        { path: "/app/server.ts", lineNumber: 4, line: "// todo: tls", before: ["listen(80)"], after: ["export {}"] },
+      ],
+    });
+  });
+
+  it("searches for fixed strings", async () => {
+    const result = await vfs.grepWithOptions(S, "TODO(1.2)", { fixedString: true });
+    expect(result.mode === "content" && result.matches.map((m) => m.path)).toEqual(["/app/client.ts"]);
+    await expect(vfs.grep(S, "TODO(1.2")).rejects.toMatchObject({ code: "EINVAL" });
+    expect(await vfs.grepWithOptions(S, "listen(80", { fixedString: true })).toMatchObject({
+      matches: [{ path: "/app/server.ts", lineNumber: 3 }],
+    });
+  });
+
+  it("stops at maxResults and says so", async () => {
+    const capped = await vfs.grepWithOptions(S, "todo", { ignoreCase: true, maxResults: 2 });
+    expect(capped).toMatchObject({ truncated: true, matches: [{ lineNumber: 2 }, { lineNumber: 2 }] });
+    const exact = await vfs.grepWithOptions(S, "todo", { ignoreCase: true, maxResults: 3 });
+    expect(exact.truncated).toBe(false);
+  });
+
+  it("lists matching files or counts matches per file", async () => {
+    expect(await vfs.grepWithOptions(S, "TODO", { mode: "files_with_matches" })).toEqual({
+      mode: "files_with_matches",
+      files: ["/app/client.ts", "/app/server.ts"],
+      truncated: false,
+    });
+    expect(await vfs.grepWithOptions(S, "todo", { mode: "count", ignoreCase: true, maxResults: 1 })).toEqual({
+      mode: "count",
+      counts: [{ path: "/app/client.ts", count: 1 }],
+      truncated: true,
+    });
+    expect(await vfs.grepWithOptions(S, "todo", { mode: "count", ignoreCase: true, pathFilter: "/app/server*" })).toEqual(
+      { mode: "count", counts: [{ path: "/app/server.ts", count: 2 }], truncated: false },
+    );
+  });
+
+  it("rejects invalid limits", async () => {
+    await expect(vfs.grepWithOptions(S, "x", { maxResults: 0 })).rejects.toMatchObject({ code: "EINVAL" });
+    await expect(vfs.grepWithOptions(S, "x", { before: -1 })).rejects.toMatchObject({ code: "EINVAL" });
+  });
+});
+
 describe("listStores", () => {
   it("returns list of persistent stores", async () => {
     // Ensure at least one store exists
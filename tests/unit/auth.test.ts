@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { TokenAuth } from "../../src/auth.js";
+
+describe("TokenAuth", () => {
+  const auth = TokenAuth.parse("alice=alice-token, bob=bob-token,bob=bob-second,acme:ci=ci-token");
+
+  it("maps bearer tokens to their tenant and principal", () => {
+    expect(auth.authenticate("Bearer alice-token")).toEqual({ tenant: "alice", principal: "alice" });
+    expect(auth.authenticate("bearer bob-token")).toEqual({ tenant: "bob", principal: "bob" });
+    expect(auth.authenticate("Bearer bob-second")).toEqual({ tenant: "bob", principal: "bob" });
+    expect(auth.authenticate("Bearer ci-token")).toEqual({ tenant: "acme", principal: "ci" });
+  });
+
+  it("rejects missing, malformed and unknown credentials", () => {
+    expect(auth.authenticate(undefined)).toBeNull();
+    expect(auth.authenticate("")).toBeNull();
+    expect(auth.authenticate("alice-token")).toBeNull();
+    expect(auth.authenticate("Basic YWxpY2U6eA==")).toBeNull();
+    expect(auth.authenticate("Bearer nope")).toBeNull();
+    expect(auth.authenticate("Bearer alice-token extra")).toBeNull();
+  });
+
+  it("rejects invalid configuration", () => {
+    expect(() => TokenAuth.parse("")).toThrow(/No API tokens/);
+    expect(() => TokenAuth.parse("no-equals-sign")).toThrow(/Malformed/);
+    expect(() => TokenAuth.parse("=token")).toThrow(/Malformed/);
+    expect(() => TokenAuth.parse("alice=")).toThrow(/Empty API token/);
+    expect(() => TokenAuth.parse("a/b=token")).toThrow(/Invalid tenant/);
+    expect(() => TokenAuth.parse("acme:a:b=token")).toThrow(/Invalid principal/);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { applyEdits } from "../../src/edit.js";
+
+describe("applyEdits", () => {
+  it("replaces a unique occurrence", () => {
+    expect(applyEdits("/f", "let a = 1;\nlet b = 2;\n", [{ oldString: "b = 2", newString: "b = 3" }])).toEqual({
+      content: "let a = 1;\nlet b = 3;\n",
+      replacements: 1,
+    });
+  });
+
+  it("refuses an ambiguous match unless replace_all is set", () => {
+    expect(() => applyEdits("/f", "x x x", [{ oldString: "x", newString: "y" }])).toThrow(/occurs 3 times/);
+    expect(applyEdits("/f", "x x x", [{ oldString: "x", newString: "y", replaceAll: true }])).toEqual({
+      content: "y y y",
+      replacements: 3,
+    });
+  });
+
+  it("applies edits in order, each to the previous result", () => {
+    const result = applyEdits("/f", "alpha", [
+      { oldString: "alpha", newString: "beta" },
+      { oldString: "beta", newString: "gamma" },
+    ]);
+    expect(result).toEqual({ content: "gamma", replacements: 2 });
+  });
+
+  it("names the failing edit and rejects empty or no-op edits", () => {
+    const edits = [
+      { oldString: "a", newString: "b" },
+      { oldString: "missing", newString: "c" },
+    ];
+    expect(() => applyEdits("/f", "a", edits)).toThrow("old_string not found in /f (edit 2)");
+    expect(() => applyEdits("/f", "a", [{ oldString: "", newString: "b" }])).toThrow(/must not be empty/);
+    expect(() => applyEdits("/f", "a", [{ oldString: "a", newString: "a" }])).toThrow(/identical/);
+  });
+
+  it("inserts replacement text literally", () => {
+    expect(applyEdits("/f", "price", [{ oldString: "price", newString: "$& $1" }]).content).toBe("$& $1");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { chunkText, cosineSimilarity, HashedNgramEmbeddings, EMBEDDED_CHARS } from "../../src/storage/embeddings.js";
+
+describe("chunkText", () => {
+  it("groups whole lines into chunks of about a thousand characters", () => {
+    const line = "x".repeat(399);
+    const chunks = chunkText([line, line, line, line, line].join("\n"));
+    expect(chunks.map(({ startLine, endLine }) => ({ startLine, endLine }))).toEqual([
+      { startLine: 1, endLine: 3 },
+      { startLine: 4, endLine: 5 },
+    ]);
+    expect(chunks[1].text).toBe(`${line}\n${line}`);
+  });
+
+  it("drops blank chunks and text past the embedded prefix", () => {
+    expect(chunkText("")).toEqual([]);
+    expect(chunkText("\n\n  \n")).toEqual([]);
+    const chunks = chunkText(`${"a".repeat(EMBEDDED_CHARS)}\nlate`);
+    expect(chunks.map((c) => [c.startLine, c.endLine, c.text.length])).toEqual([[1, 1, EMBEDDED_CHARS]]);
+  });
+});
+
+describe("HashedNgramEmbeddings", () => {
+  const provider = new HashedNgramEmbeddings();
+
+  it("is deterministic, normalized and sized by its model", async () => {
+    const [a, b] = await provider.embed(["Billing migration", "Billing migration"]);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(256);
+    expect(Math.hypot(...a)).toBeCloseTo(1);
+    expect(provider.model).toBe("hashed-ngram-256");
+    expect(new HashedNgramEmbeddings(64).model).toBe("hashed-ngram-64");
+  });
+
+  it("scores texts sharing words and word fragments as closer", async () => {
+    const [query, related, unrelated] = await provider.embed([
+      "migrating invoices",
+      "The invoice migration runs nightly.",
+      "Tomatoes grow on the balcony.",
+    ]);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("gives text without words a zero vector", async () => {
+    const [v] = await provider.embed(["--- !!!"]);
+    expect(v.every((x) => x === 0)).toBe(true);
+    expect(cosineSimilarity(v, v)).toBe(0);
+  });
+});
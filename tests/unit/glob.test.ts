@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import picomatch from "picomatch";
+import { globBase, globRegex } from "../../src/glob.js";
+
+describe("globBase", () => {
+  it("returns the literal directories before the first wildcard", () => {
+    expect(globBase("/src/*.ts")).toBe("/src");
+    expect(globBase("/src/lib/**/*.{ts,js}")).toBe("/src/lib");
+    expect(globBase("/src/[ab]/x.ts")).toBe("/src");
+  });
+
+  it("returns the parent of a literal path", () => {
+    expect(globBase("/src/main.ts")).toBe("/src");
+    expect(globBase("/README.md")).toBe("/");
+  });
+
+  it("returns / for patterns anchored nowhere", () => {
+    expect(globBase("/*.ts")).toBe("/");
+    expect(globBase("**/*.ts")).toBe("/");
+    expect(globBase("*.ts")).toBe("/");
+    expect(globBase("!/src/**")).toBe("/");
+  });
+});
+
+describe("globRegex", () => {
+  const paths = ["/src", "/src/a.ts", "/src/b.js", "/src/.c.ts", "/src/deep/d.ts", "/srcx/e.ts", "/a/b", "/a/x/y/b"];
+
+  it("accepts every path picomatch matches", () => {
+    for (const pattern of ["/src/*.ts", "/src/**", "**/*.ts", "/src/*.{ts,js}", "/src/[ab].*", "/a/**/b", "/src/?.ts"]) {
+      const source = globRegex(pattern);
+      expect(source).not.toBeNull();
+      const regex = new RegExp(source ?? "");
+      const isMatch = picomatch(pattern);
+      for (const path of paths.filter((p) => isMatch(p))) {
+        expect(regex.test(path), `${pattern} ${path}`).toBe(true);
+      }
+    }
+  });
+
+  it("keeps single-segment wildcards within a directory", () => {
+    expect(globRegex("/src/*.ts")).toBe("^/src/[^/]*\\.ts$");
+    expect(globRegex("/a/**/b")).toBe("^/a/(.*/)?b$");
+    expect(globRegex("/src/**")).toBe("^/src(/.*)?$");
+  });
+
+  it("gives up on patterns it can't translate", () => {
+    expect(globRegex("!/src/**")).toBeNull();
+    expect(globRegex("/src/{a}.ts")).toBeNull();
+    expect(globRegex("/src/{1..3}.ts")).toBeNull();
+    expect(globRegex("/src/[!a]*")).toBeNull();
+    expect(globRegex("/src/+(a|b)")).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { requiredLiteral } from "../../src/storage/grep.js";
+
+describe("requiredLiteral", () => {
+  it("returns the longest literal run of a pattern", () => {
+    expect(requiredLiteral("TODO")).toBe("TODO");
+    expect(requiredLiteral("^import .* from")).toBe("import ");
+    expect(requiredLiteral("foo\\.bar\\(\\)")).toBe("foo.bar()");
+  });
+
+  it("leaves out optional characters, groups and classes", () => {
+    expect(requiredLiteral("colou?r")).toBe("colo");
+    expect(requiredLiteral("ab*cdef")).toBe("cdef");
+    expect(requiredLiteral("x+yz")).toBe("yz");
+    expect(requiredLiteral("(warning|error): disk")).toBe(": disk");
+    expect(requiredLiteral("[Ee]rror\\d+")).toBe("rror");
+  });
+
+  it("gives up on top-level alternation and patterns with no literal text", () => {
+    expect(requiredLiteral("TODO|FIXME")).toBeNull();
+    expect(requiredLiteral("\\w+\\s*=")).toBe("=");
+    expect(requiredLiteral(".*")).toBeNull();
+  });
+
+  it("returns only ASCII text when ignoring case", () => {
+    expect(requiredLiteral("Error", true)).toBe("Error");
+    expect(requiredLiteral("Grüße", true)).toBeNull();
+    expect(requiredLiteral("Grüße")).toBe("Grüße");
+  });
+});
@@ -0,0 +1,373 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { VirtualFS, VfsError } from "../../src/vfs.js";
+import { InMemoryBackend } from "../../src/storage/memory.js";
+import { contentEtag } from "../../src/storage/etag.js";
+
+let vfs: VirtualFS;
+const S = "mem-session";
+
+beforeEach(() => {
+  vfs = new VirtualFS(new InMemoryBackend());
+});
+
+describe("InMemoryBackend via VirtualFS", () => {
+  it("writes, overwrites, appends and reads files", async () => {
+    await vfs.write(S, "/notes.txt", "v1");
+    await vfs.write(S, "/notes.txt", "v2\n");
+    await vfs.append(S, "/notes.txt", "more\n");
+    expect(await vfs.read(S, "/notes.txt")).toBe("v2\nmore\n");
+  });
+
+  it("auto-creates parents and lists immediate children dirs-first", async () => {
+    await vfs.write(S, "/src/index.ts", "code");
+    await vfs.write(S, "/src/lib/helper.ts", "help");
+    expect(await vfs.ls(S, "/src")).toEqual([
+      { name: "lib", type: "directory" },
+      { name: "index.ts", type: "file" },
+    ]);
+    expect(await vfs.stat(S, "/src")).toEqual({ exists: true, type: "directory", children: 2 });
+    expect(await vfs.stat(S, "/src/index.ts")).toEqual({
+      exists: true,
+      type: "file",
+      size: 4,
+      etag: "c13367945d5d4c91047b3b50234aa7ab", // md5("code")
+    });
+  });
+
+  it("keeps mkdir idempotent", async () => {
+    expect(await vfs.mkdir(S, "/a/b")).toEqual({ already_existed: false });
+    expect(await vfs.mkdir(S, "/a/b")).toEqual({ already_existed: true });
+  });
+
+  it("removes a directory recursively and reports the count", async () => {
+    await vfs.write(S, "/dir/a.txt", "a");
+    await vfs.write(S, "/dir/sub/b.txt", "b");
+    await vfs.write(S, "/dir-sibling.txt", "keep");
+    expect(await vfs.rm(S, "/dir")).toBe(4);
+    expect(await vfs.read(S, "/dir-sibling.txt")).toBe("keep");
+  });
+
+  it("moves a directory and all descendants", async () => {
+    await vfs.write(S, "/movedir/a.txt", "a");
+    await vfs.write(S, "/movedir/sub/b.txt", "b");
+    await vfs.move(S, "/movedir", "/moved");
+
+    expect(await vfs.read(S, "/moved/sub/b.txt")).toBe("b");
+    await expect(vfs.ls(S, "/movedir")).rejects.toThrow(VfsError);
+  });
+
+  it("globs file paths", async () => {
+    await vfs.write(S, "/src/index.ts", "code");
+    await vfs.write(S, "/src/lib/helper.ts", "help");
+    await vfs.write(S, "/readme.md", "# Readme");
+    expect(await vfs.glob(S, "**/*.ts")).toEqual(["/src/index.ts", "/src/lib/helper.ts"]);
+    const page = await vfs.globPage(S, "/src/**", undefined, { type: "any", limit: 2 });
+    expect(page.paths).toEqual(["/src/index.ts", "/src/lib"]);
+    expect(await vfs.globPage(S, "/src/**", undefined, { type: "any", cursor: page.nextCursor ?? undefined })).toEqual({
+      paths: ["/src/lib/helper.ts"],
+      nextCursor: null,
+    });
+  });
+
+  it("greps by regex with line numbers and path filter", async () => {
+    await vfs.write(S, "/grep/data.txt", "foo123\nbar456\nfoo789\n");
+    await vfs.write(S, "/grep/other.md", "foo000\n");
+
+    expect(await vfs.grep(S, "foo\\d+", "/grep/*.txt")).toEqual([
+      { path: "/grep/data.txt", lineNumber: 1, line: "foo123" },
+      { path: "/grep/data.txt", lineNumber: 3, line: "foo789" },
+    ]);
+    // `_` in a path filter is literal, not a LIKE wildcard
+    expect(await vfs.grep(S, "foo", "/grep/_ther.md")).toEqual([]);
+  });
+
+  it("aborts catastrophically backtracking grep patterns", async () => {
+    await vfs.write(S, "/redos.txt", "a".repeat(40) + "!");
+    await expect(vfs.grep(S, "^(a+)+$")).rejects.toMatchObject({
+      code: "EINVAL",
+      message: expect.stringMatching(/exceeded/),
+    });
+  });
+
+  it("isolates sessions and shares stores", async () => {
+    await vfs.write("mem-A", "/secret.txt", "A");
+    await expect(vfs.read("mem-B", "/secret.txt")).rejects.toThrow(VfsError);
+
+    await vfs.write("mem-A", "/shared.txt", "shared", "mem-store");
+    expect(await vfs.read("mem-B", "/shared.txt", "mem-store")).toBe("shared");
+    expect(await vfs.listStores()).toEqual(["mem-store"]);
+
+    // A session isn't a store anyone can open by ID
+    await expect(vfs.read("mem-B", "/secret.txt", "mem-A")).rejects.toMatchObject({ code: "EACCES" });
+  });
+
+  it("scopes sessions and stores per tenant", async () => {
+    const alice = vfs.forTenant("alice");
+    const bob = vfs.forTenant("bob");
+
+    await alice.write("shared-id", "/f.txt", "alice session");
+    await bob.write("shared-id", "/f.txt", "bob session");
+    await alice.write("s", "/memo.md", "alice store", "memory");
+    await bob.write("s", "/memo.md", "bob store", "memory");
+
+    expect(await alice.read("shared-id", "/f.txt")).toBe("alice session");
+    expect(await bob.read("shared-id", "/f.txt")).toBe("bob session");
+    expect(await alice.read("s", "/memo.md", "memory")).toBe("alice store");
+    expect(await bob.read("s", "/memo.md", "memory")).toBe("bob store");
+
+    expect(await alice.listStores()).toEqual(["memory"]);
+    expect(await vfs.listStores()).toEqual([]);
+    await expect(vfs.read("s", "/memo.md", "memory")).rejects.toThrow(VfsError);
+  });
+
+  it("refuses namespace IDs claimed by another tenant", async () => {
+    await vfs.forTenant("alice").write("s", "/x.txt", "x", "notes");
+    // The untenanted name `alice/notes` is the same namespace ID
+    await expect(vfs.read("s", "/x.txt", "alice/notes")).rejects.toMatchObject({ code: "EACCES" });
+    expect(() => vfs.forTenant("bad/tenant")).toThrow(/Invalid tenant/);
+  });
+
+  it("enforces store ACLs against a fixed principal", async () => {
+    const alice = vfs.forTenant("acme", "alice");
+    const bob = vfs.forTenant("acme", "bob");
+
+    await alice.write("s1", "/plan.md", "plan", "team");
+    await alice.revokeStoreAccess("s1", "team", "*");
+    await alice.grantStoreAccess("s1", "team", "bob", "read");
+
+    // Principal, not session ID, is what the ACL sees
+    expect(await bob.read("any-session", "/plan.md", "team")).toBe("plan");
+    await expect(bob.append("any-session", "/plan.md", "!", "team")).rejects.toMatchObject({
+      code: "EACCES",
+    });
+    await expect(vfs.forTenant("acme", "carol").read("s", "/plan.md", "team")).rejects.toMatchObject({
+      code: "EACCES",
+    });
+
+    expect(await alice.grantStoreAccess("s2", "team", "bob", "write")).toEqual({
+      owner: "alice",
+      readers: [],
+      writers: ["bob"],
+    });
+    await bob.append("any-session", "/plan.md", "!", "team");
+    expect(await alice.read("s1", "/plan.md", "team")).toBe("plan!");
+  });
+
+  it("returns copies so callers cannot mutate stored nodes", async () => {
+    const backend = new InMemoryBackend();
+    await backend.ensureSession(S);
+    await backend.upsertFile(S, "/f.txt", "original");
+    const node = await backend.getNode(S, "/f.txt");
+    if (node) node.content = "mutated";
+    expect((await backend.getNode(S, "/f.txt"))?.content).toBe("original");
+  });
+
+  it("keeps file history and prunes it to the retention limit", async () => {
+    const mem = new VirtualFS(new InMemoryBackend({ historyRetention: { maxVersions: 3, maxAgeDays: null } }));
+    await mem.write(S, "/h.txt", "one");
+    await mem.write(S, "/h.txt", "two");
+    await mem.append(S, "/h.txt", "!");
+    await mem.rm(S, "/h.txt");
+
+    const revisions = await mem.history(S, "/h.txt");
+    expect(revisions.map((r) => r.op)).toEqual(["delete", "append", "write"]);
+    expect(await mem.read(S, "/h.txt", undefined, revisions[1].version)).toBe("two!");
+
+    await mem.restore(S, "/h.txt", revisions[2].version);
+    expect(await mem.read(S, "/h.txt")).toBe("two");
+    expect(await mem.historyRetention(S)).toEqual({ maxVersions: 3, maxAgeDays: null });
+  });
+
+  it("collapses consecutive appends into one revision", async () => {
+    const mem = new VirtualFS(new InMemoryBackend({ historyRetention: { maxVersions: 2, maxAgeDays: null } }));
+    await mem.write(S, "/log.txt", "a");
+    for (const more of ["b", "c", "d"]) await mem.append(S, "/log.txt", more);
+
+    const revisions = await mem.history(S, "/log.txt");
+    expect(revisions.map((r) => [r.op, r.size])).toEqual([
+      ["append", 4],
+      ["write", 1],
+    ]);
+    expect(await mem.read(S, "/log.txt", undefined, revisions[0].version)).toBe("abcd");
+  });
+
+  it("snapshots, diffs and rolls back a namespace", async () => {
+    await vfs.write(S, "/plan.md", "step 1");
+    await vfs.snapshot(S, "checkpoint");
+    await vfs.write(S, "/plan.md", "step 2");
+    await vfs.write(S, "/scratch/tmp.txt", "tmp");
+
+    expect(await vfs.snapshotDiff(S, "checkpoint")).toEqual([
+      { path: "/plan.md", change: "modified", nodeType: "file" },
+      { path: "/scratch", change: "added", nodeType: "directory" },
+      { path: "/scratch/tmp.txt", change: "added", nodeType: "file" },
+    ]);
+    await vfs.rollback(S, "checkpoint");
+    expect(await vfs.read(S, "/plan.md")).toBe("step 1");
+    expect((await vfs.stat(S, "/scratch")).exists).toBe(false);
+    expect(await vfs.snapshots(S)).toMatchObject([{ name: "checkpoint", files: 1 }]);
+  });
+
+  it("moves removed paths to the trash when enabled", async () => {
+    const trashed = new VirtualFS(new InMemoryBackend(), { trash: { maxAgeDays: null } });
+    await trashed.write(S, "/dir/f.txt", "f");
+    expect(await trashed.rm(S, "/dir")).toBe(2);
+
+    const [entry] = await trashed.trashList(S);
+    expect(entry).toMatchObject({ path: "/dir", nodeType: "directory", files: 1 });
+    await trashed.write(S, "/dir", "now a file");
+    await expect(trashed.trashRestore(S, entry.id)).rejects.toMatchObject({ code: "EEXIST" });
+    await trashed.trashRestore(S, entry.id, "/restored");
+    expect(await trashed.read(S, "/restored/f.txt")).toBe("f");
+  });
+
+  it("applies conditional writes only while the etag matches", async () => {
+    const { etag } = await vfs.write(S, "/cas.txt", "v1");
+    await vfs.write(S, "/cas.txt", "v2", undefined, { ifMatch: etag });
+    await expect(vfs.append(S, "/cas.txt", "!", undefined, { ifMatch: etag })).rejects.toMatchObject({
+      code: "ECONFLICT",
+    });
+    expect(await vfs.readWithEtag(S, "/cas.txt")).toEqual({ content: "v2", etag: contentEtag("v2") });
+  });
+
+  it("honours write modes and move overwrite", async () => {
+    await vfs.write(S, "/job.lock", "a", undefined, { mode: "create_only" });
+    await expect(vfs.write(S, "/job.lock", "b", undefined, { mode: "create_only" })).rejects.toMatchObject({
+      code: "EEXIST",
+    });
+    await expect(vfs.write(S, "/none.txt", "b", undefined, { mode: "overwrite_only" })).rejects.toMatchObject({
+      code: "ENOENT",
+    });
+    await vfs.write(S, "/next.lock", "b");
+    await vfs.move(S, "/next.lock", "/job.lock", undefined, { overwrite: true });
+    expect(await vfs.read(S, "/job.lock")).toBe("b");
+  });
+
+  it("enforces mandatory locks against other sessions until released", async () => {
+    await vfs.write(S, "/shared/plan.md", "v1", "team");
+    await vfs.lock(S, "/shared", "team", { mandatory: true });
+    await expect(vfs.rm("other", "/shared/plan.md", "team")).rejects.toMatchObject({ code: "EBUSY" });
+    await expect(vfs.lock("other", "/shared", "team")).rejects.toMatchObject({ code: "EBUSY" });
+    expect((await vfs.locks("other", "team")).map((l) => l.path)).toEqual(["/shared"]);
+
+    await vfs.unlock(S, "/shared", "team");
+    expect(await vfs.rm("other", "/shared/plan.md", "team")).toBe(1);
+  });
+
+  it("applies a batch all-or-nothing", async () => {
+    await vfs.write(S, "/a.txt", "a");
+    await expect(
+      vfs.batch(S, [
+        { op: "write", path: "/a.txt", content: "changed" },
+        { op: "mkdir", path: "/dir" },
+        { op: "mv", source: "/a.txt", destination: "/dir" },
+      ]),
+    ).rejects.toMatchObject({ code: "EEXIST" });
+    expect(await vfs.read(S, "/a.txt")).toBe("a");
+    expect((await vfs.stat(S, "/dir")).exists).toBe(false);
+    expect(await vfs.history(S, "/a.txt")).toHaveLength(1);
+
+    await vfs.batch(S, [
+      { op: "mkdir", path: "/dir" },
+      { op: "mv", source: "/a.txt", destination: "/dir/a.txt" },
+    ]);
+    expect(await vfs.read(S, "/dir/a.txt")).toBe("a");
+  });
+
+  it("keeps other callers' writes out of a failing batch", async () => {
+    const store = "mem-batch-race";
+    const [batch, write] = await Promise.allSettled([
+      vfs.batch(
+        "batcher",
+        [
+          { op: "write", path: "/1.txt", content: "1" },
+          { op: "write", path: "/2.txt", content: "2" },
+          { op: "write", path: "/3.txt", content: "3" },
+          { op: "rm", path: "/missing" },
+        ],
+        store,
+      ),
+      vfs.write("bystander", "/other.txt", "kept", store),
+    ]);
+    expect(batch.status).toBe("rejected");
+    expect(write.status).toBe("fulfilled");
+    expect(await vfs.read("bystander", "/other.txt", store)).toBe("kept");
+    expect((await vfs.stat("bystander", "/1.txt", store)).exists).toBe(false);
+  });
+
+  it("edits a file in place", async () => {
+    await vfs.write(S, "/todo.md", "- [ ] ship\n- [ ] test\n");
+    const result = await vfs.edit(S, "/todo.md", [{ oldString: "- [ ]", newString: "- [x]", replaceAll: true }]);
+    expect(result).toMatchObject({ replacements: 2, etag: contentEtag("- [x] ship\n- [x] test\n") });
+  });
+
+  it("copies a tree into a store", async () => {
+    await vfs.write(S, "/cp/a.txt", "a");
+    expect(await vfs.copy(S, "/cp", "/cp", { destStore: "mem-copy-store" })).toBe(2);
+    await vfs.write(S, "/cp/a.txt", "changed");
+    expect(await vfs.read("other", "/cp/a.txt", "mem-copy-store")).toBe("a");
+  });
+
+  it("lists a tree with aggregated sizes", async () => {
+    await vfs.write(S, "/tree/a.txt", "aa");
+    await vfs.write(S, "/tree/sub/b.txt", "bbb");
+    const tree = await vfs.tree(S, "/tree", undefined, { maxDepth: 1 });
+    expect(tree).toMatchObject({ size: 5, files: 2, dirs: 1 });
+    expect(tree.children?.[0]).toEqual({ name: "sub", path: "/tree/sub", type: "directory", size: 3, files: 1, dirs: 0 });
+  });
+
+  it("lists a directory in pages with metadata", async () => {
+    await vfs.write(S, "/pages/a.txt", "a");
+    await vfs.write(S, "/pages/b.txt", "bb");
+    const first = await vfs.lsPage(S, "/pages", undefined, { long: true, sort: "size", limit: 1 });
+    expect(first.entries).toMatchObject([{ name: "b.txt", size: 2, etag: contentEtag("bb") }]);
+    const rest = await vfs.lsPage(S, "/pages", undefined, { sort: "size", cursor: first.nextCursor ?? undefined });
+    expect(rest).toEqual({ entries: [{ name: "a.txt", type: "file" }], nextCursor: null });
+  });
+
+  it("greps with flags, context and count modes", async () => {
+    await vfs.write(S, "/g/a.txt", "one\nTwo\nthree\ntwo\n");
+    const result = await vfs.grepWithOptions(S, "two", { pathFilter: "/g/*", ignoreCase: true, after: 1, maxResults: 1 });
+    expect(result).toEqual({
+      mode: "content",
+      matches: [{ path: "/g/a.txt", lineNumber: 2, line: "Two", after: ["three"] }],
+      truncated: true,
+    });
+    expect(await vfs.grepWithOptions(S, "t.o", { pathFilter: "/g/*", fixedString: true, mode: "count" })).toMatchObject({
+      counts: [],
+    });
+    await vfs.write(S, "/g/sub/b.txt", "two");
+    expect((await vfs.grep(S, "two", "/g/*")).map((m) => m.path)).toEqual(["/g/a.txt"]);
+    expect((await vfs.grep(S, "two", "/g/**")).map((m) => m.path)).toEqual(["/g/a.txt", "/g/sub/b.txt"]);
+  });
+
+  it("has no full-text search", async () => {
+    await expect(vfs.search(S, "two")).rejects.toMatchObject({ code: "ENOTSUP" });
+  });
+
+  it("has no semantic search", async () => {
+    await expect(vfs.semanticSearch(S, "two", { limit: 5 })).rejects.toMatchObject({ code: "ENOTSUP" });
+  });
+
+  it("reads line and byte ranges", async () => {
+    await vfs.write(S, "/range.log", "1\n2\n3\n");
+    expect(await vfs.readRange(S, "/range.log", { unit: "lines", start: -1 })).toMatchObject({
+      content: "3\n",
+      start: 3,
+      total: 3,
+    });
+    expect((await vfs.readRange(S, "/range.log", { unit: "bytes", start: 2, count: 2 })).content).toBe("2\n");
+  });
+
+  it("applies a patch all-or-nothing", async () => {
+    await vfs.write(S, "/p/a.txt", "a\n");
+    const diff =
+      "--- a/p/a.txt\n+++ b/p/a.txt\n@@ -1 +1 @@\n-a\n+A\n" +
+      "--- /dev/null\n+++ b/p/a.txt\n@@ -0,0 +1 @@\n+clash\n";
+    await expect(vfs.patch(S, diff)).rejects.toMatchObject({ code: "ECONFLICT" });
+    expect(await vfs.read(S, "/p/a.txt")).toBe("a\n");
+
+    await vfs.patch(S, diff.slice(0, diff.indexOf("--- /dev/null")));
+    expect(await vfs.read(S, "/p/a.txt")).toBe("A\n");
+  });
+});
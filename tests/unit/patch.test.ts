@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { applyHunks, parsePatch } from "../../src/patch.js";
+
+const GIT_DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 83db48f..bf269f4 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,3 @@
+ import { a } from "./a";
+-const port = 80;
++const port = 8080;
+ start(port);
+diff --git a/notes.txt b/notes.txt
+new file mode 100644
+--- /dev/null
++++ b/notes.txt
+@@ -0,0 +1,2 @@
++first
++second
+diff --git a/old.md b/new.md
+similarity index 100%
+rename from old.md
+rename to new.md
+diff --git a/gone.txt b/gone.txt
+deleted file mode 100644
+--- a/gone.txt
++++ /dev/null
+@@ -1 +0,0 @@
+-bye
+`;
+
+function hunksOf(diff: string) {
+  return parsePatch(diff)[0].hunks;
+}
+
+describe("parsePatch", () => {
+  it("reads creates, modifies, renames and deletes from a git diff", () => {
+    const files = parsePatch(GIT_DIFF);
+    expect(files.map(({ oldPath, newPath, rename }) => ({ oldPath, newPath, rename }))).toEqual([
+      { oldPath: "src/app.ts", newPath: "src/app.ts", rename: false },
+      { oldPath: null, newPath: "notes.txt", rename: false },
+      { oldPath: "old.md", newPath: "new.md", rename: true },
+      { oldPath: "gone.txt", newPath: null, rename: false },
+    ]);
+    expect(files[0].hunks[0]).toMatchObject({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 3 });
+    expect(files[3].hunks[0].lines).toEqual(["-bye"]);
+  });
+
+  it("reads plain diff -u output with timestamps", () => {
+    const [file] = parsePatch(
+      "--- lib/x.c\t2024-01-01 00:00:00\n+++ lib/x.c\t2024-01-02 00:00:00\n@@ -2 +2 @@\n-a\n+b\n",
+    );
+    expect(file).toMatchObject({ oldPath: "lib/x.c", newPath: "lib/x.c" });
+  });
+
+  it("records missing newlines at end of file", () => {
+    const [hunk] = hunksOf("--- a/f\n+++ b/f\n@@ -1 +1 @@\n-x\n\\ No newline at end of file\n+x\n");
+    expect(hunk).toMatchObject({ oldNoNewline: true, newNoNewline: false });
+  });
+
+  it("rejects malformed, binary and empty patches", () => {
+    expect(() => parsePatch("--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n-x\n")).toThrow(/hunk ends early/);
+    expect(() => parsePatch("--- a/f\n+++ b/f\n@@ -1 +1 @@\n?x\n+y\n")).toThrow(/unexpected line/);
+    expect(() => parsePatch("diff --git a/i.png b/i.png\nBinary files a/i.png and b/i.png differ\n")).toThrow(
+      /Binary patches/,
+    );
+    expect(() => parsePatch("just some text\n")).toThrow(/No file changes/);
+  });
+});
+
+describe("applyHunks", () => {
+  const file = "one\ntwo\nthree\nfour\nfive\nsix\nseven\n";
+
+  it("applies hunks where their headers say", () => {
+    const hunks = hunksOf("--- a/f\n+++ b/f\n@@ -2,3 +2,3 @@\n two\n-three\n+THREE\n four\n");
+    expect(applyHunks(file, hunks, 0)).toEqual({
+      content: "one\ntwo\nTHREE\nfour\nfive\nsix\nseven\n",
+      results: [{ hunk: 1, applied: true, offset: 0, fuzz: 0 }],
+    });
+  });
+
+  it("finds a hunk that moved and carries the offset to the next one", () => {
+    const hunks = hunksOf(
+      "--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n-three\n+3\n four\n@@ -4,2 +4,2 @@\n six\n-seven\n+7\n",
+    );
+    const { content, results } = applyHunks(file, hunks, 0);
+    expect(content).toBe("one\ntwo\n3\nfour\nfive\nsix\n7\n");
+    expect(results).toEqual([
+      { hunk: 1, applied: true, offset: 2, fuzz: 0 },
+      { hunk: 2, applied: true, offset: 0, fuzz: 0 },
+    ]);
+  });
+
+  it("ignores mismatched outer context only with enough fuzz", () => {
+    const hunks = hunksOf("--- a/f\n+++ b/f\n@@ -2,3 +2,3 @@\n TWO\n-three\n+3\n four\n");
+    expect(applyHunks(file, hunks, 0).results[0].applied).toBe(false);
+    expect(applyHunks(file, hunks, 1)).toEqual({
+      content: "one\ntwo\n3\nfour\nfive\nsix\nseven\n",
+      results: [{ hunk: 1, applied: true, offset: 0, fuzz: 1 }],
+    });
+  });
+
+  it("reports failing hunks and still applies the rest", () => {
+    const hunks = hunksOf("--- a/f\n+++ b/f\n@@ -1 +1 @@\n-one\n+1\n@@ -5 +5 @@\n-missing\n+x\n");
+    const { content, results } = applyHunks(file, hunks, 2);
+    expect(content.startsWith("1\ntwo\n")).toBe(true);
+    expect(results.map((r) => r.applied)).toEqual([true, false]);
+  });
+
+  it("creates files and honours the final newline", () => {
+    const created = hunksOf("--- /dev/null\n+++ b/f\n@@ -0,0 +1,2 @@\n+a\n+b\n\\ No newline at end of file\n");
+    expect(applyHunks("", created, 0).content).toBe("a\nb");
+
+    const terminated = hunksOf("--- a/f\n+++ b/f\n@@ -1 +1 @@\n-b\n\\ No newline at end of file\n+b\n");
+    expect(applyHunks("b", terminated, 0).content).toBe("b\n");
+  });
+});